@@ -0,0 +1,164 @@
+import React, { FC } from 'react';
+import { Sparkles } from 'lucide-react';
+import type { AdaptiveHelpContent } from '../lib/adaptiveHelp';
+import NebulaAvatar from './NebulaAvatar';
+
+// Shown instead of moving on when a learner struggles - another explanation, hints for the missed questions,
+// a weak prerequisite to go back to, and questions to ask Ky'Orda
+interface AdaptiveHelpModalProps {
+  content: AdaptiveHelpContent;
+  onJumpToPrerequisite: () => void;
+  onGoToConcept: (conceptId: string) => void;
+  // Opens the chat with the suggestion typed in
+  onAskSuggestion: (suggestion: string) => void;
+  onAskQuestions: () => void;
+  // Closes the modal so they can review the concept again
+  onClose: () => void;
+  // Records the concept and moves on anyway
+  onContinue: () => void;
+}
+
+const AdaptiveHelpModal: FC<AdaptiveHelpModalProps> = ({
+  content,
+  onJumpToPrerequisite,
+  onGoToConcept,
+  onAskSuggestion,
+  onAskQuestions,
+  onClose,
+  onContinue,
+}) => (
+  <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+    <div className="bg-white rounded-2xl w-full max-w-md max-h-[80vh] overflow-y-auto shadow-2xl">
+      <div className="bg-gradient-to-r from-amber-400 to-orange-500 p-6 rounded-t-2xl">
+        <div className="flex items-center space-x-3 mb-2">
+          <NebulaAvatar size="normal" />
+          <h3 className="text-xl font-bold text-white">Ky'Orda Notices You Need Support</h3>
+        </div>
+        <p className="text-white/90 text-sm">{content.message}</p>
+      </div>
+      
+      <div className="p-6 space-y-4">
+        {content.alternativeExplanation && (
+          <div className="bg-blue-50 border-l-4 border-blue-500 rounded-r-lg p-4">
+            <h4 className="font-bold text-blue-900 mb-2 flex items-center">
+              <Sparkles className="w-5 h-5 mr-2" />
+              Let's Try This Another Way
+            </h4>
+            <p className="text-blue-800 leading-relaxed">
+              {content.alternativeExplanation}
+            </p>
+          </div>
+        )}
+        
+        {content.analogy && (
+          <div className="bg-amber-50 border-l-4 border-amber-400 rounded-r-lg p-4">
+            <h4 className="font-bold text-amber-900 mb-2">Picture It Like This</h4>
+            <p className="text-amber-800 leading-relaxed">{content.analogy}</p>
+          </div>
+        )}
+        
+        {content.hints.length > 0 && (
+          <div className="space-y-2">
+            <h4 className="font-bold text-gray-900">Hints for the Questions You Missed</h4>
+            {content.hints.map(hint => (
+              <div key={hint.checkId} className="bg-teal-50 rounded-lg p-3">
+                <p className="text-teal-900 text-sm font-semibold">{hint.question}</p>
+                <p className="text-teal-800 text-sm mt-1">💡 {hint.hint}</p>
+              </div>
+            ))}
+          </div>
+        )}
+        
+        {content.weakPrerequisite && (
+          <div className="bg-indigo-50 border-l-4 border-indigo-500 rounded-r-lg p-4">
+            <h4 className="font-bold text-indigo-900 mb-1">Strengthen the Foundation</h4>
+            <p className="text-indigo-800 text-sm mb-3">
+              This concept builds on "{content.weakPrerequisite.title}"
+              {content.weakPrerequisite.mastery === undefined
+                ? ", which you haven't studied yet."
+                : `, and your mastery there is about ${Math.round(content.weakPrerequisite.mastery * 100)}%.`}
+              {' '}Going back to it first often makes this one click.
+            </p>
+            <button
+              onClick={onJumpToPrerequisite}
+              className="w-full py-2 bg-indigo-500 text-white text-sm font-semibold rounded-lg hover:bg-indigo-600 transition-colors"
+            >
+              ← Jump back to {content.weakPrerequisite.title.split(':')[0]}
+            </button>
+          </div>
+        )}
+        
+        {content.reviewConcepts.length > 0 && (
+          <div className="space-y-2">
+            <h4 className="font-bold text-gray-900">Worth Reviewing First</h4>
+            {content.reviewConcepts.map(concept => (
+              <button
+                key={concept.id}
+                onClick={() => onGoToConcept(concept.id)}
+                className="w-full text-left p-3 bg-blue-50 hover:bg-blue-100 rounded-lg transition-colors border border-blue-200"
+              >
+                <p className="text-blue-900 text-sm">← {concept.title}</p>
+              </button>
+            ))}
+          </div>
+        )}
+        
+        {content.suggestions.length > 0 && (
+          <div className="space-y-2">
+            <h4 className="font-bold text-gray-900">What Would Help You Most?</h4>
+            {content.suggestions.map((suggestion, idx) => (
+              <button
+                key={idx}
+                onClick={() => onAskSuggestion(suggestion)}
+                className="w-full text-left p-3 bg-purple-50 hover:bg-purple-100 rounded-lg transition-colors border border-purple-200"
+              >
+                <p className="text-purple-900 text-sm">{suggestion}</p>
+              </button>
+            ))}
+          </div>
+        )}
+        
+        <div className="bg-green-50 rounded-lg p-4">
+          <p className="text-green-900 text-sm font-semibold mb-2">
+            💡 Remember: Struggling is part of learning!
+          </p>
+          <p className="text-green-800 text-sm">
+            Even Einstein had to work through confusion. Every question you ask makes you stronger. 
+            You've got this!
+          </p>
+        </div>
+        
+        <div className="flex space-x-3">
+          <button
+            onClick={onAskQuestions}
+            className="flex-1 py-3 bg-purple-500 text-white font-semibold rounded-xl hover:bg-purple-600 transition-colors"
+          >
+            Ask Ky'Orda Questions
+          </button>
+          <button
+            onClick={onClose}
+            className="flex-1 py-3 bg-blue-500 text-white font-semibold rounded-xl hover:bg-blue-600 transition-colors"
+          >
+            Review Again
+          </button>
+        </div>
+        
+        <button
+          onClick={onContinue}
+          className="w-full py-3 bg-green-500 text-white font-semibold rounded-xl hover:bg-green-600 transition-colors mt-2"
+        >
+          I'm Ready - Continue to Next Concept
+        </button>
+        
+        <button
+          onClick={onContinue}
+          className="w-full py-2 text-gray-600 text-sm hover:text-gray-800 transition-colors"
+        >
+          Skip Anyway (Not Recommended) →
+        </button>
+      </div>
+    </div>
+  </div>
+);
+
+export default AdaptiveHelpModal;
@@ -0,0 +1,156 @@
+import React, { FC } from 'react';
+import { Brain, BarChart3 } from 'lucide-react';
+import type { LearningAnalytics } from '../lib/analytics';
+import { MASTERED_THRESHOLD, STRUGGLING_THRESHOLD, describeCalibration } from '../lib/mastery';
+
+// Learning analytics modal - the learner profile, strengths, focus areas and per-concept mastery
+interface AnalyticsDashboardProps {
+  analytics: LearningAnalytics;
+  onClose: () => void;
+}
+
+const AnalyticsDashboard: FC<AnalyticsDashboardProps> = ({ analytics, onClose }) => {
+  const report = analytics.getAnalyticsReport();
+  
+  return (
+    <div className="fixed inset-0 bg-black/70 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-2xl w-full max-w-lg max-h-[80vh] overflow-y-auto shadow-2xl">
+        <div className="bg-gradient-to-r from-purple-600 to-blue-600 p-4 rounded-t-2xl">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center space-x-2 text-white">
+              <Brain className="w-6 h-6" />
+              <h3 className="font-bold text-lg">Learning Analytics</h3>
+            </div>
+            <button onClick={onClose} className="text-white text-2xl">×</button>
+          </div>
+        </div>
+        
+        <div className="p-6 space-y-4">
+          {/* Learner Profile */}
+          <div className="bg-purple-50 rounded-lg p-4">
+            <h4 className="font-bold text-purple-900 mb-2 flex items-center">
+              <BarChart3 className="w-5 h-5 mr-2" />
+              Your Learning Profile
+            </h4>
+            <div className="grid grid-cols-2 gap-3 text-sm">
+              <div>
+                <span className="text-gray-600">Learning Style:</span>
+                <span className="ml-2 font-semibold text-purple-700 capitalize">
+                  {report.learnerProfile.learningStyle || 'Analyzing...'}
+                </span>
+              </div>
+              <div>
+                <span className="text-gray-600">Pace:</span>
+                <span className="ml-2 font-semibold text-purple-700 capitalize">
+                  {report.learnerProfile.pacePreference || 'Analyzing...'}
+                </span>
+              </div>
+              <div>
+                <span className="text-gray-600">Engagement:</span>
+                <span className="ml-2 font-semibold text-purple-700 capitalize">
+                  {report.learnerProfile.engagementLevel}
+                </span>
+              </div>
+              <div>
+                <span className="text-gray-600">Session Time:</span>
+                <span className="ml-2 font-semibold text-purple-700">
+                  {Math.round(report.sessionDuration / 60000)}m
+                </span>
+              </div>
+              <div className="col-span-2">
+                <span className="text-gray-600">Self-assessment:</span>
+                <span className="ml-2 font-semibold text-purple-700 capitalize">
+                  {describeCalibration(report.learnerProfile.calibrationGap) || 'Analyzing...'}
+                </span>
+              </div>
+            </div>
+          </div>
+
+          {/* Strengths */}
+          {report.learnerProfile.strengthAreas.length > 0 && (
+            <div className="bg-green-50 rounded-lg p-4">
+              <h4 className="font-bold text-green-900 mb-2">💪 Your Strengths</h4>
+              <div className="flex flex-wrap gap-2">
+                {report.learnerProfile.strengthAreas.map((area, idx) => (
+                  <span key={idx} className="bg-green-200 text-green-800 px-2 py-1 rounded-full text-sm">
+                    {area}
+                  </span>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* Areas to Improve */}
+          {report.learnerProfile.struggleAreas.length > 0 && (
+            <div className="bg-orange-50 rounded-lg p-4">
+              <h4 className="font-bold text-orange-900 mb-2">🎯 Focus Areas</h4>
+              <div className="flex flex-wrap gap-2">
+                {report.learnerProfile.struggleAreas.map((area, idx) => (
+                  <span key={idx} className="bg-orange-200 text-orange-800 px-2 py-1 rounded-full text-sm">
+                    {area}
+                  </span>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* Recommendations */}
+          {report.recommendations.length > 0 && (
+            <div className="bg-blue-50 rounded-lg p-4">
+              <h4 className="font-bold text-blue-900 mb-2">💡 Recommendations</h4>
+              <ul className="space-y-2 text-sm text-blue-800">
+                {report.recommendations.map((rec, idx) => (
+                  <li key={idx} className="flex items-start">
+                    <span className="mr-2">•</span>
+                    {rec.message}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {/* Concept Performance */}
+          <div className="bg-gray-50 rounded-lg p-4">
+            <h4 className="font-bold text-gray-900 mb-2">📊 Concept Performance</h4>
+            <div className="space-y-2">
+              {Object.entries(report.conceptPerformance).map(([conceptId, perf]) => {
+                const calibration = describeCalibration(perf.calibrationGap);
+                return (
+                  <div key={conceptId} className="text-sm">
+                    <div className="flex items-center justify-between">
+                      <span className="text-gray-700">{conceptId}</span>
+                      <div className="flex items-center space-x-2">
+                        <span className="text-yellow-600" title="Average confidence">★ {perf.averageConfidence.toFixed(1)}</span>
+                        <span className="text-purple-600" title="Estimated retention today">🧠 {Math.round(perf.retention * 100)}%</span>
+                        {calibration && calibration !== 'calibrated' && (
+                          <span className={`text-xs px-1.5 py-0.5 rounded-full ${calibration === 'overconfident' ? 'bg-orange-100 text-orange-700' : 'bg-blue-100 text-blue-700'}`}>
+                            {calibration}
+                          </span>
+                        )}
+                      </div>
+                    </div>
+                    <div className="flex items-center space-x-2 mt-1" title="Probability you've mastered this concept">
+                      <div className="flex-1 bg-gray-200 rounded-full h-1.5">
+                        <div
+                          className={`h-1.5 rounded-full ${perf.mastery >= MASTERED_THRESHOLD ? 'bg-green-500' : perf.mastery < STRUGGLING_THRESHOLD ? 'bg-orange-400' : 'bg-blue-500'}`}
+                          style={{ width: `${Math.round(perf.mastery * 100)}%` }}
+                        />
+                      </div>
+                      <span className="text-xs text-gray-600 w-20 text-right">{Math.round(perf.mastery * 100)}% mastery</span>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+
+          <p className="text-xs text-gray-500 text-center">
+            This data is stored privately and used only to personalize your learning experience.
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AnalyticsDashboard;
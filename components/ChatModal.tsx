@@ -0,0 +1,133 @@
+import React, { FC } from 'react';
+import { Sparkles } from 'lucide-react';
+import NebulaAvatar from './NebulaAvatar';
+
+export interface ChatMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+// Chat with Ky'Orda about the current concept - replies stream into the last message as they arrive
+interface ChatModalProps {
+  conceptTitle?: string;
+  history: ChatMessage[];
+  input: string;
+  onInputChange: (input: string) => void;
+  onSend: () => void;
+  // Stops the reply that's streaming in
+  onCancel: () => void;
+  isThinking: boolean;
+  // Set once the reply has started arriving - the typing dots give way to the message
+  isStreaming: boolean;
+  onClose: () => void;
+}
+
+const ChatModal: FC<ChatModalProps> = ({
+  conceptTitle,
+  history,
+  input,
+  onInputChange,
+  onSend,
+  onCancel,
+  isThinking,
+  isStreaming,
+  onClose,
+}) => (
+  <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+    <div className="bg-white rounded-2xl w-full max-w-md max-h-[80vh] flex flex-col shadow-2xl">
+      <div className="flex items-center space-x-3 p-4 border-b">
+        <NebulaAvatar size="small" isThinking={isThinking} />
+        <div className="flex-1">
+          <h3 className="font-bold text-gray-900">Ky'Orda</h3>
+          <p className="text-xs text-gray-600">Your quantum guide</p>
+        </div>
+        <button 
+          onClick={onClose}
+          className="text-gray-500 hover:text-gray-700 text-2xl"
+        >
+          ×
+        </button>
+      </div>
+      
+      <div className="flex-1 overflow-y-auto p-4 space-y-4">
+        {history.length === 0 && (
+          <div className="text-center text-gray-500 text-sm py-8">
+            <Sparkles className="w-8 h-8 mx-auto mb-2 text-purple-400" />
+            <p>Ask me anything about {conceptTitle}</p>
+            <p className="text-xs mt-2">I'm here to help you understand at the quantum level</p>
+          </div>
+        )}
+        
+        {history.map((msg, idx) => (
+          <div 
+            key={idx}
+            className={`flex ${msg.role === 'user' ? 'justify-end' : 'justify-start'}`}
+          >
+            {msg.role === 'assistant' && (
+              <div className="flex-shrink-0 mr-2">
+                <NebulaAvatar size="small" />
+              </div>
+            )}
+            <div 
+              className={`max-w-[75%] p-3 rounded-2xl ${
+                msg.role === 'user' 
+                  ? 'bg-purple-500 text-white' 
+                  : 'bg-gray-100 text-gray-900'
+              }`}
+            >
+              <p className="text-sm leading-relaxed whitespace-pre-wrap">{msg.content}</p>
+            </div>
+          </div>
+        ))}
+        
+        {isThinking && !isStreaming && (
+          <div className="flex justify-start">
+            <div className="flex-shrink-0 mr-2">
+              <NebulaAvatar size="small" isThinking={true} />
+            </div>
+            <div className="bg-gray-100 p-3 rounded-2xl">
+              <div className="flex space-x-1">
+                <div className="w-2 h-2 bg-purple-400 rounded-full animate-bounce" />
+                <div className="w-2 h-2 bg-purple-400 rounded-full animate-bounce" style={{animationDelay: '0.1s'}} />
+                <div className="w-2 h-2 bg-purple-400 rounded-full animate-bounce" style={{animationDelay: '0.2s'}} />
+              </div>
+            </div>
+          </div>
+        )}
+      </div>
+      
+      <div className="p-4 border-t">
+        <div className="flex space-x-2">
+          <input
+            type="text"
+            value={input}
+            maxLength={2000}
+            onChange={(e) => onInputChange(e.target.value)}
+            onKeyPress={(e) => e.key === 'Enter' && onSend()}
+            placeholder="Ask Ky'Orda..."
+            className="flex-1 px-4 py-2 border border-gray-300 rounded-xl focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+            disabled={isThinking}
+          />
+          {isThinking ? (
+            <button
+              onClick={onCancel}
+              className="px-4 py-2 bg-gray-200 text-gray-800 rounded-xl hover:bg-gray-300 transition-all"
+            >
+              Stop
+            </button>
+          ) : (
+            <button
+              onClick={onSend}
+              disabled={!input.trim()}
+              className="px-4 py-2 bg-purple-500 text-white rounded-xl hover:bg-purple-600 disabled:opacity-50 disabled:cursor-not-allowed transition-all"
+            >
+              Send
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  </div>
+);
+
+export default ChatModal;
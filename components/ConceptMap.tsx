@@ -0,0 +1,143 @@
+import React, { FC } from 'react';
+import { Lock, CheckCircle, Map as MapIcon } from 'lucide-react';
+import { conceptGraph, getConceptStatus, getMissingPrerequisites } from '../lib/conceptGraph';
+import type { ConceptNode, ConceptProgress, ConceptStatus } from '../lib/conceptGraph';
+
+// Concept map - the prerequisite graph drawn top to bottom, one row per depth
+interface ConceptMapProps {
+  progress: ConceptProgress;
+  currentConceptId: string | null;
+  onClose: () => void;
+  onSelect: (conceptId: string) => void;
+}
+
+const ROW_HEIGHT = 88;
+const NODE_HEIGHT = 60;
+
+const STATUS_STYLES: Record<ConceptStatus, string> = {
+  locked: 'bg-gray-100 border-gray-300 text-gray-500 cursor-not-allowed',
+  unlocked: 'bg-white border-purple-300 text-purple-900 hover:bg-purple-50',
+  mastered: 'bg-green-50 border-green-400 text-green-900 hover:bg-green-100',
+};
+
+// Short enough to fit a node - "Quantum Shells: Where Electrons Live" becomes "Quantum Shells"
+const shortTitle = (title: string) => title.split(':')[0];
+
+interface NodeLayout {
+  node: ConceptNode;
+  // Centre, as a percentage of the map width
+  x: number;
+  y: number;
+  width: number;
+}
+
+function layoutGraph(): NodeLayout[] {
+  const rows: ConceptNode[][] = [];
+  conceptGraph.nodes.forEach(node => {
+    (rows[node.depth] = rows[node.depth] || []).push(node);
+  });
+
+  return rows.flatMap((row, depth) =>
+    row.map((node, idx) => ({
+      node,
+      x: ((idx + 1) / (row.length + 1)) * 100,
+      y: depth * ROW_HEIGHT + NODE_HEIGHT / 2,
+      width: row.length === 1 ? 70 : 90 / row.length,
+    }))
+  );
+}
+
+const layout = layoutGraph();
+const mapHeight = Math.max(...layout.map(l => l.y)) + NODE_HEIGHT / 2;
+
+const ConceptMap: FC<ConceptMapProps> = ({ progress, currentConceptId, onClose, onSelect }) => {
+  const positions = new Map(layout.map(l => [l.node.concept.id, l]));
+
+  return (
+    <div className="fixed inset-0 bg-black/70 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-2xl w-full max-w-lg max-h-[85vh] overflow-y-auto shadow-2xl">
+        <div className="bg-gradient-to-r from-purple-600 to-blue-600 p-4 rounded-t-2xl sticky top-0 z-10">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center space-x-2 text-white">
+              <MapIcon className="w-6 h-6" />
+              <h3 className="font-bold text-lg">Concept Map</h3>
+            </div>
+            <button onClick={onClose} className="text-white text-2xl">×</button>
+          </div>
+          <div className="flex items-center space-x-4 mt-2 text-xs text-white/90">
+            <span className="flex items-center"><CheckCircle className="w-3 h-3 mr-1" /> Mastered</span>
+            <span>○ Ready to explore</span>
+            <span className="flex items-center"><Lock className="w-3 h-3 mr-1" /> Needs earlier concepts</span>
+          </div>
+        </div>
+
+        <div className="p-4">
+          <div className="relative" style={{ height: mapHeight }}>
+            {/* Edges from each prerequisite down to the concepts that build on it */}
+            <svg
+              className="absolute inset-0 w-full h-full"
+              viewBox={`0 0 100 ${mapHeight}`}
+              preserveAspectRatio="none"
+            >
+              {layout.flatMap(({ node, x, y }) =>
+                node.prerequisites.map(prereqId => {
+                  const from = positions.get(prereqId)!;
+                  const met = progress.completed[prereqId];
+                  return (
+                    <line
+                      key={`${prereqId}-${node.concept.id}`}
+                      x1={from.x}
+                      y1={from.y + NODE_HEIGHT / 2}
+                      x2={x}
+                      y2={y - NODE_HEIGHT / 2}
+                      stroke={met ? '#a855f7' : '#d1d5db'}
+                      strokeWidth={2}
+                      strokeDasharray={met ? undefined : '4 4'}
+                      vectorEffect="non-scaling-stroke"
+                    />
+                  );
+                })
+              )}
+            </svg>
+
+            {layout.map(({ node, x, y, width }) => {
+              const { concept } = node;
+              const status = getConceptStatus(conceptGraph, concept.id, progress);
+              const missing = status === 'locked' ? getMissingPrerequisites(conceptGraph, concept.id, progress) : [];
+              const mastery = progress.mastery[concept.id];
+              const isCurrent = concept.id === currentConceptId;
+
+              return (
+                <button
+                  key={concept.id}
+                  onClick={() => status !== 'locked' && onSelect(concept.id)}
+                  disabled={status === 'locked'}
+                  title={missing.length > 0 ? `First complete: ${missing.map(c => shortTitle(c.title)).join(', ')}` : concept.title}
+                  className={`absolute border-2 rounded-xl px-2 text-xs font-medium leading-tight flex flex-col items-center justify-center transition-colors ${STATUS_STYLES[status]} ${isCurrent ? 'ring-2 ring-offset-2 ring-purple-500' : ''}`}
+                  style={{
+                    left: `${x}%`,
+                    top: y - NODE_HEIGHT / 2,
+                    width: `${width}%`,
+                    height: NODE_HEIGHT,
+                    transform: 'translateX(-50%)',
+                  }}
+                >
+                  <span className="flex items-center">
+                    {status === 'locked' && <Lock className="w-3 h-3 mr-1 flex-shrink-0" />}
+                    {status === 'mastered' && <CheckCircle className="w-3 h-3 mr-1 flex-shrink-0" />}
+                    {shortTitle(concept.title)}
+                  </span>
+                  {mastery !== undefined && status !== 'locked' && (
+                    <span className="text-[10px] opacity-75 mt-0.5">{Math.round(mastery * 100)}% mastery</span>
+                  )}
+                </button>
+              );
+            })}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ConceptMap;
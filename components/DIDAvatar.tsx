@@ -0,0 +1,165 @@
+import React, { useState, useEffect, useRef, FC } from 'react';
+
+interface DIDConfig {
+  apiUrl: string;
+  presenterUrl: string;
+  voiceId: string;
+}
+
+// Talking video avatar from D-ID, with the browser's speech synthesis when there's no API key
+interface DIDAvatarProps {
+  text?: string;
+  isVisible?: boolean;
+  apiKey?: string | null;
+  onSpeakingStart?: () => void;
+  onSpeakingEnd?: () => void;
+}
+
+const DIDAvatar: FC<DIDAvatarProps> = ({ 
+  text, 
+  isVisible = true, 
+  apiKey = null,
+  onSpeakingStart,
+  onSpeakingEnd 
+}) => {
+  const [videoUrl, setVideoUrl] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+  const videoRef = useRef<HTMLVideoElement>(null);
+
+  // D-ID API configuration
+  const DID_CONFIG: DIDConfig = {
+    apiUrl: 'https://api.d-id.com',
+    // Default presenter - can be customized
+    presenterUrl: 'https://create-images-results.d-id.com/DefaultPresenters/Emma_f/image.png',
+    voiceId: 'en-US-JennyNeural', // Microsoft Azure voice
+  };
+
+  const generateSpeakingVideo = async (scriptText: string): Promise<string | null> => {
+    if (!apiKey) {
+      console.log('D-ID API key not configured - using fallback');
+      return null;
+    }
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      // Create a talk
+      const response = await fetch(`${DID_CONFIG.apiUrl}/talks`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Basic ${apiKey}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          source_url: DID_CONFIG.presenterUrl,
+          script: {
+            type: 'text',
+            input: scriptText,
+            provider: {
+              type: 'microsoft',
+              voice_id: DID_CONFIG.voiceId
+            }
+          },
+          config: {
+            stitch: true,
+            pad_audio: 0.5
+          }
+        })
+      });
+
+      if (!response.ok) {
+        throw new Error(`D-ID API error: ${response.status}`);
+      }
+
+      const data = await response.json();
+      
+      // Poll for completion
+      const talkId = data.id;
+      let resultUrl = null;
+      
+      for (let i = 0; i < 30; i++) {
+        await new Promise(r => setTimeout(r, 2000));
+        
+        const statusResponse = await fetch(`${DID_CONFIG.apiUrl}/talks/${talkId}`, {
+          headers: { 'Authorization': `Basic ${apiKey}` }
+        });
+        
+        const statusData = await statusResponse.json();
+        
+        if (statusData.status === 'done') {
+          resultUrl = statusData.result_url;
+          break;
+        } else if (statusData.status === 'error') {
+          throw new Error('Video generation failed');
+        }
+      }
+
+      setVideoUrl(resultUrl);
+      return resultUrl;
+
+    } catch (err: any) {
+      console.error('D-ID error:', err);
+      setError(err?.message || 'Unknown error');
+      return null;
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Fallback to browser TTS when D-ID not available
+  const speakWithTTS = (text: string): void => {
+    if ('speechSynthesis' in window) {
+      const utterance = new SpeechSynthesisUtterance(text);
+      utterance.rate = 0.9;
+      utterance.pitch = 1;
+      utterance.onstart = onSpeakingStart || null;
+      utterance.onend = onSpeakingEnd || null;
+      window.speechSynthesis.speak(utterance);
+    }
+  };
+
+  useEffect(() => {
+    if (text && isVisible) {
+      if (apiKey) {
+        generateSpeakingVideo(text);
+      } else {
+        // Use browser TTS as fallback
+        speakWithTTS(text);
+      }
+    }
+  }, [text, isVisible, apiKey]);
+
+  if (!isVisible) return null;
+
+  return (
+    <div className="relative">
+      {isLoading && (
+        <div className="flex items-center justify-center p-4">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-purple-600"></div>
+          <span className="ml-2 text-purple-600">Generating avatar...</span>
+        </div>
+      )}
+      
+      {videoUrl && (
+        <video 
+          ref={videoRef}
+          src={videoUrl}
+          autoPlay
+          onPlay={onSpeakingStart}
+          onEnded={onSpeakingEnd}
+          className="rounded-xl shadow-lg"
+        />
+      )}
+      
+      {error && (
+        <div className="text-red-500 text-sm p-2">
+          Avatar unavailable: {error}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DIDAvatar;
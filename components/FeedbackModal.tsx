@@ -0,0 +1,116 @@
+import React, { useState, useEffect, FC } from 'react';
+
+type FeedbackType = 'rating' | 'comment' | 'issue';
+
+// Comment or issue report about the current concept, sent to /api/feedback
+interface FeedbackModalProps {
+  conceptTitle?: string;
+  // Resolves to whether the feedback was sent
+  onSubmit: (type: FeedbackType, comment: string) => Promise<boolean>;
+  onClose: () => void;
+}
+
+const FeedbackModal: FC<FeedbackModalProps> = ({ conceptTitle, onSubmit, onClose }) => {
+  const [feedbackType, setFeedbackType] = useState<FeedbackType>('rating');
+  const [feedbackComment, setFeedbackComment] = useState<string>('');
+  const [feedbackSubmitting, setFeedbackSubmitting] = useState<boolean>(false);
+  const [feedbackSuccess, setFeedbackSuccess] = useState<boolean>(false);
+  
+  // Say thanks, then close
+  useEffect(() => {
+    if (!feedbackSuccess) return;
+    const timer = setTimeout(onClose, 1500);
+    return () => clearTimeout(timer);
+  }, [feedbackSuccess]);
+  
+  const handleSubmit = async () => {
+    if (!feedbackComment.trim()) return;
+    setFeedbackSubmitting(true);
+    const sent = await onSubmit(feedbackType, feedbackComment.trim());
+    setFeedbackSubmitting(false);
+    if (sent) setFeedbackSuccess(true);
+  };
+  
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-2xl w-full max-w-md shadow-2xl overflow-hidden">
+        <div className="bg-gradient-to-r from-purple-500 to-blue-500 p-4">
+          <div className="flex items-center justify-between">
+            <h3 className="text-lg font-bold text-white">Share Your Feedback</h3>
+            <button 
+              onClick={onClose}
+              className="text-white/80 hover:text-white text-2xl"
+            >
+              ×
+            </button>
+          </div>
+          <p className="text-white/80 text-sm">Help us improve Ky'Orda!</p>
+        </div>
+        
+        {feedbackSuccess ? (
+          <div className="p-8 text-center">
+            <div className="text-5xl mb-4">✨</div>
+            <h4 className="text-xl font-bold text-gray-900 mb-2">Thank You!</h4>
+            <p className="text-gray-600">Your feedback helps us improve.</p>
+          </div>
+        ) : (
+          <div className="p-4 space-y-4">
+            {/* Feedback Type Tabs */}
+            <div className="flex space-x-2">
+              {[
+                { type: 'comment', label: '💬 Comment', color: 'blue' },
+                { type: 'issue', label: '🐛 Issue', color: 'red' },
+              ].map(({ type, label, color }) => (
+                <button
+                  key={type}
+                  onClick={() => setFeedbackType(type as 'comment' | 'issue')}
+                  className={`flex-1 py-2 px-3 rounded-lg text-sm font-medium transition-all ${
+                    feedbackType === type
+                      ? `bg-${color}-100 text-${color}-700 border-2 border-${color}-300`
+                      : 'bg-gray-100 text-gray-600 border-2 border-transparent'
+                  }`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+            
+            {/* Current Context */}
+            <div className="bg-gray-50 rounded-lg p-3">
+              <p className="text-xs text-gray-500">About:</p>
+              <p className="text-sm font-medium text-gray-700">{conceptTitle}</p>
+            </div>
+            
+            {/* Comment Input */}
+            <textarea
+              value={feedbackComment}
+              onChange={(e) => setFeedbackComment(e.target.value)}
+              placeholder={
+                feedbackType === 'issue' 
+                  ? "Describe the issue you encountered..."
+                  : "Share your thoughts, suggestions, or what's working well..."
+              }
+              className="w-full p-3 border border-gray-300 rounded-xl resize-none focus:outline-none focus:ring-2 focus:ring-purple-500"
+              rows={4}
+            />
+            
+            {/* Submit Button */}
+            <button
+              onClick={handleSubmit}
+              disabled={!feedbackComment.trim() || feedbackSubmitting}
+              className={`w-full py-3 rounded-xl font-bold text-white transition-all ${
+                !feedbackComment.trim() || feedbackSubmitting
+                  ? 'bg-gray-300 cursor-not-allowed'
+                  : 'bg-gradient-to-r from-purple-500 to-blue-500 hover:shadow-lg'
+              }`}
+            >
+              {feedbackSubmitting ? 'Sending...' : 'Submit Feedback'}
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default FeedbackModal;
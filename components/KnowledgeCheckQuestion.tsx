@@ -0,0 +1,477 @@
+import React, { useMemo, useState, FC } from 'react';
+import LewisBuilder from './LewisBuilder';
+import {
+  answerFeedback,
+  describeCorrectAnswer,
+  gradeCheck,
+  isAnswerValid,
+  matchingOptions,
+  normalizeText,
+  parseNumericAnswer,
+  targetMolecule,
+} from '../lib/grading';
+import { formatConfiguration, parseElectronConfiguration } from '../lib/electronConfiguration';
+import { EMPTY_STRUCTURE } from '../lib/lewis';
+import type { LewisStructure } from '../lib/lewis';
+import type {
+  CheckAnswer,
+  ChoiceCheck,
+  ElectronConfigurationCheck,
+  KnowledgeCheck,
+  LewisStructureCheck,
+  MatchingCheck,
+  MultiSelectCheck,
+  NumericCheck,
+  OrderingCheck,
+  ShortTextCheck,
+} from '../lib/curriculum';
+
+// Answer area for one knowledge check - a renderer per question type, locked once answered
+interface KnowledgeCheckQuestionProps {
+  check: KnowledgeCheck;
+  // The submitted answer; undefined until the student commits to one
+  answer: CheckAnswer | undefined;
+  onAnswer: (answer: CheckAnswer) => void;
+  correctMessage?: string;
+  incorrectMessage?: string;
+}
+
+interface InputProps<C extends KnowledgeCheck> {
+  check: C;
+  answer: CheckAnswer | undefined;
+  isAnswered: boolean;
+  onAnswer: (answer: CheckAnswer) => void;
+}
+
+const OPTION_BASE = "w-full text-left px-4 py-3 rounded-lg transition-all ";
+const OPTION_OPEN = "bg-white hover:bg-teal-100 border-2 border-teal-200 text-gray-900";
+const OPTION_RIGHT = "bg-green-200 border-2 border-green-500 text-green-900 font-semibold";
+const OPTION_WRONG = "bg-red-200 border-2 border-red-500 text-red-900";
+const OPTION_MISSED = "bg-green-100 border-2 border-green-400 text-green-900";
+const OPTION_IDLE = "bg-gray-100 text-gray-500 opacity-60";
+
+const SUBMIT_CLASS = "w-full mt-3 py-2 bg-teal-500 text-white font-semibold rounded-lg hover:bg-teal-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed";
+const INPUT_CLASS = "flex-1 px-3 py-2 border-2 border-teal-200 rounded-lg focus:outline-none focus:border-teal-500 text-gray-900 disabled:bg-gray-100";
+
+const Mark: FC<{ correct: boolean }> = ({ correct }) => correct
+  ? <span className="text-green-600 font-bold">✓</span>
+  : <span className="text-red-600 font-bold">✗</span>;
+
+// Same shuffle for the same check every render, and never the answer itself
+function stableShuffle(count: number, seed: string): number[] {
+  let hash = 0;
+  for (let i = 0; i < seed.length; i++) hash = (hash * 31 + seed.charCodeAt(i)) | 0;
+  const random = () => {
+    hash = (hash * 1103515245 + 12345) | 0;
+    return ((hash >>> 16) & 0x7fff) / 0x8000;
+  };
+
+  const order = Array.from({ length: count }, (_, i) => i);
+  for (let i = count - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [order[i], order[j]] = [order[j], order[i]];
+  }
+  if (count > 1 && order.every((item, idx) => item === idx)) order.reverse();
+  return order;
+}
+
+// ============================================
+// RENDERERS
+// ============================================
+
+const ChoiceInput: FC<InputProps<ChoiceCheck>> = ({ check, answer, isAnswered, onAnswer }) => (
+  <div className="space-y-2">
+    {check.options.map((option, optIdx) => {
+      const isThisCorrect = optIdx === check.correct;
+      const isSelected = answer === optIdx;
+
+      const buttonClass = OPTION_BASE + (
+        !isAnswered ? OPTION_OPEN
+          : isSelected ? (isThisCorrect ? OPTION_RIGHT : OPTION_WRONG)
+          : isThisCorrect ? OPTION_MISSED
+          : OPTION_IDLE
+      );
+
+      return (
+        <button
+          key={optIdx}
+          onClick={() => !isAnswered && onAnswer(optIdx)}
+          disabled={isAnswered}
+          className={buttonClass}
+        >
+          <div className="flex items-center justify-between">
+            <span>{option}</span>
+            {isAnswered && isThisCorrect && <Mark correct />}
+            {isAnswered && isSelected && !isThisCorrect && <Mark correct={false} />}
+          </div>
+        </button>
+      );
+    })}
+  </div>
+);
+
+const MultiSelectInput: FC<InputProps<MultiSelectCheck>> = ({ check, answer, isAnswered, onAnswer }) => {
+  const [selected, setSelected] = useState<number[]>([]);
+  const chosen = isAnswered ? (answer as number[]) : selected;
+
+  const toggle = (optIdx: number) => setSelected(prev =>
+    prev.includes(optIdx) ? prev.filter(i => i !== optIdx) : [...prev, optIdx]
+  );
+
+  return (
+    <div className="space-y-2">
+      <p className="text-xs text-teal-700">Select all that apply.</p>
+      {check.options.map((option, optIdx) => {
+        const isThisCorrect = check.correct.includes(optIdx);
+        const isSelected = chosen.includes(optIdx);
+
+        const buttonClass = OPTION_BASE + (
+          !isAnswered ? (isSelected ? "bg-teal-100 border-2 border-teal-500 text-teal-900" : OPTION_OPEN)
+            : isSelected ? (isThisCorrect ? OPTION_RIGHT : OPTION_WRONG)
+            : isThisCorrect ? OPTION_MISSED
+            : OPTION_IDLE
+        );
+
+        return (
+          <button key={optIdx} onClick={() => !isAnswered && toggle(optIdx)} disabled={isAnswered} className={buttonClass}>
+            <div className="flex items-center justify-between">
+              <span className="flex items-center">
+                <span className="mr-2">{isSelected ? '☑' : '☐'}</span>
+                {option}
+              </span>
+              {isAnswered && (isSelected || isThisCorrect) && <Mark correct={isThisCorrect} />}
+            </div>
+          </button>
+        );
+      })}
+      {!isAnswered && (
+        <button onClick={() => onAnswer([...selected].sort((a, b) => a - b))} disabled={selected.length === 0} className={SUBMIT_CLASS}>
+          Check Answer
+        </button>
+      )}
+    </div>
+  );
+};
+
+const NumericInput: FC<InputProps<NumericCheck>> = ({ check, answer, isAnswered, onAnswer }) => {
+  const [value, setValue] = useState('');
+  const [problem, setProblem] = useState<string | null>(null);
+
+  const submit = () => {
+    if (parseNumericAnswer(check, value) === null) {
+      setProblem(check.unit ? `Enter a number - in ${check.unit}, or leave the unit off.` : 'Enter a number.');
+      return;
+    }
+    setProblem(null);
+    onAnswer(value.trim());
+  };
+
+  return (
+    <div>
+      <form
+        className="flex items-center space-x-2"
+        onSubmit={(e) => {
+          e.preventDefault();
+          submit();
+        }}
+      >
+        <input
+          type="text"
+          inputMode="decimal"
+          value={isAnswered ? (answer as string) : value}
+          onChange={(e) => setValue(e.target.value)}
+          disabled={isAnswered}
+          className={INPUT_CLASS}
+          placeholder="Your answer"
+        />
+        {check.unit && <span className="text-teal-900 font-semibold">{check.unit}</span>}
+      </form>
+      {problem && <p className="text-xs text-red-600 mt-1">{problem}</p>}
+      {!isAnswered && (
+        <button onClick={submit} disabled={!value.trim()} className={SUBMIT_CLASS}>
+          Check Answer
+        </button>
+      )}
+    </div>
+  );
+};
+
+const ShortTextInput: FC<InputProps<ShortTextCheck>> = ({ check, answer, isAnswered, onAnswer }) => {
+  const [value, setValue] = useState('');
+  const canSubmit = normalizeText(value, check.normalize).length > 0;
+
+  return (
+    <div>
+      <form
+        onSubmit={(e) => {
+          e.preventDefault();
+          if (canSubmit) onAnswer(value.trim());
+        }}
+      >
+        <input
+          type="text"
+          autoCapitalize="off"
+          autoCorrect="off"
+          spellCheck={false}
+          value={isAnswered ? (answer as string) : value}
+          onChange={(e) => setValue(e.target.value)}
+          disabled={isAnswered}
+          className={`${INPUT_CLASS} w-full font-mono`}
+          placeholder={check.placeholder || 'Type your answer'}
+        />
+      </form>
+      {!isAnswered && (
+        <button onClick={() => onAnswer(value.trim())} disabled={!canSubmit} className={SUBMIT_CLASS}>
+          Check Answer
+        </button>
+      )}
+    </div>
+  );
+};
+
+const ElectronConfigurationInput: FC<InputProps<ElectronConfigurationCheck>> = ({ answer, isAnswered, onAnswer, check }) => {
+  const [value, setValue] = useState('');
+  const text = isAnswered ? (answer as string) : value;
+
+  // Echo back how the typed text was read, so "1s22s2" and "1s² 2s²" visibly mean the same thing
+  const parsed = parseElectronConfiguration(text);
+  const preview = text.trim() && parsed.errors.length === 0 ? formatConfiguration(parsed.subshells) : null;
+
+  return (
+    <div>
+      <form
+        onSubmit={(e) => {
+          e.preventDefault();
+          if (value.trim()) onAnswer(value.trim());
+        }}
+      >
+        <input
+          type="text"
+          autoCapitalize="off"
+          autoCorrect="off"
+          spellCheck={false}
+          value={text}
+          onChange={(e) => setValue(e.target.value)}
+          disabled={isAnswered}
+          className={`${INPUT_CLASS} w-full font-mono`}
+          placeholder={check.placeholder || 'e.g. 1s2 2s2 or [He] 2s2'}
+        />
+      </form>
+      {preview && <p className="text-xs text-teal-700 mt-1">Reads as: <span className="font-semibold">{preview}</span></p>}
+      {!isAnswered && (
+        <button onClick={() => onAnswer(value.trim())} disabled={!value.trim()} className={SUBMIT_CLASS}>
+          Check Answer
+        </button>
+      )}
+    </div>
+  );
+};
+
+const LewisStructureInput: FC<InputProps<LewisStructureCheck>> = ({ check, answer, isAnswered, onAnswer }) => {
+  const [structure, setStructure] = useState<LewisStructure>(EMPTY_STRUCTURE);
+  const elements = useMemo(
+    () => check.elements || Array.from(new Set(targetMolecule(check).structure.atoms.map(atom => atom.element))),
+    [check]
+  );
+
+  return (
+    <div>
+      <LewisBuilder
+        structure={isAnswered ? (answer as LewisStructure) : structure}
+        onChange={isAnswered ? undefined : setStructure}
+        elements={elements}
+      />
+      {!isAnswered && (
+        <button onClick={() => onAnswer(structure)} disabled={structure.atoms.length === 0} className={SUBMIT_CLASS}>
+          Check Structure
+        </button>
+      )}
+    </div>
+  );
+};
+
+const OrderingInput: FC<InputProps<OrderingCheck>> = ({ check, answer, isAnswered, onAnswer }) => {
+  const shuffled = useMemo(() => stableShuffle(check.items.length, check.id), [check]);
+  const [sequence, setSequence] = useState<number[]>([]);
+  const placed = isAnswered ? (answer as number[]) : sequence;
+  const remaining = shuffled.filter(itemIdx => !placed.includes(itemIdx));
+
+  return (
+    <div className="space-y-3">
+      <p className="text-xs text-teal-700">
+        {isAnswered ? 'Your order:' : 'Tap the items in order. Tap a placed item to take it back.'}
+      </p>
+      <ol className="space-y-2">
+        {placed.map((itemIdx, position) => {
+          const isRight = itemIdx === position;
+          return (
+            <li key={itemIdx}>
+              <button
+                onClick={() => !isAnswered && setSequence(prev => prev.filter(i => i !== itemIdx))}
+                disabled={isAnswered}
+                className={OPTION_BASE + (!isAnswered ? "bg-teal-100 border-2 border-teal-500 text-teal-900" : isRight ? OPTION_RIGHT : OPTION_WRONG)}
+              >
+                <div className="flex items-center justify-between">
+                  <span><span className="font-bold mr-2">{position + 1}.</span>{check.items[itemIdx]}</span>
+                  {isAnswered && <Mark correct={isRight} />}
+                </div>
+              </button>
+            </li>
+          );
+        })}
+      </ol>
+      {remaining.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {remaining.map(itemIdx => (
+            <button
+              key={itemIdx}
+              onClick={() => setSequence(prev => [...prev, itemIdx])}
+              className="px-3 py-2 bg-white border-2 border-teal-200 hover:bg-teal-100 rounded-lg text-gray-900"
+            >
+              {check.items[itemIdx]}
+            </button>
+          ))}
+        </div>
+      )}
+      {!isAnswered && (
+        <button onClick={() => onAnswer(sequence)} disabled={remaining.length > 0} className={SUBMIT_CLASS}>
+          Check Order
+        </button>
+      )}
+    </div>
+  );
+};
+
+const MatchingInput: FC<InputProps<MatchingCheck>> = ({ check, answer, isAnswered, onAnswer }) => {
+  const options = useMemo(() => matchingOptions(check), [check]);
+  const [choices, setChoices] = useState<Array<number | null>>(() => check.pairs.map(() => null));
+  const current = isAnswered ? (answer as number[]) : choices;
+
+  return (
+    <div className="space-y-2">
+      {check.pairs.map((pair, idx) => {
+        const choice = current[idx];
+        const isRight = choice !== null && options[choice] === pair.right;
+        return (
+          <div
+            key={idx}
+            className={`flex items-center justify-between space-x-3 px-4 py-2 rounded-lg border-2 ${
+              !isAnswered ? 'bg-white border-teal-200' : isRight ? 'bg-green-100 border-green-400' : 'bg-red-100 border-red-400'
+            }`}
+          >
+            <span className="text-gray-900 font-medium">{pair.left}</span>
+            <div className="flex items-center space-x-2">
+              <select
+                value={choice === null ? '' : String(choice)}
+                onChange={(e) => {
+                  const value = e.target.value === '' ? null : Number(e.target.value);
+                  setChoices(prev => prev.map((c, i) => (i === idx ? value : c)));
+                }}
+                disabled={isAnswered}
+                className="border border-teal-300 rounded-lg px-2 py-1 bg-white text-gray-900"
+              >
+                <option value="">Choose…</option>
+                {options.map((option, optIdx) => (
+                  <option key={optIdx} value={optIdx}>{option}</option>
+                ))}
+              </select>
+              {isAnswered && <Mark correct={isRight} />}
+              {isAnswered && !isRight && <span className="text-xs text-green-800">{pair.right}</span>}
+            </div>
+          </div>
+        );
+      })}
+      {!isAnswered && (
+        <button
+          onClick={() => onAnswer(choices as number[])}
+          disabled={choices.some(choice => choice === null)}
+          className={SUBMIT_CLASS}
+        >
+          Check Matches
+        </button>
+      )}
+    </div>
+  );
+};
+
+// ============================================
+// QUESTION
+// ============================================
+
+const KnowledgeCheckQuestion: FC<KnowledgeCheckQuestionProps> = ({
+  check,
+  answer,
+  onAnswer,
+  correctMessage = '✓ Correct!',
+  incorrectMessage = 'Not quite right.',
+}) => {
+  const isAnswered = isAnswerValid(check, answer);
+  const isCorrect = gradeCheck(check, answer);
+  const shared = { answer, isAnswered, onAnswer };
+
+  let input: React.ReactNode;
+  switch (check.type) {
+    case 'multi-select':
+      input = <MultiSelectInput check={check} {...shared} />;
+      break;
+    case 'numeric':
+      input = <NumericInput check={check} {...shared} />;
+      break;
+    case 'ordering':
+      input = <OrderingInput check={check} {...shared} />;
+      break;
+    case 'short-text':
+      input = <ShortTextInput check={check} {...shared} />;
+      break;
+    case 'matching':
+      input = <MatchingInput check={check} {...shared} />;
+      break;
+    case 'electron-configuration':
+      input = <ElectronConfigurationInput check={check} {...shared} />;
+      break;
+    case 'lewis-structure':
+      input = <LewisStructureInput check={check} {...shared} />;
+      break;
+    default:
+      input = <ChoiceInput check={check} {...shared} />;
+  }
+
+  // Choice questions show the right option in place, Lewis structures are drawn; the others spell it out
+  const showCorrectAnswer = isAnswered && !isCorrect && check.type !== undefined && check.type !== 'choice' && check.type !== 'lewis-structure';
+  const feedback = isAnswered && !isCorrect ? answerFeedback(check, answer) : [];
+
+  return (
+    <>
+      {input}
+
+      {isAnswered && (
+        <div className={`mt-3 p-3 rounded-lg ${isCorrect ? 'bg-green-100' : 'bg-orange-100'}`}>
+          <p className={`text-sm font-semibold ${isCorrect ? 'text-green-800' : 'text-orange-800'}`}>
+            {isCorrect ? correctMessage : incorrectMessage}
+          </p>
+          {feedback.length > 0 && (
+            <ul className="text-sm mt-1 text-orange-800 list-disc list-inside">
+              {feedback.map((line, idx) => <li key={idx}>{line}</li>)}
+            </ul>
+          )}
+          {showCorrectAnswer && (
+            <p className="text-sm mt-1 text-orange-800">
+              Answer: <span className="font-semibold">{describeCorrectAnswer(check)}</span>
+            </p>
+          )}
+          <p className={`text-sm mt-1 ${isCorrect ? 'text-green-700' : 'text-orange-700'}`}>
+            {check.explanation}
+          </p>
+          {!isCorrect && check.type === 'lewis-structure' && (
+            <div className="mt-2">
+              <p className="text-sm text-orange-800 font-semibold mb-1">{targetMolecule(check).name}:</p>
+              <LewisBuilder structure={targetMolecule(check).structure} showAnalysis={false} />
+            </div>
+          )}
+        </div>
+      )}
+    </>
+  );
+};
+
+export default KnowledgeCheckQuestion;
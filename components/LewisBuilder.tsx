@@ -0,0 +1,300 @@
+import React, { useState, FC } from 'react';
+import { RotateCcw } from 'lucide-react';
+import {
+  EMPTY_STRUCTURE,
+  GRID_COLUMNS,
+  GRID_ROWS,
+  LEWIS_ELEMENTS,
+  analyzeLewisStructure,
+  atomAt,
+  cycleBond,
+  cycleLonePairs,
+  formatCharge,
+  placeAtom,
+  removeAtom,
+  removeBond,
+} from '../lib/lewis';
+import type { LewisStructure, OctetStatus } from '../lib/lewis';
+
+// Lewis structure editor - place atoms on a grid, draw bonds and lone pairs, with octets and formal charges checked live
+interface LewisBuilderProps {
+  structure: LewisStructure;
+  // Leave out for a read-only drawing
+  onChange?: (structure: LewisStructure) => void;
+  // Elements on the palette
+  elements?: readonly string[];
+  showAnalysis?: boolean;
+}
+
+type Tool = 'atom' | 'bond' | 'lone-pair' | 'erase';
+
+const TOOLS: Array<{ id: Tool; label: string; hint: string }> = [
+  { id: 'atom', label: 'Atoms', hint: 'Tap an empty cell to place an atom, or tap an atom to change its element.' },
+  { id: 'bond', label: 'Bonds', hint: 'Tap two atoms to bond them. Tap a bond to make it double, then triple, then remove it.' },
+  { id: 'lone-pair', label: 'Lone pairs', hint: 'Tap an atom to add a lone pair (after 4 it goes back to none).' },
+  { id: 'erase', label: 'Erase', hint: 'Tap an atom or bond to remove it.' },
+];
+
+const CELL = 56;
+const ATOM_RADIUS = 16;
+const LONE_PAIR_RADIUS = 26;
+
+const STATUS_STYLES: Record<OctetStatus, { fill: string; stroke: string }> = {
+  complete: { fill: '#dcfce7', stroke: '#22c55e' },
+  short: { fill: '#fef3c7', stroke: '#f59e0b' },
+  over: { fill: '#fee2e2', stroke: '#ef4444' },
+  expanded: { fill: '#dbeafe', stroke: '#3b82f6' },
+};
+
+const ELEMENT_COLORS: Record<string, string> = {
+  H: '#6b7280', C: '#111827', N: '#1d4ed8', O: '#dc2626', F: '#16a34a', P: '#ea580c', S: '#ca8a04', Cl: '#15803d',
+};
+
+const center = (cell: number) => cell * CELL + CELL / 2;
+
+// Lone pairs go where bonds aren't - up, down, left, right, then the diagonals
+const LONE_PAIR_ANGLES = [270, 90, 180, 0, 225, 315, 135, 45];
+
+function lonePairAngles(bondAngles: number[], count: number): number[] {
+  const gap = (a: number, b: number) => Math.min(Math.abs(a - b), 360 - Math.abs(a - b));
+  const free = LONE_PAIR_ANGLES.filter(angle => bondAngles.every(bond => gap(angle, bond) > 30));
+  const fallback = LONE_PAIR_ANGLES.filter(angle => !free.includes(angle));
+  return [...free, ...fallback].slice(0, count);
+}
+
+const LewisBuilder: FC<LewisBuilderProps> = ({
+  structure,
+  onChange,
+  elements = LEWIS_ELEMENTS,
+  showAnalysis = true,
+}) => {
+  const [tool, setTool] = useState<Tool>('atom');
+  const [element, setElement] = useState<string>(elements.includes('C') ? 'C' : elements[0]);
+  const [pendingAtom, setPendingAtom] = useState<number | null>(null);
+
+  const isEditable = Boolean(onChange);
+  const analysis = analyzeLewisStructure(structure);
+
+  const update = (next: LewisStructure) => onChange?.(next);
+
+  const handleCell = (x: number, y: number) => {
+    if (isEditable && tool === 'atom') update(placeAtom(structure, element, x, y));
+  };
+
+  const handleAtom = (index: number) => {
+    if (!isEditable) return;
+    const atom = structure.atoms[index];
+
+    switch (tool) {
+      case 'atom':
+        update(placeAtom(structure, element, atom.x, atom.y));
+        break;
+      case 'bond':
+        if (pendingAtom === null) {
+          setPendingAtom(index);
+        } else {
+          if (pendingAtom !== index) update(cycleBond(structure, pendingAtom, index));
+          setPendingAtom(null);
+        }
+        break;
+      case 'lone-pair':
+        update(cycleLonePairs(structure, index));
+        break;
+      case 'erase':
+        update(removeAtom(structure, index));
+        setPendingAtom(null);
+        break;
+    }
+  };
+
+  const handleBond = (index: number) => {
+    if (!isEditable) return;
+    const bond = structure.bonds[index];
+    if (tool === 'bond') update(cycleBond(structure, bond.from, bond.to));
+    if (tool === 'erase') update(removeBond(structure, index));
+  };
+
+  const selectTool = (next: Tool) => {
+    setTool(next);
+    setPendingAtom(null);
+  };
+
+  const charged = analysis.atoms.filter(atom => atom.formalCharge !== 0);
+
+  return (
+    <div className="space-y-3">
+      {isEditable && (
+        <div className="space-y-2">
+          <div className="flex flex-wrap gap-2">
+            {TOOLS.map(option => (
+              <button
+                key={option.id}
+                onClick={() => selectTool(option.id)}
+                className={`px-3 py-1 rounded-full text-sm font-semibold transition-colors ${
+                  tool === option.id ? 'bg-purple-600 text-white' : 'bg-purple-100 text-purple-800 hover:bg-purple-200'
+                }`}
+              >
+                {option.label}
+              </button>
+            ))}
+            <button
+              onClick={() => {
+                update(EMPTY_STRUCTURE);
+                setPendingAtom(null);
+              }}
+              className="px-3 py-1 rounded-full text-sm text-gray-600 hover:bg-gray-100 flex items-center"
+            >
+              <RotateCcw className="w-4 h-4 mr-1" />
+              Clear
+            </button>
+          </div>
+
+          {tool === 'atom' && (
+            <div className="flex flex-wrap gap-2">
+              {elements.map(symbol => (
+                <button
+                  key={symbol}
+                  onClick={() => setElement(symbol)}
+                  className={`w-10 h-10 rounded-lg border-2 font-bold ${
+                    element === symbol ? 'border-purple-600 bg-purple-50' : 'border-gray-300 bg-white hover:bg-gray-50'
+                  }`}
+                  style={{ color: ELEMENT_COLORS[symbol] }}
+                  aria-label={`Place ${symbol}`}
+                >
+                  {symbol}
+                </button>
+              ))}
+            </div>
+          )}
+
+          <p className="text-xs text-gray-600">{TOOLS.find(option => option.id === tool)?.hint}</p>
+        </div>
+      )}
+
+      <svg
+        viewBox={`0 0 ${GRID_COLUMNS * CELL} ${GRID_ROWS * CELL}`}
+        className="w-full bg-white rounded-lg border-2 border-purple-200 select-none"
+        role="img"
+        aria-label="Lewis structure"
+      >
+        {/* Grid */}
+        {isEditable && Array.from({ length: GRID_COLUMNS * GRID_ROWS }, (_, cell) => {
+          const x = cell % GRID_COLUMNS;
+          const y = Math.floor(cell / GRID_COLUMNS);
+          if (atomAt(structure, x, y) !== -1) return null;
+          return (
+            <g key={cell} onClick={() => handleCell(x, y)} className={tool === 'atom' ? 'cursor-pointer' : ''}>
+              <rect x={x * CELL} y={y * CELL} width={CELL} height={CELL} fill="transparent" />
+              <circle cx={center(x)} cy={center(y)} r={2} fill="#d8b4fe" />
+            </g>
+          );
+        })}
+
+        {/* Bonds */}
+        {structure.bonds.map((bond, idx) => {
+          const from = structure.atoms[bond.from];
+          const to = structure.atoms[bond.to];
+          const [x1, y1, x2, y2] = [center(from.x), center(from.y), center(to.x), center(to.y)];
+          const length = Math.hypot(x2 - x1, y2 - y1) || 1;
+          const [ux, uy] = [(x2 - x1) / length, (y2 - y1) / length];
+          const offsets = bond.order === 1 ? [0] : bond.order === 2 ? [-3.5, 3.5] : [-6, 0, 6];
+
+          return (
+            <g key={idx} onClick={() => handleBond(idx)} className={isEditable && tool !== 'atom' ? 'cursor-pointer' : ''}>
+              {offsets.map(offset => (
+                <line
+                  key={offset}
+                  x1={x1 + ux * ATOM_RADIUS - uy * offset}
+                  y1={y1 + uy * ATOM_RADIUS + ux * offset}
+                  x2={x2 - ux * ATOM_RADIUS - uy * offset}
+                  y2={y2 - uy * ATOM_RADIUS + ux * offset}
+                  stroke="#374151"
+                  strokeWidth={2}
+                />
+              ))}
+              {/* Wider invisible line so bonds are easy to tap */}
+              <line x1={x1} y1={y1} x2={x2} y2={y2} stroke="transparent" strokeWidth={14} />
+            </g>
+          );
+        })}
+
+        {/* Atoms */}
+        {structure.atoms.map((atom, idx) => {
+          const atomInfo = analysis.atoms[idx];
+          const style = STATUS_STYLES[atomInfo.status];
+          const [cx, cy] = [center(atom.x), center(atom.y)];
+
+          const bondAngles = structure.bonds
+            .filter(bond => bond.from === idx || bond.to === idx)
+            .map(bond => {
+              const other = structure.atoms[bond.from === idx ? bond.to : bond.from];
+              return (Math.atan2(other.y - atom.y, other.x - atom.x) * 180 / Math.PI + 360) % 360;
+            });
+
+          return (
+            <g key={idx} onClick={() => handleAtom(idx)} className={isEditable ? 'cursor-pointer' : ''}>
+              {lonePairAngles(bondAngles, atom.lonePairs).map(angle => {
+                const radian = angle * Math.PI / 180;
+                const [px, py] = [cx + Math.cos(radian) * LONE_PAIR_RADIUS, cy + Math.sin(radian) * LONE_PAIR_RADIUS];
+                const [dx, dy] = [-Math.sin(radian) * 4, Math.cos(radian) * 4];
+                return (
+                  <g key={angle}>
+                    <circle cx={px + dx} cy={py + dy} r={2.5} fill="#7c3aed" />
+                    <circle cx={px - dx} cy={py - dy} r={2.5} fill="#7c3aed" />
+                  </g>
+                );
+              })}
+              <circle
+                cx={cx}
+                cy={cy}
+                r={ATOM_RADIUS}
+                fill={style.fill}
+                stroke={pendingAtom === idx ? '#7c3aed' : style.stroke}
+                strokeWidth={pendingAtom === idx ? 4 : 2}
+              />
+              <text
+                x={cx}
+                y={cy}
+                textAnchor="middle"
+                dominantBaseline="central"
+                fontWeight="bold"
+                fontSize={atom.element.length > 1 ? 13 : 16}
+                fill={ELEMENT_COLORS[atom.element]}
+              >
+                {atom.element}
+              </text>
+              {atomInfo.formalCharge !== 0 && (
+                <text x={cx + 15} y={cy - 13} textAnchor="middle" fontSize={11} fontWeight="bold" fill="#be185d">
+                  {formatCharge(atomInfo.formalCharge)}
+                </text>
+              )}
+            </g>
+          );
+        })}
+      </svg>
+
+      {showAnalysis && structure.atoms.length > 0 && (
+        <div className="bg-purple-50 rounded-lg p-3 text-sm space-y-1">
+          <p className="text-purple-900">
+            Valence electrons: <span className="font-semibold">{analysis.electronsDrawn}</span> drawn of{' '}
+            <span className="font-semibold">{analysis.valenceElectrons}</span> available
+          </p>
+          {analysis.problems.length > 0 ? (
+            <ul className="text-orange-800 list-disc list-inside">
+              {analysis.problems.map((problem, idx) => <li key={idx}>{problem}</li>)}
+            </ul>
+          ) : (
+            <p className="text-green-800 font-semibold">✓ Every atom has a full shell</p>
+          )}
+          {charged.length > 0 && (
+            <p className="text-pink-800">
+              Formal charges: {charged.map(atom => `${atom.label} ${formatCharge(atom.formalCharge)}`).join(', ')}
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default LewisBuilder;
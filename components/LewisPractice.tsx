@@ -0,0 +1,86 @@
+import React, { useState, FC } from 'react';
+import { PenTool } from 'lucide-react';
+import LewisBuilder from './LewisBuilder';
+import { EMPTY_STRUCTURE, LEWIS_MOLECULES, gradeLewisStructure } from '../lib/lewis';
+import type { LewisGrade, LewisStructure } from '../lib/lewis';
+
+// "Build it yourself" panel under the bonding visuals - draw the molecule, check it, or reveal the answer
+interface LewisPracticeProps {
+  moleculeId: keyof typeof LEWIS_MOLECULES;
+  prompt: string;
+}
+
+const LewisPractice: FC<LewisPracticeProps> = ({ moleculeId, prompt }) => {
+  const molecule = LEWIS_MOLECULES[moleculeId];
+  const [isOpen, setIsOpen] = useState<boolean>(false);
+  const [structure, setStructure] = useState<LewisStructure>(EMPTY_STRUCTURE);
+  const [grade, setGrade] = useState<LewisGrade | null>(null);
+  const [showAnswer, setShowAnswer] = useState<boolean>(false);
+
+  const elements = Array.from(new Set(molecule.structure.atoms.map(atom => atom.element)));
+
+  if (!isOpen) {
+    return (
+      <button
+        onClick={() => setIsOpen(true)}
+        className="w-full bg-gradient-to-r from-purple-500 to-indigo-500 text-white font-bold py-3 rounded-xl hover:shadow-lg transition-all flex items-center justify-center"
+      >
+        <PenTool className="w-5 h-5 mr-2" />
+        Build {molecule.name} Yourself
+      </button>
+    );
+  }
+
+  return (
+    <div className="bg-indigo-50 rounded-xl p-4 border-2 border-indigo-300 space-y-3">
+      <h4 className="text-center font-bold text-indigo-900">
+        ✏️ Build {molecule.name} ({molecule.formula})
+      </h4>
+      <p className="text-sm text-indigo-800 text-center">{prompt}</p>
+
+      <LewisBuilder
+        structure={structure}
+        onChange={(next) => {
+          setStructure(next);
+          setGrade(null);
+        }}
+        elements={elements}
+      />
+
+      <div className="flex space-x-2">
+        <button
+          onClick={() => setGrade(gradeLewisStructure(structure, molecule))}
+          disabled={structure.atoms.length === 0}
+          className="flex-1 py-2 bg-indigo-600 text-white font-semibold rounded-lg hover:bg-indigo-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Check Structure
+        </button>
+        <button
+          onClick={() => setShowAnswer(shown => !shown)}
+          className="px-4 py-2 bg-white text-indigo-700 font-semibold rounded-lg border-2 border-indigo-200 hover:bg-indigo-100 transition-colors"
+        >
+          {showAnswer ? 'Hide Answer' : 'Show Answer'}
+        </button>
+      </div>
+
+      {grade && (
+        <div className={`p-3 rounded-lg ${grade.correct ? 'bg-green-100' : 'bg-orange-100'}`}>
+          <p className={`text-sm font-semibold ${grade.correct ? 'text-green-800' : 'text-orange-800'}`}>
+            {grade.correct ? `✓ That's ${molecule.name}!` : 'Not quite yet:'}
+          </p>
+          {!grade.correct && (
+            <ul className="text-sm mt-1 text-orange-800 list-disc list-inside">
+              {grade.feedback.map((line, idx) => <li key={idx}>{line}</li>)}
+            </ul>
+          )}
+        </div>
+      )}
+
+      {showAnswer && (
+        <LewisBuilder structure={molecule.structure} showAnalysis={false} />
+      )}
+    </div>
+  );
+};
+
+export default LewisPractice;
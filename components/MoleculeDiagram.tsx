@@ -0,0 +1,158 @@
+import React, { useId, FC } from 'react';
+import { atomRadius, elementColorCss, elementStyle } from '../lib/molecules';
+import type { Molecule, RenderMode } from '../lib/molecules';
+import { projectPoint } from '../lib/projection';
+import { useDragRotation } from '../hooks/useDragRotation';
+
+// Flat SVG drawing of a molecule for browsers without WebGL - same colours, sizes and display modes as
+// MoleculeViewer, shaded spheres drawn back to front, and drag to turn it
+interface MoleculeDiagramProps {
+  molecule: Molecule;
+  mode: RenderMode;
+  size: number;
+  // Runs after each drag that turned the drawing
+  onRotate?: () => void;
+}
+
+const STICK_RADIUS = 0.09;
+const MULTI_STICK_RADIUS = 0.055;
+const MULTI_BOND_SPACING = 0.16;
+
+interface Shape {
+  depth: number;
+  element: React.ReactElement;
+}
+
+// Mix an element colour towards white (amount > 0) or black (amount < 0) for the sphere shading
+function shade(color: number, amount: number): string {
+  const target = amount > 0 ? 255 : 0;
+  const channels = [16, 8, 0].map(shift => {
+    const value = (color >> shift) & 0xff;
+    return Math.round(value + (target - value) * Math.abs(amount));
+  });
+  return `rgb(${channels.join(', ')})`;
+}
+
+const MoleculeDiagram: FC<MoleculeDiagramProps> = ({ molecule, mode, size, onRotate }) => {
+  const { angle, handlers } = useDragRotation(onRotate);
+  // Gradient ids have to be unique on the page; useId's colons don't survive url(#...)
+  const idPrefix = useId().replace(/:/g, '');
+
+  const count = molecule.atoms.length;
+  const centroid = molecule.atoms.reduce(
+    (sum, atom) => ({ x: sum.x + atom.x / count, y: sum.y + atom.y / count, z: sum.z + atom.z / count }),
+    { x: 0, y: 0, z: 0 }
+  );
+  const extent = molecule.atoms.reduce((max, atom) => {
+    const reach = mode === 'space-filling' ? elementStyle(atom.element).vdwRadius : 0.5;
+    return Math.max(max, Math.hypot(atom.x - centroid.x, atom.y - centroid.y, atom.z - centroid.z) + reach);
+  }, 1);
+  const scale = size / 2 / (extent * 1.05);
+
+  const toScreen = (x: number, y: number, z: number) => {
+    const point = projectPoint(x - centroid.x, y - centroid.y, z - centroid.z, angle);
+    return { x: size / 2 + point.x * scale, y: size / 2 + point.y * scale, depth: point.depth };
+  };
+
+  const bondedAtoms = new Set(molecule.bonds.flatMap(bond => [bond.from, bond.to]));
+  const radii = molecule.atoms.map((atom, idx) => atomRadius(atom.element, mode, bondedAtoms.has(idx)));
+  const elements = Array.from(new Set(molecule.atoms.map(atom => atom.element)));
+  const shapes: Shape[] = [];
+
+  molecule.atoms.forEach((atom, idx) => {
+    if (radii[idx] === 0) return;
+    const centre = toScreen(atom.x, atom.y, atom.z);
+    shapes.push({
+      depth: centre.depth,
+      element: (
+        <circle
+          key={`atom-${idx}`}
+          cx={centre.x}
+          cy={centre.y}
+          r={radii[idx] * scale}
+          fill={`url(#${idPrefix}-${atom.element})`}
+        />
+      ),
+    });
+  });
+
+  if (mode !== 'space-filling') {
+    molecule.bonds.forEach((bond, bondIdx) => {
+      const [from, to] = [molecule.atoms[bond.from], molecule.atoms[bond.to]];
+      const length = Math.hypot(to.x - from.x, to.y - from.y, to.z - from.z) || 1;
+      // Start each half at the surface of its atom, so sticks don't show through the spheres
+      const along = (atom: typeof from, sign: number, distance: number) => {
+        const t = (sign * Math.min(distance, length / 2)) / length;
+        return toScreen(atom.x + (to.x - from.x) * t, atom.y + (to.y - from.y) * t, atom.z + (to.z - from.z) * t);
+      };
+      const start = along(from, 1, radii[bond.from]);
+      const end = along(to, -1, radii[bond.to]);
+      const middle = toScreen((from.x + to.x) / 2, (from.y + to.y) / 2, (from.z + to.z) / 2);
+
+      // Extra lines of a double/triple bond sit side by side on screen
+      const [dx, dy] = [end.x - start.x, end.y - start.y];
+      const screenLength = Math.hypot(dx, dy);
+      const normal = screenLength > 1e-6 ? { x: -dy / screenLength, y: dx / screenLength } : { x: 1, y: 0 };
+      const shifts = bond.order === 1 ? [0] : bond.order === 2 ? [-0.5, 0.5] : [-1, 0, 1];
+      const width = mode === 'wireframe'
+        ? 1.5
+        : (bond.order > 1 ? MULTI_STICK_RADIUS : STICK_RADIUS) * 2 * scale;
+
+      shifts.forEach((shift, shiftIdx) => {
+        const offset = { x: normal.x * shift * MULTI_BOND_SPACING * scale, y: normal.y * shift * MULTI_BOND_SPACING * scale };
+        const halves: Array<[typeof start, typeof start, string]> = [
+          [start, middle, from.element],
+          [middle, end, to.element],
+        ];
+        halves.forEach(([a, b, element], halfIdx) => {
+          shapes.push({
+            depth: (a.depth + b.depth) / 2,
+            element: (
+              <line
+                key={`bond-${bondIdx}-${shiftIdx}-${halfIdx}`}
+                x1={a.x + offset.x}
+                y1={a.y + offset.y}
+                x2={b.x + offset.x}
+                y2={b.y + offset.y}
+                stroke={elementColorCss(element)}
+                strokeWidth={width}
+                strokeLinecap="round"
+              />
+            ),
+          });
+        });
+      });
+    });
+  }
+
+  shapes.sort((a, b) => a.depth - b.depth);
+
+  return (
+    <svg
+      width={size}
+      height={size}
+      viewBox={`0 0 ${size} ${size}`}
+      className="rounded-lg shadow-lg bg-slate-900 cursor-grab active:cursor-grabbing"
+      style={{ touchAction: 'none' }}
+      role="img"
+      aria-label={`Drawing of ${molecule.name || 'a molecule'}`}
+      {...handlers}
+    >
+      <defs>
+        {elements.map(element => {
+          const { color } = elementStyle(element);
+          return (
+            <radialGradient key={element} id={`${idPrefix}-${element}`} cx="35%" cy="35%" r="65%">
+              <stop offset="0%" stopColor={shade(color, 0.6)} />
+              <stop offset="55%" stopColor={shade(color, 0)} />
+              <stop offset="100%" stopColor={shade(color, -0.45)} />
+            </radialGradient>
+          );
+        })}
+      </defs>
+      {shapes.map(shape => shape.element)}
+    </svg>
+  );
+};
+
+export default MoleculeDiagram;
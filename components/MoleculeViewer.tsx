@@ -0,0 +1,302 @@
+import React, { useState, useEffect, FC } from 'react';
+import * as THREE from 'three';
+import { useThreeScene } from '../hooks/useThreeScene';
+import { useWebGLSupport } from '../hooks/useWebGLSupport';
+import { useViewControls } from '../hooks/useViewControls';
+import { RENDER_MODES, atomRadius, elementColorCss, elementStyle, formatFromFilename, parseMolecule } from '../lib/molecules';
+import type { Molecule, MoleculeBond, MoleculeFormat, RenderMode } from '../lib/molecules';
+import { findElement } from '../lib/electronConfiguration';
+import type { VisualInteraction } from '../lib/viewControls';
+import ViewToolbar from './ViewToolbar';
+import MoleculeDiagram from './MoleculeDiagram';
+
+// Interactive 3D model of any molecule - give it a file from public/molecules (or a parsed Molecule) and it
+// draws it with CPK colours in ball-and-stick, space-filling or wireframe. Without WebGL it falls back to a flat
+// MoleculeDiagram.
+interface MoleculeViewerProps {
+  // File name in public/molecules, like "glucose.sdf"
+  src?: string;
+  molecule?: Molecule;
+  // Only needed when src has a non-standard extension
+  format?: MoleculeFormat;
+  mode?: RenderMode;
+  caption?: string;
+  size?: number;
+  // Told about each rotate, zoom, pan, reset and pause - for learning analytics
+  onInteraction?: (interaction: VisualInteraction) => void;
+}
+
+const MODE_LABELS: Record<RenderMode, string> = {
+  'ball-and-stick': 'Ball & stick',
+  'space-filling': 'Space-filling',
+  wireframe: 'Wireframe',
+};
+
+const STICK_RADIUS = 0.09;
+const MULTI_STICK_RADIUS = 0.055;
+const MULTI_BOND_SPACING = 0.16;
+const CAMERA_FOV = 45;
+
+type LoadState =
+  | { status: 'loading' }
+  | { status: 'ready'; molecule: Molecule }
+  | { status: 'error'; message: string };
+
+// Direction to offset the extra lines of a double/triple bond - in the plane of a neighbouring bond where
+// there is one, so C=O in glycine lies flat like it does in textbooks
+function multiBondOffset(molecule: Molecule, bond: MoleculeBond, axis: THREE.Vector3): THREE.Vector3 {
+  const position = (idx: number) => {
+    const atom = molecule.atoms[idx];
+    return new THREE.Vector3(atom.x, atom.y, atom.z);
+  };
+  const touches = (other: MoleculeBond, idx: number) => other.from === idx || other.to === idx;
+  const neighbour = molecule.bonds.find(other =>
+    other !== bond && (touches(other, bond.from) || touches(other, bond.to))
+  );
+
+  const reference = neighbour
+    ? position(neighbour.to).sub(position(neighbour.from))
+    : Math.abs(axis.y) < 0.9 ? new THREE.Vector3(0, 1, 0) : new THREE.Vector3(1, 0, 0);
+  const normal = new THREE.Vector3().crossVectors(axis, reference);
+  // A neighbour in a straight line (CO₂, HCN) doesn't define a plane
+  if (normal.lengthSq() < 1e-6) normal.crossVectors(axis, Math.abs(axis.z) < 0.9 ? new THREE.Vector3(0, 0, 1) : new THREE.Vector3(1, 0, 0));
+  return new THREE.Vector3().crossVectors(normal, axis).normalize();
+}
+
+function buildModel(molecule: Molecule, mode: RenderMode): THREE.Group {
+  const group = new THREE.Group();
+  const materials = new Map<string, THREE.MeshPhongMaterial>();
+  const material = (element: string) => {
+    if (!materials.has(element)) {
+      materials.set(element, new THREE.MeshPhongMaterial({ color: elementStyle(element).color, shininess: 60 }));
+    }
+    return materials.get(element)!;
+  };
+
+  const positions = molecule.atoms.map(atom => new THREE.Vector3(atom.x, atom.y, atom.z));
+  const bondedAtoms = new Set(molecule.bonds.flatMap(bond => [bond.from, bond.to]));
+
+  // Atoms
+  molecule.atoms.forEach((atom, idx) => {
+    const radius = atomRadius(atom.element, mode, bondedAtoms.has(idx));
+    if (radius === 0) return;
+    const sphere = new THREE.Mesh(new THREE.SphereGeometry(radius, 32, 32), material(atom.element));
+    sphere.position.copy(positions[idx]);
+    group.add(sphere);
+  });
+
+  if (mode === 'space-filling') return group;
+
+  // Bonds - each half takes the colour of the atom it touches
+  const linePoints: number[] = [];
+  const lineColors: number[] = [];
+
+  molecule.bonds.forEach(bond => {
+    const start = positions[bond.from];
+    const end = positions[bond.to];
+    const axis = new THREE.Vector3().subVectors(end, start);
+    const length = axis.length();
+    axis.normalize();
+
+    const offset = bond.order > 1 ? multiBondOffset(molecule, bond, axis) : new THREE.Vector3();
+    const shifts = bond.order === 1 ? [0] : bond.order === 2 ? [-0.5, 0.5] : [-1, 0, 1];
+    const halves: Array<[THREE.Vector3, THREE.Vector3, string]> = [];
+    const middle = new THREE.Vector3().addVectors(start, end).multiplyScalar(0.5);
+
+    shifts.forEach(shift => {
+      const delta = offset.clone().multiplyScalar(shift * MULTI_BOND_SPACING);
+      halves.push([start.clone().add(delta), middle.clone().add(delta), molecule.atoms[bond.from].element]);
+      halves.push([middle.clone().add(delta), end.clone().add(delta), molecule.atoms[bond.to].element]);
+    });
+
+    halves.forEach(([from, to, element]) => {
+      if (mode === 'wireframe') {
+        const color = new THREE.Color(elementStyle(element).color);
+        linePoints.push(from.x, from.y, from.z, to.x, to.y, to.z);
+        lineColors.push(color.r, color.g, color.b, color.r, color.g, color.b);
+        return;
+      }
+      const radius = bond.order > 1 ? MULTI_STICK_RADIUS : STICK_RADIUS;
+      const stick = new THREE.Mesh(new THREE.CylinderGeometry(radius, radius, length / 2, 16), material(element));
+      stick.position.addVectors(from, to).multiplyScalar(0.5);
+      // Cylinders are built along y
+      stick.quaternion.setFromUnitVectors(new THREE.Vector3(0, 1, 0), axis);
+      group.add(stick);
+    });
+  });
+
+  if (linePoints.length > 0) {
+    const geometry = new THREE.BufferGeometry();
+    geometry.setAttribute('position', new THREE.Float32BufferAttribute(linePoints, 3));
+    geometry.setAttribute('color', new THREE.Float32BufferAttribute(lineColors, 3));
+    group.add(new THREE.LineSegments(geometry, new THREE.LineBasicMaterial({ vertexColors: true })));
+  }
+
+  return group;
+}
+
+const MoleculeViewer: FC<MoleculeViewerProps> = ({
+  src,
+  molecule: moleculeProp,
+  format,
+  mode: initialMode = 'ball-and-stick',
+  caption,
+  size = 320,
+  onInteraction,
+}) => {
+  const [mode, setMode] = useState<RenderMode>(initialMode);
+  const visual = `molecule:${src || moleculeProp?.name || 'custom'}`;
+  const { attachControls, isRotating, resetView, toggleRotation } = useViewControls(visual, onInteraction);
+  const hasWebGL = useWebGLSupport();
+  const [state, setState] = useState<LoadState>(
+    moleculeProp ? { status: 'ready', molecule: moleculeProp } : { status: 'loading' }
+  );
+
+  useEffect(() => {
+    if (moleculeProp) {
+      setState({ status: 'ready', molecule: moleculeProp });
+      return;
+    }
+    if (!src) {
+      setState({ status: 'error', message: 'No molecule file given' });
+      return;
+    }
+
+    const fileFormat = format || formatFromFilename(src);
+    if (!fileFormat) {
+      setState({ status: 'error', message: `Can't tell what format ${src} is` });
+      return;
+    }
+
+    let cancelled = false;
+    setState({ status: 'loading' });
+
+    fetch(`/molecules/${src}`)
+      .then(response => {
+        if (!response.ok) throw new Error(`Couldn't load ${src} (${response.status})`);
+        return response.text();
+      })
+      .then(text => {
+        if (!cancelled) setState({ status: 'ready', molecule: parseMolecule(text, fileFormat) });
+      })
+      .catch((error: Error) => {
+        console.error('Failed to load molecule:', error);
+        if (!cancelled) setState({ status: 'error', message: error.message });
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [src, moleculeProp, format]);
+
+  const molecule = state.status === 'ready' ? state.molecule : null;
+
+  const canvasRef = useThreeScene((canvas) => {
+    if (!molecule) return null;
+
+    const scene = new THREE.Scene();
+    const camera = new THREE.PerspectiveCamera(CAMERA_FOV, 1, 0.1, 1000);
+
+    const ambientLight = new THREE.AmbientLight(0xffffff, 0.6);
+    scene.add(ambientLight);
+    // Lights ride along with the camera so the side facing the student stays lit as they orbit
+    const directionalLight = new THREE.DirectionalLight(0xffffff, 0.8);
+    directionalLight.position.set(5, 5, 5);
+    camera.add(directionalLight);
+    scene.add(camera);
+
+    // Centre the model on its centroid and back the camera off far enough to fit it
+    const model = buildModel(molecule, mode);
+    const centroid = molecule.atoms
+      .reduce((sum, atom) => sum.add(new THREE.Vector3(atom.x, atom.y, atom.z)), new THREE.Vector3())
+      .divideScalar(molecule.atoms.length);
+    model.position.sub(centroid);
+    const extent = molecule.atoms.reduce((max, atom) => {
+      const reach = mode === 'space-filling' ? elementStyle(atom.element).vdwRadius : 0.5;
+      return Math.max(max, new THREE.Vector3(atom.x, atom.y, atom.z).distanceTo(centroid) + reach);
+    }, 1);
+    scene.add(model);
+
+    const controls = attachControls(camera, canvas, (extent / Math.sin((CAMERA_FOV / 2) * (Math.PI / 180))) * 1.05);
+
+    return { scene, camera, update: controls.update, cleanup: controls.dispose };
+  }, { width: size, height: size }, [molecule, mode]);
+
+  if (state.status === 'error') {
+    return (
+      <div className="flex items-center justify-center rounded-lg bg-red-50 border-2 border-red-200 p-4 text-sm text-red-800 text-center">
+        Couldn't show this molecule: {state.message}
+      </div>
+    );
+  }
+
+  const elements = molecule ? Array.from(new Set(molecule.atoms.map(atom => atom.element))) : [];
+  const name = molecule?.name;
+
+  return (
+    <div className="flex flex-col items-center">
+      <div className="flex gap-1 mb-2" role="group" aria-label="Display mode">
+        {RENDER_MODES.map(option => (
+          <button
+            key={option}
+            onClick={() => setMode(option)}
+            aria-pressed={mode === option}
+            className={`px-3 py-1 rounded-full text-xs font-semibold transition-colors ${
+              mode === option ? 'bg-blue-600 text-white' : 'bg-blue-100 text-blue-800 hover:bg-blue-200'
+            }`}
+          >
+            {MODE_LABELS[option]}
+          </button>
+        ))}
+      </div>
+
+      {molecule && hasWebGL ? (
+        <>
+          <canvas
+            ref={canvasRef}
+            className="rounded-lg shadow-lg bg-slate-900 cursor-grab active:cursor-grabbing"
+            style={{ touchAction: 'none', width: size, height: size }}
+            role="img"
+            aria-label={`3D model of ${name || 'a molecule'}`}
+          />
+          <ViewToolbar isRotating={isRotating} onToggleRotation={toggleRotation} onReset={resetView} />
+        </>
+      ) : molecule ? (
+        <>
+          <MoleculeDiagram
+            molecule={molecule}
+            mode={mode}
+            size={size}
+            onRotate={() => onInteraction?.({ visual, action: 'rotate' })}
+          />
+          <p className="text-[10px] text-gray-500 text-center mt-2">
+            Drag to turn • This browser can't show 3D, so this is a flat drawing
+          </p>
+        </>
+      ) : (
+        <div
+          className="rounded-lg bg-slate-900 flex items-center justify-center text-slate-300 text-sm animate-pulse"
+          style={{ width: size, height: size }}
+        >
+          Loading model…
+        </div>
+      )}
+
+      {elements.length > 0 && (
+        <div className="flex flex-wrap justify-center gap-3 mt-3 text-xs">
+          {elements.map(element => (
+            <div key={element} className="flex items-center gap-1">
+              <div className="w-3 h-3 rounded-full border border-gray-400" style={{ backgroundColor: elementColorCss(element) }} />
+              <span>{findElement(element)?.name || element}</span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {name && <p className="text-xs text-gray-600 mt-2 text-center">{name}</p>}
+      {caption && <p className="text-sm text-gray-700 mt-1 text-center font-semibold">{caption}</p>}
+    </div>
+  );
+};
+
+export default MoleculeViewer;
@@ -0,0 +1,34 @@
+import React, { FC } from 'react';
+import dynamic from 'next/dynamic';
+import { useWebGLSupport } from '../hooks/useWebGLSupport';
+import RealisticNebula from './RealisticNebula';
+
+const NebulaScene = dynamic(() => import('./NebulaScene'));
+
+// Ky'Orda's avatar - the 3D nebula, or the painted one without WebGL. Holds its size while the 3D scene loads.
+interface NebulaAvatarProps {
+  size?: 'small' | 'normal' | 'large';
+  isThinking?: boolean;
+  speaking?: boolean;
+}
+
+const NEBULA_SIZES = { small: 64, normal: 96, large: 200 };
+
+const NebulaAvatar: FC<NebulaAvatarProps> = ({ size = 'normal', isThinking = false, speaking = false }) => {
+  const pixelSize = NEBULA_SIZES[size];
+  const hasWebGL = useWebGLSupport();
+
+  return (
+    <div
+      className={`relative inline-block rounded-full ${speaking ? 'animate-pulse' : ''}`}
+      style={{ width: pixelSize, height: pixelSize }}
+    >
+      {hasWebGL ? <NebulaScene size={pixelSize} isThinking={isThinking} /> : <RealisticNebula size={pixelSize} />}
+      {speaking && (
+        <div className="absolute -bottom-1 -right-1 w-4 h-4 bg-green-400 rounded-full border-2 border-white animate-pulse" />
+      )}
+    </div>
+  );
+};
+
+export default NebulaAvatar;
@@ -0,0 +1,78 @@
+import React, { FC, useRef } from 'react';
+import * as THREE from 'three';
+import { useThreeScene } from '../hooks/useThreeScene';
+
+// Ky'Orda's spinning particle nebula - the 3D half of NebulaAvatar, loaded on its own so three.js stays out of
+// the screens that show the avatar
+interface NebulaSceneProps {
+  size: number;
+  isThinking: boolean;
+}
+
+const NebulaScene: FC<NebulaSceneProps> = ({ size, isThinking }) => {
+  // Read every frame rather than rebuilding the scene, so the nebula keeps its shape when Ky'Orda starts thinking
+  const isThinkingRef = useRef(isThinking);
+  isThinkingRef.current = isThinking;
+
+  const canvasRef = useThreeScene(() => {
+    const scene = new THREE.Scene();
+    const camera = new THREE.PerspectiveCamera(75, 1, 0.1, 1000);
+
+    const geometry = new THREE.BufferGeometry();
+    const particles = 800;
+    const positions = new Float32Array(particles * 3);
+    const colors = new Float32Array(particles * 3);
+
+    for (let i = 0; i < particles * 3; i += 3) {
+      const radius = Math.random() * 2;
+      const theta = Math.random() * Math.PI * 2;
+      const phi = Math.random() * Math.PI;
+
+      positions[i] = radius * Math.sin(phi) * Math.cos(theta);
+      positions[i + 1] = radius * Math.sin(phi) * Math.sin(theta);
+      positions[i + 2] = radius * Math.cos(phi);
+
+      const colorChoice = Math.random();
+      if (colorChoice < 0.4) {
+        colors[i] = 0.6 + Math.random() * 0.4;
+        colors[i + 1] = 0.2 + Math.random() * 0.3;
+        colors[i + 2] = 0.8 + Math.random() * 0.2;
+      } else if (colorChoice < 0.7) {
+        colors[i] = 0.2 + Math.random() * 0.3;
+        colors[i + 1] = 0.4 + Math.random() * 0.4;
+        colors[i + 2] = 0.9 + Math.random() * 0.1;
+      } else {
+        colors[i] = 1.0;
+        colors[i + 1] = 0.7 + Math.random() * 0.3;
+        colors[i + 2] = 0.2 + Math.random() * 0.2;
+      }
+    }
+
+    geometry.setAttribute('position', new THREE.BufferAttribute(positions, 3));
+    geometry.setAttribute('color', new THREE.BufferAttribute(colors, 3));
+
+    const material = new THREE.PointsMaterial({
+      size: 0.1,
+      vertexColors: true,
+      transparent: true,
+      opacity: 0.8,
+      blending: THREE.AdditiveBlending
+    });
+
+    const nebula = new THREE.Points(geometry, material);
+    scene.add(nebula);
+
+    camera.position.z = 5;
+
+    const update = () => {
+      nebula.rotation.y += isThinkingRef.current ? 0.02 : 0.005;
+      nebula.rotation.x += isThinkingRef.current ? 0.01 : 0.002;
+    };
+
+    return { scene, camera, update };
+  }, { width: size, height: size }, []);
+
+  return <canvas ref={canvasRef} className="rounded-full" />;
+};
+
+export default NebulaScene;
@@ -0,0 +1,99 @@
+import React, { useEffect, useRef, FC } from 'react';
+import type { OrbitalSample } from '../lib/orbitals';
+import { projectPoint } from '../lib/projection';
+import { useDragRotation } from '../hooks/useDragRotation';
+
+// Flat Canvas2D drawing of an orbital's point cloud for browsers without WebGL - the same sample, phase
+// colours, node shells and axes as OrbitalViewer, and drag to turn it
+interface OrbitalCloudProps {
+  sample: OrbitalSample;
+  // Multiplies the sample's a₀ coordinates up to scene units
+  scale: number;
+  // Radial node radii in a₀, drawn as circles - a sphere looks like a circle from any angle
+  nodes: number[];
+  // Scene units from the centre to the edge of the drawing
+  viewRadius: number;
+  size: number;
+  label: string;
+  onRotate?: () => void;
+}
+
+const PHASE_COLORS = { positive: '#3b82f6', negative: '#f97316' };
+const AXIS_COLORS = ['#ff0000', '#00ff00', '#0000ff'];
+// Same length as OrbitalViewer's AxesHelper, relative to the cloud
+const AXIS_LENGTH = 1.1;
+
+const OrbitalCloud: FC<OrbitalCloudProps> = ({ sample, scale, nodes, viewRadius, size, label, onRotate }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const { angle, handlers } = useDragRotation(onRotate);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+
+    const pixelRatio = Math.min(window.devicePixelRatio || 1, 2);
+    canvas.width = Math.round(size * pixelRatio);
+    canvas.height = Math.round(size * pixelRatio);
+    ctx.setTransform(pixelRatio, 0, 0, pixelRatio, 0, 0);
+    ctx.clearRect(0, 0, size, size);
+
+    const pixelsPerUnit = size / 2 / viewRadius;
+    const toScreen = (x: number, y: number, z: number) => {
+      const point = projectPoint(x, y, z, angle);
+      return { x: size / 2 + point.x * pixelsPerUnit, y: size / 2 + point.y * pixelsPerUnit };
+    };
+
+    // Axes - x red, y green, z blue
+    const axisLength = (sample.extent * scale) * AXIS_LENGTH;
+    const origin = toScreen(0, 0, 0);
+    ctx.lineWidth = 1;
+    [[axisLength, 0, 0], [0, axisLength, 0], [0, 0, axisLength]].forEach(([x, y, z], idx) => {
+      const end = toScreen(x, y, z);
+      ctx.strokeStyle = AXIS_COLORS[idx];
+      ctx.beginPath();
+      ctx.moveTo(origin.x, origin.y);
+      ctx.lineTo(end.x, end.y);
+      ctx.stroke();
+    });
+
+    // Cloud - without depth, overlapping translucent dots stand in for density
+    const { positions, phases } = sample;
+    ctx.globalAlpha = 0.55;
+    for (let i = 0; i < phases.length; i++) {
+      const point = toScreen(positions[i * 3] * scale, positions[i * 3 + 1] * scale, positions[i * 3 + 2] * scale);
+      ctx.fillStyle = phases[i] < 0 ? PHASE_COLORS.negative : PHASE_COLORS.positive;
+      ctx.fillRect(point.x - 0.75, point.y - 0.75, 1.5, 1.5);
+    }
+    ctx.globalAlpha = 1;
+
+    // Radial node shells
+    ctx.strokeStyle = 'rgba(255, 255, 255, 0.35)';
+    ctx.setLineDash([3, 3]);
+    nodes.forEach(radius => {
+      ctx.beginPath();
+      ctx.arc(origin.x, origin.y, radius * scale * pixelsPerUnit, 0, Math.PI * 2);
+      ctx.stroke();
+    });
+    ctx.setLineDash([]);
+
+    // Nucleus
+    ctx.fillStyle = '#ef4444';
+    ctx.beginPath();
+    ctx.arc(origin.x, origin.y, 3, 0, Math.PI * 2);
+    ctx.fill();
+  }, [sample, scale, nodes, viewRadius, size, angle]);
+
+  return (
+    <canvas
+      ref={canvasRef}
+      className="rounded-lg shadow-lg bg-slate-900 cursor-grab active:cursor-grabbing"
+      style={{ touchAction: 'none', width: size, height: size }}
+      role="img"
+      aria-label={label}
+      {...handlers}
+    />
+  );
+};
+
+export default OrbitalCloud;
@@ -0,0 +1,236 @@
+import React, { useState, useMemo, FC } from 'react';
+import * as THREE from 'three';
+import { useThreeScene } from '../hooks/useThreeScene';
+import { useWebGLSupport } from '../hooks/useWebGLSupport';
+import { useViewControls } from '../hooks/useViewControls';
+import {
+  MAX_PRINCIPAL,
+  SUBSHELL_LETTERS,
+  orbitalEnergy,
+  orbitalLabel,
+  orbitalName,
+  orbitalsInSubshell,
+  radialNodes,
+  sampleOrbital,
+} from '../lib/orbitals';
+import type { HydrogenOrbital } from '../lib/orbitals';
+import type { VisualInteraction } from '../lib/viewControls';
+import ViewToolbar from './ViewToolbar';
+import OrbitalCloud from './OrbitalCloud';
+
+// Hydrogen orbital as a |ψ|² point cloud worked out from the real wavefunction - coloured by the sign of ψ,
+// with radial nodes as gaps (and optional shells), and a picker for any orbital up to n = 4. Without WebGL the
+// cloud is drawn flat by OrbitalCloud.
+interface OrbitalViewerProps {
+  initial?: HydrogenOrbital;
+  // Leave off to show just the one orbital
+  selectable?: boolean;
+  size?: number;
+  points?: number;
+  // Told about each rotate, zoom, pan, reset and pause - for learning analytics
+  onInteraction?: (interaction: VisualInteraction) => void;
+}
+
+const POSITIVE_PHASE = 0x3b82f6;
+const NEGATIVE_PHASE = 0xf97316;
+// The cloud is scaled so 97% of the probability fits inside this radius
+const CLOUD_RADIUS = 2.1;
+const CAMERA_DISTANCE = 6;
+const CAMERA_FOV = 45;
+
+const OrbitalName: FC<{ orbital: HydrogenOrbital }> = ({ orbital }) => {
+  const { subshell, axis } = orbitalName(orbital);
+  return (
+    <>
+      {subshell}
+      {axis && <sub>{axis}</sub>}
+    </>
+  );
+};
+
+const OrbitalViewer: FC<OrbitalViewerProps> = ({
+  initial = { n: 1, l: 0, m: 0 },
+  selectable = true,
+  size = 300,
+  points = 6000,
+  onInteraction,
+}) => {
+  const [orbital, setOrbital] = useState<HydrogenOrbital>(initial);
+  const [showNodes, setShowNodes] = useState<boolean>(false);
+
+  const { n, l, m } = orbital;
+  const nodes = useMemo(() => radialNodes(n, l), [n, l]);
+  const sample = useMemo(() => sampleOrbital({ n, l, m }, points), [n, l, m, points]);
+  const { attachControls, isRotating, resetView, toggleRotation } = useViewControls('orbital', onInteraction);
+  const hasWebGL = useWebGLSupport();
+
+  const canvasRef = useThreeScene((canvas) => {
+    const scene = new THREE.Scene();
+    const camera = new THREE.PerspectiveCamera(CAMERA_FOV, 1, 0.1, 1000);
+
+    const group = new THREE.Group();
+    const scale = CLOUD_RADIUS / sample.extent;
+
+    // Probability cloud
+    const positions = sample.positions.map(value => value * scale);
+    const colors = new Float32Array(sample.phases.length * 3);
+    const [positive, negative] = [new THREE.Color(POSITIVE_PHASE), new THREE.Color(NEGATIVE_PHASE)];
+    sample.phases.forEach((phase, idx) => {
+      const color = phase < 0 ? negative : positive;
+      colors.set([color.r, color.g, color.b], idx * 3);
+    });
+    const cloudGeom = new THREE.BufferGeometry();
+    cloudGeom.setAttribute('position', new THREE.BufferAttribute(positions, 3));
+    cloudGeom.setAttribute('color', new THREE.BufferAttribute(colors, 3));
+    const cloudMat = new THREE.PointsMaterial({
+      size: 0.045,
+      vertexColors: true,
+      transparent: true,
+      opacity: 0.75,
+      depthWrite: false,
+    });
+    group.add(new THREE.Points(cloudGeom, cloudMat));
+
+    // Nucleus
+    const nucleus = new THREE.Mesh(new THREE.SphereGeometry(0.06, 16, 16), new THREE.MeshBasicMaterial({ color: 0xef4444 }));
+    group.add(nucleus);
+
+    // Radial nodes - spheres where ψ is zero
+    if (showNodes) {
+      nodes.forEach(radius => {
+        const shell = new THREE.Mesh(
+          new THREE.SphereGeometry(radius * scale, 24, 16),
+          new THREE.MeshBasicMaterial({ color: 0xffffff, wireframe: true, transparent: true, opacity: 0.15 })
+        );
+        group.add(shell);
+      });
+    }
+
+    // x red, y green, z blue - so pₓ, p_y and p_z can be told apart
+    group.add(new THREE.AxesHelper(CLOUD_RADIUS * 1.1));
+
+    scene.add(group);
+
+    const controls = attachControls(camera, canvas, CAMERA_DISTANCE);
+
+    return { scene, camera, update: controls.update, cleanup: controls.dispose };
+  }, { width: size, height: size }, [sample, nodes, showNodes]);
+
+  const pickButton = (isActive: boolean) =>
+    `px-3 py-1 rounded-full text-xs font-semibold transition-colors ${
+      isActive ? 'bg-indigo-600 text-white' : 'bg-indigo-100 text-indigo-800 hover:bg-indigo-200'
+    }`;
+
+  return (
+    <div className="flex flex-col items-center space-y-2">
+      {selectable && (
+        <div className="space-y-2 w-full">
+          <div className="flex flex-wrap justify-center items-center gap-1">
+            <span className="text-xs text-gray-500 mr-1">Shell n</span>
+            {Array.from({ length: MAX_PRINCIPAL }, (_, idx) => idx + 1).map(shell => (
+              <button
+                key={shell}
+                onClick={() => setOrbital(orbitalsInSubshell(shell, Math.min(l, shell - 1))[0])}
+                className={pickButton(shell === n)}
+              >
+                {shell}
+              </button>
+            ))}
+          </div>
+          <div className="flex flex-wrap justify-center items-center gap-1">
+            <span className="text-xs text-gray-500 mr-1">Subshell</span>
+            {SUBSHELL_LETTERS.slice(0, n).map((letter, idx) => (
+              <button
+                key={letter}
+                onClick={() => setOrbital(orbitalsInSubshell(n, idx)[0])}
+                className={pickButton(idx === l)}
+              >
+                {n}{letter}
+              </button>
+            ))}
+          </div>
+          {l > 0 && (
+            <div className="flex flex-wrap justify-center items-center gap-1">
+              <span className="text-xs text-gray-500 mr-1">Orbital</span>
+              {orbitalsInSubshell(n, l).map(option => (
+                <button
+                  key={option.m}
+                  onClick={() => setOrbital(option)}
+                  className={pickButton(option.m === m)}
+                >
+                  <OrbitalName orbital={option} />
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
+      {hasWebGL ? (
+        <>
+          <canvas
+            ref={canvasRef}
+            className="rounded-lg shadow-lg bg-slate-900 cursor-grab active:cursor-grabbing"
+            style={{ touchAction: 'none', width: size, height: size }}
+            role="img"
+            aria-label={`Probability cloud of the ${orbitalLabel(orbital)} orbital`}
+          />
+          <ViewToolbar isRotating={isRotating} onToggleRotation={toggleRotation} onReset={resetView} />
+        </>
+      ) : (
+        <>
+          <OrbitalCloud
+            sample={sample}
+            scale={CLOUD_RADIUS / sample.extent}
+            nodes={showNodes ? nodes : []}
+            // What the 3D camera takes in, so both look the same size
+            viewRadius={CAMERA_DISTANCE * Math.tan((CAMERA_FOV / 2) * (Math.PI / 180))}
+            size={size}
+            label={`Probability cloud of the ${orbitalLabel(orbital)} orbital`}
+            onRotate={() => onInteraction?.({ visual: 'orbital', action: 'rotate' })}
+          />
+          <p className="text-[10px] text-gray-500 text-center">
+            Drag to turn • This browser can't show 3D, so this is a flat drawing
+          </p>
+        </>
+      )}
+
+      <div className="flex justify-center gap-4 text-xs">
+        <div className="flex items-center gap-1">
+          <div className="w-3 h-3 rounded-full bg-blue-500" />
+          <span>ψ positive</span>
+        </div>
+        <div className="flex items-center gap-1">
+          <div className="w-3 h-3 rounded-full bg-orange-500" />
+          <span>ψ negative</span>
+        </div>
+      </div>
+
+      <div className="text-xs text-gray-700 text-center space-y-1">
+        <p>
+          <span className="font-bold"><OrbitalName orbital={orbital} /></span>
+          {' • '}
+          {nodes.length === 0
+            ? 'no radial nodes'
+            : `${nodes.length} radial node${nodes.length > 1 ? 's' : ''} at r = ${nodes.map(r => r.toFixed(1)).join(', ')} a₀`}
+          {' • '}
+          {l} angular node{l === 1 ? '' : 's'}
+          {' • '}
+          E = {orbitalEnergy(n).toFixed(2)} eV
+        </p>
+        {nodes.length > 0 && (
+          <label className="inline-flex items-center gap-1 cursor-pointer">
+            <input type="checkbox" checked={showNodes} onChange={(e) => setShowNodes(e.target.checked)} />
+            Show radial node shells
+          </label>
+        )}
+      </div>
+
+      <p className="text-xs text-gray-600 text-center">
+        Each dot is a place the electron could be found - denser means more likely • Axes: x red, y green, z blue
+      </p>
+    </div>
+  );
+};
+
+export default OrbitalViewer;
@@ -0,0 +1,143 @@
+import React, { useEffect, useRef, FC } from 'react';
+
+// Crab Nebula painted on a Canvas2D - the welcome screen's artwork, and NebulaAvatar's stand-in without WebGL
+interface RealisticNebulaProps {
+  size?: number;
+}
+
+const RealisticNebula: FC<RealisticNebulaProps> = ({ size = 200 }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+    
+    const width = canvas.width;
+    const height = canvas.height;
+    const centerX = width / 2;
+    const centerY = height / 2;
+    
+    // Clear canvas
+    ctx.fillStyle = '#0a0a1a';
+    ctx.fillRect(0, 0, width, height);
+    
+    // Create nebula colors (Crab Nebula inspired - blues, oranges, reds, purples)
+    const nebulaColors = [
+      { r: 255, g: 100, b: 50, a: 0.3 },   // Orange/red filaments
+      { r: 100, g: 150, b: 255, a: 0.4 },  // Blue glow
+      { r: 255, g: 200, b: 100, a: 0.2 },  // Yellow wisps
+      { r: 200, g: 100, b: 255, a: 0.3 },  // Purple haze
+      { r: 255, g: 80, b: 80, a: 0.25 },   // Red regions
+      { r: 100, g: 255, b: 200, a: 0.2 },  // Teal accents
+    ];
+    
+    // Draw multiple nebula layers
+    for (let layer = 0; layer < 8; layer++) {
+      const color = nebulaColors[layer % nebulaColors.length];
+      
+      // Create organic cloud shapes
+      for (let i = 0; i < 150; i++) {
+        const angle = Math.random() * Math.PI * 2;
+        const distance = Math.random() * (size * 0.45) * (0.3 + Math.random() * 0.7);
+        const x = centerX + Math.cos(angle) * distance;
+        const y = centerY + Math.sin(angle) * distance;
+        
+        const cloudSize = 5 + Math.random() * 30;
+        
+        const gradient = ctx.createRadialGradient(x, y, 0, x, y, cloudSize);
+        gradient.addColorStop(0, `rgba(${color.r}, ${color.g}, ${color.b}, ${color.a})`);
+        gradient.addColorStop(0.5, `rgba(${color.r}, ${color.g}, ${color.b}, ${color.a * 0.5})`);
+        gradient.addColorStop(1, 'rgba(0, 0, 0, 0)');
+        
+        ctx.fillStyle = gradient;
+        ctx.beginPath();
+        ctx.arc(x, y, cloudSize, 0, Math.PI * 2);
+        ctx.fill();
+      }
+    }
+    
+    // Add filament structures (like the Crab Nebula's famous filaments)
+    ctx.lineWidth = 1;
+    for (let i = 0; i < 60; i++) {
+      const startAngle = Math.random() * Math.PI * 2;
+      const startDist = Math.random() * size * 0.2;
+      const endDist = startDist + Math.random() * size * 0.3;
+      
+      const startX = centerX + Math.cos(startAngle) * startDist;
+      const startY = centerY + Math.sin(startAngle) * startDist;
+      const endX = centerX + Math.cos(startAngle + (Math.random() - 0.5) * 0.5) * endDist;
+      const endY = centerY + Math.sin(startAngle + (Math.random() - 0.5) * 0.5) * endDist;
+      
+      const gradient = ctx.createLinearGradient(startX, startY, endX, endY);
+      const color = nebulaColors[Math.floor(Math.random() * nebulaColors.length)];
+      gradient.addColorStop(0, `rgba(${color.r}, ${color.g}, ${color.b}, 0)`);
+      gradient.addColorStop(0.5, `rgba(${color.r}, ${color.g}, ${color.b}, 0.6)`);
+      gradient.addColorStop(1, `rgba(${color.r}, ${color.g}, ${color.b}, 0)`);
+      
+      ctx.strokeStyle = gradient;
+      ctx.beginPath();
+      ctx.moveTo(startX, startY);
+      
+      // Curved filament
+      const controlX = (startX + endX) / 2 + (Math.random() - 0.5) * 30;
+      const controlY = (startY + endY) / 2 + (Math.random() - 0.5) * 30;
+      ctx.quadraticCurveTo(controlX, controlY, endX, endY);
+      ctx.stroke();
+    }
+    
+    // Add bright central pulsar glow
+    const pulsarGradient = ctx.createRadialGradient(centerX, centerY, 0, centerX, centerY, size * 0.15);
+    pulsarGradient.addColorStop(0, 'rgba(255, 255, 255, 0.9)');
+    pulsarGradient.addColorStop(0.2, 'rgba(200, 220, 255, 0.6)');
+    pulsarGradient.addColorStop(0.5, 'rgba(100, 150, 255, 0.3)');
+    pulsarGradient.addColorStop(1, 'rgba(50, 50, 150, 0)');
+    
+    ctx.fillStyle = pulsarGradient;
+    ctx.beginPath();
+    ctx.arc(centerX, centerY, size * 0.15, 0, Math.PI * 2);
+    ctx.fill();
+    
+    // Add stars
+    for (let i = 0; i < 100; i++) {
+      const x = Math.random() * width;
+      const y = Math.random() * height;
+      const starSize = Math.random() * 1.5;
+      const brightness = 0.3 + Math.random() * 0.7;
+      
+      ctx.fillStyle = `rgba(255, 255, 255, ${brightness})`;
+      ctx.beginPath();
+      ctx.arc(x, y, starSize, 0, Math.PI * 2);
+      ctx.fill();
+    }
+    
+    // Add outer glow
+    const outerGlow = ctx.createRadialGradient(centerX, centerY, size * 0.3, centerX, centerY, size * 0.5);
+    outerGlow.addColorStop(0, 'rgba(100, 50, 150, 0)');
+    outerGlow.addColorStop(0.7, 'rgba(80, 40, 120, 0.1)');
+    outerGlow.addColorStop(1, 'rgba(20, 10, 40, 0.3)');
+    
+    ctx.fillStyle = outerGlow;
+    ctx.beginPath();
+    ctx.arc(centerX, centerY, size * 0.5, 0, Math.PI * 2);
+    ctx.fill();
+    
+  }, [size]);
+  
+  return (
+    <canvas 
+      ref={canvasRef} 
+      width={size} 
+      height={size}
+      className="rounded-full shadow-2xl"
+      style={{
+        // Glow scales with the nebula - it's also NebulaAvatar's stand-in when there's no WebGL
+        boxShadow: `0 0 ${Math.round(size * 0.27)}px rgba(147, 51, 234, 0.5), 0 0 ${Math.round(size * 0.45)}px rgba(79, 70, 229, 0.3)`
+      }}
+    />
+  );
+};
+
+export default RealisticNebula;
@@ -0,0 +1,111 @@
+import React, { useState, FC } from 'react';
+import { ArrowRight, CheckCircle, RotateCcw } from 'lucide-react';
+import KnowledgeCheckQuestion from './KnowledgeCheckQuestion';
+import { gradeCheck } from '../lib/grading';
+import type { CheckAnswer } from '../lib/curriculum';
+import type { ReviewSessionItem } from '../lib/review';
+
+// Daily spaced-repetition review - one knowledge check at a time, mixed across concepts
+interface ReviewSessionProps {
+  items: ReviewSessionItem[];
+  onAnswer: (entry: ReviewSessionItem, correct: boolean) => void;
+  onFinish: () => void;
+}
+
+const ReviewSession: FC<ReviewSessionProps> = ({ items, onAnswer, onFinish }) => {
+  const [index, setIndex] = useState<number>(0);
+  const [answer, setAnswer] = useState<CheckAnswer | undefined>(undefined);
+  const [correctCount, setCorrectCount] = useState<number>(0);
+
+  const entry = items[index];
+  const isFinished = !entry;
+
+  const handleAnswer = (given: CheckAnswer) => {
+    if (answer !== undefined || !entry) return;
+    const correct = gradeCheck(entry.check, given);
+    setAnswer(given);
+    if (correct) setCorrectCount(count => count + 1);
+    onAnswer(entry, correct);
+  };
+
+  const handleNext = () => {
+    setAnswer(undefined);
+    setIndex(i => i + 1);
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+  };
+
+  if (isFinished) {
+    return (
+      <div className="bg-white rounded-2xl shadow-lg p-6 text-center space-y-4">
+        <div className="text-5xl">🌟</div>
+        <h2 className="text-2xl font-bold text-gray-900">Review Complete!</h2>
+        <p className="text-gray-600">
+          You remembered {correctCount} of {items.length}. Anything you missed will come back tomorrow -
+          each time you get it right, it waits a little longer before returning.
+        </p>
+        <button
+          onClick={onFinish}
+          className="w-full bg-gradient-to-r from-purple-500 to-pink-500 text-white font-bold py-3 rounded-xl hover:shadow-lg transition-all"
+        >
+          Done
+        </button>
+      </div>
+    );
+  }
+
+  const { concept, check } = entry;
+  const isAnswered = answer !== undefined;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between text-sm text-gray-600">
+        <span className="flex items-center">
+          <RotateCcw className="w-4 h-4 mr-1" />
+          Review {index + 1} of {items.length}
+        </span>
+        <span className="bg-purple-100 text-purple-700 px-2 py-1 rounded-full text-xs font-medium">
+          {concept.title}
+        </span>
+      </div>
+
+      <div className="w-full bg-gray-200 rounded-full h-2">
+        <div
+          className="bg-gradient-to-r from-purple-500 to-pink-500 h-2 rounded-full transition-all"
+          style={{ width: `${(index / items.length) * 100}%` }}
+        />
+      </div>
+
+      <div className="bg-white rounded-2xl shadow-lg p-6">
+        <div className="flex items-center space-x-3 mb-4">
+          <CheckCircle className="w-8 h-8 text-teal-500" />
+          <h3 className="text-lg font-bold text-gray-900">Do You Remember?</h3>
+        </div>
+
+        <div className="bg-teal-50 rounded-lg p-4">
+          <p className="text-teal-900 font-semibold mb-3">{check.question}</p>
+
+          <KnowledgeCheckQuestion
+            key={check.id}
+            check={check}
+            answer={answer}
+            onAnswer={handleAnswer}
+            correctMessage="✓ Still got it!"
+            incorrectMessage="This one slipped away - it will come back tomorrow."
+          />
+        </div>
+
+        {isAnswered && (
+          <button
+            onClick={handleNext}
+            className="mt-4 w-full bg-gradient-to-r from-purple-500 to-pink-500 text-white font-bold py-3 rounded-xl hover:shadow-lg transition-all flex items-center justify-center"
+          >
+            {index < items.length - 1 ? 'Next Question' : 'Finish Review'}
+            <ArrowRight className="w-5 h-5 ml-2" />
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ReviewSession;
@@ -0,0 +1,31 @@
+import React, { FC } from 'react';
+import { Pause, Play, RotateCcw } from 'lucide-react';
+
+// Pause-rotation and reset-view buttons, with how-to hints, under every 3D visual
+interface ViewToolbarProps {
+  isRotating: boolean;
+  onToggleRotation: () => void;
+  onReset: () => void;
+}
+
+const BUTTON_CLASS = 'flex items-center px-3 py-1 rounded-full text-xs font-semibold bg-gray-100 text-gray-700 hover:bg-gray-200 transition-colors';
+
+const ViewToolbar: FC<ViewToolbarProps> = ({ isRotating, onToggleRotation, onReset }) => (
+  <div className="space-y-1 mt-2">
+    <div className="flex justify-center gap-2">
+      <button onClick={onToggleRotation} className={BUTTON_CLASS} aria-pressed={!isRotating}>
+        {isRotating ? <Pause className="w-3 h-3 mr-1" /> : <Play className="w-3 h-3 mr-1" />}
+        {isRotating ? 'Pause rotation' : 'Resume rotation'}
+      </button>
+      <button onClick={onReset} className={BUTTON_CLASS}>
+        <RotateCcw className="w-3 h-3 mr-1" />
+        Reset view
+      </button>
+    </div>
+    <p className="text-[10px] text-gray-500 text-center">
+      Drag to rotate • Scroll or pinch to zoom • Right-drag or two fingers to pan
+    </p>
+  </div>
+);
+
+export default ViewToolbar;
@@ -0,0 +1,57 @@
+import React, { Component, ErrorInfo, ReactNode } from 'react';
+import { AlertTriangle, RotateCcw } from 'lucide-react';
+
+// Catches a visual that throws while rendering, so one broken diagram shows a notice with a retry button
+// instead of blanking the whole lesson
+interface VisualErrorBoundaryProps {
+  // Which visual this is - for the console and analytics
+  visual: string;
+  // Clears the error when it changes, e.g. the concept id, so the next concept gets a fresh try
+  resetKey?: string;
+  onError?: (visual: string, error: Error) => void;
+  children: ReactNode;
+}
+
+interface VisualErrorBoundaryState {
+  error: Error | null;
+}
+
+class VisualErrorBoundary extends Component<VisualErrorBoundaryProps, VisualErrorBoundaryState> {
+  state: VisualErrorBoundaryState = { error: null };
+
+  static getDerivedStateFromError(error: Error): VisualErrorBoundaryState {
+    return { error };
+  }
+
+  componentDidCatch(error: Error, info: ErrorInfo) {
+    console.error(`Visual "${this.props.visual}" failed:`, error, info.componentStack);
+    this.props.onError?.(this.props.visual, error);
+  }
+
+  componentDidUpdate(prevProps: VisualErrorBoundaryProps) {
+    if (this.state.error && prevProps.resetKey !== this.props.resetKey) {
+      this.setState({ error: null });
+    }
+  }
+
+  render() {
+    if (!this.state.error) return this.props.children;
+
+    return (
+      <div className="flex flex-col items-center text-center gap-2 rounded-lg bg-amber-50 border-2 border-amber-200 p-4">
+        <AlertTriangle className="w-6 h-6 text-amber-600" />
+        <p className="text-sm text-amber-900 font-semibold">This visual couldn&apos;t be shown on your device.</p>
+        <p className="text-xs text-amber-800">The explanation below covers the same ideas.</p>
+        <button
+          onClick={() => this.setState({ error: null })}
+          className="inline-flex items-center px-3 py-1 rounded-full text-xs font-semibold bg-amber-100 text-amber-900 hover:bg-amber-200 transition-colors"
+        >
+          <RotateCcw className="w-3 h-3 mr-1" />
+          Try again
+        </button>
+      </div>
+    );
+  }
+}
+
+export default VisualErrorBoundary;
@@ -0,0 +1,123 @@
+import React, { FC, ReactNode } from 'react';
+import { Star, TrendingUp, Award, Brain, BarChart3, RotateCcw } from 'lucide-react';
+import type { Progress } from '../../lib/persistence';
+import NebulaAvatar from '../NebulaAvatar';
+
+// Progress Tracker Component
+interface ProgressTrackerProps {
+  progress: Progress;
+}
+
+const ProgressTracker: FC<ProgressTrackerProps> = ({ progress }) => {
+  const { completedConcepts, totalConcepts, confidenceScores, strengths, needsWork } = progress;
+  const percentage = totalConcepts > 0 ? Math.round((completedConcepts / totalConcepts) * 100) : 0;
+  const avgConfidence = confidenceScores.length > 0 
+    ? (confidenceScores.reduce((a, b) => a + b, 0) / confidenceScores.length).toFixed(1)
+    : 0;
+  
+  return (
+    <div className="bg-gradient-to-br from-purple-50 to-blue-50 rounded-2xl shadow-lg p-6 space-y-4">
+      <div className="flex items-center space-x-3">
+        <TrendingUp className="w-8 h-8 text-purple-600" />
+        <h3 className="text-xl font-bold text-gray-900">Your Journey Progress</h3>
+      </div>
+      
+      <div className="space-y-2">
+        <div className="flex justify-between text-sm">
+          <span className="font-medium text-gray-700">Concepts Explored</span>
+          <span className="font-bold text-purple-600">{completedConcepts} / {totalConcepts}</span>
+        </div>
+        <div className="w-full bg-gray-200 rounded-full h-3">
+          <div 
+            className="bg-gradient-to-r from-purple-500 to-blue-500 h-3 rounded-full transition-all duration-500"
+            style={{ width: `${percentage}%` }}
+          />
+        </div>
+      </div>
+      
+      <div className="grid grid-cols-2 gap-4">
+        <div className="bg-white rounded-lg p-3 text-center">
+          <Star className="w-6 h-6 text-yellow-500 mx-auto mb-1" />
+          <p className="text-xs text-gray-600">Avg Confidence</p>
+          <p className="text-2xl font-bold text-gray-900">{avgConfidence}</p>
+        </div>
+        <div className="bg-white rounded-lg p-3 text-center">
+          <Award className="w-6 h-6 text-green-500 mx-auto mb-1" />
+          <p className="text-xs text-gray-600">Strengths</p>
+          <p className="text-2xl font-bold text-gray-900">{strengths.length}</p>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+// Shown after the last concept - progress so far, analytics, daily review and a way to start over
+interface CompletionScreenProps {
+  progress: Progress;
+  dueReviewCount: number;
+  onShowAnalytics: () => void;
+  onStartReview: () => void;
+  onRestart: () => void;
+  children?: ReactNode;
+}
+
+const CompletionScreen: FC<CompletionScreenProps> = ({
+  progress,
+  dueReviewCount,
+  onShowAnalytics,
+  onStartReview,
+  onRestart,
+  children,
+}) => {
+  return (
+    <div className="max-w-md mx-auto min-h-screen bg-gradient-to-br from-green-50 to-blue-50 p-6">
+      {/* Modals the app opens over this screen */}
+      {children}
+      
+      <div className="text-center space-y-6">
+        <NebulaAvatar size="large" />
+        <h1 className="text-3xl font-bold text-gray-900">Quantum Milestone Reached!</h1>
+        
+        <ProgressTracker progress={progress} />
+        
+        <div className="bg-white rounded-2xl shadow-lg p-6 text-left">
+          <h3 className="text-xl font-bold text-gray-900 mb-4">Your Achievement</h3>
+          <p className="text-gray-700 leading-relaxed">
+            You've completed the quantum foundation module! You now understand carbon at the 
+            deepest level - from electron orbitals to bonding capacity. This knowledge is the 
+            bedrock of all organic chemistry.
+          </p>
+        </div>
+        
+        {/* Learning Analytics Button */}
+        <button
+          onClick={onShowAnalytics}
+          className="w-full flex items-center justify-center space-x-3 bg-white border-2 border-purple-200 hover:border-purple-400 hover:bg-purple-50 text-purple-700 font-medium py-3 px-4 rounded-xl shadow-sm transition-all"
+        >
+          <Brain className="w-5 h-5 text-purple-600" />
+          <span>View My Learning Analytics</span>
+          <BarChart3 className="w-4 h-4 text-purple-400" />
+        </button>
+        
+        {dueReviewCount > 0 && (
+          <button
+            onClick={onStartReview}
+            className="w-full flex items-center justify-center space-x-2 bg-white border-2 border-teal-200 hover:border-teal-400 hover:bg-teal-50 text-teal-700 font-medium py-3 px-4 rounded-xl shadow-sm transition-all"
+          >
+            <RotateCcw className="w-5 h-5" />
+            <span>Daily Review ({dueReviewCount} due)</span>
+          </button>
+        )}
+        
+        <button 
+          onClick={onRestart}
+          className="w-full bg-gradient-to-r from-purple-500 to-blue-500 text-white font-bold py-4 px-6 rounded-xl shadow-lg"
+        >
+          Explore Again
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default CompletionScreen;
@@ -0,0 +1,356 @@
+import React, { FC, ReactNode } from 'react';
+import { Star, CheckCircle, MessageCircle, Sparkles, Brain, BarChart3, Map as MapIcon } from 'lucide-react';
+import type { CheckAnswer, Concept, Module } from '../../lib/curriculum';
+import type { VisualInteraction } from '../../lib/viewControls';
+import KnowledgeCheckQuestion from '../KnowledgeCheckQuestion';
+import NebulaAvatar from '../NebulaAvatar';
+import VisualCard from '../visuals/VisualCard';
+
+// A concept's lesson - wisdom, visuals, explanation, knowledge checks, confidence and navigation. The app keeps
+// the state; this only draws it.
+interface LearningScreenProps {
+  module: Module;
+  concept: Concept;
+  // Position of the concept in its module
+  conceptIdx: number;
+  isFirstConcept: boolean;
+  isLastConcept: boolean;
+  voiceEnabled: boolean;
+  isSpeaking: boolean;
+  voiceLoading: boolean;
+  onToggleVoice: () => void;
+  onShowAnalytics: () => void;
+  onShowConceptMap: () => void;
+  onShowChat: () => void;
+  onShowFeedback: () => void;
+  // Thumbs up (1) or down (0), once the learner has rated the explanation
+  rating?: number;
+  onRate: (isPositive: boolean) => void;
+  knowledgeCheckAnswers: Record<string, CheckAnswer>;
+  onAnswer: (checkId: string, answer: CheckAnswer) => void;
+  confidenceLevel: number;
+  onConfidenceChange: (level: number) => void;
+  onPrevious: () => void;
+  onNext: () => void;
+  onVisualInteraction: (interaction: VisualInteraction) => void;
+  onVisualError: (visual: string, error: Error) => void;
+  // Notices and modals the app opens over the lesson
+  children?: ReactNode;
+}
+
+const LearningScreen: FC<LearningScreenProps> = ({
+  module,
+  concept,
+  conceptIdx,
+  isFirstConcept,
+  isLastConcept,
+  voiceEnabled,
+  isSpeaking,
+  voiceLoading,
+  onToggleVoice,
+  onShowAnalytics,
+  onShowConceptMap,
+  onShowChat,
+  onShowFeedback,
+  rating,
+  onRate,
+  knowledgeCheckAnswers,
+  onAnswer,
+  confidenceLevel,
+  onConfidenceChange,
+  onPrevious,
+  onNext,
+  onVisualInteraction,
+  onVisualError,
+  children,
+}) => {
+  return (
+    <div className="max-w-md mx-auto min-h-screen bg-gradient-to-br from-slate-50 to-blue-50 pb-20">
+      {children}
+      
+      {/* Floating Feedback Button */}
+      <button
+        onClick={onShowFeedback}
+        className="fixed bottom-24 right-4 bg-white shadow-lg rounded-full p-3 border border-gray-200 hover:shadow-xl transition-all z-40"
+        title="Send Feedback"
+      >
+        <svg className="w-6 h-6 text-purple-500" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 8h10M7 12h4m1 8l-4-4H5a2 2 0 01-2-2V6a2 2 0 012-2h14a2 2 0 012 2v8a2 2 0 01-2 2h-3l-4 4z" />
+        </svg>
+      </button>
+      
+      {/* Main Content */}
+      <div className="p-6 space-y-6">
+        {/* Header */}
+        <div className="bg-white rounded-2xl shadow-lg p-4">
+          <div className="flex items-center justify-between">
+            <div className="flex-1">
+              <h2 className="text-sm font-bold text-gray-900">{module.title}</h2>
+              <p className="text-xs text-gray-600">{concept.title}</p>
+            </div>
+            <div className="flex items-center space-x-2">
+              {/* Voice Toggle */}
+              <button
+                onClick={onToggleVoice}
+                className={`p-2 rounded-full transition-all ${
+                  voiceEnabled 
+                    ? 'bg-purple-500 text-white shadow-lg' 
+                    : 'bg-gray-100 text-gray-500 hover:bg-gray-200'
+                } ${isSpeaking ? 'animate-pulse' : ''}`}
+                title={voiceEnabled ? 'Voice On (tap to mute)' : 'Voice Off (tap to enable)'}
+              >
+                {voiceLoading ? (
+                  <svg className="w-5 h-5 animate-spin" fill="none" viewBox="0 0 24 24">
+                    <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" />
+                    <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4z" />
+                  </svg>
+                ) : voiceEnabled ? (
+                  <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15.536 8.464a5 5 0 010 7.072m2.828-9.9a9 9 0 010 12.728M5.586 15H4a1 1 0 01-1-1v-4a1 1 0 011-1h1.586l4.707-4.707C10.923 3.663 12 4.109 12 5v14c0 .891-1.077 1.337-1.707.707L5.586 15z" />
+                  </svg>
+                ) : (
+                  <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5.586 15H4a1 1 0 01-1-1v-4a1 1 0 011-1h1.586l4.707-4.707C10.923 3.663 12 4.109 12 5v14c0 .891-1.077 1.337-1.707.707L5.586 15z" />
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17 14l2-2m0 0l2-2m-2 2l-2-2m2 2l2 2" />
+                  </svg>
+                )}
+              </button>
+              <NebulaAvatar size="small" speaking={isSpeaking} />
+            </div>
+          </div>
+          
+          {/* Voice Mode Indicator */}
+          {voiceEnabled && (
+            <div className="mt-2 flex items-center justify-center space-x-2 text-xs text-purple-600 bg-purple-50 rounded-lg py-1">
+              <span>🎧 Voice Mode On</span>
+              {isSpeaking && <span className="animate-pulse">• Speaking...</span>}
+            </div>
+          )}
+        </div>
+        
+        {/* Progress Bar */}
+        <div className="bg-gradient-to-r from-purple-100 to-blue-100 rounded-xl p-4">
+          <div className="flex justify-between items-center text-sm">
+            <span className="text-purple-900 font-medium">
+              Concept {conceptIdx + 1} of {module.concepts.length}
+            </span>
+            <span className="text-purple-900 font-bold">
+              {Math.round(((conceptIdx + 1) / module.concepts.length) * 100)}%
+            </span>
+          </div>
+          
+          {/* Visual Progress Bar */}
+          <div className="mt-2 h-2 bg-purple-200 rounded-full overflow-hidden">
+            <div 
+              className="h-full bg-gradient-to-r from-purple-500 to-blue-500 rounded-full transition-all duration-500"
+              style={{ width: `${((conceptIdx + 1) / module.concepts.length) * 100}%` }}
+            />
+          </div>
+        </div>
+        
+        {/* Learning Analytics Button - Clearly Labeled */}
+        <button
+          onClick={onShowAnalytics}
+          className="w-full flex items-center justify-center space-x-3 bg-white border-2 border-purple-200 hover:border-purple-400 hover:bg-purple-50 text-purple-700 font-medium py-3 px-4 rounded-xl shadow-sm transition-all"
+        >
+          <Brain className="w-5 h-5 text-purple-600" />
+          <span>View My Learning Analytics</span>
+          <BarChart3 className="w-4 h-4 text-purple-400" />
+        </button>
+        
+        {/* Concept Map Button */}
+        <button
+          onClick={onShowConceptMap}
+          className="w-full flex items-center justify-center space-x-3 bg-white border-2 border-blue-200 hover:border-blue-400 hover:bg-blue-50 text-blue-700 font-medium py-3 px-4 rounded-xl shadow-sm transition-all"
+        >
+          <MapIcon className="w-5 h-5 text-blue-600" />
+          <span>Concept Map</span>
+        </button>
+        
+        {/* Chat Button */}
+        <button
+          onClick={onShowChat}
+          className="w-full bg-gradient-to-r from-purple-500 to-blue-500 text-white font-bold py-4 px-6 rounded-xl shadow-lg hover:shadow-xl transition-all transform hover:scale-105"
+        >
+          <MessageCircle className="w-5 h-5 inline mr-2" />
+          Ask Ky'Orda a Question
+        </button>
+        
+        {/* Wisdom Card */}
+        <div className="bg-gradient-to-br from-amber-50 to-orange-50 rounded-2xl shadow-lg p-6">
+          <div className="flex items-center space-x-2 mb-3">
+            <Sparkles className="w-6 h-6 text-amber-600" />
+            <h3 className="text-lg font-bold text-gray-900">Cosmic Wisdom</h3>
+          </div>
+          <p className="text-gray-700 italic leading-relaxed">"{concept.wisdom}"</p>
+        </div>
+        
+        {/* Visuals from the registry, in the order the concept lists them */}
+        {concept.visuals.map((visual, idx) => (
+          <VisualCard
+            key={`${concept.id}-${idx}`}
+            visual={visual}
+            resetKey={concept.id}
+            onInteraction={onVisualInteraction}
+            onError={onVisualError}
+          />
+        ))}
+        
+        {/* Explanation */}
+        <div className="bg-white rounded-2xl shadow-lg p-6">
+          <h3 className="text-lg font-bold text-gray-900 mb-3">Deep Dive</h3>
+          <div className="text-gray-700 leading-relaxed space-y-3 whitespace-pre-line">
+            {concept.explanation}
+          </div>
+          
+          {/* Thumbs Up/Down Rating */}
+          <div className="mt-6 pt-4 border-t border-gray-100">
+            <div className="flex items-center justify-between">
+              <span className="text-sm text-gray-500">Was this helpful?</span>
+              <div className="flex items-center space-x-2">
+                {rating === undefined ? (
+                  <>
+                    <button
+                      onClick={() => onRate(true)}
+                      className="p-2 rounded-full hover:bg-green-100 transition-colors group"
+                      title="Yes, this was helpful"
+                    >
+                      <svg className="w-6 h-6 text-gray-400 group-hover:text-green-500" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M14 10h4.764a2 2 0 011.789 2.894l-3.5 7A2 2 0 0115.263 21h-4.017c-.163 0-.326-.02-.485-.06L7 20m7-10V5a2 2 0 00-2-2h-.095c-.5 0-.905.405-.905.905 0 .714-.211 1.412-.608 2.006L7 11v9m7-10h-2M7 20H5a2 2 0 01-2-2v-6a2 2 0 012-2h2.5" />
+                      </svg>
+                    </button>
+                    <button
+                      onClick={() => onRate(false)}
+                      className="p-2 rounded-full hover:bg-red-100 transition-colors group"
+                      title="No, I need more help"
+                    >
+                      <svg className="w-6 h-6 text-gray-400 group-hover:text-red-500" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 14H5.236a2 2 0 01-1.789-2.894l3.5-7A2 2 0 018.736 3h4.018a2 2 0 01.485.06l3.76.94m-7 10v5a2 2 0 002 2h.096c.5 0 .905-.405.905-.904 0-.715.211-1.413.608-2.008L17 13V4m-7 10h2m5-10h2a2 2 0 012 2v6a2 2 0 01-2 2h-2.5" />
+                      </svg>
+                    </button>
+                  </>
+                ) : (
+                  <div className="flex items-center space-x-2">
+                    {rating === 1 ? (
+                      <span className="text-green-500 flex items-center">
+                        <svg className="w-5 h-5 mr-1" fill="currentColor" viewBox="0 0 24 24">
+                          <path d="M14 10h4.764a2 2 0 011.789 2.894l-3.5 7A2 2 0 0115.263 21h-4.017c-.163 0-.326-.02-.485-.06L7 20m7-10V5a2 2 0 00-2-2h-.095c-.5 0-.905.405-.905.905 0 .714-.211 1.412-.608 2.006L7 11v9m7-10h-2M7 20H5a2 2 0 01-2-2v-6a2 2 0 012-2h2.5" />
+                        </svg>
+                        Thanks!
+                      </span>
+                    ) : (
+                      <span className="text-orange-500 flex items-center text-sm">
+                        <svg className="w-5 h-5 mr-1" fill="currentColor" viewBox="0 0 24 24">
+                          <path d="M10 14H5.236a2 2 0 01-1.789-2.894l3.5-7A2 2 0 018.736 3h4.018a2 2 0 01.485.06l3.76.94m-7 10v5a2 2 0 002 2h.096c.5 0 .905-.405.905-.904 0-.715.211-1.413.608-2.008L17 13V4m-7 10h2m5-10h2a2 2 0 012 2v6a2 2 0 01-2 2h-2.5" />
+                        </svg>
+                        We'll improve this!
+                      </span>
+                    )}
+                  </div>
+                )}
+              </div>
+            </div>
+          </div>
+        </div>
+        
+        {/* Knowledge Check Questions */}
+        {concept.knowledgeChecks && concept.knowledgeChecks.length > 0 && (
+          <div className="bg-white rounded-2xl shadow-lg p-6">
+            <div className="flex items-center space-x-3 mb-4">
+              <CheckCircle className="w-8 h-8 text-teal-500" />
+              <h3 className="text-lg font-bold text-gray-900">Knowledge Check</h3>
+            </div>
+            
+            <div className="space-y-6">
+              {concept.knowledgeChecks.map((check, checkIdx) => (
+                <div key={check.id} className="bg-teal-50 rounded-lg p-4">
+                  <p className="text-teal-900 font-semibold mb-3">
+                    {checkIdx + 1}. {check.question}
+                  </p>
+
+                  <KnowledgeCheckQuestion
+                    check={check}
+                    answer={knowledgeCheckAnswers[check.id]}
+                    onAnswer={(answer) => onAnswer(check.id, answer)}
+                  />
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+        
+        {/* Confidence Tracker */}
+        <div className="bg-white rounded-2xl shadow-lg p-6">
+          <div className="flex items-center space-x-3 mb-4">
+            <Star className="w-8 h-8 text-yellow-500" />
+            <h3 className="text-lg font-bold text-gray-900">How Well Do You Understand This?</h3>
+          </div>
+          
+          <div className="flex justify-between gap-2">
+            {[1, 2, 3, 4, 5].map((level) => (
+              <button
+                key={level}
+                onClick={() => onConfidenceChange(level)}
+                className={`flex-1 py-3 rounded-xl font-semibold transition-all ${
+                  confidenceLevel === level
+                    ? level <= 2 
+                      ? 'bg-red-500 text-white shadow-lg scale-105'
+                      : level === 3
+                      ? 'bg-yellow-500 text-white shadow-lg scale-105'
+                      : 'bg-green-500 text-white shadow-lg scale-105'
+                    : level <= 2
+                    ? 'bg-red-100 text-red-800 hover:bg-red-200'
+                    : level === 3
+                    ? 'bg-yellow-100 text-yellow-800 hover:bg-yellow-200'
+                    : 'bg-green-100 text-green-800 hover:bg-green-200'
+                }`}
+              >
+                {level}
+              </button>
+            ))}
+          </div>
+          
+          <div className="flex justify-between text-xs text-gray-600 mt-2 px-1">
+            <span>Confused</span>
+            <span>Getting it</span>
+            <span>Mastered</span>
+          </div>
+        </div>
+        
+        {/* Navigation */}
+        <div className="flex justify-between gap-4">
+          <button
+            onClick={onPrevious}
+            disabled={isFirstConcept}
+            className="flex-1 py-3 bg-gray-200 text-gray-800 font-semibold rounded-xl shadow-md hover:bg-gray-300 disabled:opacity-50 disabled:cursor-not-allowed transition-all"
+          >
+            Previous
+          </button>
+          <button
+            onClick={onNext}
+            disabled={concept.knowledgeChecks && 
+                     concept.knowledgeChecks.length > 0 && 
+                     Object.keys(knowledgeCheckAnswers).length < concept.knowledgeChecks.length}
+            className="flex-1 py-3 bg-gradient-to-r from-purple-500 to-blue-500 text-white font-semibold rounded-xl shadow-md hover:shadow-lg transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isLastConcept
+              ? 'Complete'
+              : 'Next'}
+          </button>
+        </div>
+        
+        {concept.knowledgeChecks && 
+         concept.knowledgeChecks.length > 0 && 
+         Object.keys(knowledgeCheckAnswers).length < concept.knowledgeChecks.length && (
+          <div className="text-center">
+            <p className="text-sm text-orange-600 font-semibold">
+              ⚠️ Please answer all knowledge check questions before continuing
+            </p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default LearningScreen;
@@ -0,0 +1,33 @@
+import React, { FC } from 'react';
+import type { ReviewSessionItem } from '../../lib/review';
+import NebulaAvatar from '../NebulaAvatar';
+import ReviewSession from '../ReviewSession';
+
+// Daily review - the due knowledge checks, one at a time
+interface ReviewScreenProps {
+  items: ReviewSessionItem[];
+  onAnswer: (item: ReviewSessionItem, correct: boolean) => void;
+  onFinish: () => void;
+}
+
+const ReviewScreen: FC<ReviewScreenProps> = ({ items, onAnswer, onFinish }) => {
+  return (
+    <div className="max-w-md mx-auto min-h-screen bg-gradient-to-br from-slate-50 to-purple-50 p-6">
+      <div className="flex items-center space-x-3 mb-6">
+        <NebulaAvatar size="normal" />
+        <div>
+          <h1 className="text-xl font-bold text-gray-900">Daily Review</h1>
+          <p className="text-sm text-gray-600">A quick look back keeps what you learned from fading</p>
+        </div>
+      </div>
+      
+      <ReviewSession
+        items={items}
+        onAnswer={onAnswer}
+        onFinish={onFinish}
+      />
+    </div>
+  );
+};
+
+export default ReviewScreen;
@@ -0,0 +1,133 @@
+import React, { useState, FC } from 'react';
+import { ArrowRight, RotateCcw } from 'lucide-react';
+import type { SyncStatus } from '../../hooks/useProgressPersistence';
+import RealisticNebula from '../RealisticNebula';
+
+// First screen - the nebula, Ky'Orda's introduction, daily review, and the optional learner code and D-ID key
+interface WelcomeScreenProps {
+  dueReviewCount: number;
+  onBegin: () => void;
+  onStartReview: () => void;
+  // Set once the learner has entered a code - progress then syncs across devices
+  learnerId: string | null;
+  syncStatus: SyncStatus;
+  onSetLearnerId: (learnerId: string | null) => void;
+  didApiKey: string | null;
+  onDidApiKeyChange: (apiKey: string | null) => void;
+}
+
+const WelcomeScreen: FC<WelcomeScreenProps> = ({
+  dueReviewCount,
+  onBegin,
+  onStartReview,
+  learnerId,
+  syncStatus,
+  onSetLearnerId,
+  didApiKey,
+  onDidApiKeyChange,
+}) => {
+  const [learnerCodeInput, setLearnerCodeInput] = useState<string>('');
+
+  return (
+    <div className="max-w-md mx-auto min-h-screen bg-gradient-to-br from-slate-900 via-purple-900 to-indigo-900 text-white p-6">
+      <div className="text-center space-y-6">
+        <h1 className="text-5xl font-bold tracking-wide drop-shadow-lg">KY'ORDA</h1>
+        <p className="text-purple-200 text-lg">From Confidence to Competency</p>
+        
+        {/* Realistic Nebula Visualization */}
+        <div className="relative my-8 flex flex-col items-center">
+          <RealisticNebula size={220} />
+          <p className="text-xs text-purple-300 mt-4 italic">
+            The Crab Nebula - Where carbon atoms are forged in stellar fire
+          </p>
+        </div>
+        
+        <div className="bg-white/10 backdrop-blur-sm rounded-2xl p-6 text-left space-y-4">
+          <p className="text-purple-100 leading-relaxed">
+            Welcome, stellar traveler. You are made of stardust, forged in the hearts of ancient stars like the nebula above.
+          </p>
+          <p className="text-purple-100 leading-relaxed">
+            I am Ky'Orda, your guide through the quantum realm. Together, we'll explore carbon - 
+            the cosmic element that makes life possible. We'll journey from electron orbitals to 
+            the bonds that build DNA itself.
+          </p>
+          <p className="text-purple-100 leading-relaxed font-semibold">
+            Ask me anything, anytime. I'm here to help you truly understand.
+          </p>
+        </div>
+        
+        <button 
+          onClick={onBegin}
+          className="w-full bg-gradient-to-r from-purple-500 to-blue-500 hover:from-purple-600 hover:to-blue-600 font-bold py-4 px-6 rounded-xl shadow-lg transition-all transform hover:scale-105"
+        >
+          Begin Quantum Journey <ArrowRight className="w-5 h-5 ml-2 inline" />
+        </button>
+        
+        {dueReviewCount > 0 && (
+          <button
+            onClick={onStartReview}
+            className="w-full flex items-center justify-center space-x-2 bg-white/10 border border-purple-400/40 hover:bg-white/20 font-semibold py-3 px-6 rounded-xl transition-all"
+          >
+            <RotateCcw className="w-5 h-5" />
+            <span>Daily Review ({dueReviewCount} due)</span>
+          </button>
+        )}
+        
+        {/* Learner Code - syncs progress across devices */}
+        <div className="mt-4 p-3 bg-white/5 rounded-lg">
+          {learnerId ? (
+            <div className="flex items-center justify-between text-xs text-purple-300">
+              <span>
+                Syncing as <span className="font-mono text-white">{learnerId}</span>
+                {syncStatus === 'error' && ' (offline - will retry)'}
+              </span>
+              <button
+                onClick={() => onSetLearnerId(null)}
+                className="underline hover:text-white"
+              >
+                Stop syncing
+              </button>
+            </div>
+          ) : (
+            <>
+              <p className="text-xs text-purple-300 mb-2">Optional: Enter your learner code to continue on another device</p>
+              <div className="flex space-x-2">
+                <input
+                  type="text"
+                  placeholder="Learner code"
+                  value={learnerCodeInput}
+                  onChange={(e) => setLearnerCodeInput(e.target.value.trim())}
+                  className="flex-1 px-3 py-2 bg-white/10 border border-purple-400/30 rounded-lg text-white text-sm placeholder-purple-300/50"
+                />
+                <button
+                  onClick={() => {
+                    onSetLearnerId(learnerCodeInput);
+                    setLearnerCodeInput('');
+                  }}
+                  disabled={!/^[A-Za-z0-9_-]{6,64}$/.test(learnerCodeInput)}
+                  className="px-3 py-2 bg-purple-500 rounded-lg text-sm font-semibold disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  Sync
+                </button>
+              </div>
+            </>
+          )}
+        </div>
+        
+        {/* D-ID API Key Input (for demo) */}
+        <div className="mt-4 p-3 bg-white/5 rounded-lg">
+          <p className="text-xs text-purple-300 mb-2">Optional: Enter D-ID API key for speaking avatar</p>
+          <input
+            type="password"
+            placeholder="D-ID API Key (optional)"
+            value={didApiKey || ''}
+            onChange={(e) => onDidApiKeyChange(e.target.value || null)}
+            className="w-full px-3 py-2 bg-white/10 border border-purple-400/30 rounded-lg text-white text-sm placeholder-purple-300/50"
+          />
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default WelcomeScreen;
@@ -0,0 +1,144 @@
+import React, { FC } from 'react';
+import { Atom } from 'lucide-react';
+import type { VisualComponentProps } from './registry';
+
+// Atomic Structure Visualization (Protons, Neutrons, Electrons)
+const AtomicStructureVisual: FC<VisualComponentProps<'atomicStructure'>> = () => {
+  return (
+    <div className="space-y-6">
+      {/* Carbon Atom Diagram */}
+      <div className="bg-gradient-to-br from-slate-50 to-blue-50 rounded-xl p-6 border-2 border-slate-300">
+        <h4 className="text-center font-bold text-gray-900 mb-2">The Carbon Atom</h4>
+        <p className="text-center text-gray-600 text-sm mb-4">6 Protons • 6 Neutrons • 6 Electrons</p>
+        <div className="flex justify-center items-center" style={{ minHeight: '280px' }}>
+          <div className="relative" style={{ width: '260px', height: '260px' }}>
+            {/* Nucleus with 6 protons and 6 neutrons */}
+            <div className="absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 w-24 h-24 bg-gradient-to-br from-orange-200 to-orange-300 rounded-full flex items-center justify-center shadow-lg border-4 border-orange-400 z-10">
+              <div className="flex flex-wrap justify-center gap-1 p-2">
+                {/* 6 Protons (red with +) */}
+                <div className="w-5 h-5 bg-red-500 rounded-full text-white text-xs flex items-center justify-center font-bold shadow">+</div>
+                <div className="w-5 h-5 bg-gray-500 rounded-full text-white text-xs flex items-center justify-center font-bold shadow">n</div>
+                <div className="w-5 h-5 bg-red-500 rounded-full text-white text-xs flex items-center justify-center font-bold shadow">+</div>
+                <div className="w-5 h-5 bg-gray-500 rounded-full text-white text-xs flex items-center justify-center font-bold shadow">n</div>
+                <div className="w-5 h-5 bg-red-500 rounded-full text-white text-xs flex items-center justify-center font-bold shadow">+</div>
+                <div className="w-5 h-5 bg-gray-500 rounded-full text-white text-xs flex items-center justify-center font-bold shadow">n</div>
+                <div className="w-5 h-5 bg-red-500 rounded-full text-white text-xs flex items-center justify-center font-bold shadow">+</div>
+                <div className="w-5 h-5 bg-gray-500 rounded-full text-white text-xs flex items-center justify-center font-bold shadow">n</div>
+                <div className="w-5 h-5 bg-red-500 rounded-full text-white text-xs flex items-center justify-center font-bold shadow">+</div>
+                <div className="w-5 h-5 bg-gray-500 rounded-full text-white text-xs flex items-center justify-center font-bold shadow">n</div>
+                <div className="w-5 h-5 bg-red-500 rounded-full text-white text-xs flex items-center justify-center font-bold shadow">+</div>
+                <div className="w-5 h-5 bg-gray-500 rounded-full text-white text-xs flex items-center justify-center font-bold shadow">n</div>
+              </div>
+            </div>
+            
+            {/* Inner shell (n=1) - 2 electrons */}
+            <div className="absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 w-40 h-40 border-2 border-blue-400 rounded-full" />
+            {[0, 180].map((angle, i) => {
+              const radian = (angle * Math.PI) / 180;
+              const x = Math.cos(radian) * 70;
+              const y = Math.sin(radian) * 70;
+              return (
+                <div
+                  key={`inner-${i}`}
+                  className="absolute w-6 h-6 bg-blue-500 rounded-full border-2 border-blue-700 flex items-center justify-center text-white text-xs font-bold shadow-lg"
+                  style={{
+                    left: `calc(50% + ${x}px)`,
+                    top: `calc(50% + ${y}px)`,
+                    transform: 'translate(-50%, -50%)'
+                  }}
+                >
+                  −
+                </div>
+              );
+            })}
+            
+            {/* Outer shell (n=2) - 4 electrons */}
+            <div className="absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 w-60 h-60 border-2 border-dashed border-blue-300 rounded-full" />
+            {[45, 135, 225, 315].map((angle, i) => {
+              const radian = (angle * Math.PI) / 180;
+              const x = Math.cos(radian) * 115;
+              const y = Math.sin(radian) * 115;
+              return (
+                <div
+                  key={`outer-${i}`}
+                  className="absolute w-6 h-6 bg-blue-500 rounded-full border-2 border-blue-700 flex items-center justify-center text-white text-xs font-bold shadow-lg animate-pulse"
+                  style={{
+                    left: `calc(50% + ${x}px)`,
+                    top: `calc(50% + ${y}px)`,
+                    transform: 'translate(-50%, -50%)',
+                    animationDelay: `${i * 0.2}s`
+                  }}
+                >
+                  −
+                </div>
+              );
+            })}
+          </div>
+        </div>
+        
+        {/* Shell Labels */}
+        <div className="flex justify-center gap-6 mt-2 text-sm">
+          <div className="flex items-center gap-2">
+            <div className="w-4 h-4 border-2 border-blue-400 rounded-full" />
+            <span className="text-gray-700">Shell 1: 2 electrons</span>
+          </div>
+          <div className="flex items-center gap-2">
+            <div className="w-4 h-4 border-2 border-dashed border-blue-300 rounded-full" />
+            <span className="text-gray-700">Shell 2: 4 electrons</span>
+          </div>
+        </div>
+      </div>
+
+      {/* Particle Legend */}
+      <div className="grid grid-cols-3 gap-4">
+        <div className="bg-red-50 rounded-lg p-4 border-2 border-red-300">
+          <div className="flex items-center space-x-2 mb-2">
+            <div className="w-8 h-8 bg-red-500 rounded-full flex items-center justify-center text-white font-bold text-lg">+</div>
+            <span className="font-bold text-red-900">Proton</span>
+          </div>
+          <ul className="text-sm text-red-800 space-y-1">
+            <li>• Positive charge (+1)</li>
+            <li>• In nucleus</li>
+            <li>• Defines element</li>
+            <li>• Carbon has 6</li>
+          </ul>
+        </div>
+        
+        <div className="bg-gray-50 rounded-lg p-4 border-2 border-gray-300">
+          <div className="flex items-center space-x-2 mb-2">
+            <div className="w-8 h-8 bg-gray-500 rounded-full flex items-center justify-center text-white font-bold text-lg">n</div>
+            <span className="font-bold text-gray-900">Neutron</span>
+          </div>
+          <ul className="text-sm text-gray-800 space-y-1">
+            <li>• No charge (0)</li>
+            <li>• In nucleus</li>
+            <li>• Adds stability</li>
+            <li>• Carbon has 6</li>
+          </ul>
+        </div>
+        
+        <div className="bg-blue-50 rounded-lg p-4 border-2 border-blue-400 ring-2 ring-blue-300">
+          <div className="flex items-center space-x-2 mb-2">
+            <div className="w-8 h-8 bg-blue-500 rounded-full flex items-center justify-center text-white font-bold text-lg animate-pulse">−</div>
+            <span className="font-bold text-blue-900">Electron</span>
+          </div>
+          <ul className="text-sm text-blue-800 space-y-1">
+            <li>• Negative charge (-1)</li>
+            <li>• Orbits nucleus</li>
+            <li>• <strong>KEY TO BONDING!</strong></li>
+            <li>• Carbon has 6</li>
+          </ul>
+        </div>
+      </div>
+
+      {/* Key Message */}
+      <div className="bg-yellow-50 rounded-lg p-4 border-l-4 border-yellow-500">
+        <p className="text-yellow-900 font-semibold text-center">
+          ⚡ Protons & neutrons are locked in the nucleus. <strong>ELECTRONS</strong> are what move, share, and create bonds!
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default AtomicStructureVisual;
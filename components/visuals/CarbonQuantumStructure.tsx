@@ -0,0 +1,190 @@
+import React, { FC } from 'react';
+import type { VisualComponentProps } from './registry';
+
+// Carbon Quantum Orbital Structure - Shows all orbitals with explanation
+const CarbonQuantumStructure: FC<VisualComponentProps<'carbonQuantum'>> = () => {
+  return (
+    <div className="space-y-4">
+      {/* Introduction */}
+      <div className="bg-gradient-to-br from-indigo-50 to-purple-50 rounded-xl p-4 border-2 border-indigo-300">
+        <h4 className="text-center font-bold text-indigo-900 mb-2">Carbon's Quantum Orbital Structure</h4>
+        <p className="text-center text-indigo-700 text-sm">
+          Electrons don't orbit like planets — they exist in 3D probability clouds called <strong>orbitals</strong>
+        </p>
+        <div className="bg-white/60 rounded-lg p-3 mt-3">
+          <p className="text-indigo-800 text-xs">
+            <strong>🤔 Wait — "orbitals" but they don't orbit?</strong> Good catch! The term "orbital" is a historical artifact from when scientists thought electrons literally orbited the nucleus like planets. By the time we discovered electrons exist as probability clouds, the word was already embedded in scientific language. Think of it like how we still say the sun "rises" and "sets" even though we know Earth rotates — language sometimes lags behind understanding!
+          </p>
+        </div>
+      </div>
+
+      {/* Orbital Diagrams */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        {/* 1s orbital */}
+        <div className="bg-white rounded-xl p-4 border-2 border-blue-300 shadow">
+          <h5 className="text-center font-bold text-blue-800 mb-1">1s Orbital</h5>
+          <p className="text-center text-gray-500 text-xs mb-2">(probability cloud)</p>
+          <div className="flex justify-center mb-3">
+            <div className="relative w-20 h-20">
+              {/* Spherical 1s orbital representation */}
+              <div className="absolute inset-0 bg-blue-400 rounded-full opacity-40"></div>
+              <div className="absolute inset-2 bg-blue-500 rounded-full opacity-50"></div>
+              <div className="absolute inset-4 bg-blue-600 rounded-full opacity-60"></div>
+              {/* Nucleus */}
+              <div className="absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 w-3 h-3 bg-red-500 rounded-full"></div>
+            </div>
+          </div>
+          <div className="text-center">
+            <span className="inline-block bg-blue-100 text-blue-800 px-2 py-1 rounded font-bold text-sm">2 electrons</span>
+          </div>
+          <p className="text-xs text-gray-600 text-center mt-2">Spherical shape, closest to nucleus</p>
+        </div>
+
+        {/* 2s orbital */}
+        <div className="bg-white rounded-xl p-4 border-2 border-purple-300 shadow">
+          <h5 className="text-center font-bold text-purple-800 mb-1">2s Orbital</h5>
+          <p className="text-center text-gray-500 text-xs mb-2">(probability cloud)</p>
+          <div className="flex justify-center mb-3">
+            <div className="relative w-20 h-20">
+              {/* Larger spherical 2s orbital */}
+              <div className="absolute inset-0 bg-purple-300 rounded-full opacity-30"></div>
+              <div className="absolute inset-1 bg-purple-400 rounded-full opacity-40"></div>
+              {/* Node (gap) */}
+              <div className="absolute inset-4 bg-white rounded-full"></div>
+              <div className="absolute inset-5 bg-purple-500 rounded-full opacity-50"></div>
+              {/* Nucleus */}
+              <div className="absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 w-3 h-3 bg-red-500 rounded-full"></div>
+            </div>
+          </div>
+          <div className="text-center">
+            <span className="inline-block bg-purple-100 text-purple-800 px-2 py-1 rounded font-bold text-sm">2 electrons</span>
+          </div>
+          <p className="text-xs text-gray-600 text-center mt-2">Larger sphere, higher energy</p>
+        </div>
+
+        {/* 2p orbitals */}
+        <div className="bg-white rounded-xl p-4 border-2 border-orange-300 shadow">
+          <h5 className="text-center font-bold text-orange-800 mb-1">2p Orbitals</h5>
+          <p className="text-center text-gray-500 text-xs mb-2">(probability clouds)</p>
+          <div className="flex justify-center mb-3">
+            <div className="relative w-24 h-24">
+              {/* py orbital - vertical (orange, most visible) */}
+              <div className="absolute top-0 left-1/2 -translate-x-1/2 w-6 h-9 bg-orange-400 rounded-full opacity-70"></div>
+              <div className="absolute bottom-0 left-1/2 -translate-x-1/2 w-6 h-9 bg-orange-400 rounded-full opacity-70"></div>
+              
+              {/* px orbital - horizontal (yellow, behind) */}
+              <div className="absolute top-1/2 left-0 -translate-y-1/2 w-9 h-6 bg-yellow-400 rounded-full opacity-50"></div>
+              <div className="absolute top-1/2 right-0 -translate-y-1/2 w-9 h-6 bg-yellow-400 rounded-full opacity-50"></div>
+              
+              {/* pz orbital - depth axis shown as smaller/faded (red-orange, furthest back) */}
+              <div className="absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 w-5 h-5 bg-red-400 rounded-full opacity-40" style={{ transform: 'translate(-50%, -80%)' }}></div>
+              <div className="absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 w-5 h-5 bg-red-400 rounded-full opacity-40" style={{ transform: 'translate(-50%, 30%)' }}></div>
+              
+              {/* Nucleus */}
+              <div className="absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 w-3 h-3 bg-red-500 rounded-full z-10"></div>
+            </div>
+          </div>
+          {/* Axis legend */}
+          <div className="flex justify-center gap-2 text-xs mb-2">
+            <span className="flex items-center gap-1"><span className="w-2 h-2 bg-orange-400 rounded-full"></span>py</span>
+            <span className="flex items-center gap-1"><span className="w-2 h-2 bg-yellow-400 rounded-full"></span>px</span>
+            <span className="flex items-center gap-1"><span className="w-2 h-2 bg-red-400 rounded-full"></span>pz</span>
+          </div>
+          <div className="text-center">
+            <span className="inline-block bg-orange-100 text-orange-800 px-2 py-1 rounded font-bold text-sm">2 electrons</span>
+          </div>
+          <p className="text-xs text-gray-600 text-center mt-2">3 dumbbell-shaped orbitals along x, y, z axes</p>
+        </div>
+      </div>
+
+      {/* Summary */}
+      <div className="bg-gradient-to-r from-gray-800 to-gray-900 rounded-xl p-4 text-white">
+        <div className="flex justify-center items-center gap-2 flex-wrap">
+          <span className="bg-blue-500 px-3 py-1 rounded-full text-sm font-bold">1s²</span>
+          <span className="text-xl">+</span>
+          <span className="bg-purple-500 px-3 py-1 rounded-full text-sm font-bold">2s²</span>
+          <span className="text-xl">+</span>
+          <span className="bg-orange-500 px-3 py-1 rounded-full text-sm font-bold">2p²</span>
+          <span className="text-xl">=</span>
+          <span className="bg-green-500 px-3 py-1 rounded-full text-sm font-bold">6 electrons</span>
+        </div>
+        <p className="text-center text-gray-300 text-sm mt-2">
+          Carbon's complete electron configuration: <strong>1s² 2s² 2p²</strong>
+        </p>
+      </div>
+
+      {/* Key insight */}
+      <div className="bg-yellow-50 rounded-lg p-3 border-l-4 border-yellow-500">
+        <p className="text-yellow-900 text-sm">
+          <strong>💡 Key Insight:</strong> The 4 outer electrons (2s² + 2p²) are the <strong>valence electrons</strong> — these are what carbon uses to form 4 covalent bonds!
+        </p>
+      </div>
+
+      {/* Shorthand Notation */}
+      <div className="bg-gradient-to-r from-teal-50 to-cyan-50 rounded-xl p-4 border-2 border-teal-300">
+        <h5 className="font-bold text-teal-900 mb-2">📝 Shorthand Notation</h5>
+        <p className="text-teal-800 text-sm mb-3">
+          Scientists use a shortcut! Since <strong>helium (He)</strong> already has the configuration 1s², we can represent carbon's inner electrons with [He]:
+        </p>
+        <div className="bg-white rounded-lg p-3 flex items-center justify-center gap-3 flex-wrap">
+          <div className="text-center">
+            <span className="text-gray-600 text-sm">Full notation:</span>
+            <p className="font-mono font-bold text-gray-800">1s² 2s² 2p²</p>
+          </div>
+          <span className="text-2xl text-teal-600">=</span>
+          <div className="text-center">
+            <span className="text-gray-600 text-sm">Shorthand:</span>
+            <p className="font-mono font-bold text-teal-700">[He] 2s² 2p²</p>
+          </div>
+        </div>
+        <p className="text-teal-700 text-xs mt-3 text-center">
+          The [He] represents the filled inner shell (1s²). You'll see this "noble gas shorthand" used for larger atoms too — like [Ne] for elements after neon!
+        </p>
+      </div>
+
+      {/* Hybridization - Why all 4 electrons bond */}
+      <div className="bg-gradient-to-r from-pink-50 to-rose-50 rounded-xl p-4 border-2 border-pink-300">
+        <h5 className="font-bold text-pink-900 mb-2">🔀 But Wait — If 2s² is Full, Why Does It Bond?</h5>
+        <p className="text-pink-800 text-sm mb-3">
+          Great question! If the 2s orbital is already filled with 2 electrons, why doesn't carbon just form 2 bonds using only the 2p electrons?
+        </p>
+        <div className="bg-white rounded-lg p-4 mb-3">
+          <p className="text-gray-800 text-sm mb-2">
+            <strong>The answer: Hybridization!</strong>
+          </p>
+          <p className="text-gray-700 text-sm mb-3">
+            When carbon bonds, the 2s and 2p orbitals <strong>blend together</strong> — like remixing songs into something new. The one 2s orbital (holding 2 electrons) mixes with the three 2p orbitals (holding 2 electrons) to create <strong>four equivalent hybrid orbitals</strong>.
+          </p>
+          <div className="flex items-center justify-center gap-2 flex-wrap text-sm">
+            <div className="text-center">
+              <span className="bg-purple-100 text-purple-800 px-2 py-1 rounded font-mono">2s²</span>
+              <p className="text-xs text-gray-500">(1 orbital, 2e⁻)</p>
+            </div>
+            <span className="text-gray-500">+</span>
+            <div className="text-center">
+              <span className="bg-orange-100 text-orange-800 px-2 py-1 rounded font-mono">2p²</span>
+              <p className="text-xs text-gray-500">(3 orbitals, 2e⁻)</p>
+            </div>
+            <span className="text-gray-500">→</span>
+            <span className="text-pink-600 font-bold">remix!</span>
+            <span className="text-gray-500">→</span>
+            <div className="text-center">
+              <span className="bg-pink-100 text-pink-800 px-2 py-1 rounded font-bold">4 hybrids</span>
+              <p className="text-xs text-gray-500">(1e⁻ each)</p>
+            </div>
+          </div>
+          <div className="mt-3 bg-yellow-50 rounded p-2">
+            <p className="text-yellow-800 text-xs text-center">
+              <strong>Key:</strong> Each hybrid orbital now has <strong>1 electron</strong> wanting to bond with another electron to complete a stable 2-electron pair!
+            </p>
+          </div>
+        </div>
+        <p className="text-pink-700 text-xs text-center">
+          Scientists call these "sp³ hybrids" — one <strong>s</strong> + three <strong>p</strong> orbitals blended. That's why carbon forms <strong>four</strong> bonds!
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default CarbonQuantumStructure;
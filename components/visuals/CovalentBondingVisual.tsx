@@ -0,0 +1,156 @@
+import React, { FC } from 'react';
+import LewisPractice from '../LewisPractice';
+import type { VisualComponentProps } from './registry';
+
+// Covalent Bonding Visualization
+const CovalentBondingVisual: FC<VisualComponentProps<'covalentBonding'>> = () => {
+  return (
+    <div className="space-y-6">
+      {/* Before Bonding */}
+      <div className="bg-red-50 rounded-xl p-6 border-2 border-red-300">
+        <h4 className="text-center font-bold text-red-900 mb-4">BEFORE Bonding - Unstable</h4>
+        <div className="flex justify-around items-center">
+          {/* Carbon with 4 electrons */}
+          <div className="text-center">
+            <div className="relative w-24 h-24 mx-auto">
+              <div className="absolute inset-0 border-4 border-dashed border-red-400 rounded-full" />
+              <div className="absolute inset-0 flex items-center justify-center">
+                <span className="text-2xl font-bold text-gray-700">C</span>
+              </div>
+              {/* 4 electrons */}
+              {[0, 90, 180, 270].map((angle, i) => {
+                const radian = (angle * Math.PI) / 180;
+                const x = Math.cos(radian) * 40;
+                const y = Math.sin(radian) * 40;
+                return (
+                  <div
+                    key={i}
+                    className="absolute w-4 h-4 bg-yellow-500 rounded-full border-2 border-yellow-700"
+                    style={{
+                      left: `calc(50% + ${x}px)`,
+                      top: `calc(50% + ${y}px)`,
+                      transform: 'translate(-50%, -50%)'
+                    }}
+                  />
+                );
+              })}
+            </div>
+            <p className="text-sm text-red-700 font-semibold mt-2">Carbon: 4e⁻ (needs 4 more!)</p>
+          </div>
+
+          {/* 4 Hydrogens */}
+          <div className="grid grid-cols-2 gap-3">
+            {[0, 1, 2, 3].map((i) => (
+              <div key={i} className="text-center">
+                <div className="relative w-12 h-12 mx-auto">
+                  <div className="absolute inset-0 border-2 border-dashed border-red-300 rounded-full" />
+                  <div className="absolute inset-0 flex items-center justify-center">
+                    <span className="text-lg font-bold text-gray-600">H</span>
+                  </div>
+                  <div className="absolute w-3 h-3 bg-blue-400 rounded-full border border-blue-600" style={{left: '50%', top: '10%', transform: 'translateX(-50%)'}} />
+                </div>
+                <p className="text-xs text-red-600 mt-1">1e⁻</p>
+              </div>
+            ))}
+          </div>
+        </div>
+        <p className="text-center text-red-700 font-bold mt-4 text-lg">HIGH ENERGY ⚡ Unstable!</p>
+      </div>
+
+      {/* Arrow */}
+      <div className="text-center">
+        <div className="text-4xl text-purple-600 font-bold">⬇️</div>
+        <p className="text-purple-600 font-semibold">ELECTRON SHARING</p>
+        <p className="text-sm text-purple-500">(Energy Released!)</p>
+      </div>
+
+      {/* After Bonding */}
+      <div className="bg-green-50 rounded-xl p-6 border-2 border-green-400">
+        <h4 className="text-center font-bold text-green-900 mb-4">AFTER Bonding - Stable ✓</h4>
+        <div className="flex justify-center">
+          <div className="text-center">
+            <div className="relative w-32 h-32 mx-auto">
+              {/* Carbon nucleus */}
+              <div className="absolute inset-0 flex items-center justify-center">
+                <span className="text-3xl font-bold text-gray-700">C</span>
+              </div>
+              {/* Complete outer shell */}
+              <div className="absolute inset-0 border-4 border-green-500 rounded-full" />
+              
+              {/* 8 electrons around carbon */}
+              {[0, 45, 90, 135, 180, 225, 270, 315].map((angle, i) => {
+                const radian = (angle * Math.PI) / 180;
+                const x = Math.cos(radian) * 55;
+                const y = Math.sin(radian) * 55;
+                const isShared = i % 2 === 0;
+                return (
+                  <div
+                    key={i}
+                    className={`absolute w-4 h-4 rounded-full border-2 ${
+                      isShared 
+                        ? 'bg-gradient-to-br from-yellow-400 to-blue-400 border-purple-600 animate-pulse' 
+                        : 'bg-yellow-500 border-yellow-700'
+                    }`}
+                    style={{
+                      left: `calc(50% + ${x}px)`,
+                      top: `calc(50% + ${y}px)`,
+                      transform: 'translate(-50%, -50%)'
+                    }}
+                  />
+                );
+              })}
+              
+              {/* H labels around */}
+              {[0, 90, 180, 270].map((angle, i) => {
+                const radian = (angle * Math.PI) / 180;
+                const x = Math.cos(radian) * 75;
+                const y = Math.sin(radian) * 75;
+                return (
+                  <div
+                    key={`h-${i}`}
+                    className="absolute text-blue-700 font-bold text-lg"
+                    style={{
+                      left: `calc(50% + ${x}px)`,
+                      top: `calc(50% + ${y}px)`,
+                      transform: 'translate(-50%, -50%)'
+                    }}
+                  >
+                    H
+                  </div>
+                );
+              })}
+            </div>
+            <p className="text-sm text-green-800 font-semibold mt-2">Carbon: 8e⁻ (COMPLETE OCTET!)</p>
+            <p className="text-xs text-green-700 mt-1">Each H also has 2e⁻ (stable)</p>
+          </div>
+        </div>
+        <p className="text-center text-green-700 font-bold mt-4 text-lg">LOW ENERGY ✓ Stable!</p>
+      </div>
+
+      {/* Legend */}
+      <div className="bg-blue-50 rounded-lg p-4">
+        <div className="flex items-center justify-center space-x-6 text-sm">
+          <div className="flex items-center space-x-2">
+            <div className="w-4 h-4 bg-yellow-500 rounded-full border-2 border-yellow-700" />
+            <span className="text-gray-700">Carbon's electrons</span>
+          </div>
+          <div className="flex items-center space-x-2">
+            <div className="w-4 h-4 bg-blue-400 rounded-full border-2 border-blue-600" />
+            <span className="text-gray-700">Hydrogen's electrons</span>
+          </div>
+          <div className="flex items-center space-x-2">
+            <div className="w-4 h-4 bg-gradient-to-br from-yellow-400 to-blue-400 rounded-full border-2 border-purple-600" />
+            <span className="text-gray-700">Shared electrons</span>
+          </div>
+        </div>
+      </div>
+
+      <LewisPractice
+        moleculeId="methane"
+        prompt="Place one carbon and four hydrogens, then bond them. Every atom turns green once its shell is full."
+      />
+    </div>
+  );
+};
+
+export default CovalentBondingVisual;
@@ -0,0 +1,65 @@
+import React, { FC } from 'react';
+import { Atom } from 'lucide-react';
+import { findElement, formatConfiguration, groundStateConfiguration, orbitalFilling, subshellCapacity, subshellLabel } from '../../lib/electronConfiguration';
+import type { ChemicalElement } from '../../lib/electronConfiguration';
+import type { VisualComponentProps } from './registry';
+
+// Carbon Atom Electron Configuration Visualization
+const CONFIG_ROW_STYLES = [
+  { label: 'text-blue-600', box: 'border-blue-500 bg-blue-100', arrow: 'text-blue-600' },
+  { label: 'text-purple-600', box: 'border-purple-500 bg-purple-100', arrow: 'text-purple-600' },
+  { label: 'text-orange-600', box: 'border-orange-500 bg-orange-100', arrow: 'text-orange-600' },
+];
+
+const ElectronConfiguration: FC<VisualComponentProps<'electronConfig'>> = () => {
+  const subshells = groundStateConfiguration(findElement('C') as ChemicalElement);
+
+  return (
+    <div className="bg-gradient-to-br from-blue-50 to-purple-50 rounded-xl p-6 shadow-inner">
+      <h4 className="text-center font-bold text-gray-900 mb-4">Carbon's Electron Configuration</h4>
+      
+      <div className="space-y-4">
+        {subshells.map((subshell, idx) => {
+          const style = CONFIG_ROW_STYLES[idx % CONFIG_ROW_STYLES.length];
+          const filling = orbitalFilling(subshell);
+          const isFull = subshell.electrons === subshellCapacity(subshell.l);
+          const unpaired = filling.filter(count => count === 1).length;
+
+          return (
+            <div
+              key={subshellLabel(subshell.n, subshell.l)}
+              className={`flex items-center space-x-4 bg-white rounded-lg p-3 shadow ${isFull ? '' : 'border-2 border-orange-300'}`}
+            >
+              <div className="flex-shrink-0 w-16 text-center">
+                <span className={`text-lg font-bold ${style.label}`}>{formatConfiguration([subshell])}</span>
+              </div>
+              <div className="flex space-x-2">
+                {filling.map((count, orbitalIdx) => (
+                  <div
+                    key={orbitalIdx}
+                    className={`w-8 h-8 border-2 rounded-lg flex items-center justify-center ${count > 0 ? style.box : 'border-orange-300 bg-orange-50'}`}
+                  >
+                    <span className={count > 0 ? style.arrow : 'text-gray-400'}>
+                      {count === 2 ? '↑↓' : count === 1 ? '↑' : '—'}
+                    </span>
+                  </div>
+                ))}
+              </div>
+              <div className={`flex-1 text-sm text-gray-700 ${isFull ? '' : 'font-semibold'}`}>
+                {isFull ? `${subshell.electrons} electrons (filled)` : `${unpaired} unpaired valence electrons!`}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+      
+      <div className="mt-4 p-4 bg-orange-100 rounded-lg border-l-4 border-orange-500">
+        <p className="text-sm text-orange-900 font-semibold">
+          ⚡ These 4 valence electrons (2s² 2p²) are carbon's bonding superpower! They can form 4 covalent bonds.
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default ElectronConfiguration;
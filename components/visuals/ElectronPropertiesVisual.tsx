@@ -0,0 +1,99 @@
+import React, { FC } from 'react';
+import type { VisualComponentProps } from './registry';
+import MoleculeViewer from '../MoleculeViewer';
+
+// Electron Properties Visualization
+const ElectronPropertiesVisual: FC<VisualComponentProps<'electronProperties'>> = ({ onInteraction }) => {
+  return (
+    <div className="space-y-6">
+      {/* Electron Hero */}
+      <div className="bg-gradient-to-br from-blue-100 to-purple-100 rounded-xl p-6 border-2 border-blue-400">
+        <div className="flex items-center justify-center mb-4">
+          <div className="w-24 h-24 bg-gradient-to-br from-blue-500 to-purple-600 rounded-full flex items-center justify-center shadow-xl animate-pulse">
+            <span className="text-white text-5xl font-bold">e⁻</span>
+          </div>
+        </div>
+        <h4 className="text-center font-bold text-gray-900 text-xl mb-2">The Electron</h4>
+        <p className="text-center text-gray-700">Chemistry's Main Character</p>
+      </div>
+
+      {/* Key Properties */}
+      <div className="space-y-4">
+        {/* Charge */}
+        <div className="bg-white rounded-lg p-4 shadow border-l-4 border-blue-500">
+          <h5 className="font-bold text-gray-900 mb-2">1. Negative Charge (-1)</h5>
+          <div className="flex items-center space-x-4">
+            <div className="flex items-center space-x-2">
+              <div className="w-8 h-8 bg-red-500 rounded-full flex items-center justify-center text-white font-bold">+</div>
+              <span className="text-2xl">↔️</span>
+              <div className="w-8 h-8 bg-blue-500 rounded-full flex items-center justify-center text-white font-bold">−</div>
+            </div>
+            <p className="text-sm text-gray-700">Opposite charges attract! Electrons are pulled toward the positive nucleus.</p>
+          </div>
+        </div>
+
+        {/* Quantum */}
+        <div className="bg-white rounded-lg p-4 shadow border-l-4 border-purple-500">
+          <h5 className="font-bold text-gray-900 mb-2">2. Quantum Behavior</h5>
+          <div className="flex items-center space-x-4">
+            <div className="w-16 h-16 bg-purple-100 rounded-lg flex items-center justify-center">
+              <div className="w-12 h-12 border-4 border-purple-400 rounded-full relative">
+                <div className="absolute inset-0 bg-purple-300 rounded-full opacity-30 animate-ping" />
+              </div>
+            </div>
+            <p className="text-sm text-gray-700">Electrons exist in "probability clouds" - specific energy levels, not fixed orbits like planets.</p>
+          </div>
+        </div>
+
+        {/* Electronegativity */}
+        <div className="bg-gradient-to-r from-orange-50 to-yellow-50 rounded-lg p-4 shadow border-l-4 border-orange-500 ring-2 ring-orange-300">
+          <h5 className="font-bold text-gray-900 mb-2">3. Electronegativity 🔮 CRITICAL FOR LATER!</h5>
+          <div className="space-y-3">
+            <p className="text-sm text-gray-700">Different atoms attract electrons with different strengths:</p>
+            <div className="flex items-center justify-between bg-white rounded-lg p-3">
+              <div className="text-center">
+                <div className="w-12 h-12 bg-gray-300 rounded-full flex items-center justify-center font-bold text-gray-700 mx-auto">C</div>
+                <p className="text-xs mt-1">Carbon</p>
+                <p className="text-xs text-gray-500">EN: 2.5</p>
+              </div>
+              <div className="text-2xl">⟵ e⁻ ⟶</div>
+              <div className="text-center">
+                <div className="w-12 h-12 bg-red-400 rounded-full flex items-center justify-center font-bold text-white mx-auto">O</div>
+                <p className="text-xs mt-1">Oxygen</p>
+                <p className="text-xs text-red-600 font-bold">EN: 3.5 (stronger!)</p>
+              </div>
+            </div>
+            <div className="bg-orange-100 rounded-lg p-3 mt-2">
+              <p className="text-sm text-orange-900">
+                <strong>Preview:</strong> Oxygen pulls electrons harder than carbon → creates <strong>polar bonds</strong> → determines <strong>molecular shape</strong> → that is why a water molecule has its unique structure and shape!
+              </p>
+            </div>
+            
+            {/* Water Molecule Visual - 3D Interactive Model */}
+            <div className="bg-white rounded-lg p-4 mt-3 border-2 border-blue-200">
+              <h6 className="text-center font-bold text-gray-800 mb-3">Water (H₂O): Covalent Bonding Through Electron Sharing</h6>
+              <MoleculeViewer src="water.xyz" onInteraction={onInteraction} />
+              
+              {/* Caption */}
+              <p className="text-center text-gray-700 text-sm mt-2 font-semibold">
+                Fig 1. Chemical Structure of Water
+              </p>
+              <p className="text-center text-gray-600 text-xs mt-1">
+                Each O–H bond is a shared pair of electrons; the two lone pairs on oxygen squeeze the bonds to 104.5°
+              </p>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* Summary */}
+      <div className="bg-blue-900 text-white rounded-xl p-4">
+        <p className="text-center font-semibold">
+          Master electrons = Master chemistry. They are shared in bonds, determine shape, and control reactivity.
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default ElectronPropertiesVisual;
@@ -0,0 +1,206 @@
+import React, { FC } from 'react';
+import LewisPractice from '../LewisPractice';
+import type { VisualComponentProps } from './registry';
+
+// Glucose Molecule Visualization
+const GlucoseMoleculeVisual: FC<VisualComponentProps<'glucoseMolecule'>> = () => {
+  return (
+    <div className="space-y-6">
+      {/* Oxygen Introduction Card */}
+      <div className="bg-gradient-to-br from-red-50 to-orange-50 rounded-xl p-6 border-2 border-red-300">
+        <div className="flex items-center justify-center mb-4">
+          <div className="w-20 h-20 bg-gradient-to-br from-red-500 to-orange-600 rounded-full flex items-center justify-center shadow-xl">
+            <span className="text-white text-3xl font-bold">O</span>
+          </div>
+        </div>
+        <h4 className="text-center font-bold text-red-900 text-xl mb-2">Oxygen</h4>
+        <p className="text-center text-red-700 mb-4">The Electron Magnet</p>
+        
+        <div className="grid grid-cols-2 gap-3 text-sm">
+          <div className="bg-white rounded-lg p-3 text-center">
+            <p className="font-bold text-red-800">Atomic #</p>
+            <p className="text-2xl font-bold text-gray-900">8</p>
+          </div>
+          <div className="bg-white rounded-lg p-3 text-center">
+            <p className="font-bold text-red-800">Valence e⁻</p>
+            <p className="text-2xl font-bold text-gray-900">6</p>
+          </div>
+          <div className="bg-white rounded-lg p-3 text-center">
+            <p className="font-bold text-red-800">Bonds</p>
+            <p className="text-2xl font-bold text-gray-900">2</p>
+          </div>
+          <div className="bg-white rounded-lg p-3 text-center">
+            <p className="font-bold text-red-800">EN</p>
+            <p className="text-2xl font-bold text-gray-900">3.5</p>
+          </div>
+        </div>
+        
+        <div className="mt-4 bg-red-100 rounded-lg p-3">
+          <p className="text-red-900 text-sm text-center">
+            <strong>Needs 2 more electrons</strong> for octet → Forms 2 bonds + has 2 lone pairs
+          </p>
+        </div>
+      </div>
+
+      {/* Oxygen Electron Structure */}
+      <div className="bg-white rounded-xl p-6 border-2 border-gray-200">
+        <h4 className="text-center font-bold text-gray-900 mb-4">Oxygen's Electron Structure</h4>
+        <div className="flex justify-center">
+          <div className="relative">
+            <div className="w-16 h-16 bg-red-500 rounded-full flex items-center justify-center text-white font-bold text-xl">
+              O
+            </div>
+            {/* Inner shell - 2 electrons */}
+            <div className="absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 w-28 h-28 border-2 border-gray-400 rounded-full">
+              {[0, 1].map((i) => {
+                const angle = (i * 180);
+                const radian = (angle * Math.PI) / 180;
+                const x = Math.cos(radian) * 42;
+                const y = Math.sin(radian) * 42;
+                return (
+                  <div
+                    key={`inner-${i}`}
+                    className="absolute w-3 h-3 bg-blue-500 rounded-full"
+                    style={{
+                      left: `calc(50% + ${x}px)`,
+                      top: `calc(50% + ${y}px)`,
+                      transform: 'translate(-50%, -50%)'
+                    }}
+                  />
+                );
+              })}
+            </div>
+            {/* Outer shell - 6 electrons */}
+            <div className="absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 w-44 h-44 border-2 border-red-400 rounded-full">
+              {[0, 1, 2, 3, 4, 5].map((i) => {
+                const angle = (i * 60);
+                const radian = (angle * Math.PI) / 180;
+                const x = Math.cos(radian) * 80;
+                const y = Math.sin(radian) * 80;
+                return (
+                  <div
+                    key={`outer-${i}`}
+                    className="absolute w-4 h-4 bg-red-500 rounded-full border-2 border-red-700"
+                    style={{
+                      left: `calc(50% + ${x}px)`,
+                      top: `calc(50% + ${y}px)`,
+                      transform: 'translate(-50%, -50%)'
+                    }}
+                  />
+                );
+              })}
+              {/* Empty slots */}
+              {[6, 7].map((i) => {
+                const angle = (i * 45);
+                const radian = (angle * Math.PI) / 180;
+                const x = Math.cos(radian) * 80;
+                const y = Math.sin(radian) * 80;
+                return (
+                  <div
+                    key={`empty-${i}`}
+                    className="absolute w-4 h-4 border-2 border-dashed border-red-300 rounded-full bg-white"
+                    style={{
+                      left: `calc(50% + ${x}px)`,
+                      top: `calc(50% + ${y}px)`,
+                      transform: 'translate(-50%, -50%)'
+                    }}
+                  >
+                    <span className="text-red-400 text-xs flex items-center justify-center h-full">?</span>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        </div>
+        <p className="text-center text-gray-700 mt-4">2 core + 6 valence = 8 total electrons</p>
+        <p className="text-center text-red-600 font-semibold">Needs 2 more to complete octet!</p>
+      </div>
+
+      {/* Glucose Structure */}
+      <div className="bg-gradient-to-br from-amber-50 to-yellow-50 rounded-xl p-6 border-2 border-amber-300">
+        <h4 className="text-center font-bold text-amber-900 mb-2">Glucose: C₆H₁₂O₆</h4>
+        <p className="text-center text-amber-700 mb-4">The Energy Currency of Life</p>
+        
+        {/* Simplified Glucose Ring */}
+        <div className="flex justify-center mb-4">
+          <svg viewBox="0 0 200 160" className="w-64 h-48">
+            {/* Ring structure */}
+            <polygon points="100,20 160,50 160,110 100,140 40,110 40,50" fill="none" stroke="#d97706" strokeWidth="3"/>
+            
+            {/* Carbon atoms */}
+            <circle cx="100" cy="20" r="12" fill="#374151"/>
+            <text x="100" y="25" textAnchor="middle" fill="white" fontSize="12" fontWeight="bold">C</text>
+            
+            <circle cx="160" cy="50" r="12" fill="#374151"/>
+            <text x="160" y="55" textAnchor="middle" fill="white" fontSize="12" fontWeight="bold">C</text>
+            
+            <circle cx="160" cy="110" r="12" fill="#374151"/>
+            <text x="160" y="115" textAnchor="middle" fill="white" fontSize="12" fontWeight="bold">C</text>
+            
+            <circle cx="100" cy="140" r="12" fill="#374151"/>
+            <text x="100" y="145" textAnchor="middle" fill="white" fontSize="12" fontWeight="bold">C</text>
+            
+            <circle cx="40" cy="110" r="12" fill="#374151"/>
+            <text x="40" y="115" textAnchor="middle" fill="white" fontSize="12" fontWeight="bold">C</text>
+            
+            {/* Oxygen in ring */}
+            <circle cx="40" cy="50" r="12" fill="#ef4444"/>
+            <text x="40" y="55" textAnchor="middle" fill="white" fontSize="12" fontWeight="bold">O</text>
+            
+            {/* CH₂OH group */}
+            <line x1="100" y1="20" x2="100" y2="0" stroke="#d97706" strokeWidth="2"/>
+            <text x="100" y="-5" textAnchor="middle" fill="#374151" fontSize="10">CH₂OH</text>
+            
+            {/* OH groups */}
+            <line x1="172" y1="50" x2="190" y2="50" stroke="#ef4444" strokeWidth="2"/>
+            <text x="195" y="55" fill="#ef4444" fontSize="10">OH</text>
+            
+            <line x1="172" y1="110" x2="190" y2="110" stroke="#ef4444" strokeWidth="2"/>
+            <text x="195" y="115" fill="#ef4444" fontSize="10">OH</text>
+            
+            <line x1="100" y1="152" x2="100" y2="160" stroke="#ef4444" strokeWidth="2"/>
+            <text x="100" y="170" textAnchor="middle" fill="#ef4444" fontSize="10">OH</text>
+            
+            <line x1="28" y1="110" x2="10" y2="110" stroke="#ef4444" strokeWidth="2"/>
+            <text x="5" y="115" fill="#ef4444" fontSize="10" textAnchor="end">OH</text>
+          </svg>
+        </div>
+        
+        <div className="grid grid-cols-3 gap-2 text-center text-sm">
+          <div className="bg-gray-100 rounded p-2">
+            <span className="font-bold text-gray-700">6 Carbons</span>
+            <p className="text-xs text-gray-600">4 bonds each</p>
+          </div>
+          <div className="bg-red-100 rounded p-2">
+            <span className="font-bold text-red-700">6 Oxygens</span>
+            <p className="text-xs text-red-600">2 bonds each</p>
+          </div>
+          <div className="bg-blue-100 rounded p-2">
+            <span className="font-bold text-blue-700">12 Hydrogens</span>
+            <p className="text-xs text-blue-600">1 bond each</p>
+          </div>
+        </div>
+      </div>
+
+      <LewisPractice
+        moleculeId="water"
+        prompt="Glucose is too big to draw here - start with water. Oxygen needs 2 bonds and keeps 2 lone pairs."
+      />
+
+      {/* Biology Connection */}
+      <div className="bg-gradient-to-br from-green-50 to-emerald-50 rounded-xl p-6 border-2 border-green-300">
+        <h4 className="text-center font-bold text-green-900 mb-3">🔬 The Biology Connection</h4>
+        <div className="bg-white rounded-lg p-4 mb-3">
+          <p className="text-center font-mono text-sm text-gray-800">
+            C₆H₁₂O₆ + 6O₂ → 6CO₂ + 6H₂O + <span className="text-green-600 font-bold">ENERGY</span>
+          </p>
+        </div>
+        <p className="text-green-800 text-sm text-center">
+          Every cell in your body burns glucose using this exact reaction. The energy released powers everything you do!
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default GlucoseMoleculeVisual;
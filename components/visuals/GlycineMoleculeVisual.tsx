@@ -0,0 +1,252 @@
+import React, { FC } from 'react';
+import LewisPractice from '../LewisPractice';
+import type { VisualComponentProps } from './registry';
+
+// Glycine Molecule Visualization
+const GlycineMoleculeVisual: FC<VisualComponentProps<'glycineMolecule'>> = () => {
+  return (
+    <div className="space-y-6">
+      {/* Nitrogen Introduction Card */}
+      <div className="bg-gradient-to-br from-blue-50 to-indigo-50 rounded-xl p-6 border-2 border-blue-300">
+        <div className="flex items-center justify-center mb-4">
+          <div className="w-20 h-20 bg-gradient-to-br from-blue-500 to-indigo-600 rounded-full flex items-center justify-center shadow-xl">
+            <span className="text-white text-3xl font-bold">N</span>
+          </div>
+        </div>
+        <h4 className="text-center font-bold text-blue-900 text-xl mb-2">Nitrogen</h4>
+        <p className="text-center text-blue-700 mb-4">The Three-Bond Wonder</p>
+        
+        <div className="grid grid-cols-2 gap-3 text-sm">
+          <div className="bg-white rounded-lg p-3 text-center">
+            <p className="font-bold text-blue-800">Atomic #</p>
+            <p className="text-2xl font-bold text-gray-900">7</p>
+          </div>
+          <div className="bg-white rounded-lg p-3 text-center">
+            <p className="font-bold text-blue-800">Valence e⁻</p>
+            <p className="text-2xl font-bold text-gray-900">5</p>
+          </div>
+          <div className="bg-white rounded-lg p-3 text-center">
+            <p className="font-bold text-blue-800">Bonds</p>
+            <p className="text-2xl font-bold text-gray-900">3</p>
+          </div>
+          <div className="bg-white rounded-lg p-3 text-center">
+            <p className="font-bold text-blue-800">Lone Pairs</p>
+            <p className="text-2xl font-bold text-gray-900">1</p>
+          </div>
+        </div>
+        
+        <div className="mt-4 bg-blue-100 rounded-lg p-3">
+          <p className="text-blue-900 text-sm text-center">
+            <strong>5 valence e⁻:</strong> Forms 3 bonds + keeps 1 lone pair (2 electrons)
+          </p>
+        </div>
+      </div>
+
+      {/* Nitrogen Electron Structure */}
+      <div className="bg-white rounded-xl p-6 border-2 border-gray-200">
+        <h4 className="text-center font-bold text-gray-900 mb-4">Nitrogen's Electron Structure</h4>
+        <div className="flex justify-center items-center" style={{ minHeight: '200px' }}>
+          <div className="relative" style={{ width: '180px', height: '180px' }}>
+            {/* Nucleus - centered */}
+            <div className="absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 w-16 h-16 bg-blue-600 rounded-full flex items-center justify-center text-white font-bold text-xl z-10">
+              N
+            </div>
+            {/* Inner shell - 2 electrons */}
+            <div className="absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 w-28 h-28 border-2 border-gray-400 rounded-full">
+              {[0, 1].map((i) => {
+                const angle = (i * 180);
+                const radian = (angle * Math.PI) / 180;
+                const x = Math.cos(radian) * 42;
+                const y = Math.sin(radian) * 42;
+                return (
+                  <div
+                    key={`inner-${i}`}
+                    className="absolute w-4 h-4 bg-gray-500 rounded-full border-2 border-gray-700"
+                    style={{
+                      left: `calc(50% + ${x}px)`,
+                      top: `calc(50% + ${y}px)`,
+                      transform: 'translate(-50%, -50%)'
+                    }}
+                  />
+                );
+              })}
+            </div>
+            {/* Outer shell - 5 valence electrons */}
+            <div className="absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 w-44 h-44 border-2 border-blue-400 rounded-full">
+              {/* Lone pair - 2 electrons together at top */}
+              <div
+                className="absolute w-5 h-5 bg-purple-600 rounded-full border-2 border-purple-800"
+                style={{
+                  left: 'calc(50% - 8px)',
+                  top: '0px',
+                  transform: 'translateY(-50%)'
+                }}
+              />
+              <div
+                className="absolute w-5 h-5 bg-purple-600 rounded-full border-2 border-purple-800"
+                style={{
+                  left: 'calc(50% + 8px)',
+                  top: '0px',
+                  transform: 'translate(-100%, -50%)'
+                }}
+              />
+              {/* 3 bonding electrons evenly spaced */}
+              {[0, 1, 2].map((i) => {
+                const angle = 120 + (i * 80);
+                const radian = (angle * Math.PI) / 180;
+                const x = Math.cos(radian) * 80;
+                const y = Math.sin(radian) * 80;
+                return (
+                  <div
+                    key={`bond-${i}`}
+                    className="absolute w-5 h-5 bg-blue-500 rounded-full border-2 border-blue-700"
+                    style={{
+                      left: `calc(50% + ${x}px)`,
+                      top: `calc(50% + ${y}px)`,
+                      transform: 'translate(-50%, -50%)'
+                    }}
+                  />
+                );
+              })}
+            </div>
+          </div>
+        </div>
+        <div className="flex justify-center gap-6 mt-4 text-sm">
+          <div className="flex items-center gap-2">
+            <div className="w-4 h-4 bg-gray-500 rounded-full border-2 border-gray-700" />
+            <span className="text-gray-700">Core (2e⁻)</span>
+          </div>
+          <div className="flex items-center gap-2">
+            <div className="w-4 h-4 bg-purple-600 rounded-full border-2 border-purple-800" />
+            <span className="text-gray-700">Lone pair (2e⁻)</span>
+          </div>
+          <div className="flex items-center gap-2">
+            <div className="w-4 h-4 bg-blue-500 rounded-full border-2 border-blue-700" />
+            <span className="text-gray-700">Bonding (3e⁻)</span>
+          </div>
+        </div>
+        <p className="text-center text-gray-600 text-sm mt-3">Total: 7 electrons (2 core + 5 valence)</p>
+      </div>
+
+      {/* Glycine Structure */}
+      <div className="bg-gradient-to-br from-purple-50 to-pink-50 rounded-xl p-6 border-2 border-purple-300">
+        <h4 className="text-center font-bold text-purple-900 mb-2">Glycine: C₂H₅NO₂</h4>
+        <p className="text-center text-purple-700 mb-4">The Simplest Amino Acid</p>
+        
+        {/* Glycine Structural Formula - Cleaner version */}
+        <div className="bg-white rounded-lg p-6 mb-4">
+          <div className="flex justify-center items-center">
+            <div className="flex items-center space-x-1">
+              {/* Amino group - show as H₂N with subscript */}
+              <div className="flex items-center">
+                <span className="text-gray-700 font-bold text-lg">H<sub>2</sub>N</span>
+              </div>
+              
+              {/* Bond to alpha carbon */}
+              <div className="w-4 h-1 bg-gray-700 mx-1"></div>
+              
+              {/* Alpha carbon with 2 H shown as CH₂ */}
+              <div className="flex flex-col items-center">
+                <div className="w-10 h-10 bg-gray-700 rounded-full flex items-center justify-center">
+                  <span className="text-white font-bold">C</span>
+                </div>
+                <span className="text-gray-700 font-bold text-sm">H<sub>2</sub></span>
+              </div>
+              
+              {/* Bond to carboxyl carbon */}
+              <div className="w-4 h-1 bg-gray-700 mx-1"></div>
+              
+              {/* Carboxyl group - COOH */}
+              <div className="flex flex-col items-center">
+                <div className="w-8 h-8 bg-red-500 rounded-full flex items-center justify-center">
+                  <span className="text-white font-bold text-sm">O</span>
+                </div>
+                <span className="text-red-500 font-bold text-sm">||</span>
+                <div className="w-10 h-10 bg-gray-700 rounded-full flex items-center justify-center">
+                  <span className="text-white font-bold">C</span>
+                </div>
+                <span className="text-gray-400">|</span>
+                <div className="flex items-center">
+                  <span className="text-gray-700 font-bold">OH</span>
+                </div>
+              </div>
+            </div>
+          </div>
+          
+          {/* Legend */}
+          <div className="flex justify-center gap-6 mt-4 text-xs">
+            <div className="flex items-center gap-1">
+              <div className="w-3 h-3 bg-blue-500 rounded-full"></div>
+              <span>Nitrogen</span>
+            </div>
+            <div className="flex items-center gap-1">
+              <div className="w-3 h-3 bg-gray-700 rounded-full"></div>
+              <span>Carbon</span>
+            </div>
+            <div className="flex items-center gap-1">
+              <div className="w-3 h-3 bg-red-500 rounded-full"></div>
+              <span>Oxygen</span>
+            </div>
+            <div className="flex items-center gap-1">
+              <span className="text-gray-500 font-bold">H</span>
+              <span>Hydrogen</span>
+            </div>
+          </div>
+        </div>
+        
+        {/* Functional Groups */}
+        <div className="grid grid-cols-2 gap-3">
+          <div className="bg-blue-100 rounded-lg p-3 text-center">
+            <p className="font-bold text-blue-800">Amino Group</p>
+            <p className="text-xl font-mono text-blue-900">-NH₂</p>
+            <p className="text-xs text-blue-700 mt-1">Makes it a BASE</p>
+          </div>
+          <div className="bg-red-100 rounded-lg p-3 text-center">
+            <p className="font-bold text-red-800">Carboxyl Group</p>
+            <p className="text-xl font-mono text-red-900">-COOH</p>
+            <p className="text-xs text-red-700 mt-1">Makes it an ACID</p>
+          </div>
+        </div>
+      </div>
+
+      {/* Bond Count Verification */}
+      <div className="bg-green-50 rounded-xl p-4 border-2 border-green-300">
+        <h4 className="text-center font-bold text-green-900 mb-3">✓ All Atoms Satisfy Octet Rule</h4>
+        <div className="grid grid-cols-4 gap-2 text-center text-sm">
+          <div className="bg-white rounded p-2">
+            <span className="font-bold text-gray-700">2 C</span>
+            <p className="text-xs">4 bonds ✓</p>
+          </div>
+          <div className="bg-white rounded p-2">
+            <span className="font-bold text-blue-700">1 N</span>
+            <p className="text-xs">3 bonds ✓</p>
+          </div>
+          <div className="bg-white rounded p-2">
+            <span className="font-bold text-red-700">2 O</span>
+            <p className="text-xs">2 bonds ✓</p>
+          </div>
+          <div className="bg-white rounded p-2">
+            <span className="font-bold text-gray-500">5 H</span>
+            <p className="text-xs">1 bond ✓</p>
+          </div>
+        </div>
+      </div>
+
+      <LewisPractice
+        moleculeId="glycine"
+        prompt="Build H₂N-CH₂-COOH: carbons make 4 bonds, nitrogen 3 with a lone pair, oxygens 2 with two lone pairs each."
+      />
+
+      {/* Biology Connection */}
+      <div className="bg-gradient-to-br from-amber-50 to-orange-50 rounded-xl p-4 border-2 border-amber-300">
+        <h4 className="text-center font-bold text-amber-900 mb-2">🧬 The Protein Connection</h4>
+        <p className="text-amber-800 text-sm text-center">
+          Glycine is one of 20 amino acids. The amino group of one bonds to the carboxyl group of another, 
+          forming <strong>peptide bonds</strong> that create all proteins in your body!
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default GlycineMoleculeVisual;
@@ -0,0 +1,110 @@
+import React, { FC } from 'react';
+import { Sparkles } from 'lucide-react';
+import type { VisualComponentProps } from './registry';
+
+// Grand Connection Visualization
+const GrandConnectionVisual: FC<VisualComponentProps<'grandConnection'>> = () => {
+  return (
+    <div className="space-y-6">
+      {/* Celebration Header */}
+      <div className="bg-gradient-to-br from-purple-600 to-blue-600 rounded-xl p-6 text-center text-white">
+        <div className="text-5xl mb-3">🎉</div>
+        <h3 className="text-2xl font-bold mb-2">Congratulations!</h3>
+        <p className="text-purple-100">You've completed the Quantum Foundation Module</p>
+      </div>
+
+      {/* What You Learned */}
+      <div className="bg-gradient-to-br from-indigo-50 to-purple-50 rounded-xl p-6 border-2 border-indigo-300">
+        <h4 className="text-center font-bold text-indigo-900 mb-4">🧠 What You Now Understand</h4>
+        <div className="grid grid-cols-2 gap-3">
+          <div className="bg-white rounded-lg p-3 flex items-center space-x-2">
+            <div className="w-8 h-8 bg-blue-500 rounded-full flex items-center justify-center text-white font-bold text-sm">e⁻</div>
+            <span className="text-sm text-gray-800">Electrons drive bonding</span>
+          </div>
+          <div className="bg-white rounded-lg p-3 flex items-center space-x-2">
+            <div className="w-8 h-8 bg-green-500 rounded-full flex items-center justify-center text-white font-bold text-sm">8</div>
+            <span className="text-sm text-gray-800">Octet = Stability</span>
+          </div>
+          <div className="bg-white rounded-lg p-3 flex items-center space-x-2">
+            <div className="w-8 h-8 bg-gray-700 rounded-full flex items-center justify-center text-white font-bold text-sm">C</div>
+            <span className="text-sm text-gray-800">Carbon: 4 bonds</span>
+          </div>
+          <div className="bg-white rounded-lg p-3 flex items-center space-x-2">
+            <div className="w-8 h-8 bg-red-500 rounded-full flex items-center justify-center text-white font-bold text-sm">O</div>
+            <span className="text-sm text-gray-800">Oxygen: 2 bonds</span>
+          </div>
+          <div className="bg-white rounded-lg p-3 flex items-center space-x-2">
+            <div className="w-8 h-8 bg-blue-600 rounded-full flex items-center justify-center text-white font-bold text-sm">N</div>
+            <span className="text-sm text-gray-800">Nitrogen: 3 bonds</span>
+          </div>
+          <div className="bg-white rounded-lg p-3 flex items-center space-x-2">
+            <div className="w-8 h-8 bg-gray-400 rounded-full flex items-center justify-center text-white font-bold text-sm">H</div>
+            <span className="text-sm text-gray-800">Hydrogen: 1 bond</span>
+          </div>
+        </div>
+      </div>
+
+      {/* Hierarchy of Life */}
+      <div className="bg-gradient-to-br from-green-50 to-emerald-50 rounded-xl p-6 border-2 border-green-300">
+        <h4 className="text-center font-bold text-green-900 mb-4">🌿 The Hierarchy of Life</h4>
+        <div className="space-y-2">
+          {[
+            { level: 'ATOMS', desc: 'C, H, O, N, S, P...', color: 'bg-blue-500' },
+            { level: 'MOLECULES', desc: 'glucose, glycine, water...', color: 'bg-green-500' },
+            { level: 'MACROMOLECULES', desc: 'proteins, DNA, carbohydrates...', color: 'bg-yellow-500' },
+            { level: 'CELLS', desc: 'the building blocks of life', color: 'bg-orange-500' },
+            { level: 'YOU', desc: 'consciousness from chemistry', color: 'bg-purple-500' }
+          ].map((item, idx) => (
+            <div key={idx} className="flex items-center space-x-3">
+              <div className={`w-4 h-4 ${item.color} rounded-full`} />
+              <div className="flex-1 bg-white rounded-lg p-2 flex justify-between items-center">
+                <span className="font-bold text-gray-800">{item.level}</span>
+                <span className="text-xs text-gray-600">{item.desc}</span>
+              </div>
+              {idx < 4 && <div className="text-gray-400 text-xl">↓</div>}
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {/* Profound Truth */}
+      <div className="bg-gradient-to-br from-amber-50 to-yellow-50 rounded-xl p-6 border-2 border-amber-400">
+        <div className="text-center mb-4">
+          <Sparkles className="w-10 h-10 text-amber-600 mx-auto" />
+        </div>
+        <p className="text-amber-900 text-center leading-relaxed font-medium">
+          Every carbon atom in your body was forged in a star billions of years ago. 
+          When you eat an apple, you rearrange those ancient atoms. When you think a thought, 
+          electrons flow through molecules following these exact quantum rules.
+        </p>
+        <p className="text-amber-800 text-center mt-4 text-lg font-bold">
+          You are not separate from chemistry. You ARE chemistry in motion.
+        </p>
+      </div>
+
+      {/* What's Next */}
+      <div className="bg-gradient-to-br from-purple-100 to-pink-100 rounded-xl p-6 border-2 border-purple-300">
+        <h4 className="text-center font-bold text-purple-900 mb-3">🚀 What's Next?</h4>
+        <div className="grid grid-cols-2 gap-2 text-sm">
+          <div className="bg-white rounded-lg p-2 text-center">
+            <span className="text-purple-800">Functional Groups</span>
+          </div>
+          <div className="bg-white rounded-lg p-2 text-center">
+            <span className="text-purple-800">Reaction Mechanisms</span>
+          </div>
+          <div className="bg-white rounded-lg p-2 text-center">
+            <span className="text-purple-800">Stereochemistry</span>
+          </div>
+          <div className="bg-white rounded-lg p-2 text-center">
+            <span className="text-purple-800">Biomolecules</span>
+          </div>
+        </div>
+        <p className="text-center text-purple-700 mt-4 text-sm">
+          The universe is written in the language of atoms. You're now learning to read it.
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default GrandConnectionVisual;
@@ -0,0 +1,10 @@
+import React, { FC } from 'react';
+import MoleculeViewer from '../MoleculeViewer';
+import type { VisualComponentProps } from './registry';
+
+// 3D model of one of the structure files in public/molecules
+const MoleculeVisual: FC<VisualComponentProps<'molecule'>> = ({ visual, onInteraction }) => (
+  <MoleculeViewer src={visual.file} mode={visual.mode} caption={visual.caption} onInteraction={onInteraction} />
+);
+
+export default MoleculeVisual;
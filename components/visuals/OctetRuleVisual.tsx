@@ -0,0 +1,284 @@
+import React, { FC } from 'react';
+import type { VisualComponentProps } from './registry';
+
+// Octet Rule Visualization
+const OctetRuleVisual: FC<VisualComponentProps<'octetRule'>> = () => {
+  return (
+    <div className="space-y-4">
+      {/* FIRST: Show Carbon's COMPLETE electron structure */}
+      <div className="bg-gradient-to-br from-blue-50 to-indigo-50 rounded-xl p-6 border-2 border-blue-300">
+        <h4 className="text-center font-bold text-blue-900 mb-4">Carbon's Complete Electron Structure</h4>
+        <div className="flex justify-center items-center" style={{ minHeight: '200px' }}>
+          <div className="relative" style={{ width: '180px', height: '180px' }}>
+            {/* Nucleus - centered */}
+            <div className="absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 w-16 h-16 bg-gray-700 rounded-full flex items-center justify-center text-white font-bold text-lg z-10">
+              C
+            </div>
+            {/* Inner shell (n=1) - 2 electrons */}
+            <div className="absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 w-28 h-28 border-2 border-blue-400 rounded-full">
+              {[0, 1].map((i) => {
+                const angle = (i * 180);
+                const radian = (angle * Math.PI) / 180;
+                const x = Math.cos(radian) * 42;
+                const y = Math.sin(radian) * 42;
+                return (
+                  <div
+                    key={`inner-${i}`}
+                    className="absolute w-4 h-4 bg-blue-600 rounded-full border-2 border-blue-800"
+                    style={{
+                      left: `calc(50% + ${x}px)`,
+                      top: `calc(50% + ${y}px)`,
+                      transform: 'translate(-50%, -50%)'
+                    }}
+                  />
+                );
+              })}
+            </div>
+            {/* Outer shell (n=2) - 4 electrons */}
+            <div className="absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 w-44 h-44 border-2 border-dashed border-yellow-500 rounded-full">
+              {[0, 1, 2, 3].map((i) => {
+                const angle = (i * 90) + 45;
+                const radian = (angle * Math.PI) / 180;
+                const x = Math.cos(radian) * 80;
+                const y = Math.sin(radian) * 80;
+                return (
+                  <div
+                    key={`outer-${i}`}
+                    className="absolute w-5 h-5 bg-yellow-500 rounded-full border-2 border-yellow-700"
+                    style={{
+                      left: `calc(50% + ${x}px)`,
+                      top: `calc(50% + ${y}px)`,
+                      transform: 'translate(-50%, -50%)'
+                    }}
+                  />
+                );
+              })}
+            </div>
+          </div>
+        </div>
+        {/* Labels */}
+        <div className="mt-4 grid grid-cols-2 gap-4 text-center">
+          <div className="bg-blue-100 rounded-lg p-2">
+            <div className="flex items-center justify-center space-x-2">
+              <div className="w-3 h-3 bg-blue-600 rounded-full"></div>
+              <span className="text-blue-900 font-semibold text-sm">Inner Shell: 2e⁻</span>
+            </div>
+            <p className="text-xs text-blue-700">(Core electrons - not for bonding)</p>
+          </div>
+          <div className="bg-yellow-100 rounded-lg p-2">
+            <div className="flex items-center justify-center space-x-2">
+              <div className="w-3 h-3 bg-yellow-500 rounded-full"></div>
+              <span className="text-yellow-900 font-semibold text-sm">Outer Shell: 4e⁻</span>
+            </div>
+            <p className="text-xs text-yellow-700">(VALENCE electrons - for bonding!)</p>
+          </div>
+        </div>
+        <div className="mt-3 bg-gray-100 rounded-lg p-3 text-center">
+          <p className="text-gray-800 font-bold">Carbon has 6 total electrons: 2 core + 4 valence</p>
+          <p className="text-gray-600 text-sm">Only the 4 valence electrons participate in bonding</p>
+        </div>
+      </div>
+
+      {/* Noble Gas - Already Stable */}
+      <div className="bg-gradient-to-br from-green-50 to-emerald-50 rounded-xl p-6 border-2 border-green-300">
+        <h4 className="text-center font-bold text-green-900 mb-4">Noble Gas (Neon) - Already Stable ✓</h4>
+        <div className="flex justify-center items-center" style={{ minHeight: '200px' }}>
+          <div className="relative" style={{ width: '180px', height: '180px' }}>
+            {/* Nucleus - centered */}
+            <div className="absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 w-16 h-16 bg-red-500 rounded-full flex items-center justify-center text-white font-bold z-10">
+              Ne
+            </div>
+            {/* Inner shell - 2 electrons */}
+            <div className="absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 w-28 h-28 border-2 border-green-400 rounded-full">
+              {[0, 1].map((i) => {
+                const angle = (i * 180);
+                const radian = (angle * Math.PI) / 180;
+                const x = Math.cos(radian) * 42;
+                const y = Math.sin(radian) * 42;
+                return (
+                  <div
+                    key={`inner-${i}`}
+                    className="absolute w-4 h-4 bg-blue-500 rounded-full border-2 border-blue-700"
+                    style={{
+                      left: `calc(50% + ${x}px)`,
+                      top: `calc(50% + ${y}px)`,
+                      transform: 'translate(-50%, -50%)'
+                    }}
+                  />
+                );
+              })}
+            </div>
+            {/* Outer shell with 8 electrons */}
+            <div className="absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 w-44 h-44 border-4 border-green-500 rounded-full">
+              {[0, 1, 2, 3, 4, 5, 6, 7].map((i) => {
+                const angle = (i * 360) / 8;
+                const radian = (angle * Math.PI) / 180;
+                const x = Math.cos(radian) * 80;
+                const y = Math.sin(radian) * 80;
+                return (
+                  <div
+                    key={i}
+                    className="absolute w-5 h-5 bg-blue-500 rounded-full border-2 border-blue-700 animate-pulse"
+                    style={{
+                      left: `calc(50% + ${x}px)`,
+                      top: `calc(50% + ${y}px)`,
+                      transform: 'translate(-50%, -50%)',
+                      animationDelay: `${i * 0.1}s`
+                    }}
+                  />
+                );
+              })}
+            </div>
+          </div>
+        </div>
+        <p className="text-center text-green-800 font-semibold mt-4">
+          8 electrons in outer shell = <span className="text-green-900 text-lg">LOW ENERGY</span> (Stable!)
+        </p>
+      </div>
+
+      {/* Carbon - Incomplete */}
+      <div className="bg-gradient-to-br from-orange-50 to-red-50 rounded-xl p-6 border-2 border-orange-300">
+        <h4 className="text-center font-bold text-orange-900 mb-4">Carbon's Outer Shell - Incomplete ⚠️</h4>
+        <div className="flex justify-center items-center" style={{ minHeight: '200px' }}>
+          <div className="relative" style={{ width: '180px', height: '180px' }}>
+            {/* Nucleus - centered */}
+            <div className="absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 w-16 h-16 bg-gray-700 rounded-full flex items-center justify-center text-white font-bold z-10">
+              C
+            </div>
+            {/* Outer shell with only 4 electrons + 4 empty spots */}
+            <div className="absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 w-44 h-44 border-4 border-dashed border-orange-400 rounded-full">
+              {[0, 2, 4, 6].map((i) => {
+                const angle = (i * 360) / 8;
+                const radian = (angle * Math.PI) / 180;
+                const x = Math.cos(radian) * 80;
+                const y = Math.sin(radian) * 80;
+                return (
+                  <div
+                    key={i}
+                    className="absolute w-5 h-5 bg-yellow-500 rounded-full border-2 border-yellow-700"
+                    style={{
+                      left: `calc(50% + ${x}px)`,
+                      top: `calc(50% + ${y}px)`,
+                      transform: 'translate(-50%, -50%)'
+                    }}
+                  />
+                );
+              })}
+              {/* Empty slots - just empty circles, no question marks */}
+              {[1, 3, 5, 7].map((i) => {
+                const angle = (i * 360) / 8;
+                const radian = (angle * Math.PI) / 180;
+                const x = Math.cos(radian) * 80;
+                const y = Math.sin(radian) * 80;
+                return (
+                  <div
+                    key={`empty-${i}`}
+                    className="absolute w-5 h-5 border-2 border-dashed border-red-400 rounded-full bg-red-50"
+                    style={{
+                      left: `calc(50% + ${x}px)`,
+                      top: `calc(50% + ${y}px)`,
+                      transform: 'translate(-50%, -50%)'
+                    }}
+                  />
+                );
+              })}
+            </div>
+          </div>
+        </div>
+        <div className="flex justify-center gap-4 mt-2 text-sm">
+          <div className="flex items-center gap-2">
+            <div className="w-4 h-4 bg-yellow-500 rounded-full border-2 border-yellow-700" />
+            <span className="text-gray-700">Electron (4)</span>
+          </div>
+          <div className="flex items-center gap-2">
+            <div className="w-4 h-4 border-2 border-dashed border-red-400 rounded-full bg-red-50" />
+            <span className="text-gray-700">Empty slot (4)</span>
+          </div>
+        </div>
+        <p className="text-center text-orange-800 font-semibold mt-3">
+          Only 4 of 8 spots filled = <span className="text-red-600 text-lg">HIGH ENERGY</span> (Unstable!)
+        </p>
+        <p className="text-center text-orange-900 mt-2 text-sm">
+          Carbon needs 4 more electrons to complete its octet
+        </p>
+      </div>
+
+      {/* WHY 8? - The Science Behind the Rule */}
+      <div className="bg-gradient-to-br from-purple-50 to-pink-50 rounded-xl p-6 border-2 border-purple-300">
+        <h4 className="text-center font-bold text-purple-900 mb-4">🔬 Why Exactly 8?</h4>
+        <div className="space-y-3">
+          <div className="bg-white rounded-lg p-4">
+            <p className="text-gray-800 mb-2"><strong>The valence shell has two types of orbitals:</strong></p>
+            <div className="grid grid-cols-2 gap-3">
+              <div className="bg-blue-50 rounded p-2 text-center">
+                <p className="font-bold text-blue-800">s orbital</p>
+                <p className="text-blue-600 text-sm">Holds 2 electrons</p>
+              </div>
+              <div className="bg-orange-50 rounded p-2 text-center">
+                <p className="font-bold text-orange-800">p orbitals (3)</p>
+                <p className="text-orange-600 text-sm">Hold 6 electrons</p>
+              </div>
+            </div>
+            <p className="text-center font-bold text-purple-900 mt-3 text-lg">2 + 6 = 8 electrons for a full valence shell!</p>
+          </div>
+          
+          <div className="bg-white rounded-lg p-4">
+            <p className="text-gray-800 font-semibold mb-2">Does the octet rule apply to all atoms?</p>
+            <div className="space-y-2 text-sm">
+              <div className="flex items-start space-x-2">
+                <span className="text-green-600">✓</span>
+                <p><strong>C, N, O, F</strong> - Always follow octet rule</p>
+              </div>
+              <div className="flex items-start space-x-2">
+                <span className="text-yellow-600">⚠️</span>
+                <p><strong>H</strong> - Only needs 2 (duet rule - just 1s orbital)</p>
+              </div>
+              <div className="flex items-start space-x-2">
+                <span className="text-yellow-600">⚠️</span>
+                <p><strong>P, S</strong> - Can exceed 8 (have d orbitals available)</p>
+              </div>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* Energy Diagram */}
+      <div className="bg-gradient-to-br from-blue-50 to-purple-50 rounded-xl p-6 border-2 border-blue-300">
+        <h4 className="text-center font-bold text-gray-900 mb-4">Energy States</h4>
+        <div className="space-y-3">
+          <div className="flex items-center justify-between">
+            <div className="flex-1">
+              <div className="bg-red-500 h-12 rounded-l-lg flex items-center justify-center text-white font-bold">
+                Incomplete Shell
+              </div>
+            </div>
+            <div className="px-4 text-red-600 font-bold text-lg">HIGH ENERGY ↑</div>
+          </div>
+          
+          <div className="flex items-center justify-center">
+            <div className="text-purple-600 font-bold text-2xl">⬇️ BONDING ⬇️</div>
+          </div>
+          <div className="text-center text-sm text-gray-700 -mt-2 mb-2">
+            (Energy Released!)
+          </div>
+          
+          <div className="flex items-center justify-between">
+            <div className="flex-1">
+              <div className="bg-green-500 h-12 rounded-l-lg flex items-center justify-center text-white font-bold">
+                Complete Shell (8e⁻)
+              </div>
+            </div>
+            <div className="px-4 text-green-600 font-bold text-lg">LOW ENERGY ↓</div>
+          </div>
+        </div>
+        <div className="mt-4 p-3 bg-blue-100 rounded-lg">
+          <p className="text-blue-900 text-sm font-semibold text-center">
+            💡 Nature always moves toward lower energy → This is why atoms bond!
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default OctetRuleVisual;
@@ -0,0 +1,11 @@
+import React, { FC } from 'react';
+import { parseSubshell } from '../../lib/orbitals';
+import OrbitalViewer from '../OrbitalViewer';
+import type { VisualComponentProps } from './registry';
+
+// Orbital viewer opening on the subshell the concept asks for
+const OrbitalVisual: FC<VisualComponentProps<'orbital'>> = ({ visual, onInteraction }) => (
+  <OrbitalViewer initial={parseSubshell(visual.orbital || '1s') || undefined} onInteraction={onInteraction} />
+);
+
+export default OrbitalVisual;
@@ -0,0 +1,391 @@
+import React, { useState, FC } from 'react';
+import { radialWavefunction } from '../../lib/orbitals';
+import type { VisualComponentProps } from './registry';
+import OrbitalViewer from '../OrbitalViewer';
+
+// |ψ|² of hydrogen's 1s orbital from 0 to 4 a₀, as an SVG path for the step 2 graph (x 30-260, y 80 down to 20)
+const ONE_S_DENSITY_PATH = (() => {
+  const peak = radialWavefunction(1, 0, 0) ** 2;
+  return Array.from({ length: 47 }, (_, idx) => {
+    const r = (idx / 46) * 4;
+    const density = radialWavefunction(1, 0, r) ** 2 / peak;
+    return `${idx === 0 ? 'M' : 'L'} ${(30 + (idx / 46) * 230).toFixed(1)} ${(80 - density * 60).toFixed(1)}`;
+  }).join(' ');
+})();
+
+// Schrödinger Equation Conceptual Visualization
+const SchrodingerConceptual: FC<VisualComponentProps<'schrodinger'>> = ({ onInteraction }) => {
+  const [step, setStep] = useState(0);
+  const [showMath, setShowMath] = useState(false);
+  const [showQuantumNumbers, setShowQuantumNumbers] = useState(false);
+  const totalSteps = 5;
+
+  const stepTitles = [
+    'The Big Idea',
+    'What Goes In',
+    'What Comes Out',
+    'Why a Sphere?',
+    'The 1s Orbital!'
+  ];
+
+  return (
+    <div className="space-y-4">
+      <p className="text-center text-gray-600 text-sm">
+        How Schrödinger's equation creates the 1s orbital
+      </p>
+
+      {/* Progress Bar */}
+      <div className="flex items-center px-2">
+        {stepTitles.map((title, i) => (
+          <React.Fragment key={i}>
+            <div 
+              onClick={() => setStep(i)}
+              className="flex flex-col items-center cursor-pointer flex-1"
+            >
+              <div 
+                className={`w-7 h-7 rounded-full flex items-center justify-center font-bold text-xs transition-all text-white ${step >= i ? 'bg-blue-500' : 'bg-gray-400'}`}
+              >
+                {i + 1}
+              </div>
+              <span className={`text-[9px] text-center mt-1 max-w-[55px] ${step >= i ? 'text-gray-800' : 'text-gray-400'}`}>
+                {title}
+              </span>
+            </div>
+            {i < totalSteps - 1 && (
+              <div className={`flex-[0.5] h-0.5 transition-all ${step > i ? 'bg-blue-500' : 'bg-gray-300'}`} />
+            )}
+          </React.Fragment>
+        ))}
+      </div>
+
+      {/* Main Content Area */}
+      <div className="bg-gradient-to-br from-slate-800 to-slate-900 rounded-xl p-5 min-h-[280px] text-white">
+        
+        {/* Step 0: The Big Idea */}
+        {step === 0 && (
+          <div className="text-center">
+            <p className="text-slate-300 mb-4 text-sm">
+              In 1926, physicist <strong className="text-blue-400">Erwin Schrödinger</strong> discovered an equation that answers:
+            </p>
+            
+            <div className="bg-gradient-to-r from-purple-500/20 to-blue-500/20 p-4 rounded-xl mb-4 border border-purple-500/30">
+              <p className="text-lg text-white font-medium italic">
+                "Where is an electron likely to be found around an atom?"
+              </p>
+            </div>
+
+            <div className="grid grid-cols-3 gap-2 text-xs text-center">
+              <div className="bg-green-500/15 p-3 rounded-lg">
+                <div className="text-xl mb-1">🎯</div>
+                <div className="text-green-400 font-bold">It Predicts</div>
+                <div className="text-slate-300 text-[10px] mt-1">Probability at any point</div>
+              </div>
+              <div className="bg-blue-500/15 p-3 rounded-lg">
+                <div className="text-xl mb-1">🔮</div>
+                <div className="text-blue-400 font-bold">It Reveals</div>
+                <div className="text-slate-300 text-[10px] mt-1">Orbital shapes (1s, 2p...)</div>
+              </div>
+              <div className="bg-purple-500/15 p-3 rounded-lg">
+                <div className="text-xl mb-1">✨</div>
+                <div className="text-purple-400 font-bold">It's Real</div>
+                <div className="text-slate-300 text-[10px] mt-1">Matches experiments!</div>
+              </div>
+            </div>
+
+            {/* Expandable Math */}
+            <div className="mt-4">
+              <button
+                onClick={() => setShowMath(!showMath)}
+                className="text-slate-400 text-xs hover:text-slate-300 cursor-pointer underline"
+              >
+                {showMath ? '▼ Hide the actual equation' : '▶ Want to see the actual equation?'}
+              </button>
+              {showMath && (
+                <div className="mt-3 bg-black/30 p-3 rounded-lg">
+                  <div className="text-2xl font-serif mb-2">
+                    <span className="text-blue-400">Ĥ</span>
+                    <span className="text-purple-400">ψ</span>
+                    <span> = </span>
+                    <span className="text-orange-400">E</span>
+                    <span className="text-purple-400">ψ</span>
+                  </div>
+                  <div className="text-[10px] text-slate-400">
+                    These symbols are just a "map" of reality:
+                  </div>
+                  <div className="flex justify-center gap-2 mt-2 text-[10px]">
+                    <div className="bg-blue-500/20 px-2 py-1 rounded">
+                      <span className="text-blue-400 font-serif">Ĥ</span>
+                      <span className="text-slate-300"> = energy situation</span>
+                    </div>
+                    <div className="bg-purple-500/20 px-2 py-1 rounded">
+                      <span className="text-purple-400 font-serif">ψ</span>
+                      <span className="text-slate-300"> = electron description</span>
+                    </div>
+                    <div className="bg-orange-500/20 px-2 py-1 rounded">
+                      <span className="text-orange-400 font-serif">E</span>
+                      <span className="text-slate-300"> = energy level</span>
+                    </div>
+                  </div>
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+
+        {/* Step 1: What Goes In */}
+        {step === 1 && (
+          <div className="text-center">
+            <p className="text-slate-300 mb-3 text-sm">
+              For the <strong className="text-green-400">1s orbital</strong> of hydrogen, we tell the equation:
+            </p>
+            
+            <div className="flex flex-col gap-3">
+              {/* The atom */}
+              <div className="bg-green-500/15 p-4 rounded-xl border-l-4 border-green-500">
+                <div className="font-bold text-green-400 mb-2">⚛️ "Here's the atom"</div>
+                <div className="flex items-center justify-center gap-6 mb-2">
+                  <div className="text-center">
+                    <div className="w-10 h-10 bg-red-500 rounded-full flex items-center justify-center font-bold mx-auto shadow-lg shadow-red-500/30">+1</div>
+                    <div className="text-[10px] text-slate-400 mt-1">Proton</div>
+                  </div>
+                  <div className="text-yellow-400 text-xl">⟷</div>
+                  <div className="text-center">
+                    <div className="w-8 h-8 bg-blue-500 rounded-full flex items-center justify-center font-bold text-sm mx-auto shadow-lg shadow-blue-500/30">-1</div>
+                    <div className="text-[10px] text-slate-400 mt-1">Electron</div>
+                  </div>
+                </div>
+                <div className="text-slate-300 text-xs">They attract — that holds the atom together!</div>
+              </div>
+
+              {/* Which orbital */}
+              <div className="bg-blue-500/15 p-4 rounded-xl border-l-4 border-blue-400">
+                <div className="font-bold text-blue-400 mb-2">🔢 "Find me the 1s orbital"</div>
+                <div className="flex justify-center gap-3">
+                  <div className="bg-black/30 px-4 py-2 rounded-lg text-center">
+                    <div className="text-blue-400 font-bold text-lg">1</div>
+                    <div className="text-[10px] text-slate-400">First shell</div>
+                  </div>
+                  <div className="bg-black/30 px-4 py-2 rounded-lg text-center">
+                    <div className="text-purple-400 font-bold text-lg">s</div>
+                    <div className="text-[10px] text-slate-400">Spherical type</div>
+                  </div>
+                </div>
+              </div>
+            </div>
+          </div>
+        )}
+
+        {/* Step 2: What Comes Out */}
+        {step === 2 && (
+          <div className="text-center">
+            <p className="text-slate-300 mb-3 text-sm">
+              The equation tells us the <strong className="text-orange-400">probability</strong> at each distance:
+            </p>
+
+            {/* Conceptual explanation */}
+            <div className="bg-gradient-to-r from-orange-500/20 to-yellow-500/20 p-4 rounded-xl mb-4">
+              <div className="text-sm mb-2">
+                📍 <strong className="text-orange-400">Closer</strong> = <strong className="text-green-400">Higher probability</strong>
+              </div>
+              <div className="text-sm">
+                📍 <strong className="text-orange-400">Farther</strong> = <strong className="text-slate-400">Lower probability</strong>
+              </div>
+            </div>
+
+            {/* Visual graph */}
+            <div className="bg-black/30 rounded-xl p-3 mb-3">
+              <div className="text-slate-400 text-[10px] mb-1">Probability density |ψ|² vs. distance (calculated):</div>
+              <svg width="100%" height="100" viewBox="0 0 280 100">
+                <line x1="30" y1="80" x2="260" y2="80" stroke="#64748b" strokeWidth="2" />
+                <line x1="30" y1="80" x2="30" y2="15" stroke="#64748b" strokeWidth="2" />
+                <text x="145" y="97" fill="#94a3b8" fontSize="9" textAnchor="middle">Distance from nucleus (0 to 4 a₀) →</text>
+                
+                <defs>
+                  <linearGradient id="probGradApp" x1="0%" y1="0%" x2="100%" y2="0%">
+                    <stop offset="0%" stopColor="#22c55e" />
+                    <stop offset="100%" stopColor="#64748b" />
+                  </linearGradient>
+                </defs>
+                
+                <path d={ONE_S_DENSITY_PATH} fill="none" stroke="url(#probGradApp)" strokeWidth="3" />
+                
+                <text x="55" y="15" fill="#22c55e" fontSize="9">High!</text>
+                <text x="210" y="68" fill="#94a3b8" fontSize="9">Low</text>
+              </svg>
+            </div>
+
+            <div className="text-slate-300 text-xs">
+              Electron <strong>prefers</strong> being near the nucleus, but <em>could</em> be anywhere!
+            </div>
+
+            {/* Expandable Math */}
+            <div className="mt-3">
+              <button
+                onClick={() => setShowMath(!showMath)}
+                className="text-slate-400 text-[10px] hover:text-slate-300 cursor-pointer underline"
+              >
+                {showMath ? '▼ Hide formula' : '▶ See the actual formula'}
+              </button>
+              {showMath && (
+                <div className="mt-2 bg-black/30 p-3 rounded-lg text-left">
+                  <div className="text-sm font-serif text-purple-400 mb-2 text-center">
+                    ψ = (const) × <span className="text-green-400">e<sup>-r/a₀</sup></span>
+                  </div>
+                  <div className="text-[10px] text-slate-300">
+                    <span className="text-green-400 font-bold">e<sup>-r/a₀</sup></span> just means "fades as distance (r) increases" — that's it!
+                  </div>
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+
+        {/* Step 3: Why a Sphere? */}
+        {step === 3 && (
+          <div className="text-center">
+            <p className="text-slate-300 mb-3 text-sm">
+              The key insight that gives us a <strong className="text-green-400">sphere</strong>:
+            </p>
+
+            <div className="bg-gradient-to-r from-green-500/20 to-teal-500/20 p-4 rounded-xl mb-4 border border-green-500/30">
+              <p className="text-sm text-white mb-1">
+                Probability only depends on <strong className="text-green-400">distance</strong>
+              </p>
+              <p className="text-slate-300 text-xs">
+                — not on which direction you look!
+              </p>
+            </div>
+
+            {/* Visual demonstration */}
+            <div className="flex justify-center items-center gap-4 mb-4">
+              <div className="text-center">
+                <div className="text-slate-400 text-[10px] mb-1">Same distance...</div>
+                <div className="relative w-20 h-20">
+                  <div className="absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 w-2 h-2 bg-red-500 rounded-full" />
+                  <div className="absolute top-1 left-1/2 -translate-x-1/2 w-2 h-2 bg-green-400 rounded-full" />
+                  <div className="absolute bottom-1 left-1/2 -translate-x-1/2 w-2 h-2 bg-green-400 rounded-full" />
+                  <div className="absolute left-1 top-1/2 -translate-y-1/2 w-2 h-2 bg-green-400 rounded-full" />
+                  <div className="absolute right-1 top-1/2 -translate-y-1/2 w-2 h-2 bg-green-400 rounded-full" />
+                  <div className="absolute inset-2 border-2 border-dashed border-green-400/50 rounded-full" />
+                </div>
+                <div className="text-green-400 text-[10px] mt-1">...same probability!</div>
+              </div>
+
+              <div className="text-xl text-blue-400">→</div>
+
+              <div className="text-center">
+                <div className="text-slate-400 text-[10px] mb-1">In 3D...</div>
+                <div 
+                  className="w-20 h-20 rounded-full mx-auto"
+                  style={{
+                    background: `radial-gradient(circle at 40% 40%, 
+                      rgba(74, 222, 128, 0.9) 0%, 
+                      rgba(74, 222, 128, 0.5) 30%, 
+                      rgba(74, 222, 128, 0.2) 60%,
+                      transparent 80%)`,
+                    boxShadow: '0 0 15px rgba(74, 222, 128, 0.3)'
+                  }}
+                />
+                <div className="text-green-400 text-[10px] mt-1">...it's a sphere!</div>
+              </div>
+            </div>
+
+            <div className="bg-yellow-500/15 p-3 rounded-lg border-l-4 border-yellow-500 text-left">
+              <span className="text-yellow-400 font-bold text-xs">💡 Like a lamp:</span>
+              <span className="text-slate-300 text-xs"> Standing 1 meter away, brightness is the same in all directions. Same distance = same value!</span>
+            </div>
+          </div>
+        )}
+
+        {/* Step 4: The Orbital */}
+        {step === 4 && (
+          <div className="text-center">
+            <p className="text-slate-300 mb-3 text-sm">
+              The <strong className="text-green-400">1s orbital</strong>: a spherical probability cloud!
+            </p>
+
+            {/* |ψ|² of the real 1s wavefunction */}
+            <div className="flex justify-center mb-4">
+              <OrbitalViewer size={220} points={4000} onInteraction={onInteraction} />
+            </div>
+
+            {/* Key takeaway */}
+            <div className="bg-gradient-to-r from-purple-500/20 to-pink-500/20 p-3 rounded-xl border border-purple-500/30 mb-3">
+              <p className="text-white text-sm font-medium">
+                ✨ The equation <em>predicts</em> this shape — and experiments confirm it!
+              </p>
+            </div>
+
+            {/* What about 2p */}
+            <div className="bg-slate-700/50 p-3 rounded-lg text-xs text-left">
+              <strong className="text-orange-400">What about 2p orbitals?</strong>
+              <span className="text-slate-300"> When we solve for 2p, the equation includes <strong>direction</strong> → dumbbell shapes! Pick n = 2, then 2p, above to see them.</span>
+            </div>
+          </div>
+        )}
+      </div>
+
+      {/* Navigation */}
+      <div className="flex justify-center gap-3">
+        <button
+          onClick={() => setStep(Math.max(0, step - 1))}
+          disabled={step === 0}
+          className={`px-5 py-2 rounded-lg font-bold text-sm text-white transition-colors ${step === 0 ? 'bg-gray-400 cursor-not-allowed' : 'bg-blue-500 hover:bg-blue-600 cursor-pointer'}`}
+        >
+          ← Back
+        </button>
+        <button
+          onClick={() => setStep(Math.min(totalSteps - 1, step + 1))}
+          disabled={step === totalSteps - 1}
+          className={`px-5 py-2 rounded-lg font-bold text-sm text-white transition-colors ${step === totalSteps - 1 ? 'bg-gray-400 cursor-not-allowed' : 'bg-green-500 hover:bg-green-600 cursor-pointer'}`}
+        >
+          Next →
+        </button>
+      </div>
+
+      {/* Quantum Numbers Reference */}
+      <div>
+        <button
+          onClick={() => setShowQuantumNumbers(!showQuantumNumbers)}
+          className="w-full p-2 rounded-lg border border-gray-300 bg-transparent text-gray-600 cursor-pointer text-xs hover:bg-gray-50 transition-colors"
+        >
+          {showQuantumNumbers ? '▼' : '▶'} Reference: Quantum Numbers & Orbital Shapes
+        </button>
+        
+        {showQuantumNumbers && (
+          <div className="mt-2 p-3 bg-gray-100 rounded-lg text-xs">
+            <p className="text-gray-600 mb-2">Different quantum numbers → different shapes:</p>
+            
+            <div className="space-y-2">
+              <div className="flex items-center gap-2 bg-green-100 p-2 rounded">
+                <div className="w-8 h-8 rounded-full bg-gradient-to-br from-green-400 to-green-600" />
+                <div>
+                  <strong className="text-green-700">s orbitals</strong>
+                  <span className="text-gray-500"> (l = 0) — Spherical</span>
+                </div>
+              </div>
+              
+              <div className="flex items-center gap-2 bg-orange-100 p-2 rounded">
+                <div className="w-8 h-8 relative">
+                  <div className="absolute top-0 left-1/2 -translate-x-1/2 w-3 h-3 rounded-full bg-gradient-to-b from-orange-400 to-orange-600" />
+                  <div className="absolute bottom-0 left-1/2 -translate-x-1/2 w-3 h-3 rounded-full bg-gradient-to-t from-orange-400 to-orange-600" />
+                </div>
+                <div>
+                  <strong className="text-orange-700">p orbitals</strong>
+                  <span className="text-gray-500"> (l = 1) — Dumbbell</span>
+                </div>
+              </div>
+            </div>
+
+            <div className="mt-2 p-2 bg-yellow-100 rounded text-[10px]">
+              <strong className="text-yellow-700">Pattern:</strong>
+              <span className="text-gray-600"> Higher l = more complex angular dependence = more complex shape!</span>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SchrodingerConceptual;
@@ -0,0 +1,35 @@
+import React, { FC } from 'react';
+import type { VisualSpec } from '../../lib/curriculum';
+import type { VisualInteraction } from '../../lib/viewControls';
+import VisualErrorBoundary from '../VisualErrorBoundary';
+import { getVisual, visualName } from './registry';
+
+// One entry of a concept's "visuals" in its lesson card - the registered heading and component, behind an
+// error boundary
+interface VisualCardProps {
+  visual: VisualSpec;
+  // Concept id - a new concept gets a fresh try at a visual that failed
+  resetKey?: string;
+  onInteraction?: (interaction: VisualInteraction) => void;
+  onError?: (visual: string, error: Error) => void;
+}
+
+const VisualCard: FC<VisualCardProps> = ({ visual, resetKey, onInteraction, onError }) => {
+  const { title, icon: Icon, iconColor, component: Visual } = getVisual(visual.type);
+
+  return (
+    <div className="bg-white rounded-2xl shadow-lg p-6">
+      {title && (
+        <h3 className="text-lg font-bold text-gray-900 mb-4 text-center flex items-center justify-center">
+          <Icon className={`w-6 h-6 mr-2 ${iconColor}`} />
+          {title}
+        </h3>
+      )}
+      <VisualErrorBoundary visual={visualName(visual)} resetKey={resetKey} onError={onError}>
+        <Visual visual={visual} onInteraction={onInteraction} />
+      </VisualErrorBoundary>
+    </div>
+  );
+};
+
+export default VisualCard;
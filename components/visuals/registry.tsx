@@ -0,0 +1,124 @@
+import React, { ComponentType } from 'react';
+import dynamic from 'next/dynamic';
+import { Atom, Sparkles } from 'lucide-react';
+import type { LucideIcon } from 'lucide-react';
+import type { VisualOf, VisualSpec, VisualType } from '../../lib/curriculum';
+import type { VisualInteraction } from '../../lib/viewControls';
+
+// Every visual a concept can show, by the key content uses in "visuals". Each is its own chunk, loaded the first
+// time a concept shows it or ahead of time by prefetchVisuals. To add one: add its key to VISUAL_TYPES (and its parameters to VisualSpec) in
+// lib/curriculum/types.ts, then register its component here.
+
+export interface VisualComponentProps<T extends VisualType = VisualType> {
+  // The entry from the concept's "visuals", with any parameters it sets
+  visual: VisualOf<T>;
+  onInteraction?: (interaction: VisualInteraction) => void;
+}
+
+interface VisualDefinition<T extends VisualType> {
+  // Card heading - left off for visuals that draw their own
+  title?: string;
+  icon: LucideIcon;
+  iconColor: string;
+  // Downloads the component's chunk - import() only fetches it once
+  load: () => Promise<{ default: ComponentType<VisualComponentProps<T>> }>;
+  component: ComponentType<VisualComponentProps<T>>;
+}
+
+const VisualLoading = () => (
+  <div className="h-64 rounded-xl bg-slate-100 animate-pulse" aria-label="Loading visual" />
+);
+
+function lazyVisual<T extends VisualType>(load: VisualDefinition<T>['load']) {
+  return { load, component: dynamic(load, { loading: VisualLoading }) };
+}
+
+const VISUAL_REGISTRY: { [T in VisualType]: VisualDefinition<T> } = {
+  atomicStructure: {
+    title: 'Atomic Structure',
+    icon: Atom,
+    iconColor: 'text-blue-600',
+    ...lazyVisual(() => import('./AtomicStructureVisual')),
+  },
+  electronProperties: {
+    title: 'Understanding Electrons',
+    icon: Sparkles,
+    iconColor: 'text-purple-600',
+    ...lazyVisual(() => import('./ElectronPropertiesVisual')),
+  },
+  octetRule: {
+    title: 'The Stability Rule Visualized',
+    icon: Sparkles,
+    iconColor: 'text-purple-600',
+    ...lazyVisual(() => import('./OctetRuleVisual')),
+  },
+  orbital: {
+    title: 'Quantum Orbital Visualization',
+    icon: Atom,
+    iconColor: 'text-blue-600',
+    ...lazyVisual(() => import('./OrbitalVisual')),
+  },
+  schrodinger: {
+    title: 'Where Do Orbital Shapes Come From?',
+    icon: Sparkles,
+    iconColor: 'text-purple-600',
+    ...lazyVisual(() => import('./SchrodingerConceptual')),
+  },
+  carbonQuantum: {
+    title: "Carbon's Quantum Structure",
+    icon: Atom,
+    iconColor: 'text-indigo-600',
+    ...lazyVisual(() => import('./CarbonQuantumStructure')),
+  },
+  electronConfig: {
+    title: 'Electron Configuration',
+    icon: Atom,
+    iconColor: 'text-blue-600',
+    ...lazyVisual(() => import('./ElectronConfiguration')),
+  },
+  covalentBonding: {
+    title: 'Covalent Bonding in Action',
+    icon: Sparkles,
+    iconColor: 'text-purple-600',
+    ...lazyVisual(() => import('./CovalentBondingVisual')),
+  },
+  glucoseMolecule: {
+    title: 'Oxygen & Glucose',
+    icon: Atom,
+    iconColor: 'text-red-500',
+    ...lazyVisual(() => import('./GlucoseMoleculeVisual')),
+  },
+  glycineMolecule: {
+    title: 'Nitrogen & Glycine',
+    icon: Atom,
+    iconColor: 'text-blue-500',
+    ...lazyVisual(() => import('./GlycineMoleculeVisual')),
+  },
+  grandConnection: {
+    icon: Sparkles,
+    iconColor: 'text-purple-600',
+    ...lazyVisual(() => import('./GrandConnectionVisual')),
+  },
+  molecule: {
+    title: 'See It in 3D',
+    icon: Atom,
+    iconColor: 'text-blue-600',
+    ...lazyVisual(() => import('./MoleculeVisual')),
+  },
+};
+
+export function getVisual<T extends VisualType>(type: T): VisualDefinition<T> {
+  return VISUAL_REGISTRY[type] as VisualDefinition<T>;
+}
+
+// Starts downloading these visuals' code without showing them - for the concept the learner is likely to open
+// next. A download that fails is tried again when the visual is shown.
+export function prefetchVisuals(visuals: VisualSpec[]) {
+  new Set(visuals.map(visual => visual.type)).forEach(type => {
+    VISUAL_REGISTRY[type].load().catch(() => {});
+  });
+}
+
+// Names a visual in analytics and error reports - "orbital", "molecule:glucose.sdf"
+export const visualName = (visual: VisualSpec): string =>
+  visual.type === 'molecule' ? `molecule:${visual.file}` : visual.type;
@@ -0,0 +1,37 @@
+// hooks/useDragRotation.ts
+// Drag-to-turn for the flat (non-WebGL) drawings of 3D visuals
+
+import { useRef, useState } from 'react';
+import type { PointerEvent } from 'react';
+import { DEFAULT_VIEW_ANGLE, dragViewAngle } from '../lib/projection';
+import type { ViewAngle } from '../lib/projection';
+
+// Spread the returned handlers onto the drawing; onRotate runs once per drag that turned it
+export function useDragRotation(onRotate?: () => void) {
+  const [angle, setAngle] = useState<ViewAngle>(DEFAULT_VIEW_ANGLE);
+  const dragRef = useRef<{ x: number; y: number; moved: boolean } | null>(null);
+
+  const onPointerDown = (e: PointerEvent<Element>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragRef.current = { x: e.clientX, y: e.clientY, moved: false };
+  };
+
+  const onPointerMove = (e: PointerEvent<Element>) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    const [dx, dy] = [e.clientX - drag.x, e.clientY - drag.y];
+    if (dx === 0 && dy === 0) return;
+    setAngle(current => dragViewAngle(current, dx, dy));
+    dragRef.current = { x: e.clientX, y: e.clientY, moved: true };
+  };
+
+  const onPointerUp = () => {
+    if (dragRef.current?.moved) onRotate?.();
+    dragRef.current = null;
+  };
+
+  return {
+    angle,
+    handlers: { onPointerDown, onPointerMove, onPointerUp, onPointerCancel: onPointerUp },
+  };
+}
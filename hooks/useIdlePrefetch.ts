@@ -0,0 +1,29 @@
+// hooks/useIdlePrefetch.ts
+// Downloads code the learner is likely to need next once the browser has nothing better to do
+
+import { useEffect } from 'react';
+import type { DependencyList } from 'react';
+
+// Without requestIdleCallback (Safari), wait this long after the screen changes instead
+const FALLBACK_DELAY_MS = 2000;
+// Prefetch anyway if the browser stays busy this long
+const IDLE_TIMEOUT_MS = 5000;
+
+type NetworkNavigator = Navigator & { connection?: { saveData?: boolean } };
+
+/**
+ * Runs prefetch when the browser is idle after deps change, cancelling it if they change first.
+ * Skipped when the learner has asked their browser to save data.
+ */
+export function useIdlePrefetch(prefetch: () => void, deps: DependencyList) {
+  useEffect(() => {
+    if ((navigator as NetworkNavigator).connection?.saveData) return;
+
+    if (typeof window.requestIdleCallback === 'function') {
+      const handle = window.requestIdleCallback(prefetch, { timeout: IDLE_TIMEOUT_MS });
+      return () => window.cancelIdleCallback(handle);
+    }
+    const timer = setTimeout(prefetch, FALLBACK_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, deps);
+}
@@ -1,7 +1,25 @@
 // hooks/useKyordaAPI.ts
 // Custom hooks for Ky'Orda API interactions
 
-import { useState, useCallback, useRef } from 'react';
+import { useState, useCallback, useRef, useEffect } from 'react';
+import { splitBatch } from '../lib/analytics';
+import type { LearningAnalytics } from '../lib/analytics';
+import { getStoredLearnerId } from './useProgressPersistence';
+import { streamChat } from '../lib/chatClient';
+import type { ChatContext } from '../lib/chatClient';
+import {
+  SESSION_HEADER,
+  CHAT_PAUSED_MESSAGE,
+  VOICE_PAUSED_MESSAGE,
+  checkRateLimit,
+  checkServicePaused,
+  isRateLimited,
+  isServicePaused,
+  rateLimitMessage,
+} from '../lib/rateLimit';
+
+// Browsers refuse beacons and keepalive requests with bodies over 64 KB
+const MAX_ANALYTICS_BODY_BYTES = 60 * 1024;
 
 // ============================================
 // TYPES
@@ -43,8 +61,9 @@ export function useChat() {
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const conversationHistory = useRef<ChatMessage[]>([]);
+  const abortRef = useRef<AbortController | null>(null);
 
-  const sendMessage = useCallback(async (message: string): Promise<string> => {
+  const sendMessage = useCallback(async (message: string, context: ChatContext = {}): Promise<string> => {
     setIsLoading(true);
     setError(null);
 
@@ -53,13 +72,17 @@ export function useChat() {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
+          [SESSION_HEADER]: getSessionId(),
         },
         body: JSON.stringify({
+          ...context,
           message,
           conversationHistory: conversationHistory.current,
         }),
       });
 
+      checkRateLimit(response);
+      await checkServicePaused(response);
       if (!response.ok) {
         const errorData = await response.json();
         throw new Error(errorData.error || 'Failed to get response');
@@ -80,7 +103,10 @@ export function useChat() {
 
       return data.message;
     } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Unknown error';
+      const errorMessage = isRateLimited(err)
+        ? rateLimitMessage(err)
+        : isServicePaused(err) ? CHAT_PAUSED_MESSAGE
+        : err instanceof Error ? err.message : 'Unknown error';
       setError(errorMessage);
       throw err;
     } finally {
@@ -88,12 +114,62 @@ export function useChat() {
     }
   }, []);
 
+  // Streams the reply token by token; onDelta receives the message so far
+  const streamMessage = useCallback(async (
+    message: string,
+    onDelta: (partialMessage: string) => void,
+    context: ChatContext = {}
+  ): Promise<string> => {
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const result = await streamChat(
+        { ...context, message, conversationHistory: conversationHistory.current },
+        { onDelta: (_text, partialMessage) => onDelta(partialMessage), signal: controller.signal, sessionId: getSessionId() }
+      );
+
+      // Keep partial answers in history so follow-up questions still make sense
+      if (result.message) {
+        conversationHistory.current.push(
+          { role: 'user', content: message },
+          { role: 'assistant', content: result.message }
+        );
+        if (conversationHistory.current.length > 20) {
+          conversationHistory.current = conversationHistory.current.slice(-20);
+        }
+      }
+
+      return result.message;
+    } catch (err) {
+      const errorMessage = isRateLimited(err)
+        ? rateLimitMessage(err)
+        : isServicePaused(err) ? CHAT_PAUSED_MESSAGE
+        : err instanceof Error ? err.message : 'Unknown error';
+      setError(errorMessage);
+      throw err;
+    } finally {
+      if (abortRef.current === controller) abortRef.current = null;
+      setIsLoading(false);
+    }
+  }, []);
+
+  const cancel = useCallback(() => {
+    abortRef.current?.abort();
+  }, []);
+
   const clearHistory = useCallback(() => {
     conversationHistory.current = [];
   }, []);
 
   return {
     sendMessage,
+    streamMessage,
+    cancel,
     clearHistory,
     isLoading,
     error,
@@ -129,10 +205,13 @@ export function useTextToSpeech() {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
+          [SESSION_HEADER]: getSessionId(),
         },
         body: JSON.stringify({ text, provider }),
       });
 
+      checkRateLimit(response);
+      await checkServicePaused(response);
       if (!response.ok) {
         const errorData = await response.json();
         throw new Error(errorData.error || 'Failed to generate speech');
@@ -148,7 +227,10 @@ export function useTextToSpeech() {
 
       await playAudio(audioDataUrl);
     } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Unknown error';
+      const errorMessage = isRateLimited(err)
+        ? rateLimitMessage(err, 'playing narration')
+        : isServicePaused(err) ? VOICE_PAUSED_MESSAGE
+        : err instanceof Error ? err.message : 'Unknown error';
       setError(errorMessage);
       console.error('TTS Error:', err);
     } finally {
@@ -224,6 +306,7 @@ export function useFeedback() {
         }),
       });
 
+      checkRateLimit(response);
       if (!response.ok) {
         const errorData = await response.json();
         throw new Error(errorData.error || 'Failed to submit feedback');
@@ -231,7 +314,9 @@ export function useFeedback() {
 
       return true;
     } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Unknown error';
+      const errorMessage = isRateLimited(err)
+        ? rateLimitMessage(err, 'sending feedback')
+        : err instanceof Error ? err.message : 'Unknown error';
       setError(errorMessage);
       return false;
     } finally {
@@ -288,6 +373,82 @@ export function useFeedback() {
   };
 }
 
+// ============================================
+// ANALYTICS SYNC HOOK
+// ============================================
+
+export function useAnalyticsSync(analytics: LearningAnalytics) {
+  // Send everything tracked since the last flush to /api/analytics, in pieces the server and browser accept
+  const flush = useCallback(async (options: { beacon?: boolean } = {}): Promise<void> => {
+    const pending = analytics.drainUnsent();
+    if (!pending) return;
+
+    const learnerId = getStoredLearnerId() || undefined;
+    const chunks = splitBatch(pending, MAX_ANALYTICS_BODY_BYTES);
+    const toBody = (chunk: typeof chunks[number]) =>
+      JSON.stringify({ sessionId: pending.sessionId, learnerId, ...chunk });
+
+    // Give back this chunk and everything after it for the next flush
+    const requeueFrom = (index: number) => {
+      chunks.slice(index).reverse().forEach(chunk => analytics.requeue(chunk));
+    };
+
+    // sendBeacon survives the page being hidden or unloaded; fetch may be cancelled
+    if (options.beacon && typeof navigator !== 'undefined' && navigator.sendBeacon) {
+      for (let i = 0; i < chunks.length; i++) {
+        const blob = new Blob([toBody(chunks[i])], { type: 'application/json' });
+        if (!navigator.sendBeacon('/api/analytics', blob)) {
+          requeueFrom(i);
+          return;
+        }
+      }
+      return;
+    }
+
+    for (let i = 0; i < chunks.length; i++) {
+      let response: Response;
+      try {
+        response = await fetch('/api/analytics', {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: toBody(chunks[i]),
+          keepalive: true,
+        });
+      } catch (err) {
+        console.error('Analytics sync error:', err);
+        requeueFrom(i);
+        return;
+      }
+
+      if (response.ok) continue;
+
+      // Error pages from the host may not be JSON
+      const errorData = await response.json().catch(() => null);
+      const reason = errorData?.error || response.statusText;
+      // Server trouble or too many requests - worth trying again later
+      if (response.status >= 500 || response.status === 429) {
+        console.error(`Analytics sync failed (${response.status}): ${reason}`);
+        requeueFrom(i);
+        return;
+      }
+      // The server will never accept this chunk - retrying would block everything behind it
+      console.error(`Analytics batch rejected (${response.status}), dropping it: ${reason}`);
+    }
+  }, [analytics]);
+
+  useEffect(() => {
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'hidden') flush({ beacon: true });
+    };
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    return () => document.removeEventListener('visibilitychange', handleVisibilityChange);
+  }, [flush]);
+
+  return { flush };
+}
+
 // ============================================
 // VOICE MODE HOOK (combines TTS with mode toggle)
 // ============================================
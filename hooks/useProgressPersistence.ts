@@ -0,0 +1,176 @@
+// hooks/useProgressPersistence.ts
+// Saves learner progress to IndexedDB and syncs it to the server when a learner code is set
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import {
+  loadLocalSnapshot,
+  saveLocalSnapshot,
+  fetchRemoteSnapshot,
+  pushSnapshot,
+  mergeSnapshots,
+} from '../lib/persistence';
+import type { LearnerSnapshot, StoredSnapshot } from '../lib/persistence';
+
+// ============================================
+// LEARNER IDENTITY
+// ============================================
+
+const LEARNER_ID_KEY = 'kyorda-learner-id';
+const DEVICE_ID_KEY = 'kyorda-device-id';
+
+const SAVE_DELAY_MS = 1000;
+
+export const getDeviceId = (): string => {
+  if (typeof window === 'undefined') return 'server';
+
+  let deviceId = localStorage.getItem(DEVICE_ID_KEY);
+  if (!deviceId) {
+    deviceId = `device-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+    localStorage.setItem(DEVICE_ID_KEY, deviceId);
+  }
+  return deviceId;
+};
+
+export const getStoredLearnerId = (): string | null => {
+  if (typeof window === 'undefined') return null;
+  return localStorage.getItem(LEARNER_ID_KEY);
+};
+
+export type SyncStatus = 'local' | 'syncing' | 'synced' | 'error';
+
+// ============================================
+// PERSISTENCE HOOK
+// ============================================
+
+export function useProgressPersistence(onRestore: (snapshot: LearnerSnapshot) => void) {
+  const [isRestoring, setIsRestoring] = useState(true);
+  const [learnerId, setLearnerIdState] = useState<string | null>(getStoredLearnerId);
+  const [syncStatus, setSyncStatus] = useState<SyncStatus>('local');
+
+  const storedRef = useRef<StoredSnapshot | null>(null);
+  const pendingRef = useRef<LearnerSnapshot | null>(null);
+  const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const onRestoreRef = useRef(onRestore);
+  onRestoreRef.current = onRestore;
+
+  const sync = useCallback(async (id: string, stored: StoredSnapshot): Promise<StoredSnapshot> => {
+    setSyncStatus('syncing');
+    try {
+      const synced = await pushSnapshot(id, stored);
+      setSyncStatus('synced');
+      return synced;
+    } catch (err) {
+      console.error('Progress sync error:', err);
+      setSyncStatus('error');
+      return stored;
+    }
+  }, []);
+
+  // Pull the device copy and (if signed in) the server copy, merge, and hand back to the app
+  const restore = useCallback(async (id: string | null) => {
+    const local = await loadLocalSnapshot();
+    let stored = local;
+
+    if (id) {
+      try {
+        setSyncStatus('syncing');
+        const remote = await fetchRemoteSnapshot(id);
+        if (remote?.snapshot) {
+          stored = {
+            snapshot: local ? mergeSnapshots(local.snapshot, remote.snapshot) : remote.snapshot,
+            serverRevision: remote.revision,
+          };
+        } else if (remote && local) {
+          // The server copy is unreadable - keep this device's and overwrite it on the next push
+          stored = { ...local, serverRevision: remote.revision };
+        }
+        setSyncStatus('synced');
+      } catch (err) {
+        console.error('Progress restore error:', err);
+        setSyncStatus('error');
+      }
+    }
+
+    if (stored) {
+      storedRef.current = stored;
+      onRestoreRef.current(stored.snapshot);
+    }
+  }, []);
+
+  useEffect(() => {
+    restore(learnerId).finally(() => setIsRestoring(false));
+    // Only on mount - learner code changes go through setLearnerId
+  }, []);
+
+  const flush = useCallback(async () => {
+    if (timerRef.current) {
+      clearTimeout(timerRef.current);
+      timerRef.current = null;
+    }
+
+    const snapshot = pendingRef.current;
+    if (!snapshot) return;
+    pendingRef.current = null;
+
+    let stored: StoredSnapshot = {
+      snapshot,
+      serverRevision: storedRef.current?.serverRevision || 0,
+    };
+    storedRef.current = stored;
+    await saveLocalSnapshot(stored);
+
+    const id = getStoredLearnerId();
+    if (id) {
+      stored = await sync(id, stored);
+      storedRef.current = stored;
+      await saveLocalSnapshot(stored);
+    }
+  }, [sync]);
+
+  // Debounced - the app calls this on every state change
+  const save = useCallback((snapshot: LearnerSnapshot) => {
+    pendingRef.current = snapshot;
+    if (timerRef.current) clearTimeout(timerRef.current);
+    timerRef.current = setTimeout(flush, SAVE_DELAY_MS);
+  }, [flush]);
+
+  // Don't lose the last few changes when the tab is backgrounded or closed
+  useEffect(() => {
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'hidden') flush();
+    };
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    window.addEventListener('pagehide', flush);
+    return () => {
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      window.removeEventListener('pagehide', flush);
+    };
+  }, [flush]);
+
+  const setLearnerId = useCallback(async (id: string | null) => {
+    if (id) {
+      localStorage.setItem(LEARNER_ID_KEY, id);
+    } else {
+      localStorage.removeItem(LEARNER_ID_KEY);
+      setSyncStatus('local');
+    }
+    setLearnerIdState(id);
+
+    if (id) {
+      // Save what this device has, then pull in anything from the learner's other devices
+      await flush();
+      setIsRestoring(true);
+      await restore(id);
+      setIsRestoring(false);
+    }
+  }, [flush, restore]);
+
+  return {
+    isRestoring,
+    learnerId,
+    setLearnerId,
+    syncStatus,
+    save,
+    flush,
+  };
+}
@@ -0,0 +1,45 @@
+// hooks/useThreeScene.ts
+// Connects a component's canvas to the shared renderer in lib/sceneManager
+
+import { useEffect, useRef } from 'react';
+import type { DependencyList, RefObject } from 'react';
+import { attachScene } from '../lib/sceneManager';
+import { isWebGLAvailable } from '../lib/webgl';
+import type { SceneHandle } from '../lib/sceneManager';
+
+export interface SceneSetup extends SceneHandle {
+  // Undo anything setup did outside the scene, like event listeners - the scene itself is disposed for you
+  cleanup?: () => void;
+}
+
+/**
+ * Builds a scene with setup whenever deps change and keeps it drawn on the returned canvas ref.
+ * The previous scene's geometries, materials and textures are disposed when it's replaced or unmounted.
+ * Setup can return null when there's nothing to draw yet. Does nothing without WebGL - check
+ * useWebGLSupport() (hooks/useWebGLSupport) and render a fallback instead of the canvas.
+ */
+export function useThreeScene(
+  setup: (canvas: HTMLCanvasElement) => SceneSetup | null,
+  size: { width: number; height: number },
+  deps: DependencyList
+): RefObject<HTMLCanvasElement> {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || !isWebGLAvailable()) return;
+
+    const built = setup(canvas);
+    if (!built) return;
+
+    const { cleanup, ...handle } = built;
+    const detach = attachScene(canvas, handle, size);
+
+    return () => {
+      cleanup?.();
+      detach();
+    };
+  }, [...deps, size.width, size.height]);
+
+  return canvasRef;
+}
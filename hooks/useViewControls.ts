@@ -0,0 +1,55 @@
+// hooks/useViewControls.ts
+// Orbit/zoom/pan controls for a component's 3D scene, with the reset and pause-rotation state behind ViewToolbar
+
+import { useState, useRef } from 'react';
+import type * as THREE from 'three';
+import { createViewControls } from '../lib/viewControls';
+import type { ViewAction, ViewControls, VisualInteraction } from '../lib/viewControls';
+
+export function useViewControls(visual: string, onInteraction?: (interaction: VisualInteraction) => void) {
+  const controlsRef = useRef<ViewControls | null>(null);
+  // Viewing angle carried over when the scene is rebuilt (new orbital, new display mode)
+  const directionRef = useRef<THREE.Vector3 | undefined>(undefined);
+  // Read inside scene setup, which shouldn't rebuild just because rotation was paused
+  const isRotatingRef = useRef<boolean>(true);
+  const [isRotating, setIsRotating] = useState<boolean>(true);
+
+  const reportRef = useRef<(action: ViewAction) => void>(() => {});
+  reportRef.current = (action) => onInteraction?.({ visual, action });
+
+  // Call from the scene setup; the returned controls' dispose() belongs in its cleanup
+  const attachControls = (camera: THREE.PerspectiveCamera, canvas: HTMLCanvasElement, distance: number): ViewControls => {
+    const controls = createViewControls(camera, canvas, {
+      distance,
+      direction: directionRef.current,
+      autoRotate: isRotatingRef.current,
+      onGesture: (action) => reportRef.current(action),
+    });
+    controlsRef.current = controls;
+
+    return {
+      ...controls,
+      dispose: () => {
+        directionRef.current = controls.getDirection();
+        if (controlsRef.current === controls) controlsRef.current = null;
+        controls.dispose();
+      },
+    };
+  };
+
+  const resetView = () => {
+    controlsRef.current?.reset();
+    directionRef.current = undefined;
+    reportRef.current('reset');
+  };
+
+  const toggleRotation = () => {
+    const next = !isRotatingRef.current;
+    isRotatingRef.current = next;
+    setIsRotating(next);
+    controlsRef.current?.setAutoRotate(next);
+    reportRef.current(next ? 'resume-rotation' : 'pause-rotation');
+  };
+
+  return { attachControls, isRotating, resetView, toggleRotation };
+}
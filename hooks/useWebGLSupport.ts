@@ -0,0 +1,11 @@
+// hooks/useWebGLSupport.ts
+// Whether to render a 3D canvas or a flat fallback - safe to use outside the chunks that load three.js
+
+import { useState } from 'react';
+import { isWebGLAvailable } from '../lib/webgl';
+
+// The app only renders in the browser, so this is known on the first render
+export function useWebGLSupport(): boolean {
+  const [isSupported] = useState<boolean>(isWebGLAvailable);
+  return isSupported;
+}
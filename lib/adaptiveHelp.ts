@@ -0,0 +1,119 @@
+// lib/adaptiveHelp.ts
+// Builds Ky'Orda's adaptive help from each concept's remediation content
+
+import { findConcept } from './curriculum';
+import { conceptGraph, findWeakPrerequisite } from './conceptGraph';
+import type { Concept, KnowledgeCheck } from './curriculum';
+import type { WeakPrerequisite } from './conceptGraph';
+
+export interface AdaptiveHelpHint {
+  checkId: string;
+  question: string;
+  hint: string;
+}
+
+export interface AdaptiveHelpContent {
+  type: 'struggling' | 'low-confidence' | 'missed-questions';
+  message: string;
+  suggestions: string[];
+  alternativeExplanation: string;
+  analogy: string | null;
+  hints: AdaptiveHelpHint[];
+  // The shakiest concept this one builds on, offered as a jump back
+  weakPrerequisite: WeakPrerequisite | null;
+  reviewConcepts: Array<{ id: string; title: string }>;
+}
+
+interface AdaptiveHelpInput {
+  concept: Concept;
+  confidence: number;
+  score: number;
+  missedChecks: KnowledgeCheck[];
+  // How many times help has already been shown for this concept
+  previousHelpCount: number;
+  // Mastery probability per concept id (see lib/mastery.ts)
+  mastery?: Record<string, number>;
+}
+
+// Rotate through the authored content so repeat visits see something new
+const pick = <T>(items: T[] | undefined, index: number): T | null =>
+  items && items.length > 0 ? items[index % items.length] : null;
+
+export function buildAdaptiveHelp({
+  concept,
+  confidence,
+  score,
+  missedChecks,
+  previousHelpCount,
+  mastery = {},
+}: AdaptiveHelpInput): AdaptiveHelpContent {
+  const { remediation } = concept;
+
+  const hints = missedChecks
+    .filter(check => remediation.checkHints?.[check.id])
+    .map(check => ({
+      checkId: check.id,
+      question: check.question,
+      hint: remediation.checkHints![check.id],
+    }));
+
+  const weakPrerequisite = findWeakPrerequisite(conceptGraph, concept.id, mastery);
+
+  const reviewConcepts = (remediation.reviewConcepts || [])
+    .filter(id => id !== weakPrerequisite?.id)
+    .map(id => findConcept(id)?.concept)
+    .filter((c): c is Concept => Boolean(c))
+    .map(c => ({ id: c.id, title: c.title }));
+
+  const alternativeExplanation = pick(remediation.alternativeExplanations, previousHelpCount) || '';
+  const analogy = pick(remediation.analogies, previousHelpCount);
+
+  if (confidence <= 2 && score < 0.5) {
+    return {
+      type: 'struggling',
+      message: "I notice you're feeling confused and some concepts aren't clicking yet. That's completely normal - quantum chemistry is challenging! Let me help you.",
+      suggestions: [
+        "Would it help to see a simpler analogy?",
+        weakPrerequisite
+          ? `How does "${weakPrerequisite.title}" connect to this concept?`
+          : reviewConcepts.length > 0
+            ? `Should we review "${reviewConcepts[0].title}" first?`
+            : "Could you walk me through the main idea step by step?",
+        "Would you like me to explain this in a different way?"
+      ],
+      alternativeExplanation,
+      analogy,
+      hints,
+      weakPrerequisite,
+      reviewConcepts,
+    };
+  }
+
+  if (confidence <= 2) {
+    return {
+      type: 'low-confidence',
+      message: "You're feeling confused but you got most of the questions right! Sometimes we understand more than we think. What specific part is confusing?",
+      suggestions: [
+        "Ask me about the specific part that's unclear",
+        "See the concept explained differently",
+        "Review the visual again"
+      ],
+      alternativeExplanation,
+      analogy,
+      hints,
+      weakPrerequisite: null,
+      reviewConcepts: [],
+    };
+  }
+
+  return {
+    type: 'missed-questions',
+    message: `You missed ${missedChecks.length} question(s). Let's make sure these concepts are clear before moving on.`,
+    suggestions: missedChecks.map(q => `Revisit: ${q.question}`),
+    alternativeExplanation,
+    analogy: null,
+    hints,
+    weakPrerequisite,
+    reviewConcepts,
+  };
+}
@@ -0,0 +1,627 @@
+// lib/analytics.ts
+// ML learning analytics - tracks events and concept performance to build a learner profile
+
+import {
+  DEFAULT_MASTERY_PARAMS,
+  MASTERED_THRESHOLD,
+  STRUGGLING_THRESHOLD,
+  calibrationGap,
+  describeCalibration,
+  estimateMastery,
+  resolveMasteryParams,
+  scoreToObservations
+} from './mastery';
+import type { MasteryParams } from './mastery';
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface ConceptAttempt {
+  timestamp: number;
+  confidence: number;
+  questionsCorrect: number;
+  questionsTotal: number;
+  timeSpent: number;
+  usedChat: boolean;
+  triggeredAdaptiveHelp: boolean;
+}
+
+// One answer in a spaced-repetition review (see lib/review.ts)
+export interface ReviewOutcome {
+  timestamp: number;
+  checkId: string;
+  correct: boolean;
+}
+
+export interface ConceptPerformance {
+  attempts: ConceptAttempt[];
+  reviews: ReviewOutcome[];
+  totalTime: number;
+  averageConfidence: number;
+  questionAccuracy: number;
+  // Estimated share of the concept still remembered now - fades without practice, recovers with reviews
+  retention: number;
+  // BKT probability the concept has been learned (see lib/mastery.ts)
+  mastery: number;
+  // Confidence minus mastery on a 0-1 scale - positive is overconfident; null before any lesson
+  calibrationGap: number | null;
+  revisits: number;
+}
+
+export interface LearnerProfile {
+  learningStyle: string | null;
+  pacePreference: string | null;
+  strengthAreas: string[];
+  struggleAreas: string[];
+  // Concepts where confidence runs well ahead of / behind mastery
+  overconfidentAreas: string[];
+  underconfidentAreas: string[];
+  // Average calibration gap across concepts, null before any lesson
+  calibrationGap: number | null;
+  confidencePattern: number[];
+  engagementLevel: string;
+  preferredExplanationType: string | null;
+}
+
+export interface AnalyticsEvent {
+  // Unique per event - optional because snapshots saved before ids existed lack it
+  id?: string;
+  timestamp: number;
+  sessionId: string;
+  eventType: string;
+  data: Record<string, any>;
+  timeInSession: number;
+}
+
+export interface Recommendation {
+  type: string;
+  message: string;
+  priority: string;
+}
+
+export interface ConceptAttemptRecord {
+  conceptId: string;
+  attempt: ConceptAttempt;
+}
+
+// What the client sends to /api/analytics
+export interface AnalyticsBatch {
+  sessionId: string;
+  learnerId?: string;
+  events: AnalyticsEvent[];
+  conceptAttempts: ConceptAttemptRecord[];
+}
+
+// /api/analytics rejects batches larger than these
+export const MAX_EVENTS_PER_BATCH = 500;
+export const MAX_ATTEMPTS_PER_BATCH = 50;
+
+// Learner history that survives reloads (the session itself is not restored). Only the most recent
+// MAX_PERSISTED_EVENTS events are kept - conceptPerformance already summarises the rest.
+export interface AnalyticsState {
+  events: AnalyticsEvent[];
+  conceptPerformance: Record<string, ConceptPerformance>;
+}
+
+export interface AnalyticsReport {
+  sessionId: string;
+  sessionDuration: number;
+  totalEvents: number;
+  conceptPerformance: Record<string, ConceptPerformance>;
+  learnerProfile: LearnerProfile;
+  recommendations: Recommendation[];
+}
+
+// ============================================
+// VALIDATION
+// ============================================
+
+// Shared by /api/analytics and the learner snapshot validator - both take these from the network
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isShortString = (value: unknown, max = 128): value is string =>
+  typeof value === 'string' && value.length > 0 && value.length <= max;
+
+const isNonNegativeNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && value >= 0;
+
+export function isAnalyticsEvent(value: unknown): value is AnalyticsEvent {
+  return (
+    isObject(value) &&
+    (value.id === undefined || isShortString(value.id)) &&
+    isNonNegativeNumber(value.timestamp) &&
+    isShortString(value.sessionId) &&
+    isShortString(value.eventType, 64) &&
+    isObject(value.data) &&
+    isNonNegativeNumber(value.timeInSession)
+  );
+}
+
+export function isConceptAttempt(value: unknown): value is ConceptAttempt {
+  return (
+    isObject(value) &&
+    isNonNegativeNumber(value.timestamp) &&
+    isNonNegativeNumber(value.confidence) &&
+    isNonNegativeNumber(value.questionsCorrect) &&
+    isNonNegativeNumber(value.questionsTotal) &&
+    value.questionsCorrect <= value.questionsTotal &&
+    isNonNegativeNumber(value.timeSpent) &&
+    typeof value.usedChat === 'boolean' &&
+    typeof value.triggeredAdaptiveHelp === 'boolean'
+  );
+}
+
+export function isReviewOutcome(value: unknown): value is ReviewOutcome {
+  return (
+    isObject(value) &&
+    isNonNegativeNumber(value.timestamp) &&
+    isShortString(value.checkId) &&
+    typeof value.correct === 'boolean'
+  );
+}
+
+// ============================================
+// HELPERS
+// ============================================
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Keeps saved snapshots well under the 1 MB /api/progress accepts
+export const MAX_PERSISTED_EVENTS = 500;
+
+const attemptAccuracy = (a: ConceptAttempt) => a.questionsTotal > 0 ? a.questionsCorrect / a.questionsTotal : 1;
+
+/**
+ * Forgetting-curve estimate over lessons and reviews. Each well-spaced success makes the memory
+ * more stable (slower to fade), a miss makes it less so. Decays towards half the recent accuracy
+ * rather than zero - students rarely forget a concept entirely.
+ */
+export function estimateRetention(attempts: ConceptAttempt[], reviews: ReviewOutcome[], now: number): number {
+  const practice = [
+    ...attempts.map(a => ({ timestamp: a.timestamp, score: attemptAccuracy(a) })),
+    ...reviews.map(r => ({ timestamp: r.timestamp, score: r.correct ? 1 : 0 }))
+  ].sort((x, y) => x.timestamp - y.timestamp);
+
+  if (practice.length === 0) return 0;
+
+  let stabilityDays = 1;
+  let accuracy = practice[0].score;
+  practice.forEach((p, i) => {
+    if (i > 0) accuracy = 0.5 * accuracy + 0.5 * p.score;
+
+    // Cramming the same day doesn't build long-term memory
+    const gapDays = i > 0 ? (p.timestamp - practice[i - 1].timestamp) / DAY_MS : stabilityDays;
+    if (p.score < 0.5) {
+      stabilityDays = Math.max(1, stabilityDays / 2);
+    } else if (gapDays >= stabilityDays / 2) {
+      stabilityDays *= 2.5;
+    }
+  });
+
+  const elapsedDays = Math.max(0, now - practice[practice.length - 1].timestamp) / DAY_MS;
+  return accuracy * (0.5 + 0.5 * Math.exp(-elapsedDays / stabilityDays));
+}
+
+// Every lesson answer and review answer in order, as BKT observations
+function masteryObservations(attempts: ConceptAttempt[], reviews: ReviewOutcome[]) {
+  return [
+    ...attempts.map(a => ({ timestamp: a.timestamp, observations: scoreToObservations(a.questionsCorrect, a.questionsTotal) })),
+    ...reviews.map(r => ({ timestamp: r.timestamp, observations: [{ correct: r.correct }] }))
+  ]
+    .sort((x, y) => x.timestamp - y.timestamp)
+    .reduce((all, practice) => all.concat(practice.observations), [] as { correct: boolean }[]);
+}
+
+export function summarizeAttempts(
+  attempts: ConceptAttempt[],
+  reviews: ReviewOutcome[] = [],
+  now = Date.now(),
+  masteryParams: MasteryParams = DEFAULT_MASTERY_PARAMS
+): ConceptPerformance {
+  const count = Math.max(1, attempts.length);
+  const averageConfidence = attempts.reduce((sum, a) => sum + a.confidence, 0) / count;
+  const mastery = estimateMastery(masteryObservations(attempts, reviews), masteryParams);
+  return {
+    attempts,
+    reviews,
+    totalTime: attempts.reduce((sum, a) => sum + a.timeSpent, 0),
+    averageConfidence,
+    questionAccuracy: attempts.reduce((sum, a) => sum + attemptAccuracy(a), 0) / count,
+    retention: estimateRetention(attempts, reviews, now),
+    mastery,
+    calibrationGap: attempts.length > 0 ? calibrationGap(averageConfidence, mastery) : null,
+    revisits: Math.max(0, attempts.length - 1)
+  };
+}
+
+const eventKey = (e: AnalyticsEvent) => e.id ?? `${e.sessionId}:${e.timestamp}:${e.eventType}`;
+
+// Union of two histories - attempts are append-only, so none are ever dropped. Events are trimmed
+// to the most recent MAX_PERSISTED_EVENTS.
+export function mergeAnalyticsStates(
+  a: AnalyticsState,
+  b: AnalyticsState,
+  masteryParams: MasteryParams = DEFAULT_MASTERY_PARAMS
+): AnalyticsState {
+  const events = new Map<string, AnalyticsEvent>();
+  [...a.events, ...b.events].forEach(e => events.set(eventKey(e), e));
+
+  const conceptPerformance: Record<string, ConceptPerformance> = {};
+  const conceptIds = Object.keys({ ...a.conceptPerformance, ...b.conceptPerformance });
+  for (const conceptId of conceptIds) {
+    const attempts = new Map<number, ConceptAttempt>();
+    [
+      ...(a.conceptPerformance[conceptId]?.attempts || []),
+      ...(b.conceptPerformance[conceptId]?.attempts || [])
+    ].forEach(attempt => attempts.set(attempt.timestamp, attempt));
+
+    // Older snapshots predate reviews
+    const reviews = new Map<string, ReviewOutcome>();
+    [
+      ...(a.conceptPerformance[conceptId]?.reviews || []),
+      ...(b.conceptPerformance[conceptId]?.reviews || [])
+    ].forEach(review => reviews.set(`${review.checkId}:${review.timestamp}`, review));
+
+    conceptPerformance[conceptId] = summarizeAttempts(
+      Array.from(attempts.values()).sort((x, y) => x.timestamp - y.timestamp),
+      Array.from(reviews.values()).sort((x, y) => x.timestamp - y.timestamp),
+      Date.now(),
+      masteryParams
+    );
+  }
+
+  return {
+    events: Array.from(events.values())
+      .sort((x, y) => x.timestamp - y.timestamp)
+      .slice(-MAX_PERSISTED_EVENTS),
+    conceptPerformance
+  };
+}
+
+type BatchContents = Pick<AnalyticsBatch, 'events' | 'conceptAttempts'>;
+
+// Room for the sessionId, learnerId and JSON punctuation around the two arrays
+const BATCH_OVERHEAD_BYTES = 512;
+
+const jsonBytes = (value: unknown) => new TextEncoder().encode(JSON.stringify(value)).length + 1;
+
+/**
+ * Splits unsent analytics into pieces /api/analytics accepts, each serialising to at most maxBytes.
+ * An item too large to fit on its own is dropped rather than retried forever.
+ */
+export function splitBatch(batch: BatchContents, maxBytes: number): BatchContents[] {
+  const chunks: BatchContents[] = [];
+  let current: BatchContents = { events: [], conceptAttempts: [] };
+  let currentBytes = BATCH_OVERHEAD_BYTES;
+
+  // Start a new chunk unless one more item of this size and kind fits in the current one
+  const makeRoom = (bytes: number, count: number, limit: number) => {
+    if (count < limit && currentBytes + bytes <= maxBytes) return;
+    chunks.push(current);
+    current = { events: [], conceptAttempts: [] };
+    currentBytes = BATCH_OVERHEAD_BYTES;
+  };
+  const tooLarge = (bytes: number, what: string) => {
+    if (BATCH_OVERHEAD_BYTES + bytes <= maxBytes) return false;
+    console.warn(`Dropping oversized analytics ${what} (${bytes} bytes)`);
+    return true;
+  };
+
+  for (const event of batch.events) {
+    const bytes = jsonBytes(event);
+    if (tooLarge(bytes, event.eventType)) continue;
+    makeRoom(bytes, current.events.length, MAX_EVENTS_PER_BATCH);
+    current.events.push(event);
+    currentBytes += bytes;
+  }
+  for (const record of batch.conceptAttempts) {
+    const bytes = jsonBytes(record);
+    if (tooLarge(bytes, `attempt for ${record.conceptId}`)) continue;
+    makeRoom(bytes, current.conceptAttempts.length, MAX_ATTEMPTS_PER_BATCH);
+    current.conceptAttempts.push(record);
+    currentBytes += bytes;
+  }
+
+  if (current.events.length > 0 || current.conceptAttempts.length > 0) chunks.push(current);
+  return chunks;
+}
+
+// ============================================
+// ML LEARNING ANALYTICS SYSTEM
+// ============================================
+export class LearningAnalytics {
+  sessionId: string;
+  startTime: number;
+  events: AnalyticsEvent[];
+  conceptPerformance: Record<string, ConceptPerformance>;
+  learnerProfile: LearnerProfile;
+  masteryParams: MasteryParams;
+  // Not yet sent to /api/analytics
+  unsentEvents: AnalyticsEvent[];
+  unsentAttempts: ConceptAttemptRecord[];
+  // Numbers event ids within the session
+  eventCount: number;
+
+  constructor(masteryParams: Partial<MasteryParams> = {}) {
+    this.sessionId = this.generateSessionId();
+    this.masteryParams = resolveMasteryParams(masteryParams);
+    this.startTime = Date.now();
+    this.eventCount = 0;
+    this.events = [];
+    this.conceptPerformance = {};
+    this.unsentEvents = [];
+    this.unsentAttempts = [];
+    this.learnerProfile = {
+      learningStyle: null, // visual, reading, kinesthetic
+      pacePreference: null, // slow, medium, fast
+      strengthAreas: [],
+      struggleAreas: [],
+      overconfidentAreas: [],
+      underconfidentAreas: [],
+      calibrationGap: null,
+      confidencePattern: [],
+      engagementLevel: 'medium',
+      preferredExplanationType: null
+    };
+  }
+
+  generateSessionId(): string {
+    return 'session_' + Date.now() + '_' + Math.random().toString(36).substr(2, 9);
+  }
+
+  // Track every interaction
+  trackEvent(eventType: string, data: Record<string, any>): AnalyticsEvent {
+    const event = {
+      id: `${this.sessionId}_${this.eventCount++}`,
+      timestamp: Date.now(),
+      sessionId: this.sessionId,
+      eventType,
+      data,
+      timeInSession: Date.now() - this.startTime
+    };
+    this.events.push(event);
+    this.unsentEvents.push(event);
+    this.analyzePatterns();
+    return event;
+  }
+
+  // Track concept performance
+  trackConceptAttempt(conceptId: string, data: Omit<ConceptAttempt, 'timestamp'>): void {
+    if (!this.conceptPerformance[conceptId]) {
+      this.conceptPerformance[conceptId] = summarizeAttempts([], [], Date.now(), this.masteryParams);
+    }
+
+    const perf = this.conceptPerformance[conceptId];
+    const attempt = {
+      timestamp: Date.now(),
+      confidence: data.confidence,
+      questionsCorrect: data.questionsCorrect,
+      questionsTotal: data.questionsTotal,
+      timeSpent: data.timeSpent,
+      usedChat: data.usedChat,
+      triggeredAdaptiveHelp: data.triggeredAdaptiveHelp
+    };
+    perf.attempts.push(attempt);
+    this.unsentAttempts.push({ conceptId, attempt });
+
+    // Update aggregates
+    this.conceptPerformance[conceptId] = summarizeAttempts(perf.attempts, perf.reviews, Date.now(), this.masteryParams);
+
+    this.trackEvent('concept_attempt', { conceptId, ...data });
+  }
+
+  // Track one answer from a spaced-repetition review session
+  trackReview(conceptId: string, checkId: string, correct: boolean): void {
+    const perf = this.conceptPerformance[conceptId] || summarizeAttempts([], [], Date.now(), this.masteryParams);
+    const review = { timestamp: Date.now(), checkId, correct };
+
+    this.conceptPerformance[conceptId] = summarizeAttempts(
+      perf.attempts,
+      [...perf.reviews, review],
+      Date.now(),
+      this.masteryParams
+    );
+    this.trackEvent('review_answer', { conceptId, checkId, correct });
+  }
+
+  // Retention depends on how long ago each concept was practised, so refresh it before using it
+  refreshRetention(now = Date.now()): void {
+    Object.values(this.conceptPerformance).forEach(perf => {
+      perf.retention = estimateRetention(perf.attempts, perf.reviews, now);
+    });
+  }
+
+  // Analyze patterns to build learner profile
+  analyzePatterns(): void {
+    const recentEvents = this.events.slice(-20);
+    
+    // Analyze time spent patterns
+    const avgTimePerConcept = this.calculateAverageTimePerConcept();
+    if (avgTimePerConcept > 180000) { // > 3 minutes
+      this.learnerProfile.pacePreference = 'slow';
+    } else if (avgTimePerConcept < 60000) { // < 1 minute
+      this.learnerProfile.pacePreference = 'fast';
+    } else {
+      this.learnerProfile.pacePreference = 'medium';
+    }
+
+    // Analyze visual engagement
+    const visualInteractions = this.events.filter(e => 
+      e.eventType === 'visual_interaction' || e.eventType === '3d_rotation'
+    ).length;
+    const chatInteractions = this.events.filter(e => e.eventType === 'chat_message').length;
+
+    if (visualInteractions > chatInteractions * 2) {
+      this.learnerProfile.learningStyle = 'visual';
+    } else if (chatInteractions > visualInteractions * 2) {
+      this.learnerProfile.learningStyle = 'reading';
+    } else {
+      this.learnerProfile.learningStyle = 'mixed';
+    }
+
+    // Identify strength and struggle areas
+    this.refreshRetention();
+    this.updateStrengthsAndStruggles();
+    this.updateCalibration();
+
+    // Calculate engagement level
+    const recentConfidences = this.events
+      .filter(e => e.eventType === 'confidence_set')
+      .slice(-5)
+      .map(e => e.data.level);
+    
+    if (recentConfidences.length > 0) {
+      const avgConfidence = recentConfidences.reduce((a, b) => a + b, 0) / recentConfidences.length;
+      if (avgConfidence >= 4) this.learnerProfile.engagementLevel = 'high';
+      else if (avgConfidence <= 2) this.learnerProfile.engagementLevel = 'low';
+      else this.learnerProfile.engagementLevel = 'medium';
+    }
+  }
+
+  calculateAverageTimePerConcept(): number {
+    const conceptTimes = Object.values(this.conceptPerformance).map(c => c.totalTime);
+    if (conceptTimes.length === 0) return 90000; // default 1.5 min
+    return conceptTimes.reduce((a, b) => a + b, 0) / conceptTimes.length;
+  }
+
+  updateStrengthsAndStruggles(): void {
+    this.learnerProfile.strengthAreas = [];
+    this.learnerProfile.struggleAreas = [];
+
+    for (const [conceptId, perf] of Object.entries(this.conceptPerformance)) {
+      if (perf.attempts.length === 0) continue;
+
+      // Mastery says whether it was learned, retention whether it has stuck since
+      if (perf.mastery >= MASTERED_THRESHOLD && perf.retention >= 0.8) {
+        this.learnerProfile.strengthAreas.push(conceptId);
+      } else if (perf.mastery < STRUGGLING_THRESHOLD || perf.retention < 0.5) {
+        this.learnerProfile.struggleAreas.push(conceptId);
+      }
+    }
+  }
+
+  updateCalibration(): void {
+    const gaps: number[] = [];
+    this.learnerProfile.overconfidentAreas = [];
+    this.learnerProfile.underconfidentAreas = [];
+
+    for (const [conceptId, perf] of Object.entries(this.conceptPerformance)) {
+      if (perf.calibrationGap === null) continue;
+      gaps.push(perf.calibrationGap);
+
+      const calibration = describeCalibration(perf.calibrationGap);
+      if (calibration === 'overconfident') this.learnerProfile.overconfidentAreas.push(conceptId);
+      if (calibration === 'underconfident') this.learnerProfile.underconfidentAreas.push(conceptId);
+    }
+
+    this.learnerProfile.calibrationGap = gaps.length > 0
+      ? gaps.reduce((a, b) => a + b, 0) / gaps.length
+      : null;
+  }
+
+  // Get personalized recommendations
+  getRecommendations(): Recommendation[] {
+    const recommendations = [];
+
+    if (this.learnerProfile.struggleAreas.length > 0) {
+      recommendations.push({
+        type: 'review',
+        message: `Consider reviewing: ${this.learnerProfile.struggleAreas.join(', ')}`,
+        priority: 'high'
+      });
+    }
+
+    if (this.learnerProfile.overconfidentAreas.length > 0) {
+      recommendations.push({
+        type: 'calibration',
+        message: `You feel surer than your answers show on: ${this.learnerProfile.overconfidentAreas.join(', ')} - try the knowledge checks again before moving on`,
+        priority: 'high'
+      });
+    }
+
+    if (this.learnerProfile.underconfidentAreas.length > 0) {
+      recommendations.push({
+        type: 'calibration',
+        message: `You know more than you think about: ${this.learnerProfile.underconfidentAreas.join(', ')}`,
+        priority: 'low'
+      });
+    }
+
+    if (this.learnerProfile.pacePreference === 'slow') {
+      recommendations.push({
+        type: 'pace',
+        message: 'Take your time - depth of understanding is more important than speed',
+        priority: 'medium'
+      });
+    }
+
+    if (this.learnerProfile.learningStyle === 'visual') {
+      recommendations.push({
+        type: 'style',
+        message: 'You learn well visually - spend more time with 3D models',
+        priority: 'low'
+      });
+    }
+
+    return recommendations;
+  }
+
+  // Get full analytics report
+  getAnalyticsReport(): AnalyticsReport {
+    return {
+      sessionId: this.sessionId,
+      sessionDuration: Date.now() - this.startTime,
+      totalEvents: this.events.length,
+      conceptPerformance: this.conceptPerformance,
+      learnerProfile: this.learnerProfile,
+      recommendations: this.getRecommendations()
+    };
+  }
+
+  // Persisted learner history (see lib/persistence)
+  getState(): AnalyticsState {
+    return {
+      events: this.events.slice(-MAX_PERSISTED_EVENTS),
+      conceptPerformance: this.conceptPerformance
+    };
+  }
+
+  // Fold a saved history into this session
+  restoreState(state: AnalyticsState): void {
+    const merged = mergeAnalyticsStates(state, this.getState(), this.masteryParams);
+    this.events = merged.events;
+    this.conceptPerformance = merged.conceptPerformance;
+    this.analyzePatterns();
+  }
+
+  // Hand over everything not yet sent to the backend
+  drainUnsent(): Omit<AnalyticsBatch, 'learnerId'> | null {
+    if (this.unsentEvents.length === 0 && this.unsentAttempts.length === 0) return null;
+
+    const batch = {
+      sessionId: this.sessionId,
+      events: this.unsentEvents,
+      conceptAttempts: this.unsentAttempts
+    };
+    this.unsentEvents = [];
+    this.unsentAttempts = [];
+    return batch;
+  }
+
+  // Put a batch back after a failed send so the next flush retries it
+  requeue(batch: Pick<AnalyticsBatch, 'events' | 'conceptAttempts'>): void {
+    this.unsentEvents = [...batch.events, ...this.unsentEvents];
+    this.unsentAttempts = [...batch.conceptAttempts, ...this.unsentAttempts];
+  }
+
+  // Export data (for backend sync)
+  exportForBackend(): string {
+    return JSON.stringify({
+      ...this.getAnalyticsReport(),
+      events: this.events
+    });
+  }
+}
@@ -0,0 +1,90 @@
+// lib/chatClient.ts
+// Browser client for the streaming mode of /api/chat
+
+import { SESSION_HEADER, checkRateLimit, checkServicePaused } from './rateLimit';
+import type { CheckAnswer } from './curriculum';
+
+// The server turns this into the lesson context for the system prompt
+export interface ChatContext {
+  conceptId?: string;
+  // Answer per knowledge check id - an option index, index list or typed text depending on the check
+  answers?: Record<string, CheckAnswer>;
+}
+
+export interface ChatRequest extends ChatContext {
+  // The student's raw question - no lesson context prepended
+  message: string;
+  conversationHistory: Array<{ role: 'user' | 'assistant'; content: string }>;
+}
+
+export interface ChatStreamResult {
+  message: string;
+  // True when the stream was cancelled before Ky'Orda finished
+  aborted: boolean;
+}
+
+interface StreamOptions {
+  onDelta: (text: string, fullMessage: string) => void;
+  signal?: AbortSignal;
+  // Counts against this session's quota rather than only the shared IP's
+  sessionId?: string;
+}
+
+export async function streamChat(
+  request: ChatRequest,
+  { onDelta, signal, sessionId }: StreamOptions
+): Promise<ChatStreamResult> {
+  let message = '';
+
+  try {
+    const response = await fetch('/api/chat', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Accept': 'text/event-stream',
+        ...(sessionId ? { [SESSION_HEADER]: sessionId } : {}),
+      },
+      body: JSON.stringify({ ...request, stream: true }),
+      signal,
+    });
+
+    checkRateLimit(response);
+    await checkServicePaused(response);
+    if (!response.ok || !response.body) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(errorData.error || `API Error: ${response.status}`);
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const events = buffer.split('\n\n');
+      buffer = events.pop() || '';
+
+      for (const rawEvent of events) {
+        if (!rawEvent.startsWith('data: ')) continue;
+        const event = JSON.parse(rawEvent.slice(6));
+
+        if (event.type === 'delta') {
+          message += event.text;
+          onDelta(event.text, message);
+        } else if (event.type === 'error') {
+          throw new Error(event.error);
+        }
+      }
+    }
+
+    return { message, aborted: false };
+  } catch (err) {
+    if (signal?.aborted) {
+      return { message, aborted: true };
+    }
+    throw err;
+  }
+}
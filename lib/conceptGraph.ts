@@ -0,0 +1,114 @@
+// lib/conceptGraph.ts
+// Prerequisite graph over the curriculum - which concepts are unlocked, which are mastered,
+// and which earlier concept to send a struggling student back to
+
+import { modules } from './curriculum';
+import { MASTERED_THRESHOLD } from './mastery';
+import type { Concept, Module } from './curriculum';
+
+// ============================================
+// TYPES
+// ============================================
+
+export type ConceptStatus = 'locked' | 'unlocked' | 'mastered';
+
+export interface ConceptNode {
+  concept: Concept;
+  moduleId: string;
+  prerequisites: string[];
+  // Concepts that list this one as a prerequisite
+  dependents: string[];
+  // Longest chain of prerequisites below this concept - its row on the map
+  depth: number;
+}
+
+export interface ConceptGraph {
+  // In curriculum order
+  nodes: ConceptNode[];
+  byId: Record<string, ConceptNode>;
+}
+
+// What the learner has done so far, keyed by concept id
+export interface ConceptProgress {
+  completed: Record<string, boolean>;
+  mastery: Record<string, number>;
+}
+
+export interface WeakPrerequisite {
+  id: string;
+  title: string;
+  // Undefined when the student hasn't studied it yet
+  mastery?: number;
+}
+
+// ============================================
+// GRAPH
+// ============================================
+
+export function buildConceptGraph(modules: Module[]): ConceptGraph {
+  const nodes: ConceptNode[] = [];
+  const byId: Record<string, ConceptNode> = {};
+
+  modules.forEach(module => {
+    module.concepts.forEach(concept => {
+      // Validation guarantees prerequisites come earlier, so their depth is already known
+      const prerequisites = (concept.prerequisites || []).filter(id => byId[id]);
+      const node: ConceptNode = {
+        concept,
+        moduleId: module.id,
+        prerequisites,
+        dependents: [],
+        depth: prerequisites.reduce((depth, id) => Math.max(depth, byId[id].depth + 1), 0),
+      };
+      prerequisites.forEach(id => byId[id].dependents.push(concept.id));
+      nodes.push(node);
+      byId[concept.id] = node;
+    });
+  });
+
+  return { nodes, byId };
+}
+
+export const conceptGraph = buildConceptGraph(modules);
+
+export function getConceptStatus(graph: ConceptGraph, conceptId: string, progress: ConceptProgress): ConceptStatus {
+  if ((progress.mastery[conceptId] ?? 0) >= MASTERED_THRESHOLD) return 'mastered';
+  const node = graph.byId[conceptId];
+  if (!node) return 'locked';
+  return node.prerequisites.every(id => progress.completed[id]) ? 'unlocked' : 'locked';
+}
+
+export function getMissingPrerequisites(graph: ConceptGraph, conceptId: string, progress: ConceptProgress): Concept[] {
+  return (graph.byId[conceptId]?.prerequisites || [])
+    .filter(id => !progress.completed[id])
+    .map(id => graph.byId[id].concept);
+}
+
+/**
+ * The prerequisite most worth going back to: the nearest one not yet mastered, weakest first.
+ * If every direct prerequisite is mastered, looks one level further down, and so on.
+ */
+export function findWeakPrerequisite(
+  graph: ConceptGraph,
+  conceptId: string,
+  mastery: Record<string, number>
+): WeakPrerequisite | null {
+  const seen = new Set<string>([conceptId]);
+  let level = graph.byId[conceptId]?.prerequisites || [];
+
+  while (level.length > 0) {
+    const weak = level
+      .filter(id => (mastery[id] ?? 0) < MASTERED_THRESHOLD)
+      .sort((a, b) => (mastery[a] ?? 0) - (mastery[b] ?? 0));
+
+    if (weak.length > 0) {
+      const { concept } = graph.byId[weak[0]];
+      return { id: concept.id, title: concept.title, mastery: mastery[concept.id] };
+    }
+
+    level.forEach(id => seen.add(id));
+    level = Array.from(new Set(level.flatMap(id => graph.byId[id].prerequisites))).filter(id => !seen.has(id));
+  }
+
+  return null;
+}
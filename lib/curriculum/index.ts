@@ -0,0 +1,34 @@
+// lib/curriculum/index.ts
+// Loads the versioned curriculum from /content and validates it
+// To add a concept, edit the module's JSON file - no React changes needed.
+
+import { contentSources } from './sources';
+import { validateCurriculum } from './validate';
+import type { Concept, Curriculum, Module } from './types';
+
+export * from './types';
+
+function loadCurriculum(): Curriculum {
+  const errors = validateCurriculum(contentSources.manifest, contentSources.moduleFiles);
+  if (errors.length > 0) {
+    throw new Error(`Invalid curriculum content:\n${errors.join('\n')}`);
+  }
+
+  const manifest = contentSources.manifest as { version: string; modules: string[] };
+  return {
+    version: manifest.version,
+    modules: manifest.modules.map(id => contentSources.moduleFiles[id] as Module),
+  };
+}
+
+export const curriculum = loadCurriculum();
+
+export const modules: Module[] = curriculum.modules;
+
+export function findConcept(conceptId: string): { module: Module; concept: Concept } | null {
+  for (const module of modules) {
+    const concept = module.concepts.find(c => c.id === conceptId);
+    if (concept) return { module, concept };
+  }
+  return null;
+}
@@ -0,0 +1,14 @@
+// lib/curriculum/sources.ts
+// Raw (unvalidated) curriculum content files
+// To add a module, create content/modules/<id>.json, list it in
+// content/curriculum.json and register the import below.
+
+import manifest from '../../content/curriculum.json';
+import quantumFoundation from '../../content/modules/quantum-foundation.json';
+
+export const contentSources = {
+  manifest: manifest as unknown,
+  moduleFiles: {
+    'quantum-foundation': quantumFoundation,
+  } as Record<string, unknown>,
+};
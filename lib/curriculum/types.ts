@@ -0,0 +1,194 @@
+// lib/curriculum/types.ts
+// Shape of the curriculum content loaded from /content
+
+import type { LewisStructure } from '../lewis';
+import type { RenderMode } from '../molecules';
+
+// Bump when the content file format changes in a non-backwards-compatible way
+// 2: a concept's visualType/orbitalType/molecules became a "visuals" list
+export const CONTENT_SCHEMA_VERSION = 2;
+
+// Keys of the visual registry (components/visuals/registry.tsx)
+export const VISUAL_TYPES = [
+  'atomicStructure',
+  'electronProperties',
+  'octetRule',
+  'orbital',
+  'schrodinger',
+  'carbonQuantum',
+  'electronConfig',
+  'covalentBonding',
+  'glucoseMolecule',
+  'glycineMolecule',
+  'grandConnection',
+  'molecule',
+] as const;
+
+export type VisualType = typeof VISUAL_TYPES[number];
+
+// Subshell the orbital visual opens on - students can switch to any other from there
+export const ORBITAL_TYPES = ['1s', '2s', '2p', '3s', '3p', '3d', '4s', '4p', '4d', '4f'] as const;
+
+export type OrbitalType = typeof ORBITAL_TYPES[number];
+
+export const QUESTION_TYPES = [
+  'choice',
+  'multi-select',
+  'numeric',
+  'ordering',
+  'short-text',
+  'matching',
+  'electron-configuration',
+  'lewis-structure',
+] as const;
+
+export type QuestionType = typeof QUESTION_TYPES[number];
+
+export const TEXT_NORMALIZERS = ['text', 'electron-configuration'] as const;
+
+export type TextNormalizer = typeof TEXT_NORMALIZERS[number];
+
+interface KnowledgeCheckBase {
+  id: string;
+  question: string;
+  explanation: string;
+}
+
+// Single answer - the original check format, so "type" may be left out
+export interface ChoiceCheck extends KnowledgeCheckBase {
+  type?: 'choice';
+  options: string[];
+  correct: number;
+}
+
+export interface MultiSelectCheck extends KnowledgeCheckBase {
+  type: 'multi-select';
+  options: string[];
+  // Every one of these must be selected, and nothing else
+  correct: number[];
+}
+
+export interface NumericCheck extends KnowledgeCheckBase {
+  type: 'numeric';
+  answer: number;
+  // Accepted distance either side of the answer
+  tolerance: number;
+  // Shown beside the input; a student may also type it (or one of acceptedUnits)
+  unit?: string;
+  acceptedUnits?: string[];
+}
+
+export interface OrderingCheck extends KnowledgeCheckBase {
+  type: 'ordering';
+  // Listed in the correct order - shuffled for the student
+  items: string[];
+}
+
+export interface ShortTextCheck extends KnowledgeCheckBase {
+  type: 'short-text';
+  // Any of these is accepted once both sides are normalised
+  answers: string[];
+  normalize?: TextNormalizer;
+  placeholder?: string;
+}
+
+export interface MatchingCheck extends KnowledgeCheckBase {
+  type: 'matching';
+  // Each left-hand item with its correct partner; partners may repeat
+  pairs: Array<{ left: string; right: string }>;
+}
+
+// Graded against the element's ground state, so any notation ("1s² 2s²", "[He] 2s2") is accepted
+export interface ElectronConfigurationCheck extends KnowledgeCheckBase {
+  type: 'electron-configuration';
+  // Element symbol, hydrogen to xenon
+  element: string;
+  placeholder?: string;
+}
+
+// Drawn in the Lewis builder and graded against one of the molecules in lib/lewis
+export interface LewisStructureCheck extends KnowledgeCheckBase {
+  type: 'lewis-structure';
+  // Key of LEWIS_MOLECULES, like "methane"
+  molecule: string;
+  // Elements on the builder's palette - defaults to the molecule's own
+  elements?: string[];
+}
+
+export type KnowledgeCheck =
+  | ChoiceCheck
+  | MultiSelectCheck
+  | NumericCheck
+  | OrderingCheck
+  | ShortTextCheck
+  | MatchingCheck
+  | ElectronConfigurationCheck
+  | LewisStructureCheck;
+
+/**
+ * A student's answer to one check:
+ * choice - option index; multi-select - option indices; numeric, short-text and electron-configuration - what they typed;
+ * ordering - item indices in the order given; matching - the chosen partner index per pair;
+ * lewis-structure - the structure as drawn.
+ */
+export type CheckAnswer = number | number[] | string | LewisStructure;
+
+// A 3D model read from public/molecules/<file>
+export interface MoleculeVisual {
+  type: 'molecule';
+  // "glucose.sdf" - .xyz, .mol, .sdf or .json
+  file: string;
+  caption?: string;
+  // Starting display mode - defaults to ball-and-stick
+  mode?: RenderMode;
+}
+
+export interface OrbitalVisual {
+  type: 'orbital';
+  // Defaults to 1s
+  orbital?: OrbitalType;
+}
+
+type FixedVisualType = Exclude<VisualType, 'molecule' | 'orbital'>;
+
+// The rest are drawn the same wherever they appear, so the key is all there is
+type FixedVisual = { [T in FixedVisualType]: { type: T } }[FixedVisualType];
+
+// One visual on a concept page: a registry key plus the parameters that visual takes
+export type VisualSpec = MoleculeVisual | OrbitalVisual | FixedVisual;
+
+export type VisualOf<T extends VisualType> = Extract<VisualSpec, { type: T }>;
+
+// Content Ky'Orda draws on when a student is struggling with a concept
+export interface Remediation {
+  alternativeExplanations: string[];
+  analogies?: string[];
+  // Targeted hints keyed by knowledge check id
+  checkHints?: Record<string, string>;
+  // Earlier concept ids worth reviewing first
+  reviewConcepts?: string[];
+}
+
+export interface Concept {
+  id: string;
+  title: string;
+  wisdom: string;
+  explanation: string;
+  // Shown in order between the wisdom card and the explanation
+  visuals: VisualSpec[];
+  knowledgeChecks: KnowledgeCheck[];
+  remediation: Remediation;
+  // Concept ids this one builds on - they must come earlier in the curriculum
+  prerequisites?: string[];
+}
+
+export interface Module {
+  id: string;
+  title: string;
+  concepts: Concept[];
+}
+
+export interface Curriculum {
+  version: string;
+  modules: Module[];
+}
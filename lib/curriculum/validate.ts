@@ -0,0 +1,436 @@
+// lib/curriculum/validate.ts
+// Schema validation for curriculum content files
+// Runs at build time (npm run validate:content) and again when the curriculum loads
+
+import { CONTENT_SCHEMA_VERSION, VISUAL_TYPES, ORBITAL_TYPES, QUESTION_TYPES, TEXT_NORMALIZERS } from './types';
+import type { VisualType } from './types';
+import { findElement } from '../electronConfiguration';
+import { LEWIS_ELEMENTS, LEWIS_MOLECULES, isLewisElement } from '../lewis';
+import { RENDER_MODES } from '../molecules';
+
+type JsonObject = Record<string, unknown>;
+
+interface ConceptRef {
+  path: string;
+  conceptId: string;
+  // Prerequisites have to be met before the concept, so they can't point forward
+  mustPrecede?: boolean;
+}
+
+const isObject = (value: unknown): value is JsonObject =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isNonEmptyString = (value: unknown): value is string =>
+  typeof value === 'string' && value.trim().length > 0;
+
+const isStringList = (value: unknown, minLength: number): value is string[] =>
+  Array.isArray(value) && value.length >= minLength && value.every(isNonEmptyString);
+
+const isIndex = (value: unknown, length: number): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value >= 0 && value < length;
+
+// Ids end up in URLs and analytics keys, so keep them slug-like
+const ID_PATTERN = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+
+// Molecule files are served from /molecules, so the name is all the path there is
+const MOLECULE_FILE_PATTERN = /^[a-z0-9]+(?:-[a-z0-9]+)*\.(xyz|mol|sdf|json)$/;
+
+export function validateCurriculum(
+  manifest: unknown,
+  moduleFiles: Record<string, unknown>
+): string[] {
+  const errors: string[] = [];
+
+  if (!isObject(manifest)) {
+    return ['curriculum.json: must be an object'];
+  }
+
+  if (!isNonEmptyString(manifest.version)) {
+    errors.push('curriculum.json: "version" is required');
+  }
+
+  if (!Array.isArray(manifest.modules) || manifest.modules.length === 0) {
+    errors.push('curriculum.json: "modules" must list at least one module id');
+    return errors;
+  }
+
+  const conceptIds = new Set<string>();
+  const checkIds = new Set<string>();
+  const conceptRefs: ConceptRef[] = [];
+
+  manifest.modules.forEach((moduleId, idx) => {
+    if (!isNonEmptyString(moduleId)) {
+      errors.push(`curriculum.json: modules[${idx}] must be a module id`);
+      return;
+    }
+    if (!(moduleId in moduleFiles)) {
+      errors.push(`curriculum.json: no content file registered for module "${moduleId}"`);
+      return;
+    }
+    errors.push(...validateModule(moduleId, moduleFiles[moduleId], conceptIds, checkIds, conceptRefs));
+  });
+
+  // Concept references can point forward or across modules, so resolve them last
+  for (const ref of conceptRefs) {
+    if (!conceptIds.has(ref.conceptId)) {
+      errors.push(`${ref.path}: unknown concept id "${ref.conceptId}"`);
+    } else if (ref.mustPrecede) {
+      errors.push(`${ref.path}: prerequisite "${ref.conceptId}" must come before this concept in the curriculum`);
+    }
+  }
+
+  for (const moduleId of Object.keys(moduleFiles)) {
+    if (!manifest.modules.includes(moduleId)) {
+      errors.push(`curriculum.json: module "${moduleId}" has a content file but is not listed`);
+    }
+  }
+
+  return errors;
+}
+
+function validateModule(
+  moduleId: string,
+  data: unknown,
+  conceptIds: Set<string>,
+  checkIds: Set<string>,
+  conceptRefs: ConceptRef[]
+): string[] {
+  const errors: string[] = [];
+  const file = `modules/${moduleId}.json`;
+
+  if (!isObject(data)) {
+    return [`${file}: must be an object`];
+  }
+
+  if (data.schemaVersion !== CONTENT_SCHEMA_VERSION) {
+    errors.push(`${file}: unsupported schemaVersion ${JSON.stringify(data.schemaVersion)} (expected ${CONTENT_SCHEMA_VERSION})`);
+  }
+  if (data.id !== moduleId) {
+    errors.push(`${file}: "id" must be "${moduleId}"`);
+  }
+  if (!isNonEmptyString(data.title)) {
+    errors.push(`${file}: "title" is required`);
+  }
+  if (!Array.isArray(data.concepts) || data.concepts.length === 0) {
+    errors.push(`${file}: "concepts" must contain at least one concept`);
+    return errors;
+  }
+
+  data.concepts.forEach((concept, idx) => {
+    errors.push(...validateConcept(`${file}: concepts[${idx}]`, concept, conceptIds, checkIds, conceptRefs));
+  });
+
+  return errors;
+}
+
+function validateConcept(
+  path: string,
+  concept: unknown,
+  conceptIds: Set<string>,
+  checkIds: Set<string>,
+  conceptRefs: ConceptRef[]
+): string[] {
+  const errors: string[] = [];
+
+  if (!isObject(concept)) {
+    return [`${path}: must be an object`];
+  }
+
+  if (!isNonEmptyString(concept.id) || !ID_PATTERN.test(concept.id)) {
+    errors.push(`${path}: "id" must be a lowercase slug`);
+  } else if (conceptIds.has(concept.id)) {
+    errors.push(`${path}: duplicate concept id "${concept.id}"`);
+  } else {
+    conceptIds.add(concept.id);
+  }
+
+  for (const field of ['title', 'wisdom', 'explanation']) {
+    if (!isNonEmptyString(concept[field])) {
+      errors.push(`${path}: "${field}" is required`);
+    }
+  }
+
+  for (const field of ['visualType', 'orbitalType', 'molecules']) {
+    if (field in concept) {
+      errors.push(`${path}: "${field}" was replaced by "visuals" in schemaVersion 2`);
+    }
+  }
+
+  if (!Array.isArray(concept.visuals) || concept.visuals.length === 0) {
+    errors.push(`${path}: "visuals" must list at least one visual`);
+  } else {
+    concept.visuals.forEach((visual, idx) => {
+      errors.push(...validateVisual(`${path}.visuals[${idx}]`, visual));
+    });
+  }
+
+  if (!Array.isArray(concept.knowledgeChecks)) {
+    errors.push(`${path}: "knowledgeChecks" must be an array`);
+    return errors;
+  }
+
+  concept.knowledgeChecks.forEach((check, idx) => {
+    errors.push(...validateKnowledgeCheck(`${path}.knowledgeChecks[${idx}]`, check, checkIds));
+  });
+
+  const ownCheckIds = concept.knowledgeChecks
+    .filter(isObject)
+    .map(check => check.id);
+  errors.push(...validateRemediation(`${path}.remediation`, concept.remediation, concept.id, ownCheckIds, conceptRefs));
+
+  if (concept.prerequisites !== undefined) {
+    if (!Array.isArray(concept.prerequisites)) {
+      errors.push(`${path}: "prerequisites" must be an array of concept ids`);
+    } else {
+      concept.prerequisites.forEach((id, idx) => {
+        const refPath = `${path}.prerequisites[${idx}]`;
+        if (!isNonEmptyString(id)) {
+          errors.push(`${refPath}: must be a concept id`);
+        } else if (id === concept.id) {
+          errors.push(`${refPath}: a concept cannot be its own prerequisite`);
+        } else if (!conceptIds.has(id)) {
+          // Not seen yet - either unknown or later in the curriculum, which the final pass reports
+          conceptRefs.push({ path: refPath, conceptId: id, mustPrecede: true });
+        }
+      });
+    }
+  }
+
+  return errors;
+}
+
+// Parameters each visual accepts besides "type" - anything else is most likely a typo
+const VISUAL_PARAMS: Partial<Record<VisualType, string[]>> = {
+  molecule: ['file', 'caption', 'mode'],
+  orbital: ['orbital'],
+};
+
+function validateVisual(path: string, visual: unknown): string[] {
+  if (!isObject(visual)) {
+    return [`${path}: must be an object`];
+  }
+
+  if (!(VISUAL_TYPES as readonly unknown[]).includes(visual.type)) {
+    return [`${path}: unknown visual type ${JSON.stringify(visual.type)} (expected one of ${VISUAL_TYPES.join(', ')})`];
+  }
+
+  const type = visual.type as VisualType;
+  const params = VISUAL_PARAMS[type] || [];
+  const errors = Object.keys(visual)
+    .filter(key => key !== 'type' && !params.includes(key))
+    .map(key => params.length > 0
+      ? `${path}: "${key}" isn't a parameter of ${type} (expected ${params.join(', ')})`
+      : `${path}: ${type} takes no parameters, but "${key}" was given`);
+
+  switch (type) {
+    case 'molecule':
+      // The file itself is parsed by scripts/validate-content.ts, which can read public/
+      if (!isNonEmptyString(visual.file) || !MOLECULE_FILE_PATTERN.test(visual.file)) {
+        errors.push(`${path}: "file" must be a file name in public/molecules ending in .xyz, .mol, .sdf or .json`);
+      }
+      if (visual.caption !== undefined && !isNonEmptyString(visual.caption)) {
+        errors.push(`${path}: "caption" must be a non-empty string`);
+      }
+      if (visual.mode !== undefined && !(RENDER_MODES as readonly unknown[]).includes(visual.mode)) {
+        errors.push(`${path}: unknown mode ${JSON.stringify(visual.mode)} (expected one of ${RENDER_MODES.join(', ')})`);
+      }
+      break;
+    case 'orbital':
+      if (visual.orbital !== undefined && !(ORBITAL_TYPES as readonly unknown[]).includes(visual.orbital)) {
+        errors.push(`${path}: unknown orbital ${JSON.stringify(visual.orbital)} (expected one of ${ORBITAL_TYPES.join(', ')})`);
+      }
+      break;
+  }
+
+  return errors;
+}
+
+function validateRemediation(
+  path: string,
+  remediation: unknown,
+  conceptId: unknown,
+  ownCheckIds: unknown[],
+  conceptRefs: ConceptRef[]
+): string[] {
+  const errors: string[] = [];
+
+  if (!isObject(remediation)) {
+    return [`${path}: is required`];
+  }
+
+  const alternatives = remediation.alternativeExplanations;
+  if (!Array.isArray(alternatives) || alternatives.length === 0 || !alternatives.every(isNonEmptyString)) {
+    errors.push(`${path}: "alternativeExplanations" must contain at least one non-empty string`);
+  }
+
+  if (remediation.analogies !== undefined) {
+    const analogies = remediation.analogies;
+    if (!Array.isArray(analogies) || !analogies.every(isNonEmptyString)) {
+      errors.push(`${path}: "analogies" must be an array of non-empty strings`);
+    }
+  }
+
+  if (remediation.checkHints !== undefined) {
+    if (!isObject(remediation.checkHints)) {
+      errors.push(`${path}: "checkHints" must map knowledge check ids to hints`);
+    } else {
+      for (const [checkId, hint] of Object.entries(remediation.checkHints)) {
+        if (!ownCheckIds.includes(checkId)) {
+          errors.push(`${path}.checkHints: "${checkId}" is not a knowledge check of this concept`);
+        } else if (!isNonEmptyString(hint)) {
+          errors.push(`${path}.checkHints: hint for "${checkId}" must be a non-empty string`);
+        }
+      }
+    }
+  }
+
+  if (remediation.reviewConcepts !== undefined) {
+    if (!Array.isArray(remediation.reviewConcepts)) {
+      errors.push(`${path}: "reviewConcepts" must be an array of concept ids`);
+    } else {
+      remediation.reviewConcepts.forEach((id, idx) => {
+        if (!isNonEmptyString(id)) {
+          errors.push(`${path}.reviewConcepts[${idx}]: must be a concept id`);
+        } else if (id === conceptId) {
+          errors.push(`${path}.reviewConcepts[${idx}]: a concept cannot review itself`);
+        } else {
+          conceptRefs.push({ path: `${path}.reviewConcepts[${idx}]`, conceptId: id });
+        }
+      });
+    }
+  }
+
+  return errors;
+}
+
+function validateKnowledgeCheck(
+  path: string,
+  check: unknown,
+  checkIds: Set<string>
+): string[] {
+  const errors: string[] = [];
+
+  if (!isObject(check)) {
+    return [`${path}: must be an object`];
+  }
+
+  if (!isNonEmptyString(check.id)) {
+    errors.push(`${path}: "id" is required`);
+  } else if (checkIds.has(check.id)) {
+    errors.push(`${path}: duplicate knowledge check id "${check.id}"`);
+  } else {
+    checkIds.add(check.id);
+  }
+
+  if (!isNonEmptyString(check.question)) {
+    errors.push(`${path}: "question" is required`);
+  }
+  if (!isNonEmptyString(check.explanation)) {
+    errors.push(`${path}: "explanation" is required`);
+  }
+
+  const type = check.type === undefined ? 'choice' : check.type;
+  if (!(QUESTION_TYPES as readonly unknown[]).includes(type)) {
+    errors.push(`${path}: unknown type ${JSON.stringify(check.type)} (expected one of ${QUESTION_TYPES.join(', ')})`);
+    return errors;
+  }
+
+  switch (type) {
+    case 'choice':
+    case 'multi-select':
+      errors.push(...validateOptions(path, check, type === 'multi-select'));
+      break;
+    case 'numeric':
+      if (typeof check.answer !== 'number' || !Number.isFinite(check.answer)) {
+        errors.push(`${path}: "answer" must be a number`);
+      }
+      if (typeof check.tolerance !== 'number' || !(check.tolerance >= 0)) {
+        errors.push(`${path}: "tolerance" must be a number of at least 0`);
+      }
+      if (check.unit !== undefined && !isNonEmptyString(check.unit)) {
+        errors.push(`${path}: "unit" must be a non-empty string`);
+      }
+      if (check.acceptedUnits !== undefined && !isStringList(check.acceptedUnits, 1)) {
+        errors.push(`${path}: "acceptedUnits" must be an array of non-empty strings`);
+      }
+      break;
+    case 'ordering':
+      if (!isStringList(check.items, 2)) {
+        errors.push(`${path}: "items" must list at least two non-empty strings in the correct order`);
+      } else if (new Set(check.items).size !== check.items.length) {
+        errors.push(`${path}: "items" must not repeat - the order would be ambiguous`);
+      }
+      break;
+    case 'short-text':
+      if (!isStringList(check.answers, 1)) {
+        errors.push(`${path}: "answers" must contain at least one accepted answer`);
+      }
+      if (check.normalize !== undefined && !(TEXT_NORMALIZERS as readonly unknown[]).includes(check.normalize)) {
+        errors.push(`${path}: unknown normalize ${JSON.stringify(check.normalize)} (expected one of ${TEXT_NORMALIZERS.join(', ')})`);
+      }
+      if (check.placeholder !== undefined && typeof check.placeholder !== 'string') {
+        errors.push(`${path}: "placeholder" must be a string`);
+      }
+      break;
+    case 'matching':
+      if (
+        !Array.isArray(check.pairs) ||
+        check.pairs.length < 2 ||
+        !check.pairs.every(pair => isObject(pair) && isNonEmptyString(pair.left) && isNonEmptyString(pair.right))
+      ) {
+        errors.push(`${path}: "pairs" must contain at least two { "left", "right" } pairs of non-empty strings`);
+      }
+      break;
+    case 'electron-configuration':
+      if (!isNonEmptyString(check.element) || findElement(check.element)?.symbol !== check.element) {
+        errors.push(`${path}: "element" must be an element symbol from H to Xe, like "C"`);
+      }
+      if (check.placeholder !== undefined && typeof check.placeholder !== 'string') {
+        errors.push(`${path}: "placeholder" must be a string`);
+      }
+      break;
+    case 'lewis-structure': {
+      const molecule = typeof check.molecule === 'string' && Object.prototype.hasOwnProperty.call(LEWIS_MOLECULES, check.molecule)
+        ? LEWIS_MOLECULES[check.molecule]
+        : null;
+      if (!molecule) {
+        errors.push(`${path}: unknown molecule ${JSON.stringify(check.molecule)} (expected one of ${Object.keys(LEWIS_MOLECULES).join(', ')})`);
+      }
+      if (check.elements !== undefined) {
+        if (!Array.isArray(check.elements) || !check.elements.every(isLewisElement)) {
+          errors.push(`${path}: "elements" must list element symbols from ${LEWIS_ELEMENTS.join(', ')}`);
+        } else if (molecule) {
+          const missing = molecule.structure.atoms.map(atom => atom.element).filter(symbol => !(check.elements as string[]).includes(symbol));
+          if (missing.length > 0) {
+            errors.push(`${path}: "elements" must include ${Array.from(new Set(missing)).join(', ')} to build ${molecule.name}`);
+          }
+        }
+      }
+      break;
+    }
+  }
+
+  return errors;
+}
+
+function validateOptions(path: string, check: JsonObject, multiple: boolean): string[] {
+  if (!isStringList(check.options, 2)) {
+    return [`${path}: "options" must contain at least two non-empty strings`];
+  }
+
+  const optionCount = check.options.length;
+  if (!multiple) {
+    return isIndex(check.correct, optionCount)
+      ? []
+      : [`${path}: "correct" must be an option index between 0 and ${optionCount - 1}`];
+  }
+
+  const correct = check.correct;
+  if (!Array.isArray(correct) || correct.length === 0 || !correct.every(idx => isIndex(idx, optionCount))) {
+    return [`${path}: "correct" must list one or more option indices between 0 and ${optionCount - 1}`];
+  }
+  if (new Set(correct).size !== correct.length) {
+    return [`${path}: "correct" must not repeat an option`];
+  }
+  return [];
+}
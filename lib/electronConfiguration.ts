@@ -0,0 +1,328 @@
+// lib/electronConfiguration.ts
+// Reads typed electron configurations ("1s² 2s² 2p²", "1s2 2s2 2p2", "[He] 2s2 2p2") into subshell occupancies
+// and grades them against an element's ground state with feedback a student can act on
+
+// ============================================
+// ELEMENTS
+// ============================================
+
+// Symbols and names in atomic-number order, hydrogen to xenon
+const ELEMENTS: Array<[string, string]> = [
+  ['H', 'Hydrogen'], ['He', 'Helium'], ['Li', 'Lithium'], ['Be', 'Beryllium'], ['B', 'Boron'],
+  ['C', 'Carbon'], ['N', 'Nitrogen'], ['O', 'Oxygen'], ['F', 'Fluorine'], ['Ne', 'Neon'],
+  ['Na', 'Sodium'], ['Mg', 'Magnesium'], ['Al', 'Aluminium'], ['Si', 'Silicon'], ['P', 'Phosphorus'],
+  ['S', 'Sulfur'], ['Cl', 'Chlorine'], ['Ar', 'Argon'], ['K', 'Potassium'], ['Ca', 'Calcium'],
+  ['Sc', 'Scandium'], ['Ti', 'Titanium'], ['V', 'Vanadium'], ['Cr', 'Chromium'], ['Mn', 'Manganese'],
+  ['Fe', 'Iron'], ['Co', 'Cobalt'], ['Ni', 'Nickel'], ['Cu', 'Copper'], ['Zn', 'Zinc'],
+  ['Ga', 'Gallium'], ['Ge', 'Germanium'], ['As', 'Arsenic'], ['Se', 'Selenium'], ['Br', 'Bromine'],
+  ['Kr', 'Krypton'], ['Rb', 'Rubidium'], ['Sr', 'Strontium'], ['Y', 'Yttrium'], ['Zr', 'Zirconium'],
+  ['Nb', 'Niobium'], ['Mo', 'Molybdenum'], ['Tc', 'Technetium'], ['Ru', 'Ruthenium'], ['Rh', 'Rhodium'],
+  ['Pd', 'Palladium'], ['Ag', 'Silver'], ['Cd', 'Cadmium'], ['In', 'Indium'], ['Sn', 'Tin'],
+  ['Sb', 'Antimony'], ['Te', 'Tellurium'], ['I', 'Iodine'], ['Xe', 'Xenon'],
+];
+
+export interface ChemicalElement {
+  symbol: string;
+  name: string;
+  atomicNumber: number;
+}
+
+// Case-insensitive, by symbol ("C", "cl") or name ("carbon")
+export function findElement(symbolOrName: string): ChemicalElement | null {
+  const key = symbolOrName.trim().toLowerCase();
+  const idx = ELEMENTS.findIndex(([symbol, name]) => symbol.toLowerCase() === key || name.toLowerCase() === key);
+  return idx === -1 ? null : { symbol: ELEMENTS[idx][0], name: ELEMENTS[idx][1], atomicNumber: idx + 1 };
+}
+
+export const NOBLE_GAS_CORES = ['He', 'Ne', 'Ar', 'Kr', 'Xe'] as const;
+
+// ============================================
+// SUBSHELLS
+// ============================================
+
+const SUBSHELL_LETTERS = ['s', 'p', 'd', 'f'] as const;
+
+export interface Subshell {
+  // Principal quantum number (shell)
+  n: number;
+  // Angular momentum: 0 = s, 1 = p, 2 = d, 3 = f
+  l: number;
+  electrons: number;
+}
+
+export const subshellLabel = (n: number, l: number): string => `${n}${SUBSHELL_LETTERS[l]}`;
+
+// Pauli: each orbital holds two electrons, and a subshell has 2l + 1 orbitals
+export const subshellCapacity = (l: number): number => 2 * (2 * l + 1);
+
+// Madelung rule: lower n + l fills first, ties go to the lower shell - 1s 2s 2p 3s 3p 4s 3d 4p ...
+export const AUFBAU_ORDER: Array<{ n: number; l: number }> = (() => {
+  const order: Array<{ n: number; l: number }> = [];
+  for (let n = 1; n <= 7; n++) {
+    for (let l = 0; l < Math.min(n, SUBSHELL_LETTERS.length); l++) order.push({ n, l });
+  }
+  return order.sort((a, b) => (a.n + a.l) - (b.n + b.l) || a.n - b.n);
+})();
+
+// Hund's rule: electrons spread one per orbital before pairing up - 2p³ is ↑ ↑ ↑, 2p⁴ is ↑↓ ↑ ↑
+export function orbitalFilling(subshell: Subshell): number[] {
+  const orbitals = 2 * subshell.l + 1;
+  return Array.from({ length: orbitals }, (_, i) =>
+    (subshell.electrons > i ? 1 : 0) + (subshell.electrons > orbitals + i ? 1 : 0)
+  );
+}
+
+const aufbauRank = (n: number, l: number) => AUFBAU_ORDER.findIndex(s => s.n === n && s.l === l);
+
+// Ground states that break the Aufbau pattern - a half-filled or filled d subshell wins over a full s
+const AUFBAU_EXCEPTIONS: Record<string, string> = {
+  Cr: '[Ar] 4s1 3d5',
+  Cu: '[Ar] 4s1 3d10',
+  Nb: '[Kr] 5s1 4d4',
+  Mo: '[Kr] 5s1 4d5',
+  Ru: '[Kr] 5s1 4d7',
+  Rh: '[Kr] 5s1 4d8',
+  Pd: '[Kr] 4d10',
+  Ag: '[Kr] 5s1 4d10',
+};
+
+function fillAufbau(electronCount: number): Subshell[] {
+  const subshells: Subshell[] = [];
+  let remaining = electronCount;
+  for (const { n, l } of AUFBAU_ORDER) {
+    if (remaining <= 0) break;
+    const electrons = Math.min(remaining, subshellCapacity(l));
+    subshells.push({ n, l, electrons });
+    remaining -= electrons;
+  }
+  return subshells;
+}
+
+/** The element's ground-state configuration, in Aufbau order. */
+export function groundStateConfiguration(element: ChemicalElement): Subshell[] {
+  const exception = AUFBAU_EXCEPTIONS[element.symbol];
+  if (exception) {
+    const parsed = parseElectronConfiguration(exception);
+    return sortAufbau(parsed.subshells);
+  }
+  return fillAufbau(element.atomicNumber);
+}
+
+const sortAufbau = (subshells: Subshell[]) =>
+  [...subshells].sort((a, b) => aufbauRank(a.n, a.l) - aufbauRank(b.n, b.l));
+
+// ============================================
+// PARSING
+// ============================================
+
+export interface ParsedConfiguration {
+  // Core expanded, in the order written (core first); empty subshells ("2p0") are kept
+  subshells: Subshell[];
+  // Noble gas symbol when written in shorthand
+  core: string | null;
+  // Problems reading the text - when there are any, subshells is only what could be read
+  errors: string[];
+}
+
+const SUPERSCRIPTS: Record<string, string> = {
+  '⁰': '0', '¹': '1', '²': '2', '³': '3', '⁴': '4', '⁵': '5', '⁶': '6', '⁷': '7', '⁸': '8', '⁹': '9',
+};
+
+// "1S² 2s^2, 2p2." → "1s22s22p2" - what's left is a core in brackets and subshell terms
+function compact(input: string): string {
+  return input
+    .replace(/[⁰¹²³⁴⁵⁶⁷⁸⁹]/g, digit => SUPERSCRIPTS[digit])
+    .replace(/[\s,^.]/g, '')
+    .toLowerCase();
+}
+
+// Subshell terms: shell digit, letter, then an electron count of one or two digits
+const TERM_PATTERN = /^([1-7])([spdf])(\d)(\d?)/;
+
+export function parseElectronConfiguration(input: string): ParsedConfiguration {
+  let rest = compact(input);
+  const subshells: Subshell[] = [];
+  const errors: string[] = [];
+  let core: string | null = null;
+
+  if (!rest) {
+    return { subshells, core, errors: ['Type a configuration, like 1s2 2s1'] };
+  }
+
+  const coreMatch = rest.match(/^\[([a-z]{1,2})\]/);
+  if (coreMatch) {
+    const gas = NOBLE_GAS_CORES.find(symbol => symbol.toLowerCase() === coreMatch[1]);
+    if (!gas) {
+      const written = coreMatch[1].charAt(0).toUpperCase() + coreMatch[1].slice(1);
+      errors.push(`[${written}] isn't a noble gas core - use one of ${NOBLE_GAS_CORES.map(s => `[${s}]`).join(', ')}`);
+      return { subshells, core, errors };
+    }
+    core = gas;
+    subshells.push(...groundStateConfiguration(findElement(gas) as ChemicalElement));
+    rest = rest.slice(coreMatch[0].length);
+  }
+
+  while (rest) {
+    const term = rest.match(TERM_PATTERN);
+    if (!term) {
+      errors.push(rest.startsWith('[')
+        ? 'A noble gas core like [He] can only come at the start'
+        : `Couldn't read "${rest}" - write each subshell as shell, letter and electron count, like 2p3`);
+      break;
+    }
+
+    // A second digit is part of the count ("3d10") unless it starts the next term ("1s22s2")
+    const startsNextTerm = /^[spdf]/.test(rest.slice(term[0].length));
+    const twoDigits = term[4] !== '' && !startsNextTerm;
+    const electrons = Number(twoDigits ? term[3] + term[4] : term[3]);
+
+    subshells.push({ n: Number(term[1]), l: SUBSHELL_LETTERS.indexOf(term[2] as typeof SUBSHELL_LETTERS[number]), electrons });
+    rest = rest.slice(twoDigits ? term[0].length : term[0].length - term[4].length);
+  }
+
+  if (!errors.length && subshells.length === 0) {
+    errors.push('Add the subshells after the core, like [He] 2s2');
+  }
+
+  return { subshells, core, errors };
+}
+
+// ============================================
+// FORMATTING
+// ============================================
+
+const SUPERSCRIPT_DIGITS = '⁰¹²³⁴⁵⁶⁷⁸⁹';
+
+const toSuperscript = (count: number) =>
+  String(count).split('').map(digit => SUPERSCRIPT_DIGITS[Number(digit)]).join('');
+
+/**
+ * Writes subshells in Aufbau order - "1s² 2s² 2p²", or "1s2 2s2 2p2" with plain digits.
+ * With `shorthand`, the largest noble gas core that fits is written as [He], [Ne], ...
+ */
+export function formatConfiguration(
+  subshells: Subshell[],
+  options: { superscript?: boolean; shorthand?: boolean } = {}
+): string {
+  const { superscript = true, shorthand = false } = options;
+  let terms = sortAufbau(subshells.filter(s => s.electrons > 0));
+  let core = '';
+
+  if (shorthand) {
+    for (const gas of [...NOBLE_GAS_CORES].reverse()) {
+      const coreShells = groundStateConfiguration(findElement(gas) as ChemicalElement);
+      const contained = coreShells.every(c => terms.some(t => t.n === c.n && t.l === c.l && t.electrons === c.electrons));
+      if (contained && terms.length > coreShells.length) {
+        core = `[${gas}]`;
+        terms = terms.filter(t => !coreShells.some(c => c.n === t.n && c.l === t.l));
+        break;
+      }
+    }
+  }
+
+  const written = terms.map(s => subshellLabel(s.n, s.l) + (superscript ? toSuperscript(s.electrons) : s.electrons));
+  return [core, ...written].filter(Boolean).join(' ');
+}
+
+/**
+ * Canonical occupancy - "1s2 2s2 2p2" whatever notation was typed - or null if it can't be read.
+ * Two configurations are the same answer exactly when their canonical forms match.
+ */
+export function canonicalConfiguration(input: string): string | null {
+  const parsed = parseElectronConfiguration(input);
+  if (parsed.errors.length > 0) return null;
+
+  const merged = new Map<string, Subshell>();
+  parsed.subshells.forEach(s => {
+    const key = subshellLabel(s.n, s.l);
+    const existing = merged.get(key);
+    merged.set(key, { ...s, electrons: (existing?.electrons || 0) + s.electrons });
+  });
+  return formatConfiguration(Array.from(merged.values()), { superscript: false });
+}
+
+// ============================================
+// GRADING
+// ============================================
+
+export interface ConfigurationGrade {
+  correct: boolean;
+  // Specific problems, most fundamental first - empty when correct
+  feedback: string[];
+  // The ground state, for showing after a wrong answer
+  expected: string;
+}
+
+/**
+ * Grades a typed configuration for an element.
+ * Checks, in order: it can be read, every subshell exists and is listed once, no subshell holds more than
+ * its Pauli limit, the electron count matches the element, and lower-energy subshells are full before
+ * higher ones get electrons (allowing for the elements whose ground state breaks that pattern).
+ */
+export function gradeElectronConfiguration(input: string, element: ChemicalElement): ConfigurationGrade {
+  const groundState = groundStateConfiguration(element);
+  const expected = formatConfiguration(groundState);
+  const parsed = parseElectronConfiguration(input);
+
+  if (parsed.errors.length > 0) {
+    return { correct: false, feedback: parsed.errors, expected };
+  }
+
+  const feedback: string[] = [];
+  const seen = new Set<string>();
+  const coreLength = parsed.core ? groundStateConfiguration(findElement(parsed.core) as ChemicalElement).length : 0;
+  const inCore = (s: Subshell) => parsed.subshells.slice(0, coreLength).some(c => c.n === s.n && c.l === s.l);
+
+  parsed.subshells.forEach((s, idx) => {
+    const label = subshellLabel(s.n, s.l);
+    if (s.l >= s.n) {
+      const allowed = SUBSHELL_LETTERS.slice(0, Math.min(s.n, SUBSHELL_LETTERS.length)).map(letter => `${s.n}${letter}`);
+      feedback.push(`${label} doesn't exist - shell ${s.n} only has ${allowed.join(' and ')}`);
+      return;
+    }
+    if (seen.has(label)) {
+      feedback.push(idx >= coreLength && inCore(s)
+        ? `${label} is already inside [${parsed.core}]`
+        : `${label} is listed more than once - put all of its electrons in one term`);
+      return;
+    }
+    seen.add(label);
+    if (s.electrons > subshellCapacity(s.l)) {
+      feedback.push(`${label} can hold at most ${subshellCapacity(s.l)} electrons`);
+    }
+  });
+  if (feedback.length > 0) return { correct: false, feedback, expected };
+
+  const total = parsed.subshells.reduce((sum, s) => sum + s.electrons, 0);
+  if (total !== element.atomicNumber) {
+    feedback.push(`${element.name} has ${element.atomicNumber} electrons, but this configuration has ${total}`);
+  }
+
+  const given = sortAufbau(parsed.subshells.filter(s => s.electrons > 0));
+  const matchesGroundState = given.length === groundState.length &&
+    given.every((s, idx) => s.n === groundState[idx].n && s.l === groundState[idx].l && s.electrons === groundState[idx].electrons);
+  if (matchesGroundState) return { correct: true, feedback: [], expected };
+
+  // Aufbau: the first subshell left short while a higher-energy one has electrons
+  const highest = given.length > 0 ? aufbauRank(given[given.length - 1].n, given[given.length - 1].l) : -1;
+  for (let rank = 0; rank < highest; rank++) {
+    const { n, l } = AUFBAU_ORDER[rank];
+    const filled = given.find(s => s.n === n && s.l === l)?.electrons || 0;
+    if (filled < subshellCapacity(l)) {
+      const next = given.find(s => aufbauRank(s.n, s.l) > rank) as Subshell;
+      feedback.push(`${subshellLabel(n, l)} must be full before electrons go into ${subshellLabel(next.n, next.l)}`);
+      break;
+    }
+  }
+
+  // Right count but not the ground state - for these few elements, following the filling order is the mistake
+  if (AUFBAU_EXCEPTIONS[element.symbol] && total === element.atomicNumber) {
+    return {
+      correct: false,
+      feedback: [`${element.name} is an exception to the filling order - its ground state is ${formatConfiguration(groundState, { shorthand: true })}`],
+      expected,
+    };
+  }
+
+  return { correct: false, feedback, expected };
+}
@@ -0,0 +1,205 @@
+// lib/grading.ts
+// Graders for every knowledge check type - one place decides what counts as correct,
+// shared by the lesson, daily review, analytics and the tutor prompt
+
+import {
+  canonicalConfiguration,
+  findElement,
+  formatConfiguration,
+  gradeElectronConfiguration,
+  groundStateConfiguration,
+} from './electronConfiguration';
+import type { ChemicalElement } from './electronConfiguration';
+import { LEWIS_MOLECULES, describeLewisStructure, gradeLewisStructure, isLewisStructure } from './lewis';
+import type { LewisStructure } from './lewis';
+import type {
+  CheckAnswer,
+  ElectronConfigurationCheck,
+  KnowledgeCheck,
+  LewisStructureCheck,
+  MatchingCheck,
+  NumericCheck,
+  QuestionType,
+  ShortTextCheck,
+  TextNormalizer,
+} from './curriculum';
+
+export const questionType = (check: KnowledgeCheck): QuestionType => check.type || 'choice';
+
+const isIndexList = (answer: CheckAnswer | undefined): answer is number[] =>
+  Array.isArray(answer) && answer.every(Number.isInteger);
+
+// ============================================
+// NORMALISATION
+// ============================================
+
+const NORMALIZERS: Record<TextNormalizer, (text: string) => string> = {
+  text: text => text.trim().toLowerCase().replace(/\s+/g, ' ').replace(/[.!]+$/, ''),
+  // "1s² 2s² 2p²", "1s^2 2s^2 2p^2" and "[He] 2s2 2p2" all become "1s2 2s2 2p2"
+  'electron-configuration': text => canonicalConfiguration(text) ?? text.toLowerCase().replace(/\s+/g, ''),
+};
+
+export function normalizeText(text: string, normalizer: TextNormalizer = 'text'): string {
+  return NORMALIZERS[normalizer](text);
+}
+
+const normalizeUnit = (unit: string) => unit.trim().toLowerCase().replace(/\s+/g, '');
+
+/**
+ * Reads a typed numeric answer like "104.5", "104,5°" or "104.5 degrees".
+ * Returns null when there's no number, or the unit isn't one the check accepts.
+ */
+export function parseNumericAnswer(check: NumericCheck, input: string): number | null {
+  const match = input.trim().match(/^([-+]?\d*[.,]?\d+(?:e[-+]?\d+)?)\s*(.*)$/i);
+  if (!match) return null;
+
+  const unit = normalizeUnit(match[2]);
+  if (unit) {
+    const accepted = [check.unit, ...(check.acceptedUnits || [])]
+      .filter((u): u is string => Boolean(u))
+      .map(normalizeUnit);
+    if (!accepted.includes(unit)) return null;
+  }
+
+  const value = Number(match[1].replace(',', '.'));
+  return Number.isFinite(value) ? value : null;
+}
+
+// Partners for a matching check, deduplicated and in a stable order that gives nothing away
+export function matchingOptions(check: MatchingCheck): string[] {
+  return Array.from(new Set(check.pairs.map(pair => pair.right)))
+    .sort((a, b) => a.localeCompare(b, undefined, { numeric: true }));
+}
+
+// ============================================
+// GRADING
+// ============================================
+
+// Whether an answer has the right shape for the check - anything else is treated as unanswered
+export function isAnswerValid(check: KnowledgeCheck, answer: CheckAnswer | undefined): boolean {
+  switch (check.type) {
+    case 'multi-select':
+      return isIndexList(answer) && answer.length > 0 && answer.every(i => i >= 0 && i < check.options.length);
+    case 'ordering':
+      return isIndexList(answer) && answer.length === check.items.length &&
+        new Set(answer).size === answer.length && answer.every(i => i >= 0 && i < check.items.length);
+    case 'matching': {
+      const optionCount = matchingOptions(check).length;
+      return isIndexList(answer) && answer.length === check.pairs.length && answer.every(i => i >= 0 && i < optionCount);
+    }
+    case 'numeric':
+    case 'short-text':
+    case 'electron-configuration':
+      return typeof answer === 'string' && answer.trim().length > 0;
+    case 'lewis-structure':
+      return isLewisStructure(answer) && answer.atoms.length > 0;
+    default:
+      return typeof answer === 'number' && Number.isInteger(answer) && answer >= 0 && answer < check.options.length;
+  }
+}
+
+export function gradeCheck(check: KnowledgeCheck, answer: CheckAnswer | undefined): boolean {
+  if (!isAnswerValid(check, answer)) return false;
+
+  switch (check.type) {
+    case 'multi-select': {
+      const selected = new Set(answer as number[]);
+      return selected.size === check.correct.length && check.correct.every(i => selected.has(i));
+    }
+    case 'ordering':
+      return (answer as number[]).every((itemIdx, position) => itemIdx === position);
+    case 'matching': {
+      const options = matchingOptions(check);
+      return check.pairs.every((pair, idx) => options[(answer as number[])[idx]] === pair.right);
+    }
+    case 'numeric': {
+      const value = parseNumericAnswer(check, answer as string);
+      return value !== null && Math.abs(value - check.answer) <= check.tolerance + 1e-9;
+    }
+    case 'short-text':
+      return gradeShortText(check, answer as string);
+    case 'electron-configuration':
+      return gradeElectronConfiguration(answer as string, targetElement(check)).correct;
+    case 'lewis-structure':
+      return gradeLewisStructure(answer as LewisStructure, targetMolecule(check)).correct;
+    default:
+      return answer === check.correct;
+  }
+}
+
+// Validation guarantees the symbol and molecule are known
+const targetElement = (check: ElectronConfigurationCheck) => findElement(check.element) as ChemicalElement;
+export const targetMolecule = (check: LewisStructureCheck) => LEWIS_MOLECULES[check.molecule];
+
+/**
+ * What exactly is wrong with an answer, for checks that can tell - "2p can hold at most 6 electrons".
+ * Empty for correct answers and for question types that are simply right or wrong.
+ */
+export function answerFeedback(check: KnowledgeCheck, answer: CheckAnswer | undefined): string[] {
+  if (!isAnswerValid(check, answer)) return [];
+
+  switch (check.type) {
+    case 'electron-configuration':
+      return gradeElectronConfiguration(answer as string, targetElement(check)).feedback;
+    case 'lewis-structure':
+      return gradeLewisStructure(answer as LewisStructure, targetMolecule(check)).feedback;
+    default:
+      return [];
+  }
+}
+
+function gradeShortText(check: ShortTextCheck, answer: string): boolean {
+  const given = normalizeText(answer, check.normalize);
+  return check.answers.some(accepted => normalizeText(accepted, check.normalize) === given);
+}
+
+// ============================================
+// DESCRIPTIONS (tutor prompt, summaries)
+// ============================================
+
+export function describeCorrectAnswer(check: KnowledgeCheck): string {
+  switch (check.type) {
+    case 'multi-select':
+      return check.correct.map(i => check.options[i]).join('; ');
+    case 'ordering':
+      return check.items.join(' → ');
+    case 'matching':
+      return check.pairs.map(pair => `${pair.left} = ${pair.right}`).join('; ');
+    case 'numeric':
+      return `${check.answer}${check.unit ? ` ${check.unit}` : ''} (±${check.tolerance})`;
+    case 'short-text':
+      return check.answers[0];
+    case 'electron-configuration':
+      return formatConfiguration(groundStateConfiguration(targetElement(check)));
+    case 'lewis-structure': {
+      const molecule = targetMolecule(check);
+      return `${molecule.name} (${molecule.formula}): ${describeLewisStructure(molecule.structure)}`;
+    }
+    default:
+      return check.options[check.correct];
+  }
+}
+
+// What the student answered, in words - null if the answer can't be read against the check
+export function describeAnswer(check: KnowledgeCheck, answer: CheckAnswer | undefined): string | null {
+  if (!isAnswerValid(check, answer)) return null;
+
+  switch (check.type) {
+    case 'multi-select':
+      return (answer as number[]).map(i => check.options[i]).join('; ');
+    case 'ordering':
+      return (answer as number[]).map(i => check.items[i]).join(' → ');
+    case 'matching': {
+      const options = matchingOptions(check);
+      return check.pairs.map((pair, idx) => `${pair.left} = ${options[(answer as number[])[idx]]}`).join('; ');
+    }
+    case 'numeric':
+    case 'short-text':
+    case 'electron-configuration':
+      return (answer as string).trim();
+    case 'lewis-structure':
+      return describeLewisStructure(answer as LewisStructure);
+    default:
+      return check.options[answer as number];
+  }
+}
@@ -0,0 +1,91 @@
+// lib/learnRoutes.ts
+// URLs for the learning screens - /learn/[moduleId]/[conceptId] - so a teacher can link straight to a concept
+// Everything else in the app (welcome, review, completion) lives at /
+
+import { modules } from './curriculum';
+
+export const HOME_PATH = '/';
+
+export interface LearnRoute {
+  moduleIdx: number;
+  conceptIdx: number;
+}
+
+export function learnPath(moduleId: string, conceptId: string): string {
+  return `/learn/${encodeURIComponent(moduleId)}/${encodeURIComponent(conceptId)}`;
+}
+
+export function learnPathForIndices(moduleIdx: number, conceptIdx: number): string {
+  const module = modules[moduleIdx];
+  const concept = module?.concepts[conceptIdx];
+  return module && concept ? learnPath(module.id, concept.id) : HOME_PATH;
+}
+
+function resolveIds(moduleId: string, conceptId: string): LearnRoute | null {
+  const moduleIdx = modules.findIndex(m => m.id === moduleId);
+  if (moduleIdx === -1) return null;
+  const conceptIdx = modules[moduleIdx].concepts.findIndex(c => c.id === conceptId);
+  return conceptIdx === -1 ? null : { moduleIdx, conceptIdx };
+}
+
+const INDEX_PATTERN = /^\d+$/;
+
+// Positions used to be plain indices into the curriculum (0-based)
+function resolveIndices(moduleIdx: string, conceptIdx: string): LearnRoute | null {
+  if (!INDEX_PATTERN.test(moduleIdx) || !INDEX_PATTERN.test(conceptIdx)) return null;
+  const route = { moduleIdx: Number(moduleIdx), conceptIdx: Number(conceptIdx) };
+  return modules[route.moduleIdx]?.concepts[route.conceptIdx] ? route : null;
+}
+
+/**
+ * Where a path should take the learner.
+ * - `route` is the concept to show, or null for the home screen
+ * - `redirect` is set when the path isn't canonical (a bare module, or legacy indices)
+ * Returns null for paths that don't exist.
+ */
+export function resolveLearnPath(
+  segments: string[]
+): { route: LearnRoute | null; redirect?: string } | null {
+  if (segments.length === 0) return { route: null };
+  if (segments[0] !== 'learn' || segments.length > 3) return null;
+
+  const [, moduleId, conceptId] = segments;
+
+  if (moduleId !== undefined && conceptId === undefined) {
+    const moduleIdx = modules.findIndex(m => m.id === moduleId);
+    return moduleIdx === -1
+      ? null
+      : { route: { moduleIdx, conceptIdx: 0 }, redirect: learnPathForIndices(moduleIdx, 0) };
+  }
+
+  if (moduleId === undefined || conceptId === undefined) return null;
+
+  const route = resolveIds(moduleId, conceptId);
+  if (route) return { route };
+
+  const legacy = resolveIndices(moduleId, conceptId);
+  return legacy
+    ? { route: legacy, redirect: learnPathForIndices(legacy.moduleIdx, legacy.conceptIdx) }
+    : null;
+}
+
+// Client-side version, from the browser's current path (query and hash ignored)
+export function parseLearnPath(asPath: string): LearnRoute | null {
+  const pathname = asPath.split(/[?#]/)[0];
+  let segments: string[];
+  try {
+    segments = pathname.split('/').filter(Boolean).map(decodeURIComponent);
+  } catch {
+    // Malformed escapes like /learn/%E0 - treat as an unknown route
+    return null;
+  }
+  return resolveLearnPath(segments)?.route ?? null;
+}
+
+// Legacy links like /?module=0&concept=3
+export function legacyQueryPath(query: Record<string, string | string[] | undefined>): string | null {
+  const { module, concept } = query;
+  if (typeof module !== 'string' || typeof concept !== 'string') return null;
+  const route = resolveIndices(module, concept);
+  return route ? learnPathForIndices(route.moduleIdx, route.conceptIdx) : null;
+}
@@ -0,0 +1,460 @@
+// lib/lewis.ts
+// Lewis structures as a student draws them - atoms on a grid, bonds and lone pairs - with live octet and
+// formal charge checks, and grading against the target molecules knowledge checks can ask for
+
+import { findElement, groundStateConfiguration } from './electronConfiguration';
+import type { ChemicalElement } from './electronConfiguration';
+
+// ============================================
+// TYPES
+// ============================================
+
+export type BondOrder = 1 | 2 | 3;
+
+export interface LewisAtom {
+  element: string;
+  // Grid cell - only used for drawing, never for grading
+  x: number;
+  y: number;
+  lonePairs: number;
+}
+
+export interface LewisBond {
+  // Atom indices
+  from: number;
+  to: number;
+  order: BondOrder;
+}
+
+export interface LewisStructure {
+  atoms: LewisAtom[];
+  bonds: LewisBond[];
+}
+
+export interface LewisMolecule {
+  id: string;
+  name: string;
+  formula: string;
+  structure: LewisStructure;
+}
+
+// ============================================
+// ELEMENTS & GRID
+// ============================================
+
+// What the builder offers - main-group elements whose bonding the course covers
+export const LEWIS_ELEMENTS = ['H', 'C', 'N', 'O', 'F', 'P', 'S', 'Cl'] as const;
+
+export const GRID_COLUMNS = 7;
+export const GRID_ROWS = 5;
+export const MAX_LONE_PAIRS = 4;
+// Bounds on what a drawn structure (or a submitted answer) may contain
+export const MAX_LEWIS_ATOMS = GRID_COLUMNS * GRID_ROWS;
+export const MAX_LEWIS_BONDS = 60;
+
+const element = (symbol: string) => findElement(symbol) as ChemicalElement;
+
+// Electrons in the outermost shell - fine for the main-group elements above
+export function valenceElectrons(symbol: string): number {
+  const subshells = groundStateConfiguration(element(symbol));
+  const outerShell = Math.max(...subshells.map(s => s.n));
+  return subshells.filter(s => s.n === outerShell).reduce((sum, s) => sum + s.electrons, 0);
+}
+
+// Hydrogen is full with a duet; everything else wants an octet
+export const targetElectrons = (symbol: string): number => (symbol === 'H' ? 2 : 8);
+
+// Period 3 and below have d orbitals to spare, so more than 8 is allowed there
+const canExpandOctet = (symbol: string): boolean =>
+  Math.max(...groundStateConfiguration(element(symbol)).map(s => s.n)) >= 3;
+
+export function isLewisElement(symbol: unknown): symbol is string {
+  return typeof symbol === 'string' && (LEWIS_ELEMENTS as readonly string[]).includes(symbol);
+}
+
+const isGridInteger = (value: unknown, size: number): boolean =>
+  typeof value === 'number' && Number.isInteger(value) && value >= 0 && value < size;
+
+// Shape check for structures arriving from storage or the network
+export function isLewisStructure(value: unknown): value is LewisStructure {
+  if (typeof value !== 'object' || value === null) return false;
+  const { atoms, bonds } = value as Record<string, unknown>;
+  if (!Array.isArray(atoms) || !Array.isArray(bonds)) return false;
+  if (atoms.length > MAX_LEWIS_ATOMS || bonds.length > MAX_LEWIS_BONDS) return false;
+
+  return atoms.every(atom =>
+    typeof atom === 'object' && atom !== null &&
+    isLewisElement(atom.element) &&
+    isGridInteger(atom.x, GRID_COLUMNS) &&
+    isGridInteger(atom.y, GRID_ROWS) &&
+    isGridInteger(atom.lonePairs, MAX_LONE_PAIRS + 1)
+  ) && bonds.every(bond =>
+    typeof bond === 'object' && bond !== null &&
+    isGridInteger(bond.from, atoms.length) &&
+    isGridInteger(bond.to, atoms.length) &&
+    bond.from !== bond.to &&
+    (bond.order === 1 || bond.order === 2 || bond.order === 3)
+  );
+}
+
+// ============================================
+// EDITING
+// ============================================
+
+export const EMPTY_STRUCTURE: LewisStructure = { atoms: [], bonds: [] };
+
+export const atomAt = (structure: LewisStructure, x: number, y: number): number =>
+  structure.atoms.findIndex(atom => atom.x === x && atom.y === y);
+
+export const bondBetween = (structure: LewisStructure, a: number, b: number): number =>
+  structure.bonds.findIndex(bond => (bond.from === a && bond.to === b) || (bond.from === b && bond.to === a));
+
+// Places an atom in an empty cell, or swaps the element of the atom already there (bonds stay)
+export function placeAtom(structure: LewisStructure, symbol: string, x: number, y: number): LewisStructure {
+  const existing = atomAt(structure, x, y);
+  if (existing !== -1) {
+    return {
+      ...structure,
+      atoms: structure.atoms.map((atom, idx) => (idx === existing ? { ...atom, element: symbol } : atom)),
+    };
+  }
+  return { ...structure, atoms: [...structure.atoms, { element: symbol, x, y, lonePairs: 0 }] };
+}
+
+export function removeAtom(structure: LewisStructure, index: number): LewisStructure {
+  const shift = (i: number) => (i > index ? i - 1 : i);
+  return {
+    atoms: structure.atoms.filter((_, idx) => idx !== index),
+    bonds: structure.bonds
+      .filter(bond => bond.from !== index && bond.to !== index)
+      .map(bond => ({ ...bond, from: shift(bond.from), to: shift(bond.to) })),
+  };
+}
+
+// Single → double → triple → no bond
+export function cycleBond(structure: LewisStructure, a: number, b: number): LewisStructure {
+  const existing = bondBetween(structure, a, b);
+  if (existing === -1) {
+    return { ...structure, bonds: [...structure.bonds, { from: a, to: b, order: 1 }] };
+  }
+  const bond = structure.bonds[existing];
+  return {
+    ...structure,
+    bonds: bond.order === 3
+      ? structure.bonds.filter((_, idx) => idx !== existing)
+      : structure.bonds.map((bd, idx) => (idx === existing ? { ...bd, order: (bd.order + 1) as BondOrder } : bd)),
+  };
+}
+
+export function removeBond(structure: LewisStructure, index: number): LewisStructure {
+  return { ...structure, bonds: structure.bonds.filter((_, idx) => idx !== index) };
+}
+
+// 0 → 1 → ... → MAX_LONE_PAIRS → 0
+export function cycleLonePairs(structure: LewisStructure, index: number): LewisStructure {
+  return {
+    ...structure,
+    atoms: structure.atoms.map((atom, idx) =>
+      idx === index ? { ...atom, lonePairs: (atom.lonePairs + 1) % (MAX_LONE_PAIRS + 1) } : atom
+    ),
+  };
+}
+
+// ============================================
+// ANALYSIS
+// ============================================
+
+export type OctetStatus = 'complete' | 'short' | 'over' | 'expanded';
+
+export interface AtomAnalysis {
+  // "O" - or "O2" when there's more than one oxygen
+  label: string;
+  // Shared (bonding) plus lone-pair electrons around the atom
+  electrons: number;
+  target: number;
+  // Sum of bond orders
+  bonds: number;
+  formalCharge: number;
+  status: OctetStatus;
+}
+
+export interface LewisAnalysis {
+  atoms: AtomAnalysis[];
+  // Electrons the atoms bring, and electrons drawn as bonds and lone pairs
+  valenceElectrons: number;
+  electronsDrawn: number;
+  // Sum of formal charges - the charge on the whole structure
+  charge: number;
+  connected: boolean;
+  // Octet problems and stray atoms, in atom order - empty when every atom is satisfied
+  problems: string[];
+}
+
+function atomLabels(atoms: LewisAtom[]): string[] {
+  const totals: Record<string, number> = {};
+  atoms.forEach(atom => { totals[atom.element] = (totals[atom.element] || 0) + 1; });
+  const seen: Record<string, number> = {};
+  return atoms.map(atom => {
+    seen[atom.element] = (seen[atom.element] || 0) + 1;
+    return totals[atom.element] > 1 ? `${atom.element}${seen[atom.element]}` : atom.element;
+  });
+}
+
+function isConnected(structure: LewisStructure): boolean {
+  if (structure.atoms.length <= 1) return true;
+  const reached = new Set<number>([0]);
+  const queue = [0];
+  while (queue.length > 0) {
+    const current = queue.shift() as number;
+    structure.bonds.forEach(bond => {
+      const other = bond.from === current ? bond.to : bond.to === current ? bond.from : -1;
+      if (other !== -1 && !reached.has(other)) {
+        reached.add(other);
+        queue.push(other);
+      }
+    });
+  }
+  return reached.size === structure.atoms.length;
+}
+
+export function analyzeLewisStructure(structure: LewisStructure): LewisAnalysis {
+  const labels = atomLabels(structure.atoms);
+  const problems: string[] = [];
+
+  const atoms = structure.atoms.map((atom, idx): AtomAnalysis => {
+    const bonds = structure.bonds
+      .filter(bond => bond.from === idx || bond.to === idx)
+      .reduce((sum, bond) => sum + bond.order, 0);
+    const lone = atom.lonePairs * 2;
+    const electrons = bonds * 2 + lone;
+    const target = targetElectrons(atom.element);
+
+    const status: OctetStatus = electrons === target ? 'complete'
+      : electrons < target ? 'short'
+      : canExpandOctet(atom.element) ? 'expanded'
+      : 'over';
+
+    if (status === 'short') {
+      problems.push(`${labels[idx]} has ${electrons} electrons around it - it needs ${target}`);
+    } else if (status === 'over') {
+      problems.push(`${labels[idx]} has ${electrons} electrons around it - it can only hold ${target}`);
+    }
+
+    return {
+      label: labels[idx],
+      electrons,
+      target,
+      bonds,
+      formalCharge: valenceElectrons(atom.element) - lone - bonds,
+      status,
+    };
+  });
+
+  const connected = isConnected(structure);
+  if (!connected) problems.push('Some atoms aren\'t bonded to the rest - a molecule is one connected structure');
+
+  return {
+    atoms,
+    valenceElectrons: structure.atoms.reduce((sum, atom) => sum + valenceElectrons(atom.element), 0),
+    electronsDrawn: structure.bonds.reduce((sum, bond) => sum + bond.order * 2, 0) +
+      structure.atoms.reduce((sum, atom) => sum + atom.lonePairs * 2, 0),
+    charge: atoms.reduce((sum, atom) => sum + atom.formalCharge, 0),
+    connected,
+    problems,
+  };
+}
+
+// "+1", "-2" - formal charges as chemists write them
+export const formatCharge = (charge: number): string =>
+  charge === 0 ? '0' : `${charge > 0 ? '+' : '−'}${Math.abs(charge)}`;
+
+// ============================================
+// TARGET MOLECULES
+// ============================================
+
+const molecule = (
+  id: string,
+  name: string,
+  formula: string,
+  atoms: Array<[string, number, number, number]>,
+  bonds: Array<[number, number, BondOrder]>
+): LewisMolecule => ({
+  id,
+  name,
+  formula,
+  structure: {
+    atoms: atoms.map(([element, x, y, lonePairs]) => ({ element, x, y, lonePairs })),
+    bonds: bonds.map(([from, to, order]) => ({ from, to, order })),
+  },
+});
+
+// Laid out on the builder grid so the answer can be drawn after a wrong attempt
+export const LEWIS_MOLECULES: Record<string, LewisMolecule> = {
+  methane: molecule('methane', 'Methane', 'CH₄',
+    [['C', 3, 2, 0], ['H', 3, 1, 0], ['H', 4, 2, 0], ['H', 3, 3, 0], ['H', 2, 2, 0]],
+    [[0, 1, 1], [0, 2, 1], [0, 3, 1], [0, 4, 1]]),
+  ammonia: molecule('ammonia', 'Ammonia', 'NH₃',
+    [['N', 3, 2, 1], ['H', 2, 3, 0], ['H', 3, 3, 0], ['H', 4, 3, 0]],
+    [[0, 1, 1], [0, 2, 1], [0, 3, 1]]),
+  water: molecule('water', 'Water', 'H₂O',
+    [['O', 3, 2, 2], ['H', 2, 3, 0], ['H', 4, 3, 0]],
+    [[0, 1, 1], [0, 2, 1]]),
+  'carbon-dioxide': molecule('carbon-dioxide', 'Carbon dioxide', 'CO₂',
+    [['O', 2, 2, 2], ['C', 3, 2, 0], ['O', 4, 2, 2]],
+    [[0, 1, 2], [1, 2, 2]]),
+  'hydrogen-cyanide': molecule('hydrogen-cyanide', 'Hydrogen cyanide', 'HCN',
+    [['H', 2, 2, 0], ['C', 3, 2, 0], ['N', 4, 2, 1]],
+    [[0, 1, 1], [1, 2, 3]]),
+  formaldehyde: molecule('formaldehyde', 'Formaldehyde', 'CH₂O',
+    [['C', 3, 2, 0], ['O', 3, 1, 2], ['H', 2, 3, 0], ['H', 4, 3, 0]],
+    [[0, 1, 2], [0, 2, 1], [0, 3, 1]]),
+  // H₂N-CH₂-COOH
+  glycine: molecule('glycine', 'Glycine', 'C₂H₅NO₂',
+    [
+      ['N', 1, 2, 1], ['H', 0, 2, 0], ['H', 1, 3, 0],
+      ['C', 2, 2, 0], ['H', 2, 1, 0], ['H', 2, 3, 0],
+      ['C', 3, 2, 0], ['O', 3, 1, 2], ['O', 4, 2, 2], ['H', 5, 2, 0],
+    ],
+    [[0, 1, 1], [0, 2, 1], [0, 3, 1], [3, 4, 1], [3, 5, 1], [3, 6, 1], [6, 7, 2], [6, 8, 1], [8, 9, 1]]),
+};
+
+// ============================================
+// GRADING
+// ============================================
+
+function elementCounts(structure: LewisStructure): Record<string, number> {
+  const counts: Record<string, number> = {};
+  structure.atoms.forEach(atom => { counts[atom.element] = (counts[atom.element] || 0) + 1; });
+  return counts;
+}
+
+// Hill order, as formulas are written - carbon, hydrogen, then the rest alphabetically
+const HILL_ORDER = ['C', 'H', ...LEWIS_ELEMENTS.filter(symbol => symbol !== 'C' && symbol !== 'H').sort()];
+
+// "2 C, 5 H, 1 N, 2 O"
+const describeCounts = (counts: Record<string, number>): string =>
+  HILL_ORDER.filter(symbol => counts[symbol]).map(symbol => `${counts[symbol]} ${symbol}`).join(', ') || 'no atoms';
+
+const bondMatrix = (structure: LewisStructure): number[][] => {
+  const matrix = structure.atoms.map(() => structure.atoms.map(() => 0));
+  structure.bonds.forEach(bond => {
+    matrix[bond.from][bond.to] = bond.order;
+    matrix[bond.to][bond.from] = bond.order;
+  });
+  return matrix;
+};
+
+/**
+ * Whether two structures are the same molecule - same atoms, bonds, bond orders and lone pairs,
+ * however they're laid out on the grid. Backtracking match; fine for molecules this size.
+ */
+export function isSameStructure(a: LewisStructure, b: LewisStructure): boolean {
+  if (a.atoms.length !== b.atoms.length || a.bonds.length !== b.bonds.length) return false;
+
+  const matrixA = bondMatrix(a);
+  const matrixB = bondMatrix(b);
+  const signature = (structure: LewisStructure, matrix: number[][], idx: number) =>
+    `${structure.atoms[idx].element}:${structure.atoms[idx].lonePairs}:${[...matrix[idx]].sort().join('')}`;
+  const signaturesA = a.atoms.map((_, idx) => signature(a, matrixA, idx));
+  const signaturesB = b.atoms.map((_, idx) => signature(b, matrixB, idx));
+
+  const mapping: number[] = [];
+  const used = new Set<number>();
+
+  const extend = (idx: number): boolean => {
+    if (idx === a.atoms.length) return true;
+    for (let candidate = 0; candidate < b.atoms.length; candidate++) {
+      if (used.has(candidate) || signaturesA[idx] !== signaturesB[candidate]) continue;
+      // Bonds to every atom already mapped must agree
+      const consistent = mapping.every((mapped, prev) => matrixA[idx][prev] === matrixB[candidate][mapped]);
+      if (!consistent) continue;
+
+      mapping.push(candidate);
+      used.add(candidate);
+      if (extend(idx + 1)) return true;
+      mapping.pop();
+      used.delete(candidate);
+    }
+    return false;
+  };
+
+  return extend(0);
+}
+
+export interface LewisGrade {
+  correct: boolean;
+  // Most fundamental problem first - empty when correct
+  feedback: string[];
+}
+
+/**
+ * Grades a drawn structure against a target molecule.
+ * Checks, in order: the right atoms, one connected molecule, every octet (or duet) satisfied,
+ * the right number of valence electrons, and finally the exact arrangement of bonds and lone pairs.
+ */
+export function gradeLewisStructure(structure: LewisStructure, target: LewisMolecule): LewisGrade {
+  const expectedCounts = elementCounts(target.structure);
+  const givenCounts = elementCounts(structure);
+  const sameAtoms = Object.keys({ ...expectedCounts, ...givenCounts })
+    .every(symbol => expectedCounts[symbol] === givenCounts[symbol]);
+  if (!sameAtoms) {
+    return {
+      correct: false,
+      feedback: [`${target.name} (${target.formula}) has ${describeCounts(expectedCounts)} - your structure has ${describeCounts(givenCounts)}`],
+    };
+  }
+
+  const analysis = analyzeLewisStructure(structure);
+  if (analysis.problems.length > 0) {
+    return { correct: false, feedback: analysis.problems };
+  }
+
+  const expected = analyzeLewisStructure(target.structure);
+  if (analysis.electronsDrawn !== expected.electronsDrawn) {
+    return {
+      correct: false,
+      feedback: [`${target.name} has ${expected.electronsDrawn} valence electrons to place - your structure shows ${analysis.electronsDrawn}`],
+    };
+  }
+
+  if (isSameStructure(structure, target.structure)) {
+    return { correct: true, feedback: [] };
+  }
+
+  // Every shell is full but it's a different arrangement - formal charges usually show why it's worse
+  const charged = analysis.atoms.filter(atom => atom.formalCharge !== 0);
+  const feedback = charged.length > 0 && expected.atoms.every(atom => atom.formalCharge === 0)
+    ? charged.map(atom => `${atom.label} has a formal charge of ${formatCharge(atom.formalCharge)} - the best structure keeps every formal charge at zero`)
+    : [`Every atom has a full shell, but ${target.name}'s atoms are connected differently`];
+  return { correct: false, feedback };
+}
+
+// ============================================
+// DESCRIPTIONS (tutor prompt, answers)
+// ============================================
+
+const BOND_SYMBOLS: Record<BondOrder, string> = { 1: '-', 2: '=', 3: '≡' };
+
+// "C-H ×4, C=O; lone pairs: O 2" - bonds by type, then lone pairs per atom
+export function describeLewisStructure(structure: LewisStructure): string {
+  const labels = atomLabels(structure.atoms);
+  const bondCounts = new Map<string, number>();
+  // Hydrogen always last - "C-H", "O-H", "C=O"
+  const rank = (symbol: string) => (symbol === 'H' ? LEWIS_ELEMENTS.length : LEWIS_ELEMENTS.indexOf(symbol as typeof LEWIS_ELEMENTS[number]));
+  structure.bonds.forEach(bond => {
+    const [first, second] = [structure.atoms[bond.from].element, structure.atoms[bond.to].element]
+      .sort((x, y) => rank(x) - rank(y));
+    const key = `${first}${BOND_SYMBOLS[bond.order]}${second}`;
+    bondCounts.set(key, (bondCounts.get(key) || 0) + 1);
+  });
+
+  const bonds = Array.from(bondCounts.entries()).map(([key, count]) => (count > 1 ? `${key} ×${count}` : key));
+  const lonePairs = structure.atoms
+    .map((atom, idx) => (atom.lonePairs > 0 ? `${labels[idx]} ${atom.lonePairs}` : null))
+    .filter((entry): entry is string => entry !== null);
+
+  return [
+    bonds.length > 0 ? bonds.join(', ') : 'no bonds',
+    `lone pairs: ${lonePairs.length > 0 ? lonePairs.join(', ') : 'none'}`,
+  ].join('; ');
+}
@@ -0,0 +1,96 @@
+// lib/mastery.ts
+// Bayesian Knowledge Tracing - the probability a student has actually learned a concept,
+// updated one knowledge-check answer at a time, plus how well their confidence matches it
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface MasteryParams {
+  // Chance the concept is already known before the first lesson
+  pInit: number;
+  // Chance of learning it at each practice opportunity
+  pLearn: number;
+  // Chance of answering wrong despite knowing it
+  pSlip: number;
+  // Chance of answering right without knowing it (about 1 in 4 for a four-option check)
+  pGuess: number;
+}
+
+export interface MasteryObservation {
+  correct: boolean;
+}
+
+// ============================================
+// MODEL
+// ============================================
+
+export const DEFAULT_MASTERY_PARAMS: MasteryParams = {
+  pInit: 0.2,
+  pLearn: 0.15,
+  pSlip: 0.1,
+  pGuess: 0.25,
+};
+
+// Conventional BKT cut-off for "mastered"
+export const MASTERED_THRESHOLD = 0.95;
+export const STRUGGLING_THRESHOLD = 0.4;
+
+// Confidence is off from mastery by more than this (on a 0-1 scale) before it's worth mentioning
+export const CALIBRATION_TOLERANCE = 0.25;
+
+const clampProbability = (p: number) => Math.min(0.999, Math.max(0.001, p));
+
+export function resolveMasteryParams(overrides: Partial<MasteryParams> = {}): MasteryParams {
+  const params = { ...DEFAULT_MASTERY_PARAMS, ...overrides };
+  return {
+    pInit: clampProbability(params.pInit),
+    pLearn: clampProbability(params.pLearn),
+    // Above 0.5 a right answer would count as evidence of *not* knowing it
+    pSlip: Math.min(0.49, clampProbability(params.pSlip)),
+    pGuess: Math.min(0.49, clampProbability(params.pGuess)),
+  };
+}
+
+// One BKT step: condition on the answer, then allow for learning from the practice itself
+export function updateMastery(pKnown: number, correct: boolean, params: MasteryParams): number {
+  const { pLearn, pSlip, pGuess } = params;
+  const posterior = correct
+    ? (pKnown * (1 - pSlip)) / (pKnown * (1 - pSlip) + (1 - pKnown) * pGuess)
+    : (pKnown * pSlip) / (pKnown * pSlip + (1 - pKnown) * (1 - pGuess));
+  return posterior + (1 - posterior) * pLearn;
+}
+
+export function estimateMastery(observations: MasteryObservation[], params: MasteryParams = DEFAULT_MASTERY_PARAMS): number {
+  return observations.reduce((pKnown, obs) => updateMastery(pKnown, obs.correct, params), params.pInit);
+}
+
+/**
+ * Expands a lesson score into individual answers. Which questions were missed isn't
+ * recorded, so the misses are spread evenly through the lesson.
+ */
+export function scoreToObservations(correct: number, total: number): MasteryObservation[] {
+  const observations: MasteryObservation[] = [];
+  let placedCorrect = 0;
+  for (let i = 0; i < total; i++) {
+    const isCorrect = Math.round(((i + 1) * correct) / total) > placedCorrect;
+    if (isCorrect) placedCorrect++;
+    observations.push({ correct: isCorrect });
+  }
+  return observations;
+}
+
+/**
+ * Confidence (1-5 slider) minus mastery, both on a 0-1 scale.
+ * Positive means the student feels surer than their answers show; negative, less sure.
+ */
+export function calibrationGap(averageConfidence: number, mastery: number): number {
+  return (averageConfidence - 1) / 4 - mastery;
+}
+
+export function describeCalibration(gap: number | null): 'overconfident' | 'underconfident' | 'calibrated' | null {
+  if (gap === null) return null;
+  if (gap > CALIBRATION_TOLERANCE) return 'overconfident';
+  if (gap < -CALIBRATION_TOLERANCE) return 'underconfident';
+  return 'calibrated';
+}
@@ -0,0 +1,61 @@
+// lib/molecules/elements.ts
+// How each element is drawn: CPK colours (Jmol palette), covalent radii (Cordero 2008) for bonding
+// and van der Waals radii (Bondi/Alvarez) for space-filling models - all radii in ångströms
+
+import type { RenderMode } from './types';
+
+interface ElementStyle {
+  color: number;
+  covalentRadius: number;
+  vdwRadius: number;
+}
+
+const ELEMENT_STYLES: Record<string, ElementStyle> = {
+  H: { color: 0xffffff, covalentRadius: 0.31, vdwRadius: 1.2 },
+  He: { color: 0xd9ffff, covalentRadius: 0.28, vdwRadius: 1.4 },
+  Li: { color: 0xcc80ff, covalentRadius: 1.28, vdwRadius: 1.82 },
+  B: { color: 0xffb5b5, covalentRadius: 0.84, vdwRadius: 1.92 },
+  C: { color: 0x909090, covalentRadius: 0.76, vdwRadius: 1.7 },
+  N: { color: 0x3050f8, covalentRadius: 0.71, vdwRadius: 1.55 },
+  O: { color: 0xff0d0d, covalentRadius: 0.66, vdwRadius: 1.52 },
+  F: { color: 0x90e050, covalentRadius: 0.57, vdwRadius: 1.47 },
+  Na: { color: 0xab5cf2, covalentRadius: 1.66, vdwRadius: 2.27 },
+  Mg: { color: 0x8aff00, covalentRadius: 1.41, vdwRadius: 1.73 },
+  Si: { color: 0xf0c8a0, covalentRadius: 1.11, vdwRadius: 2.1 },
+  P: { color: 0xff8000, covalentRadius: 1.07, vdwRadius: 1.8 },
+  S: { color: 0xffff30, covalentRadius: 1.05, vdwRadius: 1.8 },
+  Cl: { color: 0x1ff01f, covalentRadius: 1.02, vdwRadius: 1.75 },
+  K: { color: 0x8f40d4, covalentRadius: 2.03, vdwRadius: 2.75 },
+  Ca: { color: 0x3dff00, covalentRadius: 1.76, vdwRadius: 2.31 },
+  Fe: { color: 0xe06633, covalentRadius: 1.32, vdwRadius: 2.0 },
+  Br: { color: 0xa62929, covalentRadius: 1.2, vdwRadius: 1.85 },
+  I: { color: 0x940094, covalentRadius: 1.39, vdwRadius: 1.98 },
+};
+
+// Anything missing from the table shows up hot pink, as in most viewers
+const UNKNOWN_STYLE: ElementStyle = { color: 0xff1493, covalentRadius: 0.75, vdwRadius: 1.8 };
+
+export const elementStyle = (element: string): ElementStyle => ELEMENT_STYLES[element] || UNKNOWN_STYLE;
+
+export const isKnownElement = (element: string): boolean => element in ELEMENT_STYLES;
+
+// "CL", "cl" → "Cl" - files aren't consistent about case
+export const normalizeElement = (symbol: string): string =>
+  symbol.charAt(0).toUpperCase() + symbol.slice(1).toLowerCase();
+
+// CSS colour for legends and labels
+export const elementColorCss = (element: string): string =>
+  `#${elementStyle(element).color.toString(16).padStart(6, '0')}`;
+
+// Ball-and-stick atoms are scaled-down van der Waals spheres, so relative sizes stay true
+const BALL_SCALE = 0.25;
+const MIN_BALL_RADIUS = 0.18;
+
+// Radius an atom is drawn at in each display mode; 0 means it isn't drawn
+export function atomRadius(element: string, mode: RenderMode, isBonded: boolean): number {
+  const { vdwRadius } = elementStyle(element);
+  if (mode === 'space-filling') return vdwRadius;
+  if (mode === 'ball-and-stick') return Math.max(MIN_BALL_RADIUS, vdwRadius * BALL_SCALE);
+  // Wireframe only marks atoms with nothing to draw a line to
+  return isBonded ? 0 : MIN_BALL_RADIUS;
+}
@@ -0,0 +1,15 @@
+// lib/molecules/index.ts
+// Structure files → Molecule for the 3D viewer
+
+export * from './types';
+export { atomRadius, elementColorCss, elementStyle, isKnownElement, normalizeElement } from './elements';
+export {
+  MAX_MOLECULE_ATOMS,
+  formatFromFilename,
+  inferBonds,
+  isMoleculeFormat,
+  parseMolecule,
+  parseMoleculeJSON,
+  parseMolfile,
+  parseXYZ,
+} from './parse';
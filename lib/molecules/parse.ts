@@ -0,0 +1,219 @@
+// lib/molecules/parse.ts
+// Readers for XYZ, MDL MOL/SDF (V2000) and our own JSON atom/bond lists. Everything comes out as a Molecule;
+// formats without bonds (XYZ, JSON without "bonds") get them inferred from covalent radii
+
+import { elementStyle, isKnownElement, normalizeElement } from './elements';
+import { MOLECULE_FORMATS, MoleculeFormatError } from './types';
+import type { Molecule, MoleculeAtom, MoleculeBond, MoleculeFormat } from './types';
+
+// Keeps a typo'd file from freezing the page with tens of thousands of spheres
+export const MAX_MOLECULE_ATOMS = 500;
+
+// Two atoms are bonded when they sit closer than the sum of their covalent radii plus this margin
+const BOND_TOLERANCE = 1.15;
+// Anything closer than this is two atoms on top of each other, not a bond
+const MIN_BOND_LENGTH = 0.4;
+
+// ============================================
+// HELPERS
+// ============================================
+
+const splitLines = (text: string): string[] => text.replace(/\r\n?/g, '\n').split('\n');
+
+function parseNumber(value: string | undefined, what: string, line: number): number {
+  const number = Number(value);
+  if (value === undefined || value.trim() === '' || !Number.isFinite(number)) {
+    throw new MoleculeFormatError(`expected a number for ${what}, got "${value?.trim() ?? ''}"`, line);
+  }
+  return number;
+}
+
+function parseElement(symbol: string | undefined, line: number): string {
+  const element = normalizeElement((symbol || '').trim());
+  if (!/^[A-Z][a-z]?$/.test(element) || !isKnownElement(element)) {
+    throw new MoleculeFormatError(`"${symbol?.trim() ?? ''}" isn't an element symbol`, line);
+  }
+  return element;
+}
+
+function checkAtomCount(count: number, line?: number) {
+  if (count === 0) throw new MoleculeFormatError('the molecule has no atoms', line);
+  if (count > MAX_MOLECULE_ATOMS) {
+    throw new MoleculeFormatError(`${count} atoms is more than the viewer's limit of ${MAX_MOLECULE_ATOMS}`, line);
+  }
+}
+
+const distance = (a: MoleculeAtom, b: MoleculeAtom): number => Math.hypot(a.x - b.x, a.y - b.y, a.z - b.z);
+
+// Single bonds between every pair of atoms within bonding distance
+export function inferBonds(atoms: MoleculeAtom[]): MoleculeBond[] {
+  const bonds: MoleculeBond[] = [];
+  for (let i = 0; i < atoms.length; i++) {
+    for (let j = i + 1; j < atoms.length; j++) {
+      const limit = (elementStyle(atoms[i].element).covalentRadius + elementStyle(atoms[j].element).covalentRadius) * BOND_TOLERANCE;
+      const length = distance(atoms[i], atoms[j]);
+      if (length > MIN_BOND_LENGTH && length <= limit) bonds.push({ from: i, to: j, order: 1 });
+    }
+  }
+  return bonds;
+}
+
+// ============================================
+// XYZ
+// ============================================
+
+// Line 1: atom count. Line 2: comment (used as the name). Then "Element x y z" per atom.
+export function parseXYZ(text: string): Molecule {
+  const lines = splitLines(text);
+  const count = parseNumber(lines[0], 'the atom count', 1);
+  if (!Number.isInteger(count)) throw new MoleculeFormatError('the atom count must be a whole number', 1);
+  checkAtomCount(count, 1);
+
+  const atoms: MoleculeAtom[] = [];
+  for (let i = 0; i < count; i++) {
+    const lineNumber = i + 3;
+    const line = lines[i + 2];
+    if (line === undefined || line.trim() === '') {
+      throw new MoleculeFormatError(`expected ${count} atoms but the file ends after ${i}`, lineNumber);
+    }
+    const [symbol, x, y, z] = line.trim().split(/\s+/);
+    atoms.push({
+      element: parseElement(symbol, lineNumber),
+      x: parseNumber(x, 'x', lineNumber),
+      y: parseNumber(y, 'y', lineNumber),
+      z: parseNumber(z, 'z', lineNumber),
+    });
+  }
+
+  const name = lines[1]?.trim();
+  return { ...(name ? { name } : {}), atoms, bonds: inferBonds(atoms) };
+}
+
+// ============================================
+// MOL / SDF
+// ============================================
+
+// MDL V2000 molfile - 3 header lines, a counts line, then fixed-width atom and bond blocks.
+// An SDF file is molfiles separated by "$$$$"; the viewer shows the first record.
+export function parseMolfile(text: string): Molecule {
+  const lines = splitLines(text);
+  const countsLine = lines[3];
+  if (countsLine === undefined) throw new MoleculeFormatError('the file ends before the counts line', 4);
+  if (/V3000/.test(countsLine)) throw new MoleculeFormatError('V3000 molfiles aren\'t supported - save as V2000', 4);
+
+  const atomCount = parseNumber(countsLine.slice(0, 3), 'the atom count', 4);
+  const bondCount = parseNumber(countsLine.slice(3, 6), 'the bond count', 4);
+  checkAtomCount(atomCount, 4);
+
+  const atoms: MoleculeAtom[] = [];
+  for (let i = 0; i < atomCount; i++) {
+    const lineNumber = i + 5;
+    const line = lines[i + 4];
+    if (line === undefined) throw new MoleculeFormatError(`expected ${atomCount} atoms but the file ends after ${i}`, lineNumber);
+    atoms.push({
+      x: parseNumber(line.slice(0, 10), 'x', lineNumber),
+      y: parseNumber(line.slice(10, 20), 'y', lineNumber),
+      z: parseNumber(line.slice(20, 30), 'z', lineNumber),
+      element: parseElement(line.slice(31, 34), lineNumber),
+    });
+  }
+
+  const bonds: MoleculeBond[] = [];
+  for (let i = 0; i < bondCount; i++) {
+    const lineNumber = atomCount + i + 5;
+    const line = lines[atomCount + i + 4];
+    if (line === undefined) throw new MoleculeFormatError(`expected ${bondCount} bonds but the file ends after ${i}`, lineNumber);
+    const from = parseNumber(line.slice(0, 3), 'the first atom', lineNumber) - 1;
+    const to = parseNumber(line.slice(3, 6), 'the second atom', lineNumber) - 1;
+    const type = parseNumber(line.slice(6, 9), 'the bond type', lineNumber);
+    if (!atoms[from] || !atoms[to] || from === to) {
+      throw new MoleculeFormatError(`bond between atoms ${from + 1} and ${to + 1} doesn't match the atom list`, lineNumber);
+    }
+    // 4 = aromatic, 5-8 = query bonds - all drawn as single
+    bonds.push({ from, to, order: type >= 1 && type <= 3 ? type : 1 });
+  }
+
+  const name = lines[0]?.trim();
+  return { ...(name ? { name } : {}), atoms, bonds };
+}
+
+// ============================================
+// JSON
+// ============================================
+
+// { "name"?: string, "atoms": [{ "element", "x", "y", "z" }], "bonds"?: [{ "from", "to", "order"? }] }
+export function parseMoleculeJSON(text: string): Molecule {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (error) {
+    throw new MoleculeFormatError(`invalid JSON (${(error as Error).message})`);
+  }
+
+  const record = data as { name?: unknown; atoms?: unknown; bonds?: unknown } | null;
+  if (!record || typeof record !== 'object' || !Array.isArray(record.atoms)) {
+    throw new MoleculeFormatError('expected an object with an "atoms" array');
+  }
+  checkAtomCount(record.atoms.length);
+
+  const atoms: MoleculeAtom[] = record.atoms.map((raw: unknown, idx: number) => {
+    const atom = (raw || {}) as Record<string, unknown>;
+    const coordinate = (axis: 'x' | 'y' | 'z') => {
+      if (typeof atom[axis] !== 'number' || !Number.isFinite(atom[axis])) {
+        throw new MoleculeFormatError(`atoms[${idx}].${axis} must be a number`);
+      }
+      return atom[axis] as number;
+    };
+    const element = normalizeElement(typeof atom.element === 'string' ? atom.element : '');
+    if (!isKnownElement(element)) {
+      throw new MoleculeFormatError(`atoms[${idx}].element "${String(atom.element ?? '')}" isn't an element symbol`);
+    }
+    return { element, x: coordinate('x'), y: coordinate('y'), z: coordinate('z') };
+  });
+
+  if (record.bonds !== undefined && !Array.isArray(record.bonds)) {
+    throw new MoleculeFormatError('"bonds" must be an array');
+  }
+
+  const bonds: MoleculeBond[] = record.bonds === undefined
+    ? inferBonds(atoms)
+    : record.bonds.map((raw: unknown, idx: number) => {
+        const bond = (raw || {}) as Record<string, unknown>;
+        const { from, to } = bond;
+        const order = bond.order ?? 1;
+        if (typeof from !== 'number' || typeof to !== 'number' || !atoms[from] || !atoms[to] || from === to) {
+          throw new MoleculeFormatError(`bonds[${idx}] must join two different atoms by index`);
+        }
+        if (order !== 1 && order !== 2 && order !== 3) {
+          throw new MoleculeFormatError(`bonds[${idx}].order must be 1, 2 or 3`);
+        }
+        return { from, to, order };
+      });
+
+  return { ...(typeof record.name === 'string' ? { name: record.name } : {}), atoms, bonds };
+}
+
+// ============================================
+// DISPATCH
+// ============================================
+
+export const isMoleculeFormat = (value: string): value is MoleculeFormat =>
+  (MOLECULE_FORMATS as readonly string[]).includes(value);
+
+// "glucose.sdf" → "sdf"; undefined when the extension isn't one we read
+export function formatFromFilename(filename: string): MoleculeFormat | undefined {
+  const extension = filename.split('.').pop()?.toLowerCase() || '';
+  return isMoleculeFormat(extension) ? extension : undefined;
+}
+
+export function parseMolecule(text: string, format: MoleculeFormat): Molecule {
+  switch (format) {
+    case 'xyz':
+      return parseXYZ(text);
+    case 'mol':
+    case 'sdf':
+      return parseMolfile(text);
+    case 'json':
+      return parseMoleculeJSON(text);
+  }
+}
@@ -0,0 +1,45 @@
+// lib/molecules/types.ts
+// 3D molecule data as read from structure files - coordinates in ångströms
+
+export const MOLECULE_FORMATS = ['xyz', 'mol', 'sdf', 'json'] as const;
+
+export type MoleculeFormat = typeof MOLECULE_FORMATS[number];
+
+export const RENDER_MODES = ['ball-and-stick', 'space-filling', 'wireframe'] as const;
+
+export type RenderMode = typeof RENDER_MODES[number];
+
+export interface MoleculeAtom {
+  element: string;
+  x: number;
+  y: number;
+  z: number;
+}
+
+export interface MoleculeBond {
+  // Atom indices (0-based)
+  from: number;
+  to: number;
+  // 1-3; aromatic bonds from MOL files are drawn as single
+  order: number;
+}
+
+export interface Molecule {
+  name?: string;
+  atoms: MoleculeAtom[];
+  bonds: MoleculeBond[];
+}
+
+export class MoleculeFormatError extends Error {
+  // 1-based line in the source file, when the problem is on a particular line
+  line?: number;
+
+  constructor(message: string, line?: number) {
+    super(line ? `Line ${line}: ${message}` : message);
+    this.name = 'MoleculeFormatError';
+    this.line = line;
+  }
+}
+
+export const isMoleculeFormatError = (error: unknown): error is MoleculeFormatError =>
+  error instanceof MoleculeFormatError;
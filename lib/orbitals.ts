@@ -0,0 +1,242 @@
+// lib/orbitals.ts
+// Hydrogen atom wavefunctions ψ(n, l, m) = R(r)·Y(θ, φ) for n ≤ 4, with distances in Bohr radii (a₀).
+// Uses the real orbitals chemists draw (pₓ, d_xy, ...) so ψ is real and its sign is the orbital's phase.
+
+export const MAX_PRINCIPAL = 4;
+
+export const SUBSHELL_LETTERS = ['s', 'p', 'd', 'f'] as const;
+
+export interface HydrogenOrbital {
+  n: number;
+  // 0 to n - 1
+  l: number;
+  // -l to l; for l > 0, positive m is the cos(mφ) orbital and negative m the sin(|m|φ) one
+  m: number;
+}
+
+export interface OrbitalSample {
+  // x, y, z per point, in a₀
+  positions: Float32Array;
+  // Sign of ψ at each point: 1 or -1
+  phases: Int8Array;
+  // Radius holding 97% of the probability - a good size to frame the cloud
+  extent: number;
+}
+
+// ============================================
+// NAMING
+// ============================================
+
+// The axis part of each real orbital's name, by l then m
+const ORBITAL_AXES: Record<number, Record<number, string>> = {
+  0: { 0: '' },
+  1: { 1: 'x', [-1]: 'y', 0: 'z' },
+  2: { 0: 'z²', 1: 'xz', [-1]: 'yz', 2: 'x²−y²', [-2]: 'xy' },
+  3: { 0: 'z³', 1: 'xz²', [-1]: 'yz²', 2: 'z(x²−y²)', [-2]: 'xyz', 3: 'x(x²−3y²)', [-3]: 'y(3x²−y²)' },
+};
+
+export const isValidOrbital = ({ n, l, m }: HydrogenOrbital): boolean =>
+  [n, l, m].every(Number.isInteger) && n >= 1 && n <= MAX_PRINCIPAL && l >= 0 && l < n && Math.abs(m) <= l;
+
+// "3d" plus "xy" - kept apart so the axis can be drawn as a subscript
+export function orbitalName({ n, l, m }: HydrogenOrbital): { subshell: string; axis: string } {
+  return { subshell: `${n}${SUBSHELL_LETTERS[l]}`, axis: ORBITAL_AXES[l][m] };
+}
+
+// "3d_xy", "2s" - for captions and screen readers
+export function orbitalLabel(orbital: HydrogenOrbital): string {
+  const { subshell, axis } = orbitalName(orbital);
+  return axis ? `${subshell}_${axis}` : subshell;
+}
+
+// m values in the order orbitals are usually listed - pₓ, p_y, p_z rather than -1, 0, 1
+export function orbitalsInSubshell(n: number, l: number): HydrogenOrbital[] {
+  const order = [0];
+  for (let k = 1; k <= l; k++) order.push(k, -k);
+  if (l === 1) order.push(order.shift()!);
+  return order.map(m => ({ n, l, m }));
+}
+
+// "2p" → the subshell's first orbital (2pₓ); null for anything that isn't an n ≤ 4 subshell
+export function parseSubshell(subshell: string): HydrogenOrbital | null {
+  const match = /^([1-9])([spdf])$/.exec(subshell.trim());
+  if (!match) return null;
+  const n = Number(match[1]);
+  const l = SUBSHELL_LETTERS.indexOf(match[2] as typeof SUBSHELL_LETTERS[number]);
+  if (n > MAX_PRINCIPAL || l >= n) return null;
+  return orbitalsInSubshell(n, l)[0];
+}
+
+// ============================================
+// WAVEFUNCTION
+// ============================================
+
+function factorial(k: number): number {
+  let result = 1;
+  for (let i = 2; i <= k; i++) result *= i;
+  return result;
+}
+
+// Generalised Laguerre polynomial L_k^α(x), by the three-term recurrence
+function laguerre(k: number, alpha: number, x: number): number {
+  if (k === 0) return 1;
+  let previous = 1;
+  let current = 1 + alpha - x;
+  for (let i = 1; i < k; i++) {
+    [previous, current] = [current, ((2 * i + 1 + alpha - x) * current - (i + alpha) * previous) / (i + 1)];
+  }
+  return current;
+}
+
+// Associated Legendre P_l^m(x) for m ≥ 0, without the Condon-Shortley (-1)^m - so pₓ is positive along +x
+function legendre(l: number, m: number, x: number): number {
+  let pmm = 1;
+  const s = Math.sqrt(Math.max(0, 1 - x * x));
+  for (let i = 1; i <= m; i++) pmm *= (2 * i - 1) * s;
+  if (l === m) return pmm;
+
+  let pmm1 = x * (2 * m + 1) * pmm;
+  for (let ll = m + 2; ll <= l; ll++) {
+    [pmm, pmm1] = [pmm1, ((2 * ll - 1) * x * pmm1 - (ll + m - 1) * pmm) / (ll - m)];
+  }
+  return pmm1;
+}
+
+// R_nl(r), normalised so ∫ R² r² dr = 1
+export function radialWavefunction(n: number, l: number, r: number): number {
+  const rho = (2 * r) / n;
+  const norm = Math.sqrt((2 / n) ** 3 * factorial(n - l - 1) / (2 * n * factorial(n + l)));
+  return norm * Math.exp(-rho / 2) * rho ** l * laguerre(n - l - 1, 2 * l + 1, rho);
+}
+
+// Real spherical harmonic for the direction of (x, y, z)
+export function realSphericalHarmonic(l: number, m: number, x: number, y: number, z: number): number {
+  const r = Math.hypot(x, y, z);
+  if (r === 0) return l === 0 ? Math.sqrt(1 / (4 * Math.PI)) : 0;
+  const k = Math.abs(m);
+  const norm = Math.sqrt((2 * l + 1) / (4 * Math.PI) * factorial(l - k) / factorial(l + k));
+  const polar = legendre(l, k, z / r);
+  if (m === 0) return norm * polar;
+  const phi = Math.atan2(y, x);
+  return Math.SQRT2 * norm * polar * (m > 0 ? Math.cos(k * phi) : Math.sin(k * phi));
+}
+
+export function wavefunction({ n, l, m }: HydrogenOrbital, x: number, y: number, z: number): number {
+  return radialWavefunction(n, l, Math.hypot(x, y, z)) * realSphericalHarmonic(l, m, x, y, z);
+}
+
+// Radial probability r²R² - the chance of finding the electron at distance r, over every direction
+export const radialProbability = (n: number, l: number, r: number): number =>
+  r * r * radialWavefunction(n, l, r) ** 2;
+
+// Energy of level n in electronvolts
+export const orbitalEnergy = (n: number): number => -13.6057 / (n * n);
+
+// Far enough out that every n ≤ 4 orbital has all but a sliver of its probability inside
+const radialLimit = (n: number): number => 3 * n * n + 6;
+
+// Distances (a₀) where R changes sign - the n - l - 1 radial nodes
+export function radialNodes(n: number, l: number): number[] {
+  const nodes: number[] = [];
+  const limit = radialLimit(n);
+  const steps = 4000;
+  // Start just off the nucleus - R is 0 there for l > 0, which isn't a node
+  let previousR = 1e-6;
+  let previous = radialWavefunction(n, l, previousR);
+
+  for (let i = 1; i <= steps && nodes.length < n - l - 1; i++) {
+    const r = (limit * i) / steps;
+    const value = radialWavefunction(n, l, r);
+    if (Math.sign(value) !== Math.sign(previous) && value !== 0) {
+      let [low, high] = [previousR, r];
+      for (let j = 0; j < 40; j++) {
+        const mid = (low + high) / 2;
+        if (Math.sign(radialWavefunction(n, l, mid)) === Math.sign(previous)) low = mid;
+        else high = mid;
+      }
+      nodes.push((low + high) / 2);
+    }
+    [previousR, previous] = [r, value];
+  }
+
+  return nodes;
+}
+
+// ============================================
+// SAMPLING
+// ============================================
+
+// Small seeded PRNG (mulberry32) so a given orbital always draws the same cloud
+function random(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Draws points distributed as |ψ|². Because ψ = R·Y, distance and direction are sampled separately:
+ * distance from the tabulated r²R² distribution, direction by rejection against Y².
+ */
+export function sampleOrbital(orbital: HydrogenOrbital, count: number, seed = 1): OrbitalSample {
+  const { n, l, m } = orbital;
+  const next = random(seed);
+
+  // Cumulative radial distribution on a grid
+  const steps = 2000;
+  const limit = radialLimit(n);
+  const cumulative = new Float64Array(steps + 1);
+  let previous = 0;
+  for (let i = 1; i <= steps; i++) {
+    const value = radialProbability(n, l, (limit * i) / steps);
+    cumulative[i] = cumulative[i - 1] + (previous + value) / 2;
+    previous = value;
+  }
+  const total = cumulative[steps];
+
+  const radiusAt = (fraction: number): number => {
+    const target = fraction * total;
+    let [low, high] = [0, steps];
+    while (high - low > 1) {
+      const mid = (low + high) >> 1;
+      if (cumulative[mid] < target) low = mid;
+      else high = mid;
+    }
+    const span = cumulative[high] - cumulative[low] || 1;
+    return (limit * (low + (target - cumulative[low]) / span)) / steps;
+  };
+
+  // Largest Y² over the sphere, from a Fibonacci lattice of directions
+  let maxY2 = 0;
+  const lattice = 2000;
+  for (let i = 0; i < lattice; i++) {
+    const z = 1 - (2 * i + 1) / lattice;
+    const ring = Math.sqrt(1 - z * z);
+    const phi = i * Math.PI * (3 - Math.sqrt(5));
+    maxY2 = Math.max(maxY2, realSphericalHarmonic(l, m, ring * Math.cos(phi), ring * Math.sin(phi), z) ** 2);
+  }
+  maxY2 *= 1.05;
+
+  const positions = new Float32Array(count * 3);
+  const phases = new Int8Array(count);
+
+  for (let i = 0; i < count; i++) {
+    const r = radiusAt(next());
+    let x = 0, y = 0, z = 0;
+    for (;;) {
+      z = 2 * next() - 1;
+      const phi = 2 * Math.PI * next();
+      const ring = Math.sqrt(1 - z * z);
+      [x, y] = [ring * Math.cos(phi), ring * Math.sin(phi)];
+      if (next() * maxY2 <= realSphericalHarmonic(l, m, x, y, z) ** 2) break;
+    }
+    positions.set([x * r, y * r, z * r], i * 3);
+    phases[i] = wavefunction(orbital, x * r, y * r, z * r) < 0 ? -1 : 1;
+  }
+
+  return { positions, phases, extent: radiusAt(0.97) };
+}
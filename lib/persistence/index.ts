@@ -0,0 +1,8 @@
+// lib/persistence/index.ts
+// Learner progress persistence: IndexedDB on the device, optional server sync
+
+export * from './types';
+export { mergeSnapshots } from './merge';
+export { isLearnerSnapshot } from './validate';
+export { loadLocalSnapshot, saveLocalSnapshot, clearLocalSnapshot } from './localStore';
+export { fetchRemoteSnapshot, pushSnapshot } from './remoteSync';
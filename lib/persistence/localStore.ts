@@ -0,0 +1,68 @@
+// lib/persistence/localStore.ts
+// IndexedDB storage for the learner snapshot on this device
+
+import { isLearnerSnapshot } from './validate';
+import type { StoredSnapshot } from './types';
+
+const DB_NAME = 'kyorda';
+const DB_VERSION = 1;
+const STORE_NAME = 'learner';
+const SNAPSHOT_KEY = 'current';
+
+const isAvailable = () => typeof indexedDB !== 'undefined';
+
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE_NAME);
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest
+): Promise<T> {
+  const db = await openDatabase();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const request = run(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+      request.onsuccess = () => resolve(request.result as T);
+      request.onerror = () => reject(request.error);
+    });
+  } finally {
+    db.close();
+  }
+}
+
+export async function loadLocalSnapshot(): Promise<StoredSnapshot | null> {
+  if (!isAvailable()) return null;
+
+  try {
+    const stored = await withStore<StoredSnapshot | undefined>('readonly', store => store.get(SNAPSHOT_KEY));
+    // Also drops snapshots from older versions
+    if (!stored || !isLearnerSnapshot(stored.snapshot)) return null;
+    return stored;
+  } catch (error) {
+    console.error('Failed to load saved progress:', error);
+    return null;
+  }
+}
+
+export async function saveLocalSnapshot(stored: StoredSnapshot): Promise<void> {
+  if (!isAvailable()) return;
+
+  try {
+    await withStore('readwrite', store => store.put(stored, SNAPSHOT_KEY));
+  } catch (error) {
+    console.error('Failed to save progress:', error);
+  }
+}
+
+export async function clearLocalSnapshot(): Promise<void> {
+  if (!isAvailable()) return;
+  await withStore('readwrite', store => store.delete(SNAPSHOT_KEY));
+}
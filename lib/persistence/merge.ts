@@ -0,0 +1,40 @@
+// lib/persistence/merge.ts
+// Conflict resolution for learners who switch between devices
+// History (completed concepts, analytics) is merged as a union - analytics keeps only its most recent events.
+// Everything describing "where the learner is right now" comes from the newer snapshot.
+
+import { mergeAnalyticsStates } from '../analytics';
+import { mergeReviewStates } from '../review';
+import type { LearnerSnapshot, Progress } from './types';
+
+const unique = (items: string[]) => Array.from(new Set(items));
+
+function mergeProgress(older: Progress, newer: Progress): Progress {
+  const history = new Map<string, Progress['conceptHistory'][number]>();
+  [...older.conceptHistory, ...newer.conceptHistory].forEach(entry => {
+    history.set(`${entry.id}:${entry.timestamp}`, entry);
+  });
+  const conceptHistory = Array.from(history.values())
+    .sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+
+  return {
+    completedConcepts: conceptHistory.length,
+    totalConcepts: newer.totalConcepts || older.totalConcepts,
+    confidenceScores: conceptHistory.map(entry => entry.confidence),
+    strengths: unique([...older.strengths, ...newer.strengths]),
+    needsWork: unique([...older.needsWork, ...newer.needsWork]),
+    conceptHistory
+  };
+}
+
+export function mergeSnapshots(a: LearnerSnapshot, b: LearnerSnapshot): LearnerSnapshot {
+  const [older, newer] = a.updatedAt <= b.updatedAt ? [a, b] : [b, a];
+
+  return {
+    ...newer,
+    progress: mergeProgress(older.progress, newer.progress),
+    conceptRatings: { ...older.conceptRatings, ...newer.conceptRatings },
+    analytics: mergeAnalyticsStates(older.analytics, newer.analytics),
+    review: mergeReviewStates(older.review, newer.review)
+  };
+}
@@ -0,0 +1,71 @@
+// lib/persistence/remoteSync.ts
+// Syncs the learner snapshot with /api/progress when a learner code is set
+// Uses optimistic concurrency: a stale baseRevision gets a 409 with the server copy,
+// which is merged locally and pushed again.
+
+import { mergeSnapshots } from './merge';
+import { isLearnerSnapshot } from './validate';
+import type { LearnerSnapshot, StoredSnapshot } from './types';
+
+const MAX_SYNC_ATTEMPTS = 3;
+
+interface RemoteSnapshot {
+  // null when the server copy is malformed - the next push replaces it
+  snapshot: LearnerSnapshot | null;
+  revision: number;
+}
+
+function readRemoteSnapshot(data: { snapshot?: unknown; revision?: unknown }): RemoteSnapshot {
+  if (typeof data.revision !== 'number') {
+    throw new Error('Server sent progress without a revision');
+  }
+  if (!isLearnerSnapshot(data.snapshot)) {
+    console.warn('Ignoring malformed progress from the server');
+    return { snapshot: null, revision: data.revision };
+  }
+  return { snapshot: data.snapshot, revision: data.revision };
+}
+
+export async function fetchRemoteSnapshot(learnerId: string): Promise<RemoteSnapshot | null> {
+  const response = await fetch(`/api/progress?learnerId=${encodeURIComponent(learnerId)}`);
+
+  if (response.status === 404) return null;
+  if (!response.ok) {
+    const errorData = await response.json();
+    throw new Error(errorData.error || 'Failed to load progress');
+  }
+
+  return readRemoteSnapshot(await response.json());
+}
+
+export async function pushSnapshot(learnerId: string, stored: StoredSnapshot): Promise<StoredSnapshot> {
+  let { snapshot, serverRevision } = stored;
+
+  for (let attempt = 0; attempt < MAX_SYNC_ATTEMPTS; attempt++) {
+    const response = await fetch('/api/progress', {
+      method: 'PUT',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ learnerId, snapshot, baseRevision: serverRevision }),
+    });
+
+    if (response.ok) {
+      const data = await response.json();
+      return { snapshot, serverRevision: data.revision };
+    }
+
+    if (response.status === 409) {
+      // Another device synced first - fold its changes in and try again
+      const remote = readRemoteSnapshot(await response.json());
+      if (remote.snapshot) snapshot = mergeSnapshots(snapshot, remote.snapshot);
+      serverRevision = remote.revision;
+      continue;
+    }
+
+    const errorData = await response.json();
+    throw new Error(errorData.error || 'Failed to sync progress');
+  }
+
+  throw new Error('Progress sync kept conflicting - will retry later');
+}
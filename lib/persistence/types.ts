@@ -0,0 +1,47 @@
+// lib/persistence/types.ts
+// Shape of the learner state saved locally and synced across devices
+
+import type { AnalyticsState } from '../analytics';
+import type { CheckAnswer } from '../curriculum';
+import type { ReviewState } from '../review';
+
+// Bump when the snapshot format changes - older snapshots are discarded
+export const SNAPSHOT_VERSION = 1;
+
+export type Screen = 'welcome' | 'learning' | 'review' | 'complete';
+
+export interface Progress {
+  completedConcepts: number;
+  totalConcepts: number;
+  confidenceScores: number[];
+  strengths: string[];
+  needsWork: string[];
+  conceptHistory: Array<{
+    id: string;
+    confidence: number;
+    knowledgeCheckScore: number;
+    timestamp: string;
+  }>;
+}
+
+export interface LearnerSnapshot {
+  version: number;
+  updatedAt: number;
+  deviceId: string;
+  screen: Screen;
+  // Position is stored by id so it survives curriculum edits
+  moduleId: string | null;
+  conceptId: string | null;
+  progress: Progress;
+  knowledgeCheckAnswers: Record<string, CheckAnswer>;
+  conceptRatings: Record<string, number>;
+  analytics: AnalyticsState;
+  // Spaced-repetition schedule - optional because snapshots saved before reviews existed lack it
+  review?: ReviewState;
+}
+
+export interface StoredSnapshot {
+  snapshot: LearnerSnapshot;
+  // Server revision this snapshot was last synced against (0 = never synced)
+  serverRevision: number;
+}
@@ -0,0 +1,91 @@
+// lib/persistence/validate.ts
+// Shape check for learner snapshots that arrive over the network
+// /api/progress rejects anything that fails it, and the app ignores a server copy that fails it
+
+import { isAnalyticsEvent, isConceptAttempt, isReviewOutcome } from '../analytics';
+import { isLewisStructure } from '../lewis';
+import { SNAPSHOT_VERSION } from './types';
+import type { LearnerSnapshot, Screen } from './types';
+
+const SCREENS: Screen[] = ['welcome', 'learning', 'review', 'complete'];
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+
+const isArrayOf = <T>(value: unknown, isItem: (item: unknown) => item is T): value is T[] =>
+  Array.isArray(value) && value.every(isItem);
+
+const isCheckAnswer = (value: unknown) =>
+  Number.isInteger(value) ||
+  typeof value === 'string' ||
+  isArrayOf(value, (item): item is number => Number.isInteger(item)) ||
+  isLewisStructure(value);
+
+const isHistoryEntry = (value: unknown) =>
+  isObject(value) &&
+  isString(value.id) &&
+  isNumber(value.confidence) &&
+  isNumber(value.knowledgeCheckScore) &&
+  isString(value.timestamp);
+
+function isProgress(value: unknown): boolean {
+  return (
+    isObject(value) &&
+    isNumber(value.completedConcepts) &&
+    isNumber(value.totalConcepts) &&
+    isArrayOf(value.confidenceScores, isNumber) &&
+    isArrayOf(value.strengths, isString) &&
+    isArrayOf(value.needsWork, isString) &&
+    Array.isArray(value.conceptHistory) &&
+    value.conceptHistory.every(isHistoryEntry)
+  );
+}
+
+// Only what merging and restoring read - the rest of ConceptPerformance is recomputed from attempts
+const isConceptPerformance = (value: unknown) =>
+  isObject(value) &&
+  isArrayOf(value.attempts, isConceptAttempt) &&
+  // Older snapshots predate reviews
+  (value.reviews === undefined || isArrayOf(value.reviews, isReviewOutcome));
+
+const isAnalyticsState = (value: unknown) =>
+  isObject(value) &&
+  isArrayOf(value.events, isAnalyticsEvent) &&
+  isObject(value.conceptPerformance) &&
+  Object.values(value.conceptPerformance).every(isConceptPerformance);
+
+const isReviewItem = (value: unknown) =>
+  isObject(value) &&
+  isString(value.checkId) &&
+  isString(value.conceptId) &&
+  isNumber(value.easiness) &&
+  isNumber(value.intervalDays) &&
+  isNumber(value.repetitions) &&
+  isNumber(value.lapses) &&
+  isNumber(value.due) &&
+  isNumber(value.lastReviewed);
+
+export function isLearnerSnapshot(value: unknown): value is LearnerSnapshot {
+  return (
+    isObject(value) &&
+    value.version === SNAPSHOT_VERSION &&
+    isNumber(value.updatedAt) &&
+    isString(value.deviceId) &&
+    SCREENS.includes(value.screen as Screen) &&
+    (value.moduleId === null || isString(value.moduleId)) &&
+    (value.conceptId === null || isString(value.conceptId)) &&
+    isProgress(value.progress) &&
+    isObject(value.knowledgeCheckAnswers) &&
+    Object.values(value.knowledgeCheckAnswers).every(isCheckAnswer) &&
+    isObject(value.conceptRatings) &&
+    Object.values(value.conceptRatings).every(isNumber) &&
+    isAnalyticsState(value.analytics) &&
+    // Snapshots saved before reviews existed lack it
+    (value.review === undefined || (isObject(value.review) && Object.values(value.review).every(isReviewItem)))
+  );
+}
@@ -0,0 +1,42 @@
+// lib/projection.ts
+// Flat drawings of 3D points for the visuals' non-WebGL fallbacks: turn the point to the viewing angle,
+// then drop the depth (an orthographic projection - no perspective to fake)
+
+export interface ViewAngle {
+  // Turn about the vertical axis, in radians
+  yaw: number;
+  // Tip towards the viewer, in radians
+  pitch: number;
+}
+
+export interface ProjectedPoint {
+  // Screen-style coordinates: x to the right, y down, in the same units as the input
+  x: number;
+  y: number;
+  // Larger is nearer the viewer - draw in increasing depth order
+  depth: number;
+}
+
+// A little from the side and above, so a flat drawing still reads as 3D
+export const DEFAULT_VIEW_ANGLE: ViewAngle = { yaw: 0.5, pitch: 0.35 };
+
+// Tipping further than this would turn the drawing upside down mid-drag
+const MAX_PITCH = Math.PI / 2;
+
+export function projectPoint(x: number, y: number, z: number, { yaw, pitch }: ViewAngle): ProjectedPoint {
+  const turnedX = x * Math.cos(yaw) + z * Math.sin(yaw);
+  const turnedZ = -x * Math.sin(yaw) + z * Math.cos(yaw);
+  return {
+    x: turnedX,
+    y: -(y * Math.cos(pitch) - turnedZ * Math.sin(pitch)),
+    depth: y * Math.sin(pitch) + turnedZ * Math.cos(pitch),
+  };
+}
+
+// Angle after dragging by (dx, dy) pixels
+export function dragViewAngle({ yaw, pitch }: ViewAngle, dx: number, dy: number): ViewAngle {
+  return {
+    yaw: yaw + dx * 0.01,
+    pitch: Math.max(-MAX_PITCH, Math.min(MAX_PITCH, pitch + dy * 0.01)),
+  };
+}
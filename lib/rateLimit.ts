@@ -0,0 +1,65 @@
+// lib/rateLimit.ts
+// Client side of the API rate limits and budget caps - lets the UI tell students to slow down
+// (or that a feature is paused) instead of showing an error
+
+// Sent with every API call so students sharing a school IP each get their own quota
+export const SESSION_HEADER = 'X-Session-Id';
+
+export class RateLimitedError extends Error {
+  retryAfter: number;
+
+  constructor(retryAfter: number) {
+    super('Too many requests');
+    this.name = 'RateLimitedError';
+    this.retryAfter = retryAfter;
+  }
+}
+
+export const isRateLimited = (error: unknown): error is RateLimitedError =>
+  error instanceof RateLimitedError;
+
+// Throws RateLimitedError for a 429 so callers can branch on it
+export function checkRateLimit(response: Response): void {
+  if (response.status !== 429) return;
+
+  const retryAfter = parseInt(response.headers.get('Retry-After') || '', 10);
+  throw new RateLimitedError(Number.isFinite(retryAfter) ? retryAfter : 60);
+}
+
+const formatWait = (seconds: number) => {
+  if (seconds < 60) return `${seconds} second${seconds === 1 ? '' : 's'}`;
+  const minutes = Math.ceil(seconds / 60);
+  return `${minutes} minute${minutes === 1 ? '' : 's'}`;
+};
+
+export function rateLimitMessage(error: RateLimitedError, action = 'asking questions'): string {
+  return `Whoa, you're moving at the speed of light! ✨ You've been ${action} faster than I can keep up. Take a breath, look back over the lesson, and try again in about ${formatWait(error.retryAfter)}.`;
+}
+
+// ============================================
+// BUDGET CAPS
+// ============================================
+
+// Sent (as a 503) once chat or voice has used up its configured spend for the day or month
+export class ServicePausedError extends Error {
+  constructor() {
+    super('Service paused');
+    this.name = 'ServicePausedError';
+  }
+}
+
+export const isServicePaused = (error: unknown): error is ServicePausedError =>
+  error instanceof ServicePausedError;
+
+export async function checkServicePaused(response: Response): Promise<void> {
+  if (response.status !== 503) return;
+
+  const data = await response.clone().json().catch(() => ({}));
+  if (data.code === 'budget_exceeded') {
+    throw new ServicePausedError();
+  }
+}
+
+export const CHAT_PAUSED_MESSAGE = "I've answered so many questions today that I need to recharge among the stars. 🌙 I'll be back soon - in the meantime, the lessons and knowledge checks are all still here for you.";
+
+export const VOICE_PAUSED_MESSAGE = "Ky'Orda's voice is resting for now. You can keep reading along - everything else works as usual.";
@@ -0,0 +1,192 @@
+// lib/review.ts
+// Spaced-repetition scheduler for knowledge checks (SM-2)
+// Every answered check becomes a review item; a daily review session mixes the due items across concepts
+
+import { gradeCheck } from './grading';
+import type { CheckAnswer, Concept, KnowledgeCheck, Module } from './curriculum';
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface ReviewItem {
+  checkId: string;
+  conceptId: string;
+  // SM-2 easiness factor - how quickly the interval grows (min 1.3)
+  easiness: number;
+  intervalDays: number;
+  // Correct answers in a row since the last lapse
+  repetitions: number;
+  lapses: number;
+  due: number;
+  lastReviewed: number;
+}
+
+// Keyed by knowledge check id
+export type ReviewState = Record<string, ReviewItem>;
+
+export interface ReviewSessionItem {
+  item: ReviewItem;
+  concept: Concept;
+  check: KnowledgeCheck;
+}
+
+// ============================================
+// SCHEDULING
+// ============================================
+
+export const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Enough for a few minutes a day - the rest waits until tomorrow
+export const DAILY_REVIEW_LIMIT = 12;
+
+const INITIAL_EASINESS = 2.5;
+const MIN_EASINESS = 1.3;
+
+// Multiple choice only tells us right or wrong, so map onto SM-2's 0-5 grades
+const GRADE_CORRECT = 4;
+const GRADE_INCORRECT = 1;
+
+function newItem(checkId: string, conceptId: string, now: number): ReviewItem {
+  return {
+    checkId,
+    conceptId,
+    easiness: INITIAL_EASINESS,
+    intervalDays: 0,
+    repetitions: 0,
+    lapses: 0,
+    due: now,
+    lastReviewed: now,
+  };
+}
+
+export function gradeReviewItem(item: ReviewItem, correct: boolean, now: number): ReviewItem {
+  const grade = correct ? GRADE_CORRECT : GRADE_INCORRECT;
+  const easiness = Math.max(
+    MIN_EASINESS,
+    item.easiness + (0.1 - (5 - grade) * (0.08 + (5 - grade) * 0.02))
+  );
+
+  if (!correct) {
+    // A lapse starts the ladder again; it comes back in tomorrow's review
+    return {
+      ...item,
+      easiness,
+      intervalDays: 1,
+      repetitions: 0,
+      lapses: item.lapses + 1,
+      due: now + DAY_MS,
+      lastReviewed: now,
+    };
+  }
+
+  const repetitions = item.repetitions + 1;
+  const intervalDays = repetitions === 1 ? 1
+    : repetitions === 2 ? 6
+    : Math.round(item.intervalDays * easiness);
+
+  return {
+    ...item,
+    easiness,
+    intervalDays,
+    repetitions,
+    due: now + intervalDays * DAY_MS,
+    lastReviewed: now,
+  };
+}
+
+/**
+ * Adds (or re-grades) review items for the checks a student just answered in a lesson.
+ * Wrong answers are due straight away so the first review session picks them up.
+ */
+export function recordLessonAnswers(
+  state: ReviewState,
+  concept: Concept,
+  answers: Record<string, CheckAnswer>,
+  now: number
+): ReviewState {
+  const next = { ...state };
+
+  concept.knowledgeChecks.forEach(check => {
+    if (answers[check.id] === undefined) return;
+    const correct = gradeCheck(check, answers[check.id]);
+    const existing = next[check.id];
+
+    next[check.id] = existing
+      ? gradeReviewItem(existing, correct, now)
+      : correct
+        ? gradeReviewItem(newItem(check.id, concept.id, now), true, now)
+        : { ...newItem(check.id, concept.id, now), lapses: 1 };
+  });
+
+  return next;
+}
+
+// Probability the student still remembers the answer - SM-2 intervals target ~90% recall when due
+export function recallProbability(item: ReviewItem, now: number): number {
+  const stabilityDays = Math.max(item.intervalDays, 0.5) / -Math.log(0.9);
+  const elapsedDays = Math.max(0, now - item.lastReviewed) / DAY_MS;
+  return Math.exp(-elapsedDays / stabilityDays);
+}
+
+// ============================================
+// REVIEW SESSIONS
+// ============================================
+
+function resolveItem(modules: Module[], item: ReviewItem): ReviewSessionItem | null {
+  for (const module of modules) {
+    const concept = module.concepts.find(c => c.id === item.conceptId);
+    const check = concept?.knowledgeChecks.find(k => k.id === item.checkId);
+    if (concept && check) return { item, concept, check };
+  }
+  // The check was removed or renamed in the content since it was scheduled
+  return null;
+}
+
+export function getDueItems(state: ReviewState, modules: Module[], now: number): ReviewSessionItem[] {
+  return Object.values(state)
+    .filter(item => item.due <= now)
+    .sort((a, b) => a.due - b.due)
+    .map(item => resolveItem(modules, item))
+    .filter((resolved): resolved is ReviewSessionItem => resolved !== null);
+}
+
+/**
+ * Today's review: the most overdue items, interleaved so consecutive questions
+ * come from different concepts where possible.
+ */
+export function buildReviewSession(
+  state: ReviewState,
+  modules: Module[],
+  now: number,
+  limit = DAILY_REVIEW_LIMIT
+): ReviewSessionItem[] {
+  const byConcept = new Map<string, ReviewSessionItem[]>();
+  getDueItems(state, modules, now).slice(0, limit).forEach(entry => {
+    const queue = byConcept.get(entry.concept.id) || [];
+    queue.push(entry);
+    byConcept.set(entry.concept.id, queue);
+  });
+
+  const queues = Array.from(byConcept.values());
+  const session: ReviewSessionItem[] = [];
+  while (queues.some(queue => queue.length > 0)) {
+    queues.forEach(queue => {
+      const next = queue.shift();
+      if (next) session.push(next);
+    });
+  }
+  return session;
+}
+
+// Per check, keep whichever device reviewed it most recently
+export function mergeReviewStates(a: ReviewState = {}, b: ReviewState = {}): ReviewState {
+  const merged: ReviewState = { ...a };
+  Object.values(b).forEach(item => {
+    const existing = merged[item.checkId];
+    if (!existing || item.lastReviewed > existing.lastReviewed) {
+      merged[item.checkId] = item;
+    }
+  });
+  return merged;
+}
@@ -0,0 +1,188 @@
+// lib/sceneManager.ts
+// One WebGL renderer shared by every 3D visual. Mobile browsers only allow a handful of WebGL contexts, so instead
+// of a renderer per canvas, each view is rendered into a corner of one offscreen renderer (viewport + scissor)
+// and copied onto its own 2D canvas. Views that are scrolled out of sight, or in a hidden tab, aren't drawn.
+// Where WebGL isn't available at all, isWebGLAvailable() in lib/webgl says so and the visuals draw flat fallbacks
+// instead.
+
+import * as THREE from 'three';
+import { markWebGLUnavailable } from './webgl';
+
+export interface SceneHandle {
+  scene: THREE.Scene;
+  camera: THREE.Camera;
+  // Runs before each frame the view is drawn - animation goes here
+  update?: () => void;
+}
+
+interface View extends SceneHandle {
+  canvas: HTMLCanvasElement;
+  context: CanvasRenderingContext2D;
+  // Device pixels
+  width: number;
+  height: number;
+  isOnScreen: boolean;
+}
+
+// Start drawing a little before a view scrolls into sight
+const ON_SCREEN_MARGIN = '100px';
+
+let renderer: THREE.WebGLRenderer | null = null;
+let isContextLost = false;
+let frameId: number | null = null;
+let observer: IntersectionObserver | null = null;
+const views = new Map<HTMLCanvasElement, View>();
+
+// ============================================
+// DISPOSAL
+// ============================================
+
+function disposeMaterial(material: THREE.Material) {
+  // Textures hang off material properties (map, normalMap, envMap...) and aren't freed with the material
+  Object.values(material).forEach(value => {
+    if (value instanceof THREE.Texture) value.dispose();
+  });
+  material.dispose();
+}
+
+// Frees the GPU memory behind everything under root - geometries, materials and their textures
+export function disposeObject(root: THREE.Object3D) {
+  root.traverse(object => {
+    if (!(object instanceof THREE.Mesh || object instanceof THREE.Points || object instanceof THREE.Line)) return;
+
+    object.geometry.dispose();
+    const materials: THREE.Material[] = Array.isArray(object.material) ? object.material : [object.material];
+    materials.forEach(disposeMaterial);
+  });
+}
+
+// ============================================
+// RENDERER
+// ============================================
+
+function getRenderer(): THREE.WebGLRenderer {
+  if (renderer) return renderer;
+
+  const canvas = document.createElement('canvas');
+  canvas.addEventListener('webglcontextlost', () => {
+    isContextLost = true;
+  });
+  canvas.addEventListener('webglcontextrestored', () => {
+    isContextLost = false;
+  });
+
+  try {
+    renderer = new THREE.WebGLRenderer({ canvas, alpha: true, antialias: true });
+  } catch (error) {
+    // The check passed but three.js still couldn't start - treat it as no WebGL from now on
+    markWebGLUnavailable();
+    throw error;
+  }
+  // Sizes are handled in device pixels here, so the renderer shouldn't scale them again
+  renderer.setPixelRatio(1);
+  renderer.setClearColor(0x000000, 0);
+  renderer.setScissorTest(true);
+  return renderer;
+}
+
+// The offscreen canvas only grows - it has to fit the largest view
+function fitRenderer(width: number, height: number) {
+  const current = getRenderer().getSize(new THREE.Vector2());
+  if (width > current.x || height > current.y) {
+    getRenderer().setSize(Math.max(width, current.x), Math.max(height, current.y), false);
+  }
+}
+
+function getObserver(): IntersectionObserver | null {
+  if (observer || typeof IntersectionObserver === 'undefined') return observer;
+  observer = new IntersectionObserver(entries => {
+    entries.forEach(entry => {
+      const view = views.get(entry.target as HTMLCanvasElement);
+      if (view) view.isOnScreen = entry.isIntersecting;
+    });
+    startLoop();
+  }, { rootMargin: ON_SCREEN_MARGIN });
+  return observer;
+}
+
+// ============================================
+// ANIMATION LOOP
+// ============================================
+
+const hasVisibleView = () => Array.from(views.values()).some(view => view.isOnScreen);
+
+function renderFrame() {
+  frameId = null;
+  if (document.hidden || !hasVisibleView()) return;
+  frameId = requestAnimationFrame(renderFrame);
+  if (isContextLost || !renderer) return;
+
+  const bufferHeight = renderer.getSize(new THREE.Vector2()).y;
+  views.forEach(view => {
+    if (!view.isOnScreen) return;
+    try {
+      view.update?.();
+      renderer!.setViewport(0, 0, view.width, view.height);
+      renderer!.setScissor(0, 0, view.width, view.height);
+      renderer!.render(view.scene, view.camera);
+      // WebGL's origin is bottom-left, so the view sits at the bottom of the offscreen image
+      view.context.clearRect(0, 0, view.width, view.height);
+      view.context.drawImage(
+        renderer!.domElement,
+        0, bufferHeight - view.height, view.width, view.height,
+        0, 0, view.width, view.height
+      );
+    } catch (error) {
+      // One broken scene shouldn't stop every other visual - drop it and leave its canvas as it was
+      console.error('3D view failed to render:', error);
+      views.delete(view.canvas);
+    }
+  });
+}
+
+function startLoop() {
+  if (frameId === null && typeof document !== 'undefined' && !document.hidden && hasVisibleView()) {
+    frameId = requestAnimationFrame(renderFrame);
+  }
+}
+
+if (typeof document !== 'undefined') {
+  document.addEventListener('visibilitychange', startLoop);
+}
+
+// ============================================
+// VIEWS
+// ============================================
+
+/**
+ * Draws scene through camera onto canvas every frame while the canvas is on screen.
+ * Size is in CSS pixels. Returns a detach function, which also disposes the scene.
+ */
+export function attachScene(
+  canvas: HTMLCanvasElement,
+  handle: SceneHandle,
+  size: { width: number; height: number }
+): () => void {
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('Canvas 2D context unavailable');
+
+  const pixelRatio = Math.min(window.devicePixelRatio || 1, 2);
+  const width = Math.round(size.width * pixelRatio);
+  const height = Math.round(size.height * pixelRatio);
+  canvas.width = width;
+  canvas.height = height;
+  canvas.style.width = `${size.width}px`;
+  canvas.style.height = `${size.height}px`;
+  fitRenderer(width, height);
+
+  const intersection = getObserver();
+  views.set(canvas, { ...handle, canvas, context, width, height, isOnScreen: !intersection });
+  intersection?.observe(canvas);
+  startLoop();
+
+  return () => {
+    intersection?.unobserve(canvas);
+    views.delete(canvas);
+    disposeObject(handle.scene);
+  };
+}
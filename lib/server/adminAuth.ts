@@ -0,0 +1,16 @@
+// lib/server/adminAuth.ts
+// Shared admin-key check for the admin-only API routes (header: x-admin-key)
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+
+export function isAdminRequest(req: NextApiRequest): boolean {
+  // No ADMIN_KEY configured means no admin access at all, not open access
+  return Boolean(process.env.ADMIN_KEY) && req.headers['x-admin-key'] === process.env.ADMIN_KEY;
+}
+
+// Sends a 401 and returns false when the request isn't from an admin
+export function requireAdmin(req: NextApiRequest, res: NextApiResponse): boolean {
+  if (isAdminRequest(req)) return true;
+  res.status(401).json({ error: 'Unauthorized' });
+  return false;
+}
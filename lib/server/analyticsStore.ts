@@ -0,0 +1,113 @@
+// lib/server/analyticsStore.ts
+// Storage for analytics batches sent by /api/analytics
+// Select with ANALYTICS_STORE=file (default, JSON lines per day) or memory
+// Each session may store up to MAX_STORED_BYTES_PER_SESSION a day so one client can't fill the disk
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { AnalyticsBatch } from '../analytics';
+import { dataPath, readJsonFile, withLock, writeJsonFile } from './jsonFileStore';
+
+export const MAX_STORED_BYTES_PER_SESSION = 1024 * 1024;
+
+export interface StoredAnalyticsBatch extends AnalyticsBatch {
+  receivedAt: string;
+}
+
+export interface AnalyticsQuery {
+  since?: Date;
+  until?: Date;
+}
+
+export interface AnalyticsStore {
+  // Resolves false without storing anything once the batch's session has used up its allowance
+  append(batch: StoredAnalyticsBatch): Promise<boolean>;
+  list(query?: AnalyticsQuery): Promise<StoredAnalyticsBatch[]>;
+}
+
+const inRange = (batch: StoredAnalyticsBatch, { since, until }: AnalyticsQuery) => {
+  const received = new Date(batch.receivedAt).getTime();
+  return (!since || received >= since.getTime()) && (!until || received <= until.getTime());
+};
+
+const batchBytes = (batch: StoredAnalyticsBatch) => Buffer.byteLength(JSON.stringify(batch)) + 1;
+
+export function createMemoryAnalyticsStore(): AnalyticsStore {
+  const batches: StoredAnalyticsBatch[] = [];
+  const sessionBytes = new Map<string, number>();
+
+  return {
+    async append(batch) {
+      const bytes = (sessionBytes.get(batch.sessionId) || 0) + batchBytes(batch);
+      if (bytes > MAX_STORED_BYTES_PER_SESSION) return false;
+      sessionBytes.set(batch.sessionId, bytes);
+      batches.push(batch);
+      return true;
+    },
+    async list(query = {}) {
+      return batches.filter(batch => inRange(batch, query));
+    },
+  };
+}
+
+export function createFileAnalyticsStore(): AnalyticsStore {
+  const dir = dataPath('analytics');
+
+  return {
+    append(batch) {
+      const day = batch.receivedAt.slice(0, 10);
+      // Bytes stored per session that day, next to the day's batches
+      const totalsFile = path.join(dir, `${day}.sessions.json`);
+
+      return withLock(`analytics:${day}`, async () => {
+        const totals = (await readJsonFile<Record<string, number>>(totalsFile)) || {};
+        const line = JSON.stringify(batch) + '\n';
+        const bytes = (totals[batch.sessionId] || 0) + Buffer.byteLength(line);
+        if (bytes > MAX_STORED_BYTES_PER_SESSION) return false;
+
+        await fs.mkdir(dir, { recursive: true });
+        await fs.appendFile(path.join(dir, `${day}.jsonl`), line);
+        await writeJsonFile(totalsFile, { ...totals, [batch.sessionId]: bytes });
+        return true;
+      });
+    },
+    async list(query = {}) {
+      let files: string[];
+      try {
+        files = (await fs.readdir(dir)).filter(f => f.endsWith('.jsonl')).sort();
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+        throw error;
+      }
+
+      // Skip whole days outside the range before parsing anything
+      const firstDay = query.since?.toISOString().slice(0, 10);
+      const lastDay = query.until?.toISOString().slice(0, 10);
+      const batches: StoredAnalyticsBatch[] = [];
+
+      for (const file of files) {
+        const day = file.replace('.jsonl', '');
+        if ((firstDay && day < firstDay) || (lastDay && day > lastDay)) continue;
+
+        const lines = (await fs.readFile(path.join(dir, file), 'utf8')).split('\n').filter(Boolean);
+        for (const line of lines) {
+          const batch = JSON.parse(line) as StoredAnalyticsBatch;
+          if (inRange(batch, query)) batches.push(batch);
+        }
+      }
+
+      return batches;
+    },
+  };
+}
+
+let store: AnalyticsStore | null = null;
+
+export function getAnalyticsStore(): AnalyticsStore {
+  if (!store) {
+    store = process.env.ANALYTICS_STORE === 'memory'
+      ? createMemoryAnalyticsStore()
+      : createFileAnalyticsStore();
+  }
+  return store;
+}
@@ -0,0 +1,433 @@
+// lib/server/feedbackRepository.ts
+// Durable storage for beta feedback sent to /api/feedback
+// FEEDBACK_STORE picks where feedback is read from: file (default), memory or airtable
+// FEEDBACK_SINKS lists extra places every submission is also sent to, e.g. "webhook,airtable"
+
+import { dataPath, readJsonFile, writeJsonFile, withLock } from './jsonFileStore';
+
+export type FeedbackType = 'rating' | 'comment' | 'issue' | 'suggestion';
+
+export const FEEDBACK_TYPES: FeedbackType[] = ['rating', 'comment', 'issue', 'suggestion'];
+
+// Triage state set from /admin/feedback - records without one are 'new'
+export type FeedbackStatus = 'new' | 'acknowledged' | 'fixed';
+
+export const FEEDBACK_STATUSES: FeedbackStatus[] = ['new', 'acknowledged', 'fixed'];
+
+export interface FeedbackRecord {
+  id: string;
+  type: FeedbackType;
+  conceptId?: string;
+  conceptTitle?: string;
+  rating?: number; // 1-5 or thumbs up/down (1 or 0)
+  comment?: string;
+  timestamp: string;
+  sessionId: string;
+  deviceInfo?: string;
+  status?: FeedbackStatus;
+}
+
+export interface FeedbackQuery {
+  conceptId?: string;
+  type?: FeedbackType;
+  status?: FeedbackStatus;
+  since?: Date;
+  until?: Date;
+  offset?: number;
+  limit?: number;
+}
+
+export interface FeedbackPage {
+  feedback: FeedbackRecord[];
+  total: number;
+  offset: number;
+  limit: number;
+}
+
+// Anywhere a submission can be sent
+export interface FeedbackSink {
+  name: string;
+  save(record: FeedbackRecord): Promise<void>;
+}
+
+// A sink that can also be read back for the admin views
+export interface FeedbackRepository extends FeedbackSink {
+  list(query?: FeedbackQuery): Promise<FeedbackPage>;
+  // Every matching record, newest first, in one pass over the store - for exports
+  listAll(query?: FeedbackQuery): Promise<FeedbackRecord[]>;
+  // Resolves to null when no record has this id
+  setStatus(id: string, status: FeedbackStatus): Promise<FeedbackRecord | null>;
+}
+
+export const DEFAULT_PAGE_SIZE = 50;
+export const MAX_PAGE_SIZE = 500;
+
+// Filter, newest first - offset and limit are ignored
+export function filterRecords(records: FeedbackRecord[], query: FeedbackQuery = {}): FeedbackRecord[] {
+  const { conceptId, type, status, since, until } = query;
+
+  return records
+    .filter(record => {
+      const at = new Date(record.timestamp).getTime();
+      return (
+        (!conceptId || record.conceptId === conceptId) &&
+        (!type || record.type === type) &&
+        (!status || (record.status || 'new') === status) &&
+        (!since || at >= since.getTime()) &&
+        (!until || at <= until.getTime())
+      );
+    })
+    .sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+}
+
+// Newest first, then filter and slice - shared by every readable store
+export function applyQuery(records: FeedbackRecord[], query: FeedbackQuery = {}): FeedbackPage {
+  const offset = Math.max(0, query.offset || 0);
+  const limit = Math.min(MAX_PAGE_SIZE, Math.max(1, query.limit || DEFAULT_PAGE_SIZE));
+  const matching = filterRecords(records, query);
+
+  return {
+    feedback: matching.slice(offset, offset + limit),
+    total: matching.length,
+    offset,
+    limit,
+  };
+}
+
+// ============================================
+// LOCAL STORES
+// ============================================
+
+export function createMemoryFeedbackRepository(): FeedbackRepository {
+  const records: FeedbackRecord[] = [];
+
+  return {
+    name: 'memory',
+    async save(record) {
+      records.push(record);
+    },
+    async list(query) {
+      return applyQuery(records, query);
+    },
+    async listAll(query) {
+      return filterRecords(records, query);
+    },
+    async setStatus(id, status) {
+      const record = records.find(r => r.id === id);
+      if (!record) return null;
+      record.status = status;
+      return record;
+    },
+  };
+}
+
+export function createFileFeedbackRepository(): FeedbackRepository {
+  const file = dataPath('feedback.json');
+
+  return {
+    name: 'file',
+    async save(record) {
+      await withLock(file, async () => {
+        const records = (await readJsonFile<FeedbackRecord[]>(file)) || [];
+        records.push(record);
+        await writeJsonFile(file, records);
+      });
+    },
+    async list(query) {
+      return applyQuery((await readJsonFile<FeedbackRecord[]>(file)) || [], query);
+    },
+    async listAll(query) {
+      return filterRecords((await readJsonFile<FeedbackRecord[]>(file)) || [], query);
+    },
+    async setStatus(id, status) {
+      return withLock(file, async () => {
+        const records = (await readJsonFile<FeedbackRecord[]>(file)) || [];
+        const record = records.find(r => r.id === id);
+        if (!record) return null;
+        record.status = status;
+        await writeJsonFile(file, records);
+        return record;
+      });
+    },
+  };
+}
+
+// ============================================
+// REMOTE SINKS
+// ============================================
+
+// Thrown by the remote sinks. retryable is false when the request may have been stored anyway
+// (a timeout, a 500), so sending it again could create a duplicate row.
+export class FeedbackSaveError extends Error {
+  retryable: boolean;
+
+  constructor(message: string, retryable: boolean) {
+    super(message);
+    this.name = 'FeedbackSaveError';
+    this.retryable = retryable;
+  }
+}
+
+// The connection never opened, so nothing was sent
+const UNSENT_ERROR_CODES = new Set(['ECONNREFUSED', 'ENOTFOUND', 'EAI_AGAIN']);
+// The service turned the request away before handling it
+const UNHANDLED_STATUSES = new Set([429, 502, 503]);
+
+async function postRecord(url: string, init: RequestInit, what: string): Promise<void> {
+  let response: Response;
+  try {
+    response = await fetch(url, { ...init, method: 'POST' });
+  } catch (error) {
+    const code = (error as { cause?: { code?: string } }).cause?.code;
+    throw new FeedbackSaveError(`${what} failed: ${code || String(error)}`, UNSENT_ERROR_CODES.has(code || ''));
+  }
+
+  if (!response.ok) {
+    throw new FeedbackSaveError(`${what} failed: ${response.status}`, UNHANDLED_STATUSES.has(response.status));
+  }
+}
+
+interface AirtableConfig {
+  apiKey: string;
+  baseId: string;
+  tableName: string;
+}
+
+function getAirtableConfig(): AirtableConfig {
+  const apiKey = process.env.AIRTABLE_API_KEY;
+  const baseId = process.env.AIRTABLE_BASE_ID;
+
+  if (!apiKey || !baseId) {
+    throw new Error('Airtable feedback needs AIRTABLE_API_KEY and AIRTABLE_BASE_ID');
+  }
+  return { apiKey, baseId, tableName: process.env.AIRTABLE_TABLE_NAME || 'Feedback' };
+}
+
+interface AirtableRow {
+  id: string;
+  fields: Record<string, any>;
+}
+
+const toRecord = ({ id, fields }: AirtableRow): FeedbackRecord => ({
+  id: fields.FeedbackId || id,
+  type: fields.Type,
+  conceptId: fields.ConceptId || undefined,
+  conceptTitle: fields.ConceptTitle || undefined,
+  rating: typeof fields.Rating === 'number' ? fields.Rating : undefined,
+  comment: fields.Comment || undefined,
+  timestamp: fields.Timestamp,
+  sessionId: fields.SessionId,
+  deviceInfo: fields.DeviceInfo || undefined,
+  status: fields.Status || undefined,
+});
+
+export function createAirtableFeedbackRepository(config = getAirtableConfig()): FeedbackRepository {
+  const url = `https://api.airtable.com/v0/${config.baseId}/${encodeURIComponent(config.tableName)}`;
+  const headers = {
+    'Authorization': `Bearer ${config.apiKey}`,
+    'Content-Type': 'application/json',
+  };
+
+  // Beta volumes are small enough to page through the whole table and filter here
+  const fetchAll = async (): Promise<FeedbackRecord[]> => {
+    const records: FeedbackRecord[] = [];
+    let offset: string | undefined;
+
+    do {
+      const pageUrl = offset ? `${url}?offset=${encodeURIComponent(offset)}` : url;
+      const response = await fetch(pageUrl, { headers });
+      if (!response.ok) {
+        throw new Error(`Airtable list failed: ${response.status}`);
+      }
+
+      const data = await response.json();
+      data.records.forEach((row: AirtableRow) => records.push(toRecord(row)));
+      offset = data.offset;
+    } while (offset);
+
+    return records;
+  };
+
+  return {
+    name: 'airtable',
+    save(record) {
+      return postRecord(url, {
+        headers,
+        body: JSON.stringify({
+          records: [{
+            fields: {
+              FeedbackId: record.id,
+              Type: record.type,
+              ConceptId: record.conceptId || '',
+              ConceptTitle: record.conceptTitle || '',
+              Rating: record.rating ?? null,
+              Comment: record.comment || '',
+              Timestamp: record.timestamp,
+              SessionId: record.sessionId,
+              DeviceInfo: record.deviceInfo || '',
+              Status: record.status || 'new'
+            }
+          }]
+        }),
+      }, 'Airtable save');
+    },
+    async list(query) {
+      return applyQuery(await fetchAll(), query);
+    },
+    async listAll(query) {
+      return filterRecords(await fetchAll(), query);
+    },
+    async setStatus(id, status) {
+      const formula = encodeURIComponent(`{FeedbackId} = '${id.replace(/'/g, "\\'")}'`);
+      const found = await fetch(`${url}?filterByFormula=${formula}&maxRecords=1`, { headers });
+      if (!found.ok) {
+        throw new Error(`Airtable lookup failed: ${found.status}`);
+      }
+
+      const [match] = (await found.json()).records;
+      if (!match) return null;
+
+      const response = await fetch(`${url}/${match.id}`, {
+        method: 'PATCH',
+        headers,
+        body: JSON.stringify({ fields: { Status: status } }),
+      });
+      if (!response.ok) {
+        throw new Error(`Airtable update failed: ${response.status}`);
+      }
+
+      return { ...toRecord(match), status };
+    },
+  };
+}
+
+// For Zapier, Make.com, Slack workflows etc. - write-only
+export function createWebhookFeedbackSink(webhookUrl = process.env.FEEDBACK_WEBHOOK_URL): FeedbackSink {
+  if (!webhookUrl) {
+    throw new Error('Webhook feedback needs FEEDBACK_WEBHOOK_URL');
+  }
+
+  return {
+    name: 'webhook',
+    save(record) {
+      return postRecord(webhookUrl, {
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(record),
+      }, 'Webhook');
+    },
+  };
+}
+
+// ============================================
+// RETRIES AND FAN-OUT
+// ============================================
+
+const RETRY_ATTEMPTS = 3;
+const RETRY_BASE_DELAY_MS = 200;
+
+// Gives up straight away on a FeedbackSaveError that isn't safe to repeat
+export async function withRetry<T>(task: () => Promise<T>, attempts = RETRY_ATTEMPTS): Promise<T> {
+  let lastError: unknown;
+  for (let attempt = 0; attempt < attempts; attempt++) {
+    try {
+      return await task();
+    } catch (error) {
+      lastError = error;
+      if (error instanceof FeedbackSaveError && !error.retryable) break;
+      if (attempt < attempts - 1) {
+        await new Promise(resolve => setTimeout(resolve, RETRY_BASE_DELAY_MS * 2 ** attempt));
+      }
+    }
+  }
+  throw lastError;
+}
+
+/**
+ * Saves to the primary store (which must succeed) and to every extra sink in parallel.
+ * Sink failures are logged after retries rather than failing the student's submission.
+ */
+export function createFanOutFeedbackRepository(
+  primary: FeedbackRepository,
+  sinks: FeedbackSink[]
+): FeedbackRepository {
+  return {
+    name: [primary.name, ...sinks.map(sink => sink.name)].join('+'),
+    async save(record) {
+      const [primaryResult, ...sinkResults] = await Promise.allSettled([
+        withRetry(() => primary.save(record)),
+        ...sinks.map(sink => withRetry(() => sink.save(record))),
+      ]);
+
+      sinkResults.forEach((result, i) => {
+        if (result.status === 'rejected') {
+          console.error(`Feedback sink "${sinks[i].name}" failed:`, result.reason);
+        }
+      });
+
+      if (primaryResult.status === 'rejected') {
+        throw primaryResult.reason;
+      }
+    },
+    list(query) {
+      return primary.list(query);
+    },
+    listAll(query) {
+      return primary.listAll(query);
+    },
+    setStatus(id, status) {
+      // Triage is an admin concern - write-only sinks don't need to hear about it
+      return primary.setStatus(id, status);
+    },
+  };
+}
+
+// ============================================
+// CONFIGURATION
+// ============================================
+
+function createPrimary(name: string | undefined): FeedbackRepository {
+  switch (name) {
+    case 'memory':
+      return createMemoryFeedbackRepository();
+    case 'airtable':
+      return createAirtableFeedbackRepository();
+    case undefined:
+    case '':
+    case 'file':
+      return createFileFeedbackRepository();
+    default:
+      throw new Error(`Unknown FEEDBACK_STORE "${name}"`);
+  }
+}
+
+function createSink(name: string): FeedbackSink {
+  switch (name) {
+    case 'webhook':
+      return createWebhookFeedbackSink();
+    case 'airtable':
+      return createAirtableFeedbackRepository();
+    case 'file':
+      return createFileFeedbackRepository();
+    default:
+      throw new Error(`Unknown feedback sink "${name}"`);
+  }
+}
+
+let repository: FeedbackRepository | null = null;
+
+export function getFeedbackRepository(): FeedbackRepository {
+  if (!repository) {
+    const primary = createPrimary(process.env.FEEDBACK_STORE);
+    const sinks = (process.env.FEEDBACK_SINKS || '')
+      .split(',')
+      .map(name => name.trim())
+      .filter(name => name && name !== primary.name)
+      .map(createSink);
+
+    // Even with no sinks, so saves to the primary store are always retried
+    repository = createFanOutFeedbackRepository(primary, sinks);
+  }
+  return repository;
+}
@@ -0,0 +1,39 @@
+// lib/server/jsonFileStore.ts
+// Small helpers for the file-backed dev stores under KYORDA_DATA_DIR (default .data/)
+// Serverless filesystems are ephemeral - use these for local development and single-server deploys.
+
+import { promises as fs } from 'fs';
+import path from 'path';
+
+export const DATA_DIR = process.env.KYORDA_DATA_DIR || path.join(process.cwd(), '.data');
+
+export function dataPath(...segments: string[]): string {
+  return path.join(DATA_DIR, ...segments);
+}
+
+export async function readJsonFile<T>(file: string): Promise<T | null> {
+  try {
+    return JSON.parse(await fs.readFile(file, 'utf8')) as T;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+    throw error;
+  }
+}
+
+// Write to a temp file and rename so readers never see a half-written file
+export async function writeJsonFile(file: string, data: unknown): Promise<void> {
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  const tmpFile = `${file}.${process.pid}.tmp`;
+  await fs.writeFile(tmpFile, JSON.stringify(data, null, 2));
+  await fs.rename(tmpFile, file);
+}
+
+// Serialise read-modify-write cycles per key within this process
+const locks = new Map<string, Promise<unknown>>();
+
+export function withLock<T>(key: string, task: () => Promise<T>): Promise<T> {
+  const previous = locks.get(key) || Promise.resolve();
+  const next = previous.then(task, task);
+  locks.set(key, next.catch(() => undefined));
+  return next;
+}
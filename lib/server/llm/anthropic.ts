@@ -0,0 +1,91 @@
+// lib/server/llm/anthropic.ts
+// Anthropic Messages API provider
+
+import { LLMProviderError } from './types';
+import type { LLMProvider, LLMRequest, LLMStreamEvent } from './types';
+
+const API_URL = 'https://api.anthropic.com/v1/messages';
+
+export function createAnthropicProvider(apiKey: string): LLMProvider {
+  const callApi = async (request: LLMRequest, stream: boolean, signal?: AbortSignal) => {
+    const response = await fetch(API_URL, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-api-key': apiKey,
+        'anthropic-version': '2023-06-01'
+      },
+      body: JSON.stringify({
+        model: request.model,
+        max_tokens: request.maxTokens,
+        temperature: request.temperature,
+        system: request.system,
+        messages: request.messages,
+        stream
+      }),
+      signal
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      console.error('Anthropic API error:', errorData);
+      throw new LLMProviderError('API request failed', response.status, errorData);
+    }
+
+    return response;
+  };
+
+  return {
+    name: 'anthropic',
+
+    async complete(request) {
+      const data = await (await callApi(request, false)).json();
+
+      return {
+        text: data.content[0]?.text || '',
+        usage: {
+          inputTokens: data.usage?.input_tokens || 0,
+          outputTokens: data.usage?.output_tokens || 0
+        }
+      };
+    },
+
+    async *stream(request, signal): AsyncGenerator<LLMStreamEvent> {
+      const response = await callApi(request, true, signal);
+      if (!response.body) {
+        throw new LLMProviderError('Empty stream from Anthropic');
+      }
+
+      const usage = { inputTokens: 0, outputTokens: 0 };
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = '';
+
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split('\n');
+        buffer = lines.pop() || '';
+
+        for (const line of lines) {
+          if (!line.startsWith('data: ')) continue;
+          const event = JSON.parse(line.slice(6));
+
+          if (event.type === 'content_block_delta' && event.delta?.type === 'text_delta') {
+            yield { type: 'delta', text: event.delta.text };
+          } else if (event.type === 'message_start') {
+            usage.inputTokens = event.message?.usage?.input_tokens || 0;
+          } else if (event.type === 'message_delta') {
+            usage.outputTokens = event.usage?.output_tokens || usage.outputTokens;
+          } else if (event.type === 'error') {
+            throw new LLMProviderError(event.error?.message || 'Stream error');
+          }
+        }
+      }
+
+      yield { type: 'done', usage };
+    }
+  };
+}
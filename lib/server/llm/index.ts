@@ -0,0 +1,50 @@
+// lib/server/llm/index.ts
+// Picks the chat provider and generation settings from environment variables
+//   LLM_PROVIDER     anthropic (default) | mock
+//   LLM_MODEL        model id passed to the provider
+//   LLM_MAX_TOKENS   response token limit
+//   LLM_TEMPERATURE  sampling temperature (0-1)
+
+import { createAnthropicProvider } from './anthropic';
+import { createMockProvider } from './mock';
+import { LLMProviderError } from './types';
+import type { LLMProvider, LLMRequest } from './types';
+
+export * from './types';
+
+const DEFAULT_MODEL = 'claude-sonnet-4-20250514';
+const DEFAULT_MAX_TOKENS = 1024;
+const DEFAULT_TEMPERATURE = 1; // Anthropic's own default
+
+const numberFromEnv = (value: string | undefined, fallback: number) => {
+  const parsed = Number(value);
+  return value !== undefined && value !== '' && Number.isFinite(parsed) ? parsed : fallback;
+};
+
+export function getLLMSettings(): Pick<LLMRequest, 'model' | 'maxTokens' | 'temperature'> {
+  return {
+    model: process.env.LLM_MODEL || (process.env.LLM_PROVIDER === 'mock' ? 'mock' : DEFAULT_MODEL),
+    maxTokens: numberFromEnv(process.env.LLM_MAX_TOKENS, DEFAULT_MAX_TOKENS),
+    temperature: numberFromEnv(process.env.LLM_TEMPERATURE, DEFAULT_TEMPERATURE),
+  };
+}
+
+export function getLLMProvider(): LLMProvider {
+  const providerName = process.env.LLM_PROVIDER || 'anthropic';
+
+  if (providerName === 'mock') {
+    return createMockProvider();
+  }
+
+  if (providerName === 'anthropic') {
+    // Get API key from environment variable (set in Vercel dashboard)
+    const apiKey = process.env.ANTHROPIC_API_KEY;
+    if (!apiKey) {
+      console.error('ANTHROPIC_API_KEY not configured');
+      throw new LLMProviderError('API not configured');
+    }
+    return createAnthropicProvider(apiKey);
+  }
+
+  throw new LLMProviderError(`Unknown LLM_PROVIDER "${providerName}"`);
+}
@@ -0,0 +1,62 @@
+// lib/server/llm/mock.ts
+// Deterministic offline provider for development and tests - no API key needed
+// MOCK_LLM_MODE=canned (default) answers from a fixed list, echo repeats the question back
+
+import type { LLMProvider, LLMRequest, LLMStreamEvent } from './types';
+
+const CANNED_RESPONSES = [
+  "Great question! Think of it this way: every atom is trying to reach a stable, low-energy arrangement of electrons. Carbon gets there by **sharing** its 4 valence electrons with other atoms.",
+  "Let's build on what you already know. Electrons fill the lowest-energy orbitals first - 1s, then 2s, then 2p - which is why carbon ends up as 1s² 2s² 2p².",
+  "You're made of stardust! The carbon in your body was forged in ancient stars, and it still follows the same octet rule you're learning about right now.",
+];
+
+// Same question -> same answer, so flows can be tested reliably
+function hash(text: string): number {
+  let h = 0;
+  for (let i = 0; i < text.length; i++) {
+    h = (h * 31 + text.charCodeAt(i)) | 0;
+  }
+  return Math.abs(h);
+}
+
+function respond(request: LLMRequest): string {
+  const question = request.messages[request.messages.length - 1]?.content || '';
+
+  if (process.env.MOCK_LLM_MODE === 'echo') {
+    return `[mock:${request.model}] You asked: ${question}`;
+  }
+  return CANNED_RESPONSES[hash(question) % CANNED_RESPONSES.length];
+}
+
+const countTokens = (text: string) => Math.ceil(text.length / 4);
+
+export function createMockProvider(): LLMProvider {
+  return {
+    name: 'mock',
+
+    async complete(request) {
+      const text = respond(request);
+      return {
+        text,
+        usage: {
+          inputTokens: countTokens(request.system + request.messages.map(m => m.content).join('')),
+          outputTokens: countTokens(text)
+        }
+      };
+    },
+
+    async *stream(request, signal): AsyncGenerator<LLMStreamEvent> {
+      const { text, usage } = await this.complete(request);
+      const delay = Number(process.env.MOCK_LLM_DELAY_MS || 20);
+
+      // Word-by-word, so the streaming UI behaves like the real thing
+      for (const word of text.split(/(?<=\s)/)) {
+        if (signal?.aborted) return;
+        if (delay > 0) await new Promise(resolve => setTimeout(resolve, delay));
+        yield { type: 'delta', text: word };
+      }
+
+      yield { type: 'done', usage };
+    }
+  };
+}
@@ -0,0 +1,48 @@
+// lib/server/llm/types.ts
+// Provider-agnostic interface behind /api/chat
+
+export interface LLMMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+export interface LLMRequest {
+  system: string;
+  messages: LLMMessage[];
+  model: string;
+  maxTokens: number;
+  temperature: number;
+}
+
+export interface LLMUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface LLMResponse {
+  text: string;
+  usage: LLMUsage;
+}
+
+export type LLMStreamEvent =
+  | { type: 'delta'; text: string }
+  | { type: 'done'; usage: LLMUsage };
+
+export interface LLMProvider {
+  name: string;
+  complete(request: LLMRequest): Promise<LLMResponse>;
+  stream(request: LLMRequest, signal?: AbortSignal): AsyncGenerator<LLMStreamEvent>;
+}
+
+// Carries the upstream HTTP status so the route can pass it through
+export class LLMProviderError extends Error {
+  status: number;
+  details?: unknown;
+
+  constructor(message: string, status = 500, details?: unknown) {
+    super(message);
+    this.name = 'LLMProviderError';
+    this.status = status;
+    this.details = details;
+  }
+}
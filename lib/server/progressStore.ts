@@ -0,0 +1,84 @@
+// lib/server/progressStore.ts
+// Server-side storage for synced learner snapshots
+// Select with PROGRESS_STORE=file (default) or memory
+
+import type { LearnerSnapshot } from '../persistence/types';
+import { dataPath, readJsonFile, writeJsonFile, withLock } from './jsonFileStore';
+
+export interface ProgressRecord {
+  snapshot: LearnerSnapshot;
+  revision: number;
+  updatedAt: string;
+}
+
+export type PutResult =
+  | { ok: true; revision: number }
+  | { ok: false; current: ProgressRecord };
+
+export interface ProgressStore {
+  get(learnerId: string): Promise<ProgressRecord | null>;
+  // Rejects the write with the current record when baseRevision is stale
+  put(learnerId: string, snapshot: LearnerSnapshot, baseRevision: number): Promise<PutResult>;
+}
+
+function applyPut(
+  current: ProgressRecord | null,
+  snapshot: LearnerSnapshot,
+  baseRevision: number
+): { result: PutResult; record?: ProgressRecord } {
+  const currentRevision = current?.revision || 0;
+  if (current && baseRevision !== currentRevision) {
+    return { result: { ok: false, current } };
+  }
+
+  const record = {
+    snapshot,
+    revision: currentRevision + 1,
+    updatedAt: new Date().toISOString(),
+  };
+  return { result: { ok: true, revision: record.revision }, record };
+}
+
+export function createMemoryProgressStore(): ProgressStore {
+  const records = new Map<string, ProgressRecord>();
+
+  return {
+    async get(learnerId) {
+      return records.get(learnerId) || null;
+    },
+    async put(learnerId, snapshot, baseRevision) {
+      const { result, record } = applyPut(records.get(learnerId) || null, snapshot, baseRevision);
+      if (record) records.set(learnerId, record);
+      return result;
+    },
+  };
+}
+
+export function createFileProgressStore(): ProgressStore {
+  const fileFor = (learnerId: string) => dataPath('progress', `${learnerId}.json`);
+
+  return {
+    get(learnerId) {
+      return readJsonFile<ProgressRecord>(fileFor(learnerId));
+    },
+    put(learnerId, snapshot, baseRevision) {
+      return withLock(`progress:${learnerId}`, async () => {
+        const current = await readJsonFile<ProgressRecord>(fileFor(learnerId));
+        const { result, record } = applyPut(current, snapshot, baseRevision);
+        if (record) await writeJsonFile(fileFor(learnerId), record);
+        return result;
+      });
+    },
+  };
+}
+
+let store: ProgressStore | null = null;
+
+export function getProgressStore(): ProgressStore {
+  if (!store) {
+    store = process.env.PROGRESS_STORE === 'memory'
+      ? createMemoryProgressStore()
+      : createFileProgressStore();
+  }
+  return store;
+}
@@ -0,0 +1,123 @@
+// lib/server/rateLimit.ts
+// Per-session and per-IP token buckets for the public API routes
+// Quotas are "<requests>/<window>" (e.g. 20/10m) and can be overridden with
+// RATE_LIMIT_<ROUTE>_SESSION / RATE_LIMIT_<ROUTE>_IP, e.g. RATE_LIMIT_CHAT_IP=200/10m
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getRateLimitStore } from './rateLimitStore';
+import type { BucketPolicy, BucketResult } from './rateLimitStore';
+
+export type RateLimitedRoute = 'chat' | 'tts' | 'feedback' | 'progress' | 'analytics';
+
+interface RouteQuota {
+  session: string;
+  // Whole classrooms share one school IP, so this needs to be far looser than the session quota
+  ip: string;
+}
+
+const DEFAULT_QUOTAS: Record<RateLimitedRoute, RouteQuota> = {
+  chat: { session: '20/10m', ip: '300/10m' },
+  tts: { session: '40/10m', ip: '600/10m' },
+  feedback: { session: '20/10m', ip: '200/10m' },
+  // The app syncs progress a second after each change and flushes analytics after each lesson
+  progress: { session: '120/10m', ip: '1200/10m' },
+  analytics: { session: '60/10m', ip: '600/10m' },
+};
+
+const WINDOW_UNITS: Record<string, number> = {
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+};
+
+// Header the app sends with every API call so students behind one IP get their own bucket
+export const SESSION_HEADER = 'x-session-id';
+
+export function parseQuota(quota: string): BucketPolicy | null {
+  const match = /^(\d+)\/(\d*)([smh])$/.exec(quota.trim());
+  if (!match) return null;
+
+  const capacity = parseInt(match[1], 10);
+  const windowMs = (match[2] ? parseInt(match[2], 10) : 1) * WINDOW_UNITS[match[3]];
+  if (capacity <= 0 || windowMs <= 0) return null;
+
+  return { capacity, refillRate: capacity / windowMs };
+}
+
+function getPolicy(route: RateLimitedRoute, scope: keyof RouteQuota): BucketPolicy {
+  const override = process.env[`RATE_LIMIT_${route.toUpperCase()}_${scope.toUpperCase()}`];
+  const policy = override ? parseQuota(override) : null;
+
+  if (override && !policy) {
+    console.warn(`Ignoring invalid rate limit quota "${override}" for ${route} ${scope}`);
+  }
+  return policy || parseQuota(DEFAULT_QUOTAS[route][scope])!;
+}
+
+const firstHeader = (value: string | string[] | undefined) =>
+  Array.isArray(value) ? value[0] : value;
+
+/**
+ * Assumes the app runs behind exactly one trusted proxy (Vercel) that sets x-real-ip and appends the
+ * address it saw to x-forwarded-for. Earlier x-forwarded-for entries come from the client and can be
+ * forged, so only the proxy's own entry is used. Without a proxy, falls back to the socket address.
+ */
+export function getClientIp(req: NextApiRequest): string {
+  const realIp = firstHeader(req.headers['x-real-ip'])?.trim();
+  if (realIp) return realIp;
+
+  const lastHop = firstHeader(req.headers['x-forwarded-for'])?.split(',').pop()?.trim();
+  return lastHop || req.socket?.remoteAddress || 'unknown';
+}
+
+// Session id from the X-Session-Id header, falling back to a sessionId in the body
+export function getRequestSessionId(req: NextApiRequest): string | null {
+  const header = req.headers[SESSION_HEADER];
+  const sessionId = (Array.isArray(header) ? header[0] : header) || req.body?.sessionId;
+  return typeof sessionId === 'string' && sessionId.length > 0 && sessionId.length <= 128
+    ? sessionId
+    : null;
+}
+
+/**
+ * Takes one token from the caller's session and IP buckets.
+ * Returns false after sending a 429 - the handler should stop there.
+ * Fails open if the store is unreachable so an outage doesn't take chat down with it.
+ */
+export async function enforceRateLimit(
+  req: NextApiRequest,
+  res: NextApiResponse,
+  route: RateLimitedRoute
+): Promise<boolean> {
+  const now = Date.now();
+  const sessionId = getRequestSessionId(req);
+  const checks: Array<[string, BucketPolicy]> = [
+    [`${route}:ip:${getClientIp(req)}`, getPolicy(route, 'ip')],
+  ];
+  if (sessionId) {
+    checks.push([`${route}:session:${sessionId}`, getPolicy(route, 'session')]);
+  }
+
+  let results: BucketResult[];
+  try {
+    const store = getRateLimitStore();
+    results = await Promise.all(checks.map(([key, policy]) => store.take(key, policy, now)));
+  } catch (error) {
+    console.error('Rate limit check failed:', error);
+    return true;
+  }
+
+  const limited = results.filter(result => !result.allowed);
+  res.setHeader('X-RateLimit-Remaining', Math.min(...results.map(result => result.remaining)));
+
+  if (limited.length === 0) return true;
+
+  const retryAfter = Math.ceil(Math.max(...limited.map(result => result.retryAfterMs)) / 1000);
+  res.setHeader('Retry-After', retryAfter);
+  res.status(429).json({
+    error: 'Too many requests',
+    code: 'rate_limited',
+    retryAfter
+  });
+  return false;
+}
@@ -0,0 +1,139 @@
+// lib/server/rateLimitStore.ts
+// Token-bucket storage for rate limiting
+// Select with RATE_LIMIT_STORE=memory (default, per server instance) or redis (Upstash / Vercel KV REST API)
+
+export interface BucketPolicy {
+  capacity: number;
+  // Tokens added back per millisecond
+  refillRate: number;
+}
+
+export interface BucketResult {
+  allowed: boolean;
+  remaining: number;
+  // 0 when allowed, otherwise how long until one token is available
+  retryAfterMs: number;
+}
+
+export interface RateLimitStore {
+  take(key: string, policy: BucketPolicy, now: number): Promise<BucketResult>;
+}
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+// Shared by both stores so memory and redis agree on the maths
+function takeFromBucket(bucket: Bucket | null, policy: BucketPolicy, now: number): { bucket: Bucket; result: BucketResult } {
+  const elapsed = bucket ? Math.max(0, now - bucket.updatedAt) : 0;
+  const tokens = bucket
+    ? Math.min(policy.capacity, bucket.tokens + elapsed * policy.refillRate)
+    : policy.capacity;
+
+  if (tokens < 1) {
+    return {
+      bucket: { tokens, updatedAt: now },
+      result: { allowed: false, remaining: 0, retryAfterMs: Math.ceil((1 - tokens) / policy.refillRate) },
+    };
+  }
+
+  return {
+    bucket: { tokens: tokens - 1, updatedAt: now },
+    result: { allowed: true, remaining: Math.floor(tokens - 1), retryAfterMs: 0 },
+  };
+}
+
+// Time for an empty bucket to fill back up - after that the key can be forgotten
+const fullRefillMs = (policy: BucketPolicy) => Math.ceil(policy.capacity / policy.refillRate);
+
+export function createMemoryRateLimitStore(): RateLimitStore {
+  const buckets = new Map<string, Bucket & { expiresAt: number }>();
+  let lastSweep = 0;
+
+  return {
+    async take(key, policy, now) {
+      // Drop idle buckets once a minute so the map doesn't grow forever
+      if (now - lastSweep > 60 * 1000) {
+        lastSweep = now;
+        Array.from(buckets.entries()).forEach(([k, b]) => {
+          if (b.expiresAt < now) buckets.delete(k);
+        });
+      }
+
+      const { bucket, result } = takeFromBucket(buckets.get(key) || null, policy, now);
+      buckets.set(key, { ...bucket, expiresAt: now + fullRefillMs(policy) });
+      return result;
+    },
+  };
+}
+
+// Same algorithm as takeFromBucket, run atomically inside Redis
+const TAKE_SCRIPT = `
+local capacity = tonumber(ARGV[1])
+local rate = tonumber(ARGV[2])
+local now = tonumber(ARGV[3])
+local ttl = tonumber(ARGV[4])
+local state = redis.call('HMGET', KEYS[1], 'tokens', 'updatedAt')
+local tokens = capacity
+if state[1] then
+  tokens = math.min(capacity, tonumber(state[1]) + math.max(0, now - tonumber(state[2])) * rate)
+end
+local allowed = 0
+if tokens >= 1 then
+  tokens = tokens - 1
+  allowed = 1
+end
+redis.call('HSET', KEYS[1], 'tokens', tostring(tokens), 'updatedAt', tostring(now))
+redis.call('PEXPIRE', KEYS[1], ttl)
+return { allowed, tostring(tokens) }
+`;
+
+export function createRedisRateLimitStore(url: string, token: string): RateLimitStore {
+  return {
+    async take(key, policy, now) {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${token}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify([
+          'EVAL', TAKE_SCRIPT, 1, `ratelimit:${key}`,
+          policy.capacity, policy.refillRate, now, fullRefillMs(policy)
+        ]),
+      });
+
+      if (!response.ok) {
+        throw new Error(`Rate limit store error: ${response.status}`);
+      }
+
+      const { result } = await response.json();
+      const [allowed, tokensLeft] = result as [number, string];
+      const tokens = parseFloat(tokensLeft);
+
+      return allowed === 1
+        ? { allowed: true, remaining: Math.floor(tokens), retryAfterMs: 0 }
+        : { allowed: false, remaining: 0, retryAfterMs: Math.ceil((1 - tokens) / policy.refillRate) };
+    },
+  };
+}
+
+let store: RateLimitStore | null = null;
+
+export function getRateLimitStore(): RateLimitStore {
+  if (!store) {
+    const url = process.env.RATE_LIMIT_REDIS_URL || process.env.KV_REST_API_URL;
+    const token = process.env.RATE_LIMIT_REDIS_TOKEN || process.env.KV_REST_API_TOKEN;
+
+    if (process.env.RATE_LIMIT_STORE === 'redis') {
+      if (!url || !token) {
+        throw new Error('RATE_LIMIT_STORE=redis needs RATE_LIMIT_REDIS_URL and RATE_LIMIT_REDIS_TOKEN');
+      }
+      store = createRedisRateLimitStore(url, token);
+    } else {
+      store = createMemoryRateLimitStore();
+    }
+  }
+  return store;
+}
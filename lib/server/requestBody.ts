@@ -0,0 +1,14 @@
+// lib/server/requestBody.ts
+// Typed access to parsed JSON request bodies - fields come back as unknown so each route has to narrow them
+
+import type { NextApiRequest } from 'next';
+
+export type JsonObject = Record<string, unknown>;
+
+export const isObject = (value: unknown): value is JsonObject =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// The parsed body, or an empty object when it isn't a JSON object
+export function readBody(req: NextApiRequest): JsonObject {
+  return isObject(req.body) ? req.body : {};
+}
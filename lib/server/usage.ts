@@ -0,0 +1,204 @@
+// lib/server/usage.ts
+// Prices usage, writes it to the ledger and enforces spend caps
+// Caps: CHAT_DAILY_BUDGET_USD, CHAT_MONTHLY_BUDGET_USD, TTS_DAILY_BUDGET_USD, TTS_MONTHLY_BUDGET_USD
+// (unset = no cap). Days and months are UTC.
+
+import type { LLMRequest, LLMUsage } from './llm';
+import { getUsageStore } from './usageStore';
+import type { UsageRecord, UsageService } from './usageStore';
+
+// ============================================
+// PRICING (USD, list prices - update when providers change them)
+// ============================================
+
+interface TokenPrice {
+  inputPerMillion: number;
+  outputPerMillion: number;
+}
+
+const TOKEN_PRICES: Record<string, TokenPrice> = {
+  'claude-sonnet-4-20250514': { inputPerMillion: 3, outputPerMillion: 15 },
+  'claude-3-5-haiku-20241022': { inputPerMillion: 0.8, outputPerMillion: 4 },
+  'mock': { inputPerMillion: 0, outputPerMillion: 0 },
+};
+
+// Unknown models are priced like Sonnet so caps err on the side of stopping early
+const DEFAULT_TOKEN_PRICE = TOKEN_PRICES['claude-sonnet-4-20250514'];
+
+const TTS_PRICE_PER_MILLION_CHARS: Record<string, number> = {
+  openai: 15,
+  elevenlabs: 300,
+};
+
+export function priceChat(model: string, usage: LLMUsage): number {
+  const price = TOKEN_PRICES[model] || DEFAULT_TOKEN_PRICE;
+  return (usage.inputTokens * price.inputPerMillion + usage.outputTokens * price.outputPerMillion) / 1e6;
+}
+
+export function priceTts(provider: string, characters: number): number {
+  return (characters * (TTS_PRICE_PER_MILLION_CHARS[provider] ?? TTS_PRICE_PER_MILLION_CHARS.elevenlabs)) / 1e6;
+}
+
+// ============================================
+// RECORDING
+// ============================================
+
+// Spend is cached briefly so budget checks don't re-read the ledger on every request
+const SPEND_CACHE_MS = 30 * 1000;
+let spendCache: { loadedAt: number; month: string; records: UsageRecord[] } | null = null;
+
+async function append(record: UsageRecord) {
+  try {
+    await getUsageStore().append(record);
+    if (spendCache && spendCache.month === record.timestamp.slice(0, 7)) {
+      spendCache.records.push(record);
+    }
+  } catch (error) {
+    // A ledger hiccup shouldn't fail a request the student already got an answer to
+    console.error('Error recording usage:', error);
+  }
+}
+
+export function recordChatUsage(sessionId: string | null, provider: string, model: string, usage: LLMUsage) {
+  return append({
+    timestamp: new Date().toISOString(),
+    sessionId,
+    service: 'chat',
+    provider,
+    model,
+    inputTokens: usage.inputTokens,
+    outputTokens: usage.outputTokens,
+    costUsd: priceChat(model, usage),
+  });
+}
+
+// Providers only report usage once a stream finishes - a stream cut short is billed on this rough count
+const CHARS_PER_TOKEN = 4;
+
+export function estimateChatUsage(request: LLMRequest, reply: string): LLMUsage {
+  const prompt = request.system + request.messages.map(message => message.content).join('');
+  return {
+    inputTokens: Math.ceil(prompt.length / CHARS_PER_TOKEN),
+    outputTokens: Math.ceil(reply.length / CHARS_PER_TOKEN),
+  };
+}
+
+export function recordTtsUsage(sessionId: string | null, provider: string, characters: number) {
+  return append({
+    timestamp: new Date().toISOString(),
+    sessionId,
+    service: 'tts',
+    provider,
+    characters,
+    costUsd: priceTts(provider, characters),
+  });
+}
+
+// ============================================
+// BUDGETS
+// ============================================
+
+export interface BudgetStatus {
+  service: UsageService;
+  enabled: boolean;
+  spentTodayUsd: number;
+  spentThisMonthUsd: number;
+  dailyCapUsd: number | null;
+  monthlyCapUsd: number | null;
+}
+
+const readCap = (name: string): number | null => {
+  const value = parseFloat(process.env[name] || '');
+  return Number.isFinite(value) && value >= 0 ? value : null;
+};
+
+async function loadMonthRecords(now: Date): Promise<UsageRecord[]> {
+  const month = now.toISOString().slice(0, 7);
+  if (spendCache && spendCache.month === month && now.getTime() - spendCache.loadedAt < SPEND_CACHE_MS) {
+    return spendCache.records;
+  }
+
+  const records = await getUsageStore().list({ since: new Date(`${month}-01T00:00:00.000Z`) });
+  spendCache = { loadedAt: now.getTime(), month, records };
+  return records;
+}
+
+const sumCost = (records: UsageRecord[]) => records.reduce((total, record) => total + record.costUsd, 0);
+
+export async function getBudgetStatus(service: UsageService, now = new Date()): Promise<BudgetStatus> {
+  const prefix = service.toUpperCase();
+  const dailyCapUsd = readCap(`${prefix}_DAILY_BUDGET_USD`);
+  const monthlyCapUsd = readCap(`${prefix}_MONTHLY_BUDGET_USD`);
+
+  const today = now.toISOString().slice(0, 10);
+  const records = (await loadMonthRecords(now)).filter(record => record.service === service);
+  const spentThisMonthUsd = sumCost(records);
+  const spentTodayUsd = sumCost(records.filter(record => record.timestamp.startsWith(today)));
+
+  return {
+    service,
+    enabled: (dailyCapUsd === null || spentTodayUsd < dailyCapUsd) &&
+      (monthlyCapUsd === null || spentThisMonthUsd < monthlyCapUsd),
+    spentTodayUsd,
+    spentThisMonthUsd,
+    dailyCapUsd,
+    monthlyCapUsd,
+  };
+}
+
+/**
+ * True when the service may be used. Fails open if the ledger can't be read -
+ * the rate limits still bound spend while the store is down.
+ */
+export async function isWithinBudget(service: UsageService): Promise<boolean> {
+  try {
+    return (await getBudgetStatus(service)).enabled;
+  } catch (error) {
+    console.error('Error checking budget:', error);
+    return true;
+  }
+}
+
+// ============================================
+// REPORTING
+// ============================================
+
+interface UsageTotals {
+  requests: number;
+  inputTokens: number;
+  outputTokens: number;
+  ttsCharacters: number;
+  costUsd: number;
+}
+
+const emptyTotals = (): UsageTotals => ({
+  requests: 0, inputTokens: 0, outputTokens: 0, ttsCharacters: 0, costUsd: 0
+});
+
+function addRecord(totals: UsageTotals, record: UsageRecord) {
+  totals.requests++;
+  totals.inputTokens += record.inputTokens || 0;
+  totals.outputTokens += record.outputTokens || 0;
+  totals.ttsCharacters += record.characters || 0;
+  totals.costUsd += record.costUsd;
+}
+
+export function summarizeUsage(records: UsageRecord[]) {
+  const total = emptyTotals();
+  const byDay: Record<string, UsageTotals> = {};
+  const byService: Record<string, UsageTotals> = {};
+  const bySession: Record<string, UsageTotals> = {};
+
+  records.forEach(record => {
+    const day = record.timestamp.slice(0, 10);
+    const service = `${record.service}:${record.provider}`;
+    const session = record.sessionId || 'unknown';
+
+    addRecord(total, record);
+    addRecord(byDay[day] || (byDay[day] = emptyTotals()), record);
+    addRecord(byService[service] || (byService[service] = emptyTotals()), record);
+    addRecord(bySession[session] || (bySession[session] = emptyTotals()), record);
+  });
+
+  return { total, byDay, byService, bySession };
+}
@@ -0,0 +1,98 @@
+// lib/server/usageStore.ts
+// Ledger of paid API usage (LLM tokens, TTS characters) recorded by /api/chat and /api/tts
+// Select with USAGE_STORE=file (default, JSON lines per day) or memory
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { dataPath } from './jsonFileStore';
+
+export type UsageService = 'chat' | 'tts';
+
+export interface UsageRecord {
+  timestamp: string;
+  sessionId: string | null;
+  service: UsageService;
+  provider: string;
+  model?: string;
+  inputTokens?: number;
+  outputTokens?: number;
+  characters?: number;
+  costUsd: number;
+}
+
+export interface UsageQuery {
+  since?: Date;
+  until?: Date;
+}
+
+export interface UsageStore {
+  append(record: UsageRecord): Promise<void>;
+  list(query?: UsageQuery): Promise<UsageRecord[]>;
+}
+
+const inRange = (record: UsageRecord, { since, until }: UsageQuery) => {
+  const at = new Date(record.timestamp).getTime();
+  return (!since || at >= since.getTime()) && (!until || at <= until.getTime());
+};
+
+export function createMemoryUsageStore(): UsageStore {
+  const records: UsageRecord[] = [];
+
+  return {
+    async append(record) {
+      records.push(record);
+    },
+    async list(query = {}) {
+      return records.filter(record => inRange(record, query));
+    },
+  };
+}
+
+export function createFileUsageStore(): UsageStore {
+  const dir = dataPath('usage');
+
+  return {
+    async append(record) {
+      await fs.mkdir(dir, { recursive: true });
+      const day = record.timestamp.slice(0, 10);
+      await fs.appendFile(path.join(dir, `${day}.jsonl`), JSON.stringify(record) + '\n');
+    },
+    async list(query = {}) {
+      let files: string[];
+      try {
+        files = (await fs.readdir(dir)).filter(f => f.endsWith('.jsonl')).sort();
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+        throw error;
+      }
+
+      const firstDay = query.since?.toISOString().slice(0, 10);
+      const lastDay = query.until?.toISOString().slice(0, 10);
+      const records: UsageRecord[] = [];
+
+      for (const file of files) {
+        const day = file.replace('.jsonl', '');
+        if ((firstDay && day < firstDay) || (lastDay && day > lastDay)) continue;
+
+        const lines = (await fs.readFile(path.join(dir, file), 'utf8')).split('\n').filter(Boolean);
+        for (const line of lines) {
+          const record = JSON.parse(line) as UsageRecord;
+          if (inRange(record, query)) records.push(record);
+        }
+      }
+
+      return records;
+    },
+  };
+}
+
+let store: UsageStore | null = null;
+
+export function getUsageStore(): UsageStore {
+  if (!store) {
+    store = process.env.USAGE_STORE === 'memory'
+      ? createMemoryUsageStore()
+      : createFileUsageStore();
+  }
+  return store;
+}
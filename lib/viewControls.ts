@@ -0,0 +1,108 @@
+// lib/viewControls.ts
+// Orbit, pinch-zoom and pan for the 3D visuals (OrbitControls), plus auto-rotation, reset and a record of what the
+// student did - each finished gesture is reported once so it can feed learning analytics
+
+import * as THREE from 'three';
+import { OrbitControls } from 'three/examples/jsm/controls/OrbitControls.js';
+
+export type ViewAction = 'rotate' | 'zoom' | 'pan' | 'reset' | 'pause-rotation' | 'resume-rotation';
+
+export interface VisualInteraction {
+  // Which visual, like "molecule:glucose.sdf" or "orbital"
+  visual: string;
+  action: ViewAction;
+}
+
+export interface ViewControls {
+  // Call every frame
+  update: () => void;
+  // Back to the starting view
+  reset: () => void;
+  setAutoRotate: (isRotating: boolean) => void;
+  // Unit vector from the target to the camera - lets a rebuilt scene keep the student's viewing angle
+  getDirection: () => THREE.Vector3;
+  dispose: () => void;
+}
+
+interface ViewControlsOptions {
+  // Camera distance from the origin for the starting view
+  distance: number;
+  // Viewing angle to start from, from getDirection() - defaults to straight down the z axis
+  direction?: THREE.Vector3;
+  autoRotate?: boolean;
+  onGesture?: (action: 'rotate' | 'zoom' | 'pan') => void;
+}
+
+// Closest and furthest zoom, as multiples of the starting distance
+const MIN_ZOOM = 0.35;
+const MAX_ZOOM = 3;
+// Roughly the old 0.005 rad per frame
+const AUTO_ROTATE_SPEED = 2.5;
+// A scroll wheel sends a start/end pair per notch - notches this close together count as one zoom
+const GESTURE_MERGE_MS = 1500;
+
+export function createViewControls(
+  camera: THREE.PerspectiveCamera,
+  element: HTMLElement,
+  { distance, direction, autoRotate = true, onGesture }: ViewControlsOptions
+): ViewControls {
+  const controls = new OrbitControls(camera, element);
+  controls.enableDamping = true;
+  controls.dampingFactor = 0.1;
+  controls.enablePan = true;
+  controls.minDistance = distance * MIN_ZOOM;
+  controls.maxDistance = distance * MAX_ZOOM;
+  controls.autoRotate = autoRotate;
+  controls.autoRotateSpeed = AUTO_ROTATE_SPEED;
+
+  // Save the front view as the reset point, then move to the angle being restored
+  camera.position.set(0, 0, distance);
+  controls.target.set(0, 0, 0);
+  controls.update();
+  controls.saveState();
+  if (direction) {
+    camera.position.copy(direction).normalize().multiplyScalar(distance);
+    controls.update();
+  }
+
+  // Work out what a gesture did by comparing the camera before and after
+  let before = { position: new THREE.Vector3(), target: new THREE.Vector3(), distance: 0 };
+  let lastGesture = { action: '', time: 0 };
+
+  const onStart = () => {
+    before = { position: camera.position.clone(), target: controls.target.clone(), distance: controls.getDistance() };
+  };
+
+  const onEnd = () => {
+    // Zoom first - a two-finger pinch nearly always pans a little too
+    const action = Math.abs(controls.getDistance() - before.distance) > before.distance * 0.01
+      ? 'zoom'
+      : controls.target.distanceTo(before.target) > 1e-3
+        ? 'pan'
+        : camera.position.distanceTo(before.position) > 1e-3 ? 'rotate' : null;
+    if (!action) return;
+
+    const now = Date.now();
+    if (action !== lastGesture.action || now - lastGesture.time > GESTURE_MERGE_MS) {
+      onGesture?.(action);
+    }
+    lastGesture = { action, time: now };
+  };
+
+  controls.addEventListener('start', onStart);
+  controls.addEventListener('end', onEnd);
+
+  return {
+    update: () => controls.update(),
+    reset: () => controls.reset(),
+    setAutoRotate: (isRotating) => {
+      controls.autoRotate = isRotating;
+    },
+    getDirection: () => camera.position.clone().sub(controls.target).normalize(),
+    dispose: () => {
+      controls.removeEventListener('start', onStart);
+      controls.removeEventListener('end', onEnd);
+      controls.dispose();
+    },
+  };
+}
@@ -0,0 +1,30 @@
+// lib/webgl.ts
+// Whether this browser can draw 3D at all. Kept apart from lib/sceneManager so components can pick between a
+// 3D canvas and a flat fallback without pulling three.js into their chunk.
+
+let webGLSupport: boolean | null = null;
+
+/**
+ * Whether this browser can create a WebGL context - false on old hardware, and where a school-managed
+ * browser blocks the GPU. Checked once; the test context is released straight away so it doesn't use up
+ * one of the few the browser allows.
+ */
+export function isWebGLAvailable(): boolean {
+  if (webGLSupport !== null) return webGLSupport;
+  if (typeof document === 'undefined') return false;
+
+  try {
+    const canvas = document.createElement('canvas');
+    const context = (canvas.getContext('webgl2') || canvas.getContext('webgl')) as WebGLRenderingContext | null;
+    webGLSupport = context !== null;
+    context?.getExtension('WEBGL_lose_context')?.loseContext();
+  } catch {
+    webGLSupport = false;
+  }
+  return webGLSupport;
+}
+
+// For when the check passed but a renderer still couldn't start - every later check says no
+export function markWebGLUnavailable() {
+  webGLSupport = false;
+}
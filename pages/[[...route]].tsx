@@ -0,0 +1,69 @@
+// pages/[[...route]].tsx
+// The app itself - served at / and at /learn/[moduleId]/[conceptId] so concepts can be linked to directly.
+// One page for every route means moving between concepts is a shallow URL change, not a remount.
+import Head from 'next/head';
+import dynamic from 'next/dynamic';
+import { useRouter } from 'next/router';
+import type { GetStaticPaths, GetStaticProps } from 'next';
+import { modules } from '../lib/curriculum';
+import { parseLearnPath, resolveLearnPath } from '../lib/learnRoutes';
+import type { LearnRoute } from '../lib/learnRoutes';
+
+// Dynamically import the app to avoid SSR issues with Three.js
+const KyordaApp = dynamic(() => import('../components/KyordaApp'), {
+  ssr: false,
+  loading: () => (
+    <div className="min-h-screen bg-gradient-to-br from-slate-900 to-indigo-900 flex items-center justify-center">
+      <div className="text-center">
+        <div className="w-20 h-20 mx-auto mb-4 rounded-full bg-gradient-to-br from-purple-500 via-pink-500 to-blue-500 animate-pulse" />
+        <h1 className="text-white text-xl font-bold">Ky&apos;Orda</h1>
+        <p className="text-purple-300 text-sm mt-2">Loading your cosmic journey...</p>
+      </div>
+    </div>
+  ),
+});
+
+interface HomeProps {
+  // Set when the page was opened on a concept link
+  initialRoute: LearnRoute | null;
+}
+
+export const getStaticPaths: GetStaticPaths = async () => ({
+  paths: [
+    { params: { route: [] } },
+    ...modules.flatMap(module =>
+      module.concepts.map(concept => ({ params: { route: ['learn', module.id, concept.id] } }))
+    ),
+  ],
+  // Bare module links and old index-based links are resolved (and redirected) on first request
+  fallback: 'blocking',
+});
+
+export const getStaticProps: GetStaticProps<HomeProps> = async ({ params }) => {
+  const segments = Array.isArray(params?.route) ? params.route : [];
+  const resolved = resolveLearnPath(segments);
+
+  if (!resolved) return { notFound: true };
+  if (resolved.redirect) {
+    return { redirect: { destination: resolved.redirect, permanent: false } };
+  }
+  return { props: { initialRoute: resolved.route } };
+};
+
+export default function Home({ initialRoute }: HomeProps) {
+  const router = useRouter();
+  // From the URL rather than the props, which in-app navigation doesn't reload
+  const route = parseLearnPath(router.asPath);
+  const concept = route ? modules[route.moduleIdx].concepts[route.conceptIdx] : null;
+
+  return (
+    <>
+      {concept && (
+        <Head>
+          <title>{`${concept.title} - Ky'Orda Chemistry`}</title>
+        </Head>
+      )}
+      <KyordaApp initialRoute={initialRoute} />
+    </>
+  );
+}
@@ -0,0 +1,311 @@
+// pages/admin/feedback.tsx
+// Beta feedback dashboard - ratings and comment/issue threads grouped by concept, with triage
+// Everything goes through /api/feedback with the x-admin-key header, so the server enforces access
+
+import Head from 'next/head';
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { Download, RefreshCw, ThumbsUp, ThumbsDown, MessageCircle, AlertTriangle, LogOut } from 'lucide-react';
+import { modules } from '../../lib/curriculum';
+import type { FeedbackRecord, FeedbackStatus } from '../../lib/server/feedbackRepository';
+
+const ADMIN_KEY_STORAGE = 'kyorda-admin-key';
+
+const STATUSES: FeedbackStatus[] = ['new', 'acknowledged', 'fixed'];
+
+const STATUS_STYLES: Record<FeedbackStatus, string> = {
+  new: 'bg-amber-100 text-amber-800 border-amber-300',
+  acknowledged: 'bg-blue-100 text-blue-800 border-blue-300',
+  fixed: 'bg-green-100 text-green-800 border-green-300',
+};
+
+const GENERAL_GROUP = 'general';
+
+// Curriculum order, so the dashboard reads like the course
+const conceptOrder = modules.flatMap(module => module.concepts);
+
+interface ConceptGroup {
+  conceptId: string;
+  title: string;
+  thumbsUp: number;
+  thumbsDown: number;
+  threads: FeedbackRecord[];
+}
+
+function groupByConcept(records: FeedbackRecord[]): ConceptGroup[] {
+  const groups = new Map<string, ConceptGroup>();
+  const groupFor = (record: FeedbackRecord) => {
+    const conceptId = record.conceptId || GENERAL_GROUP;
+    let group = groups.get(conceptId);
+    if (!group) {
+      const known = conceptOrder.find(concept => concept.id === conceptId);
+      group = {
+        conceptId,
+        title: known?.title || record.conceptTitle || (conceptId === GENERAL_GROUP ? 'General feedback' : conceptId),
+        thumbsUp: 0,
+        thumbsDown: 0,
+        threads: [],
+      };
+      groups.set(conceptId, group);
+    }
+    return group;
+  };
+
+  records.forEach(record => {
+    const group = groupFor(record);
+    // The app's thumbs send 1 (up) or 0 (down)
+    if (record.type === 'rating' && record.rating === 1) group.thumbsUp++;
+    if (record.type === 'rating' && record.rating === 0) group.thumbsDown++;
+    if (record.comment) {
+      group.threads.push(record);
+    }
+  });
+
+  const rank = (conceptId: string) => {
+    const index = conceptOrder.findIndex(concept => concept.id === conceptId);
+    return index === -1 ? conceptOrder.length : index;
+  };
+
+  return Array.from(groups.values())
+    .map(group => ({
+      ...group,
+      threads: group.threads.sort((a, b) => b.timestamp.localeCompare(a.timestamp)),
+    }))
+    .sort((a, b) => rank(a.conceptId) - rank(b.conceptId));
+}
+
+export default function AdminFeedbackPage() {
+  const [adminKey, setAdminKey] = useState<string | null>(null);
+  const [keyInput, setKeyInput] = useState('');
+  const [records, setRecords] = useState<FeedbackRecord[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [statusFilter, setStatusFilter] = useState<FeedbackStatus | 'all'>('all');
+
+  useEffect(() => {
+    setAdminKey(sessionStorage.getItem(ADMIN_KEY_STORAGE));
+  }, []);
+
+  const signOut = useCallback((message: string | null = null) => {
+    sessionStorage.removeItem(ADMIN_KEY_STORAGE);
+    setAdminKey(null);
+    setRecords([]);
+    setError(message);
+  }, []);
+
+  const adminFetch = useCallback(async (url: string, init: RequestInit = {}) => {
+    const response = await fetch(url, {
+      ...init,
+      headers: { ...init.headers, 'x-admin-key': adminKey || '' },
+    });
+    if (response.status === 401) {
+      signOut('That admin key was not accepted.');
+      throw new Error('Unauthorized');
+    }
+    if (!response.ok) {
+      const data = await response.json().catch(() => ({}));
+      throw new Error(data.error || `Request failed: ${response.status}`);
+    }
+    return response;
+  }, [adminKey, signOut]);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await adminFetch('/api/feedback?format=json');
+      setRecords(await response.json());
+    } catch (err) {
+      if (err instanceof Error && err.message !== 'Unauthorized') setError(err.message);
+    } finally {
+      setLoading(false);
+    }
+  }, [adminFetch]);
+
+  useEffect(() => {
+    if (adminKey) load();
+  }, [adminKey, load]);
+
+  const updateStatus = async (id: string, status: FeedbackStatus) => {
+    const previous = records;
+    setRecords(current => current.map(record => record.id === id ? { ...record, status } : record));
+    try {
+      await adminFetch('/api/feedback', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ id, status }),
+      });
+    } catch (err) {
+      setRecords(previous);
+      if (err instanceof Error && err.message !== 'Unauthorized') setError(err.message);
+    }
+  };
+
+  const download = async (format: 'csv' | 'json') => {
+    try {
+      const response = await adminFetch(`/api/feedback?format=${format}`);
+      const url = URL.createObjectURL(await response.blob());
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `kyorda-feedback-${new Date().toISOString().slice(0, 10)}.${format}`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      if (err instanceof Error && err.message !== 'Unauthorized') setError(err.message);
+    }
+  };
+
+  const groups = useMemo(() => groupByConcept(
+    statusFilter === 'all'
+      ? records
+      : records.filter(record => record.type === 'rating' || (record.status || 'new') === statusFilter)
+  ), [records, statusFilter]);
+
+  const counts = useMemo(() => STATUSES.reduce((acc, status) => ({
+    ...acc,
+    [status]: records.filter(record => record.comment && (record.status || 'new') === status).length,
+  }), {} as Record<FeedbackStatus, number>), [records]);
+
+  if (!adminKey) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-slate-900 to-indigo-900 flex items-center justify-center p-4">
+        <Head>
+          <title>Feedback Admin - Ky&apos;Orda</title>
+          <meta name="robots" content="noindex" />
+        </Head>
+        <form
+          className="bg-white rounded-2xl shadow-2xl p-6 w-full max-w-sm space-y-4"
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (!keyInput.trim()) return;
+            sessionStorage.setItem(ADMIN_KEY_STORAGE, keyInput.trim());
+            setAdminKey(keyInput.trim());
+            setKeyInput('');
+          }}
+        >
+          <h1 className="text-xl font-bold text-gray-900">Feedback Admin</h1>
+          <p className="text-sm text-gray-600">Enter the <code>ADMIN_KEY</code> configured for this deployment.</p>
+          {error && <p className="text-sm text-red-600">{error}</p>}
+          <input
+            type="password"
+            value={keyInput}
+            onChange={(e) => setKeyInput(e.target.value)}
+            className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-purple-500"
+            placeholder="Admin key"
+            autoFocus
+          />
+          <button
+            type="submit"
+            className="w-full bg-gradient-to-r from-purple-500 to-pink-500 text-white font-medium py-2 rounded-lg hover:shadow-lg transition-all"
+          >
+            View Feedback
+          </button>
+        </form>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 to-blue-50">
+      <Head>
+        <title>Feedback Admin - Ky&apos;Orda</title>
+        <meta name="robots" content="noindex" />
+      </Head>
+
+      <div className="max-w-4xl mx-auto p-4 space-y-4">
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">Beta Feedback</h1>
+            <p className="text-sm text-gray-600">
+              {records.length} submissions · {counts.new || 0} new · {counts.acknowledged || 0} acknowledged · {counts.fixed || 0} fixed
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            <select
+              value={statusFilter}
+              onChange={(e) => setStatusFilter(e.target.value as FeedbackStatus | 'all')}
+              className="border border-gray-300 rounded-lg px-2 py-1.5 text-sm bg-white"
+            >
+              <option value="all">All statuses</option>
+              {STATUSES.map(status => <option key={status} value={status}>{status}</option>)}
+            </select>
+            <button onClick={load} className="p-2 rounded-lg bg-white border border-gray-300 hover:bg-gray-50" title="Refresh">
+              <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+            </button>
+            <button onClick={() => download('csv')} className="flex items-center gap-1 px-3 py-1.5 rounded-lg bg-white border border-gray-300 text-sm hover:bg-gray-50">
+              <Download className="w-4 h-4" /> CSV
+            </button>
+            <button onClick={() => download('json')} className="flex items-center gap-1 px-3 py-1.5 rounded-lg bg-white border border-gray-300 text-sm hover:bg-gray-50">
+              <Download className="w-4 h-4" /> JSON
+            </button>
+            <button onClick={() => signOut()} className="p-2 rounded-lg bg-white border border-gray-300 hover:bg-gray-50" title="Sign out">
+              <LogOut className="w-4 h-4" />
+            </button>
+          </div>
+        </div>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 text-red-700 rounded-lg p-3 text-sm">{error}</div>
+        )}
+
+        {!loading && groups.length === 0 && (
+          <div className="bg-white rounded-xl shadow p-8 text-center text-gray-500">No feedback yet.</div>
+        )}
+
+        {groups.map(group => {
+          const totalRatings = group.thumbsUp + group.thumbsDown;
+          const positiveShare = totalRatings > 0 ? Math.round((group.thumbsUp / totalRatings) * 100) : null;
+
+          return (
+            <section key={group.conceptId} className="bg-white rounded-xl shadow">
+              <div className="p-4 border-b flex flex-wrap items-center justify-between gap-3">
+                <div>
+                  <h2 className="font-bold text-gray-900">{group.title}</h2>
+                  {group.conceptId !== GENERAL_GROUP && (
+                    <p className="text-xs text-gray-500 font-mono">{group.conceptId}</p>
+                  )}
+                </div>
+                <div className="flex items-center gap-3 text-sm">
+                  <span className="flex items-center gap-1 text-green-700"><ThumbsUp className="w-4 h-4" /> {group.thumbsUp}</span>
+                  <span className="flex items-center gap-1 text-red-700"><ThumbsDown className="w-4 h-4" /> {group.thumbsDown}</span>
+                  {positiveShare !== null && (
+                    <div className="w-24 h-2 bg-red-200 rounded-full overflow-hidden" title={`${positiveShare}% positive`}>
+                      <div className="h-full bg-green-500" style={{ width: `${positiveShare}%` }} />
+                    </div>
+                  )}
+                </div>
+              </div>
+
+              {group.threads.length > 0 && (
+                <ul className="divide-y">
+                  {group.threads.map(record => {
+                    const status = record.status || 'new';
+                    return (
+                      <li key={record.id} className="p-4 flex gap-3">
+                        {record.type === 'issue'
+                          ? <AlertTriangle className="w-5 h-5 text-red-500 flex-shrink-0 mt-0.5" />
+                          : <MessageCircle className="w-5 h-5 text-blue-500 flex-shrink-0 mt-0.5" />}
+                        <div className="flex-1 min-w-0">
+                          <p className="text-gray-800 whitespace-pre-wrap break-words">{record.comment}</p>
+                          <p className="text-xs text-gray-500 mt-1">
+                            {record.type} · {new Date(record.timestamp).toLocaleString()} · {record.sessionId}
+                          </p>
+                        </div>
+                        <select
+                          value={status}
+                          onChange={(e) => updateStatus(record.id, e.target.value as FeedbackStatus)}
+                          className={`self-start text-xs font-medium border rounded-full px-2 py-1 ${STATUS_STYLES[status]}`}
+                        >
+                          {STATUSES.map(option => <option key={option} value={option}>{option}</option>)}
+                        </select>
+                      </li>
+                    );
+                  })}
+                </ul>
+              )}
+            </section>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
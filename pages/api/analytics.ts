@@ -0,0 +1,192 @@
+// api/analytics.ts
+// Vercel Serverless Function to ingest learning analytics from the app
+// POST accepts batched events + concept attempts, GET summarises them (admin only)
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { requireAdmin } from '../../lib/server/adminAuth';
+import { MAX_ATTEMPTS_PER_BATCH, MAX_EVENTS_PER_BATCH, isAnalyticsEvent, isConceptAttempt } from '../../lib/analytics';
+import type { AnalyticsBatch, ConceptAttemptRecord } from '../../lib/analytics';
+import { enforceRateLimit } from '../../lib/server/rateLimit';
+import { getAnalyticsStore } from '../../lib/server/analyticsStore';
+import { isObject, readBody } from '../../lib/server/requestBody';
+import type { JsonObject } from '../../lib/server/requestBody';
+import type { StoredAnalyticsBatch } from '../../lib/server/analyticsStore';
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method === 'POST') {
+    return handleIngest(req, res);
+  }
+
+  if (req.method === 'GET') {
+    return handleGetSummary(req, res);
+  }
+
+  return res.status(405).json({ error: 'Method not allowed' });
+}
+
+// ============================================
+// VALIDATION
+// ============================================
+
+const isShortString = (value: unknown, max = 128): value is string =>
+  typeof value === 'string' && value.length > 0 && value.length <= max;
+
+const firstValue = (value: string | string[] | undefined) =>
+  Array.isArray(value) ? value[0] : value;
+
+function parseDate(value: string | undefined): Date | undefined | null {
+  if (!value) return undefined;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+const isValidAttempt = (record: unknown): record is ConceptAttemptRecord =>
+  isObject(record) && isShortString(record.conceptId) && isConceptAttempt(record.attempt);
+
+// Missing lists count as empty; anything else that isn't an array is rejected
+const readList = (value: unknown): unknown[] | null =>
+  value === undefined ? [] : Array.isArray(value) ? value : null;
+
+function validateBatch(body: JsonObject): { batch?: AnalyticsBatch; error?: string } {
+  const { sessionId, learnerId } = body;
+  if (!isShortString(sessionId)) {
+    return { error: 'sessionId is required' };
+  }
+  if (learnerId !== undefined && !isShortString(learnerId, 64)) {
+    return { error: 'learnerId must be a string' };
+  }
+
+  const events = readList(body.events);
+  const conceptAttempts = readList(body.conceptAttempts);
+  if (!events || events.length > MAX_EVENTS_PER_BATCH) {
+    return { error: `events must be an array of at most ${MAX_EVENTS_PER_BATCH} items` };
+  }
+  if (!conceptAttempts || conceptAttempts.length > MAX_ATTEMPTS_PER_BATCH) {
+    return { error: `conceptAttempts must be an array of at most ${MAX_ATTEMPTS_PER_BATCH} items` };
+  }
+
+  if (!events.every(isAnalyticsEvent)) {
+    return { error: `events[${events.findIndex(event => !isAnalyticsEvent(event))}] is invalid` };
+  }
+  if (!conceptAttempts.every(isValidAttempt)) {
+    return { error: `conceptAttempts[${conceptAttempts.findIndex(record => !isValidAttempt(record))}] is invalid` };
+  }
+
+  return { batch: { sessionId, learnerId, events, conceptAttempts } };
+}
+
+// ============================================
+// HANDLERS
+// ============================================
+
+async function handleIngest(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  const { batch, error } = validateBatch(readBody(req));
+
+  if (!batch) {
+    return res.status(400).json({ error });
+  }
+
+  if (!(await enforceRateLimit(req, res, 'analytics'))) return;
+
+  try {
+    const stored = await getAnalyticsStore().append({
+      ...batch,
+      receivedAt: new Date().toISOString()
+    });
+
+    if (!stored) {
+      return res.status(413).json({ error: 'This session has sent too much analytics today' });
+    }
+
+    return res.status(200).json({
+      success: true,
+      accepted: {
+        events: batch.events.length,
+        conceptAttempts: batch.conceptAttempts.length
+      }
+    });
+  } catch (err) {
+    console.error('Error storing analytics:', err);
+    return res.status(500).json({ error: 'Failed to store analytics' });
+  }
+}
+
+async function handleGetSummary(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (!requireAdmin(req, res)) return;
+
+  const since = parseDate(firstValue(req.query.since));
+  const until = parseDate(firstValue(req.query.until));
+  if (since === null || until === null) {
+    return res.status(400).json({ error: 'since and until must be dates' });
+  }
+
+  let batches: StoredAnalyticsBatch[];
+  try {
+    batches = await getAnalyticsStore().list({ since, until });
+  } catch (err) {
+    console.error('Error reading analytics:', err);
+    return res.status(500).json({ error: 'Failed to read analytics' });
+  }
+
+  // Per-concept funnel: how many sessions reached each concept and how they did
+  const concepts: Record<string, {
+    attempts: number;
+    sessions: Set<string>;
+    totalConfidence: number;
+    totalAccuracy: number;
+    totalTime: number;
+    adaptiveHelp: number;
+  }> = {};
+  const eventCounts: Record<string, number> = {};
+  const sessions = new Set<string>();
+
+  for (const batch of batches) {
+    sessions.add(batch.sessionId);
+    batch.events.forEach(event => {
+      eventCounts[event.eventType] = (eventCounts[event.eventType] || 0) + 1;
+    });
+    batch.conceptAttempts.forEach(({ conceptId, attempt }) => {
+      const stats = concepts[conceptId] || (concepts[conceptId] = {
+        attempts: 0, sessions: new Set(), totalConfidence: 0, totalAccuracy: 0, totalTime: 0, adaptiveHelp: 0
+      });
+      stats.attempts++;
+      stats.sessions.add(batch.sessionId);
+      stats.totalConfidence += attempt.confidence;
+      stats.totalAccuracy += attempt.questionsTotal > 0 ? attempt.questionsCorrect / attempt.questionsTotal : 1;
+      stats.totalTime += attempt.timeSpent;
+      if (attempt.triggeredAdaptiveHelp) stats.adaptiveHelp++;
+    });
+  }
+
+  return res.status(200).json({
+    sessions: sessions.size,
+    batches: batches.length,
+    eventCounts,
+    concepts: Object.fromEntries(Object.entries(concepts).map(([conceptId, stats]) => [conceptId, {
+      attempts: stats.attempts,
+      sessions: stats.sessions.size,
+      averageConfidence: stats.totalConfidence / stats.attempts,
+      averageAccuracy: stats.totalAccuracy / stats.attempts,
+      averageTimeMs: Math.round(stats.totalTime / stats.attempts),
+      adaptiveHelpRate: stats.adaptiveHelp / stats.attempts
+    }]))
+  });
+}
+
+export const config = {
+  api: {
+    bodyParser: {
+      // The app sends batches of at most 60 KB (see splitBatch)
+      sizeLimit: '64kb',
+    },
+  },
+};
@@ -1,8 +1,63 @@
 // api/chat.ts
-// Vercel Serverless Function to proxy Anthropic API calls
+// Vercel Serverless Function to proxy LLM calls (Anthropic by default, see lib/server/llm)
 // This keeps the API key secure on the server side
+// Send `stream: true` to receive the reply as Server-Sent Events instead of one JSON blob
+// Send `conceptId` (and optionally `answers`) and the server builds the lesson context itself
 
 import type { NextApiRequest, NextApiResponse } from 'next';
+import { getLLMProvider, getLLMSettings, LLMProviderError } from '../../lib/server/llm';
+import type { LLMMessage, LLMProvider, LLMRequest, LLMStreamEvent, LLMUsage } from '../../lib/server/llm';
+import { buildTutorPrompt } from '../../lib/server/tutorPrompt';
+import { isLewisStructure } from '../../lib/lewis';
+import { findConcept } from '../../lib/curriculum';
+import type { CheckAnswer } from '../../lib/curriculum';
+import { enforceRateLimit, getRequestSessionId } from '../../lib/server/rateLimit';
+import { isObject, readBody } from '../../lib/server/requestBody';
+import { estimateChatUsage, isWithinBudget, recordChatUsage } from '../../lib/server/usage';
+
+const MAX_HISTORY_MESSAGES = 20;
+// Every turn is resent with each request, so these bound what one request can cost
+const MAX_MESSAGE_CHARS = 2000;
+const MAX_HISTORY_CHARS = 16000;
+// Knowledge check answers are short - anything longer isn't one
+const MAX_ANSWER_ITEMS = 20;
+const MAX_ANSWER_CHARS = 200;
+
+// History only ever carries plain user/assistant turns - lesson context lives in the system prompt.
+// Keeps the most recent turns that fit in MAX_HISTORY_CHARS.
+function sanitizeHistory(history: unknown): LLMMessage[] {
+  if (!Array.isArray(history)) return [];
+  const recent = history
+    .filter((msg): msg is LLMMessage =>
+      isObject(msg) &&
+      (msg.role === 'user' || msg.role === 'assistant') &&
+      typeof msg.content === 'string'
+    )
+    .map(({ role, content }) => ({ role, content }))
+    .slice(-MAX_HISTORY_MESSAGES);
+
+  let chars = 0;
+  const kept = recent.reverse().filter(msg => (chars += msg.content.length) <= MAX_HISTORY_CHARS);
+  return kept.reverse();
+}
+
+const isAnswer = (value: unknown): value is CheckAnswer =>
+  Number.isInteger(value) ||
+  (typeof value === 'string' && value.length <= MAX_ANSWER_CHARS) ||
+  (Array.isArray(value) && value.length <= MAX_ANSWER_ITEMS && value.every(Number.isInteger)) ||
+  isLewisStructure(value);
+
+// Only answers to the concept's own checks - at most one per check
+function sanitizeAnswers(answers: unknown, conceptId: string | undefined): Record<string, CheckAnswer> {
+  const checks = conceptId ? findConcept(conceptId)?.concept.knowledgeChecks : undefined;
+  if (!isObject(answers) || !checks) return {};
+  const sanitized: Record<string, CheckAnswer> = {};
+  checks.forEach(check => {
+    const answer = answers[check.id];
+    if (isAnswer(answer)) sanitized[check.id] = answer;
+  });
+  return sanitized;
+}
 
 export default async function handler(
   req: NextApiRequest,
@@ -13,77 +68,164 @@ export default async function handler(
     return res.status(405).json({ error: 'Method not allowed' });
   }
 
-  const { message, conversationHistory = [] } = req.body;
+  const { message, conversationHistory, conceptId, answers, stream } = readBody(req);
 
-  if (!message) {
+  if (!message || typeof message !== 'string') {
     return res.status(400).json({ error: 'Message is required' });
   }
 
-  // Get API key from environment variable (set in Vercel dashboard)
-  const apiKey = process.env.ANTHROPIC_API_KEY;
+  if (message.length > MAX_MESSAGE_CHARS) {
+    return res.status(400).json({ error: `Message must be at most ${MAX_MESSAGE_CHARS} characters` });
+  }
+
+  if (conceptId !== undefined && typeof conceptId !== 'string') {
+    return res.status(400).json({ error: 'conceptId must be a string' });
+  }
+
+  if (!(await enforceRateLimit(req, res, 'chat'))) return;
+
+  if (!(await isWithinBudget('chat'))) {
+    return res.status(503).json({ error: 'Chat is paused for today', code: 'budget_exceeded' });
+  }
 
-  if (!apiKey) {
-    console.error('ANTHROPIC_API_KEY not configured');
-    return res.status(500).json({ error: 'API not configured' });
+  const prompt = buildTutorPrompt({ conceptId, answers: sanitizeAnswers(answers, conceptId) });
+  if (!prompt) {
+    return res.status(400).json({ error: 'Unknown conceptId' });
   }
 
+  let provider: LLMProvider;
   try {
-    const response = await fetch('https://api.anthropic.com/v1/messages', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'x-api-key': apiKey,
-        'anthropic-version': '2023-06-01'
-      },
-      body: JSON.stringify({
-        model: 'claude-sonnet-4-20250514',
-        max_tokens: 1024,
-        system: `You are Ky'Orda, an AI chemistry tutor born from a supernova. Your mission is to help students understand organic chemistry by connecting them to their cosmic heritage.
-
-Key traits:
-- Warm, encouraging, and patient
-- Connect chemistry concepts to the wonder of the universe
-- Use simple analogies and build from what students already know
-- Celebrate curiosity and questions
-- When students struggle, offer alternative explanations
-- Remind students that the atoms in their body were forged in stars
-
-Current context: You're helping a student learn about atomic structure, electron configuration, orbitals, and the foundations of organic chemistry. Focus on building confidence through understanding.
-
-Keep responses concise but complete. Use markdown for formatting when helpful.`,
-        messages: [
-          ...conversationHistory,
-          { role: 'user', content: message }
-        ]
-      })
-    });
+    provider = getLLMProvider();
+  } catch (error) {
+    return res.status(500).json({ error: error instanceof Error ? error.message : 'API not configured' });
+  }
 
-    if (!response.ok) {
-      const errorData = await response.json();
-      console.error('Anthropic API error:', errorData);
-      return res.status(response.status).json({ 
-        error: 'API request failed',
-        details: errorData 
-      });
-    }
+  const request: LLMRequest = {
+    ...getLLMSettings(),
+    system: prompt.system,
+    messages: [
+      ...sanitizeHistory(conversationHistory),
+      { role: 'user', content: prompt.answers ? `${prompt.answers}\n\n${message}` : message }
+    ]
+  };
 
-    const data = await response.json();
-    
-    // Extract the text response
-    const assistantMessage = data.content[0]?.text || 'I apologize, but I could not generate a response.';
+  const sessionId = getRequestSessionId(req);
 
-    return res.status(200).json({ 
-      message: assistantMessage,
-      usage: data.usage 
+  if (stream === true) {
+    return handleStreamingChat(provider, request, sessionId, res);
+  }
+
+  try {
+    const { text, usage } = await provider.complete(request);
+    await recordChatUsage(sessionId, provider.name, request.model, usage);
+
+    return res.status(200).json({
+      message: text || 'I apologize, but I could not generate a response.',
+      usage: { input_tokens: usage.inputTokens, output_tokens: usage.outputTokens }
     });
 
   } catch (error) {
-    console.error('Error calling Anthropic API:', error);
-    return res.status(500).json({ 
-      error: 'Failed to process request',
-      details: error instanceof Error ? error.message : 'Unknown error'
+    return sendProviderError(res, error);
+  }
+}
+
+function sendProviderError(res: NextApiResponse, error: unknown) {
+  if (error instanceof LLMProviderError) {
+    return res.status(error.status).json({
+      error: error.message,
+      details: error.details
     });
   }
+
+  console.error('Error calling LLM provider:', error);
+  return res.status(500).json({
+    error: 'Failed to process request',
+    details: error instanceof Error ? error.message : 'Unknown error'
+  });
+}
+
+// Forward the provider's token stream to the browser as SSE events:
+//   data: {"type":"delta","text":"..."}
+//   data: {"type":"done","usage":{...}}
+//   data: {"type":"error","error":"..."}
+async function handleStreamingChat(
+  provider: LLMProvider,
+  request: LLMRequest,
+  sessionId: string | null,
+  res: NextApiResponse
+) {
+  // Stop paying for tokens nobody will read - the response closing before we end it means the browser left
+  const upstreamAbort = new AbortController();
+  res.on('close', () => {
+    if (!res.writableEnded) upstreamAbort.abort();
+  });
+
+  const events = provider.stream(request, upstreamAbort.signal);
+
+  // Recorded however the stream ends, so cancelling just before the end doesn't dodge the spend cap
+  let reply = '';
+  let reportedUsage: LLMUsage | null = null;
+  const recordUsage = () => recordChatUsage(
+    sessionId,
+    provider.name,
+    request.model,
+    reportedUsage ?? estimateChatUsage(request, reply)
+  );
+
+  // Pull the first event before committing to a 200 so upstream failures keep their status
+  let first: IteratorResult<LLMStreamEvent>;
+  try {
+    first = await events.next();
+  } catch (error) {
+    // The prompt may already have been billed if the browser left while we waited
+    if (upstreamAbort.signal.aborted) {
+      await recordUsage();
+      return;
+    }
+    return sendProviderError(res, error);
+  }
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream; charset=utf-8',
+    'Cache-Control': 'no-cache, no-transform',
+    'Connection': 'keep-alive',
+    'X-Accel-Buffering': 'no'
+  });
+
+  const send = (payload: Record<string, unknown>) => {
+    res.write(`data: ${JSON.stringify(payload)}\n\n`);
+  };
+
+  const forward = (event: LLMStreamEvent) => {
+    if (event.type === 'delta') {
+      reply += event.text;
+      send({ type: 'delta', text: event.text });
+    } else {
+      reportedUsage = event.usage;
+      send({
+        type: 'done',
+        usage: { input_tokens: event.usage.inputTokens, output_tokens: event.usage.outputTokens }
+      });
+    }
+  };
+
+  try {
+    if (!first.done) forward(first.value);
+    while (true) {
+      const next = await events.next();
+      if (next.done) break;
+      forward(next.value);
+    }
+  } catch (error) {
+    if (!upstreamAbort.signal.aborted) {
+      console.error('Error streaming LLM response:', error);
+      send({ type: 'error', error: 'Stream interrupted' });
+    }
+  } finally {
+    // Before ending the response - serverless hosts may freeze the function once it's sent
+    await recordUsage();
+    res.end();
+  }
 }
 
 // Vercel serverless function config
@@ -1,32 +1,50 @@
 // api/feedback.ts
 // Vercel Serverless Function to collect beta tester feedback
-// Stores in Vercel KV (Redis) or can be configured for Airtable/Google Sheets
+// Stored through a FeedbackRepository (file, Airtable, webhook - see lib/server/feedbackRepository)
 
 import type { NextApiRequest, NextApiResponse } from 'next';
+import { enforceRateLimit } from '../../lib/server/rateLimit';
+import { requireAdmin } from '../../lib/server/adminAuth';
+import { readBody } from '../../lib/server/requestBody';
+import {
+  FEEDBACK_STATUSES,
+  FEEDBACK_TYPES,
+  getFeedbackRepository,
+} from '../../lib/server/feedbackRepository';
+import type { FeedbackQuery, FeedbackRecord, FeedbackStatus, FeedbackType } from '../../lib/server/feedbackRepository';
 
-interface FeedbackData {
-  type: 'rating' | 'comment' | 'issue' | 'suggestion';
-  conceptId?: string;
-  conceptTitle?: string;
-  rating?: number; // 1-5 or thumbs up/down (1 or 0)
-  comment?: string;
-  timestamp: string;
-  sessionId: string;
-  deviceInfo?: string;
-}
+const MAX_COMMENT_LENGTH = 5000;
+const MAX_FIELD_LENGTH = 200;
+// User agent strings run long
+const MAX_DEVICE_INFO_LENGTH = 512;
+// 1-5 stars, or thumbs up/down as 1/0
+const MIN_RATING = 0;
+const MAX_RATING = 5;
+
+const isOptionalString = (value: unknown, max: number): value is string | undefined =>
+  value === undefined || (typeof value === 'string' && value.length <= max);
+
+const isFeedbackType = (value: unknown): value is FeedbackType =>
+  FEEDBACK_TYPES.includes(value as FeedbackType);
+
+const isFeedbackStatus = (value: unknown): value is FeedbackStatus =>
+  FEEDBACK_STATUSES.includes(value as FeedbackStatus);
 
-// In-memory storage for demo (replace with database in production)
-// For production, use Vercel KV, Supabase, or Airtable
-const feedbackStore: FeedbackData[] = [];
+const getAllowedOrigins = () =>
+  (process.env.ALLOWED_ORIGINS || '').split(',').map(origin => origin.trim()).filter(Boolean);
 
 export default async function handler(
   req: NextApiRequest,
   res: NextApiResponse
 ) {
-  // Handle CORS for browser requests
-  res.setHeader('Access-Control-Allow-Origin', '*');
-  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
-  res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+  // The app posts same-origin; only origins listed in ALLOWED_ORIGINS get CORS headers
+  const origin = req.headers.origin;
+  if (origin && getAllowedOrigins().includes(origin)) {
+    res.setHeader('Access-Control-Allow-Origin', origin);
+    res.setHeader('Vary', 'Origin');
+    res.setHeader('Access-Control-Allow-Methods', 'GET, POST, PATCH, OPTIONS');
+    res.setHeader('Access-Control-Allow-Headers', 'Content-Type, X-Session-Id, X-Admin-Key');
+  }
 
   if (req.method === 'OPTIONS') {
     return res.status(200).end();
@@ -40,6 +58,10 @@ export default async function handler(
     return handleGetFeedback(req, res);
   }
 
+  if (req.method === 'PATCH') {
+    return handleUpdateStatus(req, res);
+  }
+
   return res.status(405).json({ error: 'Method not allowed' });
 }
 
@@ -55,7 +77,7 @@ async function handleSubmitFeedback(
     comment, 
     sessionId,
     deviceInfo 
-  } = req.body;
+  } = readBody(req);
 
   if (!type || !sessionId) {
     return res.status(400).json({ 
@@ -63,7 +85,34 @@ async function handleSubmitFeedback(
     });
   }
 
-  const feedback: FeedbackData = {
+  if (typeof sessionId !== 'string' || sessionId.length > MAX_FIELD_LENGTH) {
+    return res.status(400).json({ error: 'sessionId must be a string' });
+  }
+
+  if (!isFeedbackType(type)) {
+    return res.status(400).json({ error: `type must be one of: ${FEEDBACK_TYPES.join(', ')}` });
+  }
+
+  if (comment !== undefined && (typeof comment !== 'string' || comment.length > MAX_COMMENT_LENGTH)) {
+    return res.status(400).json({ error: `comment must be at most ${MAX_COMMENT_LENGTH} characters` });
+  }
+
+  if (rating !== undefined && (typeof rating !== 'number' || !Number.isInteger(rating) || rating < MIN_RATING || rating > MAX_RATING)) {
+    return res.status(400).json({ error: `rating must be a whole number from ${MIN_RATING} to ${MAX_RATING}` });
+  }
+
+  if (!isOptionalString(conceptId, MAX_FIELD_LENGTH) || !isOptionalString(conceptTitle, MAX_FIELD_LENGTH)) {
+    return res.status(400).json({ error: `conceptId and conceptTitle must be at most ${MAX_FIELD_LENGTH} characters` });
+  }
+
+  if (!isOptionalString(deviceInfo, MAX_DEVICE_INFO_LENGTH)) {
+    return res.status(400).json({ error: `deviceInfo must be at most ${MAX_DEVICE_INFO_LENGTH} characters` });
+  }
+
+  if (!(await enforceRateLimit(req, res, 'feedback'))) return;
+
+  const feedback: FeedbackRecord = {
+    id: `feedback-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
     type,
     conceptId,
     conceptTitle,
@@ -74,19 +123,12 @@ async function handleSubmitFeedback(
     deviceInfo
   };
 
-  // Option 1: Store in memory (demo only)
-  feedbackStore.push(feedback);
-
-  // Option 2: Store in Airtable (uncomment and configure)
-  // await storeInAirtable(feedback);
-
-  // Option 3: Store in Google Sheets (uncomment and configure)
-  // await storeInGoogleSheets(feedback);
-
-  // Option 4: Send to webhook (e.g., Zapier, Make.com)
-  // await sendToWebhook(feedback);
-
-  console.log('Feedback received:', feedback);
+  try {
+    await getFeedbackRepository().save(feedback);
+  } catch (error) {
+    console.error('Error storing feedback:', error);
+    return res.status(500).json({ error: 'Failed to store feedback' });
+  }
 
   return res.status(200).json({ 
     success: true, 
@@ -94,73 +136,134 @@ async function handleSubmitFeedback(
   });
 }
 
+const firstValue = (value: string | string[] | undefined) =>
+  Array.isArray(value) ? value[0] : value;
+
+function parseDate(value: string | undefined): Date | undefined | null {
+  if (!value) return undefined;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+function parseCount(value: string | undefined): number | undefined | null {
+  if (!value) return undefined;
+  const count = parseInt(value, 10);
+  return Number.isInteger(count) && count >= 0 ? count : null;
+}
+
+// GET /api/feedback?conceptId=&type=&status=&since=&until=&offset=&limit=
+// Add format=csv or format=json to download every matching record instead of one page
 async function handleGetFeedback(
   req: NextApiRequest,
   res: NextApiResponse
 ) {
-  // Simple auth check for viewing feedback (use proper auth in production)
-  const authKey = req.headers['x-admin-key'];
-  
-  if (authKey !== process.env.ADMIN_KEY) {
-    return res.status(401).json({ error: 'Unauthorized' });
+  if (!requireAdmin(req, res)) return;
+
+  const conceptId = firstValue(req.query.conceptId);
+  const type = firstValue(req.query.type);
+  const status = firstValue(req.query.status);
+  const format = firstValue(req.query.format);
+  const since = parseDate(firstValue(req.query.since));
+  const until = parseDate(firstValue(req.query.until));
+  const offset = parseCount(firstValue(req.query.offset));
+  const limit = parseCount(firstValue(req.query.limit));
+
+  if (type && !FEEDBACK_TYPES.includes(type as FeedbackType)) {
+    return res.status(400).json({ error: `type must be one of: ${FEEDBACK_TYPES.join(', ')}` });
+  }
+  if (status && !FEEDBACK_STATUSES.includes(status as FeedbackStatus)) {
+    return res.status(400).json({ error: `status must be one of: ${FEEDBACK_STATUSES.join(', ')}` });
+  }
+  if (format && format !== 'csv' && format !== 'json') {
+    return res.status(400).json({ error: 'format must be csv or json' });
+  }
+  if (since === null || until === null) {
+    return res.status(400).json({ error: 'since and until must be dates' });
+  }
+  if (offset === null || limit === null) {
+    return res.status(400).json({ error: 'offset and limit must be non-negative integers' });
   }
 
-  return res.status(200).json({ 
-    feedback: feedbackStore,
-    count: feedbackStore.length 
-  });
+  const query: FeedbackQuery = {
+    conceptId,
+    type: type as FeedbackType | undefined,
+    status: status as FeedbackStatus | undefined,
+    since,
+    until,
+  };
+
+  try {
+    if (format) {
+      return sendExport(res, format, await getFeedbackRepository().listAll(query));
+    }
+
+    const page = await getFeedbackRepository().list({ ...query, offset, limit });
+
+    return res.status(200).json({ 
+      ...page,
+      count: page.feedback.length,
+      nextOffset: page.offset + page.feedback.length < page.total
+        ? page.offset + page.feedback.length
+        : null
+    });
+  } catch (error) {
+    console.error('Error loading feedback:', error);
+    return res.status(500).json({ error: 'Failed to load feedback' });
+  }
 }
 
-// Airtable integration (optional)
-async function storeInAirtable(feedback: FeedbackData) {
-  const apiKey = process.env.AIRTABLE_API_KEY;
-  const baseId = process.env.AIRTABLE_BASE_ID;
-  const tableName = process.env.AIRTABLE_TABLE_NAME || 'Feedback';
+const CSV_COLUMNS: Array<keyof FeedbackRecord> = [
+  'id', 'timestamp', 'type', 'status', 'conceptId', 'conceptTitle', 'rating', 'comment', 'sessionId', 'deviceInfo'
+];
 
-  if (!apiKey || !baseId) {
-    console.warn('Airtable not configured');
-    return;
+const csvCell = (value: unknown) => {
+  const text = value === undefined || value === null ? '' : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+function sendExport(res: NextApiResponse, format: string, records: FeedbackRecord[]) {
+  const filename = `kyorda-feedback-${new Date().toISOString().slice(0, 10)}.${format}`;
+  res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+
+  if (format === 'json') {
+    return res.status(200).json(records);
   }
 
-  await fetch(`https://api.airtable.com/v0/${baseId}/${tableName}`, {
-    method: 'POST',
-    headers: {
-      'Authorization': `Bearer ${apiKey}`,
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify({
-      records: [{
-        fields: {
-          Type: feedback.type,
-          ConceptId: feedback.conceptId || '',
-          ConceptTitle: feedback.conceptTitle || '',
-          Rating: feedback.rating || 0,
-          Comment: feedback.comment || '',
-          Timestamp: feedback.timestamp,
-          SessionId: feedback.sessionId,
-          DeviceInfo: feedback.deviceInfo || ''
-        }
-      }]
-    }),
-  });
+  const rows = records.map(record =>
+    CSV_COLUMNS.map(column => csvCell(column === 'status' ? record.status || 'new' : record[column])).join(',')
+  );
+  res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+  return res.status(200).send([CSV_COLUMNS.join(','), ...rows].join('\n'));
 }
 
-// Webhook integration (optional - for Zapier, Make.com, etc.)
-async function sendToWebhook(feedback: FeedbackData) {
-  const webhookUrl = process.env.FEEDBACK_WEBHOOK_URL;
+// PATCH /api/feedback { id, status } - triage from /admin/feedback
+async function handleUpdateStatus(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (!requireAdmin(req, res)) return;
 
-  if (!webhookUrl) {
-    console.warn('Webhook URL not configured');
-    return;
+  const { id, status } = readBody(req);
+
+  if (typeof id !== 'string' || !id) {
+    return res.status(400).json({ error: 'id is required' });
+  }
+  if (!isFeedbackStatus(status)) {
+    return res.status(400).json({ error: `status must be one of: ${FEEDBACK_STATUSES.join(', ')}` });
   }
 
-  await fetch(webhookUrl, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify(feedback),
-  });
+  try {
+    const record = await getFeedbackRepository().setStatus(id, status);
+
+    if (!record) {
+      return res.status(404).json({ error: 'Feedback not found' });
+    }
+
+    return res.status(200).json({ feedback: record });
+  } catch (error) {
+    console.error('Error updating feedback status:', error);
+    return res.status(500).json({ error: 'Failed to update feedback' });
+  }
 }
 
 export const config = {
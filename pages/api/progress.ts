@@ -0,0 +1,101 @@
+// api/progress.ts
+// Vercel Serverless Function to sync learner progress between devices
+// The learner code acts as the identity - anyone with the code can read its progress
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { isLearnerSnapshot } from '../../lib/persistence/validate';
+import { enforceRateLimit } from '../../lib/server/rateLimit';
+import { readBody } from '../../lib/server/requestBody';
+import { getProgressStore } from '../../lib/server/progressStore';
+
+const LEARNER_ID_PATTERN = /^[A-Za-z0-9_-]{6,64}$/;
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method === 'GET') {
+    return handleGetProgress(req, res);
+  }
+
+  if (req.method === 'PUT') {
+    return handlePutProgress(req, res);
+  }
+
+  return res.status(405).json({ error: 'Method not allowed' });
+}
+
+async function handleGetProgress(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  const { learnerId } = req.query;
+
+  if (typeof learnerId !== 'string' || !LEARNER_ID_PATTERN.test(learnerId)) {
+    return res.status(400).json({ error: 'A valid learnerId is required' });
+  }
+
+  try {
+    const record = await getProgressStore().get(learnerId);
+
+    if (!record) {
+      return res.status(404).json({ error: 'No saved progress' });
+    }
+
+    return res.status(200).json({
+      snapshot: record.snapshot,
+      revision: record.revision
+    });
+  } catch (error) {
+    console.error('Error loading progress:', error);
+    return res.status(500).json({ error: 'Failed to load progress' });
+  }
+}
+
+async function handlePutProgress(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  const { learnerId, snapshot, baseRevision = 0 } = readBody(req);
+
+  if (typeof learnerId !== 'string' || !LEARNER_ID_PATTERN.test(learnerId)) {
+    return res.status(400).json({ error: 'A valid learnerId is required' });
+  }
+
+  // Stored as-is and served to every device with this learner code, so check all of it
+  if (!isLearnerSnapshot(snapshot)) {
+    return res.status(400).json({ error: 'Invalid progress snapshot' });
+  }
+
+  if (typeof baseRevision !== 'number') {
+    return res.status(400).json({ error: 'baseRevision must be a number' });
+  }
+
+  if (!(await enforceRateLimit(req, res, 'progress'))) return;
+
+  try {
+    const result = await getProgressStore().put(learnerId, snapshot, baseRevision);
+
+    if (!result.ok) {
+      // Client merges the server copy and retries with the new revision
+      return res.status(409).json({
+        error: 'Progress was updated from another device',
+        snapshot: result.current.snapshot,
+        revision: result.current.revision
+      });
+    }
+
+    return res.status(200).json({ revision: result.revision });
+  } catch (error) {
+    console.error('Error saving progress:', error);
+    return res.status(500).json({ error: 'Failed to save progress' });
+  }
+}
+
+export const config = {
+  api: {
+    bodyParser: {
+      sizeLimit: '1mb',
+    },
+  },
+};
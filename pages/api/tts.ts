@@ -3,6 +3,9 @@
 // Supports both OpenAI TTS and ElevenLabs
 
 import type { NextApiRequest, NextApiResponse } from 'next';
+import { enforceRateLimit, getRequestSessionId } from '../../lib/server/rateLimit';
+import { readBody } from '../../lib/server/requestBody';
+import { isWithinBudget, recordTtsUsage } from '../../lib/server/usage';
 
 export default async function handler(
   req: NextApiRequest,
@@ -12,9 +15,9 @@ export default async function handler(
     return res.status(405).json({ error: 'Method not allowed' });
   }
 
-  const { text, provider = 'openai' } = req.body;
+  const { text, provider } = readBody(req);
 
-  if (!text) {
+  if (!text || typeof text !== 'string') {
     return res.status(400).json({ error: 'Text is required' });
   }
 
@@ -23,11 +26,19 @@ export default async function handler(
     return res.status(400).json({ error: 'Text too long. Maximum 2000 characters.' });
   }
 
+  if (!(await enforceRateLimit(req, res, 'tts'))) return;
+
+  if (!(await isWithinBudget('tts'))) {
+    return res.status(503).json({ error: 'Voice is paused for today', code: 'budget_exceeded' });
+  }
+
+  const sessionId = getRequestSessionId(req);
+
   try {
     if (provider === 'elevenlabs') {
-      return await handleElevenLabs(text, res);
+      return await handleElevenLabs(text, sessionId, res);
     } else {
-      return await handleOpenAI(text, res);
+      return await handleOpenAI(text, sessionId, res);
     }
   } catch (error) {
     console.error('TTS Error:', error);
@@ -38,7 +49,7 @@ export default async function handler(
   }
 }
 
-async function handleOpenAI(text: string, res: NextApiResponse) {
+async function handleOpenAI(text: string, sessionId: string | null, res: NextApiResponse) {
   const apiKey = process.env.OPENAI_API_KEY;
   
   if (!apiKey) {
@@ -69,6 +80,7 @@ async function handleOpenAI(text: string, res: NextApiResponse) {
   
   // Send as base64 encoded audio
   const base64Audio = Buffer.from(audioBuffer).toString('base64');
+  await recordTtsUsage(sessionId, 'openai', text.length);
   
   return res.status(200).json({ 
     audio: base64Audio,
@@ -77,7 +89,7 @@ async function handleOpenAI(text: string, res: NextApiResponse) {
   });
 }
 
-async function handleElevenLabs(text: string, res: NextApiResponse) {
+async function handleElevenLabs(text: string, sessionId: string | null, res: NextApiResponse) {
   const apiKey = process.env.ELEVENLABS_API_KEY;
   
   if (!apiKey) {
@@ -117,6 +129,7 @@ async function handleElevenLabs(text: string, res: NextApiResponse) {
 
   const audioBuffer = await response.arrayBuffer();
   const base64Audio = Buffer.from(audioBuffer).toString('base64');
+  await recordTtsUsage(sessionId, 'elevenlabs', text.length);
   
   return res.status(200).json({ 
     audio: base64Audio,
@@ -0,0 +1,49 @@
+// api/usage.ts
+// Vercel Serverless Function reporting what chat and TTS have cost (admin only)
+// Totals per day, per service and per session, plus where each service stands against its budget cap
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { requireAdmin } from '../../lib/server/adminAuth';
+import { getUsageStore } from '../../lib/server/usageStore';
+import { getBudgetStatus, summarizeUsage } from '../../lib/server/usage';
+
+const firstValue = (value: string | string[] | undefined) =>
+  Array.isArray(value) ? value[0] : value;
+
+function parseDate(value: string | undefined): Date | undefined | null {
+  if (!value) return undefined;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  if (!requireAdmin(req, res)) return;
+
+  const since = parseDate(firstValue(req.query.since));
+  const until = parseDate(firstValue(req.query.until));
+  if (since === null || until === null) {
+    return res.status(400).json({ error: 'since and until must be dates' });
+  }
+
+  try {
+    const records = await getUsageStore().list({ since, until });
+
+    return res.status(200).json({
+      ...summarizeUsage(records),
+      budgets: {
+        chat: await getBudgetStatus('chat'),
+        tts: await getBudgetStatus('tts'),
+      }
+    });
+  } catch (error) {
+    console.error('Error loading usage:', error);
+    return res.status(500).json({ error: 'Failed to load usage' });
+  }
+}
@@ -47,15 +47,18 @@ self.addEventListener('fetch', (event) => {
     event.respondWith(
       fetch(request)
         .then((response) => {
-          // Cache the new version
-          const responseClone = response.clone();
-          caches.open(CACHE_NAME).then((cache) => {
-            cache.put(request, responseClone);
-          });
+          // Cache the new version (redirects from old /learn links aren't worth keeping)
+          if (response.ok) {
+            const responseClone = response.clone();
+            caches.open(CACHE_NAME).then((cache) => {
+              cache.put(request, responseClone);
+            });
+          }
           return response;
         })
         .catch(() => {
-          // Offline - serve from cache
+          // Offline - serve from cache. Every route is the same app page, so a concept
+          // link that was never visited still opens from the cached home page.
           return caches.match(request).then((response) => {
             return response || caches.match('/');
           });
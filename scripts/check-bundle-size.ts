@@ -0,0 +1,115 @@
+// scripts/check-bundle-size.ts
+// Fails the build when the JS a page needs up front, or a lazily loaded chunk, grows past its budget - runs
+// automatically after `next build`
+
+import { existsSync, readFileSync } from 'fs';
+import { basename, join } from 'path';
+import { gzipSync } from 'zlib';
+
+const NEXT_DIR = join(__dirname, '..', '.next');
+
+// ============================================
+// BUDGETS (kB, gzipped)
+// ============================================
+
+// Everything a page downloads before it can show anything - React, Next and the page itself
+const FIRST_LOAD_BUDGET = 110;
+
+// Each screen, modal and visual, on top of the first load
+const LAZY_BUDGET = 15;
+
+// Lazily loaded pieces with their own budgets, by the module they import
+const LAZY_BUDGET_OVERRIDES: Record<string, number> = {
+  // The app shell - state and handlers only. Screens and modals belong in their own chunks.
+  KyordaApp: 20,
+  // three.js is ~126 kB on its own - it may only come with the 3D avatar and visuals, never up front
+  NebulaScene: 145,
+  OrbitalVisual: 145,
+  MoleculeVisual: 145,
+  ElectronPropertiesVisual: 145,
+  SchrodingerConceptual: 145,
+};
+
+// ============================================
+// MEASURING
+// ============================================
+
+interface BuildManifest {
+  pages: Record<string, string[]>;
+}
+
+// One entry per import() - "../components/KyordaApp.tsx -> ./screens/WelcomeScreen"
+type LoadableManifest = Record<string, { files: string[] }>;
+
+interface Measurement {
+  name: string;
+  size: number;
+  budget: number;
+}
+
+const sizeCache = new Map<string, number>();
+
+function gzippedKb(file: string): number {
+  if (!sizeCache.has(file)) {
+    sizeCache.set(file, gzipSync(readFileSync(join(NEXT_DIR, file))).length / 1024);
+  }
+  return sizeCache.get(file)!;
+}
+
+const totalKb = (files: Iterable<string>) =>
+  Array.from(files).reduce((sum, file) => sum + gzippedKb(file), 0);
+
+const isScript = (file: string) => file.endsWith('.js');
+
+function readManifest<T>(file: string): T {
+  const path = join(NEXT_DIR, file);
+  if (!existsSync(path)) {
+    console.error(`Missing .next/${file} - run \`next build\` first.`);
+    process.exit(1);
+  }
+  return JSON.parse(readFileSync(path, 'utf8'));
+}
+
+const buildManifest = readManifest<BuildManifest>('build-manifest.json');
+const loadableManifest = readManifest<LoadableManifest>('react-loadable-manifest.json');
+
+const appFiles = buildManifest.pages['/_app'] || [];
+// Already downloaded by the time anything lazy loads, so not counted against lazy budgets
+const firstLoadFiles = new Set(Object.values(buildManifest.pages).flat().filter(isScript));
+
+const measurements: Measurement[] = [
+  ...Object.entries(buildManifest.pages)
+    .filter(([page]) => page !== '/_app')
+    .map(([page, files]) => ({
+      name: page,
+      size: totalKb(new Set([...appFiles, ...files].filter(isScript))),
+      budget: FIRST_LOAD_BUDGET,
+    })),
+  ...Object.entries(loadableManifest).map(([key, { files }]) => {
+    const name = basename(key.split(' -> ')[1]);
+    return {
+      name: `${name} (lazy)`,
+      size: totalKb(files.filter(file => isScript(file) && !firstLoadFiles.has(file))),
+      budget: LAZY_BUDGET_OVERRIDES[name] ?? LAZY_BUDGET,
+    };
+  }),
+];
+
+// ============================================
+// REPORT
+// ============================================
+
+const nameWidth = Math.max(...measurements.map(m => m.name.length));
+measurements.forEach(({ name, size, budget }) => {
+  const flag = size > budget ? '  OVER BUDGET' : '';
+  console.log(`  ${name.padEnd(nameWidth)}  ${size.toFixed(1).padStart(6)} kB / ${budget} kB${flag}`);
+});
+
+const over = measurements.filter(m => m.size > m.budget);
+if (over.length > 0) {
+  console.error(`\nBundle size check failed - ${over.length} over budget. Split the new code into a lazily loaded ` +
+    'chunk, or raise the budget in scripts/check-bundle-size.ts if the growth is intended.');
+  process.exit(1);
+}
+
+console.log('\nBundle sizes are within budget.');
@@ -0,0 +1,49 @@
+// scripts/validate-content.ts
+// Validates curriculum content files - runs automatically before `next build`
+
+import { existsSync, readFileSync } from 'fs';
+import { join } from 'path';
+import { contentSources } from '../lib/curriculum/sources';
+import { validateCurriculum } from '../lib/curriculum/validate';
+import type { Module } from '../lib/curriculum/types';
+import { formatFromFilename, parseMolecule } from '../lib/molecules';
+
+const MOLECULES_DIR = join(__dirname, '..', 'public', 'molecules');
+
+// Molecule files live outside the bundle, so only this script can check they exist and parse
+function validateMoleculeFiles(): string[] {
+  const errors: string[] = [];
+
+  Object.entries(contentSources.moduleFiles).forEach(([moduleId, moduleFile]) => {
+    (moduleFile as Module).concepts.forEach(concept => {
+      concept.visuals.forEach(visual => {
+        if (visual.type !== 'molecule') return;
+        const { file } = visual;
+        const path = `modules/${moduleId}.json: ${concept.id} → public/molecules/${file}`;
+        const filePath = join(MOLECULES_DIR, file);
+        if (!existsSync(filePath)) {
+          errors.push(`${path}: file not found`);
+          return;
+        }
+        try {
+          parseMolecule(readFileSync(filePath, 'utf8'), formatFromFilename(file)!);
+        } catch (error) {
+          errors.push(`${path}: ${(error as Error).message}`);
+        }
+      });
+    });
+  });
+
+  return errors;
+}
+
+const schemaErrors = validateCurriculum(contentSources.manifest, contentSources.moduleFiles);
+const errors = schemaErrors.length > 0 ? schemaErrors : validateMoleculeFiles();
+
+if (errors.length > 0) {
+  console.error(`Curriculum validation failed with ${errors.length} error(s):`);
+  errors.forEach(error => console.error(`  - ${error}`));
+  process.exit(1);
+}
+
+console.log('Curriculum content is valid.');